@@ -0,0 +1,193 @@
+import React, { useRef, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { appliancePresets, estimateBill, type Appliance } from "@/lib/applianceEstimator";
+import type { MessageKey } from "@/lib/i18n";
+import { tariffKeys, type TariffKey, type TariffSchedule } from "@/lib/tariffEngine";
+
+type ApplianceEstimatorProps = {
+  catalogue: TariffSchedule[];
+  initialTariff: TariffKey;
+};
+
+const numberValue = (raw: string) => (raw === "" ? 0 : Number(raw));
+
+export default function ApplianceEstimator({ catalogue, initialTariff }: ApplianceEstimatorProps) {
+  const { t, money, number, percent } = useI18n();
+  const [appliances, setAppliances] = useState<Appliance[]>([]);
+  const [presetKey, setPresetKey] = useState<string>(appliancePresets[0].key);
+  const [days, setDays] = useState<number>(31);
+  const [tariffType, setTariffType] = useState<TariffKey>(initialTariff);
+  const nextId = useRef(0);
+
+  const presetName = (key: string) => t(`appliance.${key}` as MessageKey);
+
+  const addAppliance = (appliance: Omit<Appliance, "id">) => {
+    nextId.current += 1;
+    setAppliances((prev) => [...prev, { ...appliance, id: String(nextId.current) }]);
+  };
+
+  const addPreset = () => {
+    const preset = appliancePresets.find((entry) => entry.key === presetKey)!;
+    addAppliance({ name: presetName(preset.key), watts: preset.watts, quantity: 1, hoursPerDay: preset.hoursPerDay });
+  };
+
+  const updateAppliance = (id: string, updates: Partial<Appliance>) => {
+    setAppliances((prev) => prev.map((appliance) => (appliance.id === id ? { ...appliance, ...updates } : appliance)));
+  };
+
+  const billingDays = Math.max(days, 1);
+  const estimate = appliances.length > 0 ? estimateBill(appliances, { tariffType, days: billingDays, catalogue }) : null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+      <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+        <h2 className="text-lg font-semibold mb-1">{t("estimate.title")}</h2>
+        <p className="text-xs mb-4" style={{ color: "var(--muted)" }}>
+          {t("estimate.intro")}
+        </p>
+
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div>
+            <label className="label" htmlFor="estimateTariff">{t("common.tariffType")}</label>
+            <select id="estimateTariff" value={tariffType} onChange={(e) => setTariffType(e.target.value as TariffKey)} className="input bg-white">
+              {tariffKeys.map((key) => (
+                <option key={key} value={key}>{t(`tariff.${key}`)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label" htmlFor="estimateDays">{t("budget.billingDays")}</label>
+            <input id="estimateDays" type="number" value={days} onChange={(e) => setDays(Number(e.target.value))} className="input" />
+          </div>
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-end gap-2">
+          <div className="flex-1 min-w-[12rem]">
+            <label className="label" htmlFor="estimatePreset">{t("estimate.preset")}</label>
+            <select id="estimatePreset" value={presetKey} onChange={(e) => setPresetKey(e.target.value)} className="input bg-white">
+              {appliancePresets.map((preset) => (
+                <option key={preset.key} value={preset.key}>{presetName(preset.key)} ({number(preset.watts)} W)</option>
+              ))}
+            </select>
+          </div>
+          <button type="button" className="btn-soft" onClick={addPreset}>{t("estimate.add")}</button>
+          <button type="button" className="btn-soft" onClick={() => addAppliance({ name: t("estimate.customName"), watts: 100, quantity: 1, hoursPerDay: 1 })}>
+            {t("estimate.addCustom")}
+          </button>
+        </div>
+
+        <div className="mt-4 space-y-3">
+          {appliances.map((appliance) => (
+            <div key={appliance.id} className="grid grid-cols-2 md:grid-cols-12 gap-3 items-end glass p-3 rounded-none sm:rounded-xl">
+              <div className="md:col-span-4 col-span-full">
+                <label className="label" htmlFor={`appliance-${appliance.id}-name`}>{t("split.name")}</label>
+                <input id={`appliance-${appliance.id}-name`} type="text" value={appliance.name} onChange={(e) => updateAppliance(appliance.id, { name: e.target.value })} className="input" />
+              </div>
+              <div className="md:col-span-2">
+                <label className="label" htmlFor={`appliance-${appliance.id}-watts`}>{t("estimate.watts")}</label>
+                <input id={`appliance-${appliance.id}-watts`} type="number" inputMode="decimal" value={appliance.watts} onChange={(e) => updateAppliance(appliance.id, { watts: numberValue(e.target.value) })} className="input" />
+              </div>
+              <div className="md:col-span-2">
+                <label className="label" htmlFor={`appliance-${appliance.id}-quantity`}>{t("estimate.quantity")}</label>
+                <input id={`appliance-${appliance.id}-quantity`} type="number" inputMode="numeric" value={appliance.quantity} onChange={(e) => updateAppliance(appliance.id, { quantity: numberValue(e.target.value) })} className="input" />
+              </div>
+              <div className="md:col-span-2">
+                <label className="label" htmlFor={`appliance-${appliance.id}-hours`}>{t("estimate.hoursPerDay")}</label>
+                <input id={`appliance-${appliance.id}-hours`} type="number" inputMode="decimal" step="0.25" value={appliance.hoursPerDay} onChange={(e) => updateAppliance(appliance.id, { hoursPerDay: Math.min(numberValue(e.target.value), 24) })} className="input" />
+              </div>
+              <div className="md:col-span-2 flex md:justify-end">
+                <button type="button" onClick={() => setAppliances((prev) => prev.filter((other) => other.id !== appliance.id))} className="btn-danger-soft">
+                  {t("common.remove")}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+        <h2 className="text-lg font-semibold mb-4">{t("common.results")}</h2>
+
+        {!estimate ? (
+          <p className="text-gray-500 text-sm">{t("estimate.empty")}</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="border rounded-xl p-3">
+                <div className="text-xs text-gray-500 break-words">{t("estimate.units", { days: billingDays })}</div>
+                <div className="text-xl font-semibold">{t("common.kwh", { value: number(estimate.units, 1) })}</div>
+              </div>
+              <div className="border rounded-xl p-3">
+                <div className="text-xs text-gray-500 break-words">{t("estimate.topBand")}</div>
+                <div className="text-xl font-semibold">{t("estimate.band", { band: estimate.topBand })}</div>
+              </div>
+            </div>
+
+            {estimate.results.tariffType !== tariffType && (
+              <p className="text-xs m-0" style={{ color: "var(--muted)" }}>
+                {t("calc.tariffFallback", { from: t(`tariff.${tariffType}`), to: t(`tariff.${estimate.results.tariffType}`) })}
+              </p>
+            )}
+
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="break-words">{t("common.energyCost")}</span>
+                <span>{money(estimate.results.energyCost)}</span>
+              </div>
+              {estimate.results.levyLines.map((line) => (
+                <div key={line.key} className="flex justify-between">
+                  <span className="break-words">{t("common.levyLine", { levy: t(`levy.${line.key}`), rate: percent(line.rate) })}</span>
+                  <span>{money(line.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between">
+                <span className="break-words">{t("common.serviceCharge")}</span>
+                <span>{money(estimate.results.serviceCharge)}</span>
+              </div>
+            </div>
+
+            <div className="p-4 rounded-xl" style={{ background: "linear-gradient(180deg, rgba(0,51,161,0.10), rgba(0,51,161,0.06))", border: "1px solid var(--outline)" }}>
+              <div className="text-sm" style={{ color: "var(--muted)" }}>{t("estimate.monthlyBill")}</div>
+              <div className="text-2xl font-bold final-amount">{money(estimate.results.totalBill)}</div>
+            </div>
+
+            <div>
+              <h3 className="text-base font-semibold mb-2">{t("estimate.byAppliance")}</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm rounded-xl overflow-hidden" style={{ border: "1px solid var(--outline)" }}>
+                  <thead style={{ background: "var(--surface)" }}>
+                    <tr>
+                      {(["estimate.colAppliance", "estimate.colKwh", "estimate.colShare", "estimate.colOff", "estimate.colHourLess"] as MessageKey[]).map((heading) => (
+                        <th key={heading} className="text-left p-2 break-words" style={{ borderBottom: "1px solid var(--outline)" }}>{t(heading)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {estimate.impacts.map((impact) => {
+                      const appliance = appliances.find((entry) => entry.id === impact.id)!;
+                      return (
+                        <tr key={impact.id}>
+                          <td className="p-2 break-words" style={{ borderTop: "1px solid var(--outline)" }}>
+                            {appliance.name}
+                            {impact.pushesBand && <span className="accent-pill ml-2">{t("estimate.pushesBand")}</span>}
+                          </td>
+                          <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{number(impact.units, 1)}</td>
+                          <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{percent(estimate.units > 0 ? impact.units / estimate.units : 0)}</td>
+                          <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{money(impact.savingIfOff)}</td>
+                          <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{money(impact.savingPerHour)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              {estimate.impacts.some((impact) => impact.pushesBand) && (
+                <p className="text-xs mt-2 m-0" style={{ color: "var(--muted)" }}>{t("estimate.pushesBandNote")}</p>
+              )}
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
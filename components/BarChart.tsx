@@ -0,0 +1,68 @@
+import React from "react";
+
+type BarChartProps = {
+  title: string;
+  data: { label: string; values: number[] }[];
+  series: { name: string; color: string }[];
+  format: (value: number) => string;
+};
+
+const WIDTH = 560;
+const HEIGHT = 220;
+const PADDING = { top: 12, right: 8, bottom: 28, left: 52 };
+
+/** Plain SVG bar chart; more than one series stacks within each bar. */
+export default function BarChart({ title, data, series, format }: BarChartProps) {
+  const totals = data.map((point) => point.values.reduce((sum, value) => sum + value, 0));
+  const max = Math.max(...totals, 0) || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const slot = plotWidth / Math.max(data.length, 1);
+  const barWidth = Math.min(slot * 0.7, 48);
+  const ticks = [0, 0.5, 1].map((fraction) => fraction * max);
+
+  return (
+    <figure className="m-0">
+      <figcaption className="text-sm font-semibold mb-2">{title}</figcaption>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+        {ticks.map((tick) => {
+          const y = PADDING.top + plotHeight - (tick / max) * plotHeight;
+          return (
+            <g key={tick}>
+              <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y} y2={y} stroke="var(--outline)" />
+              <text x={PADDING.left - 6} y={y + 4} textAnchor="end" fontSize="10" fill="var(--muted)">{format(tick)}</text>
+            </g>
+          );
+        })}
+        {data.map((point, index) => {
+          const x = PADDING.left + index * slot + (slot - barWidth) / 2;
+          let base = PADDING.top + plotHeight;
+          return (
+            <g key={point.label}>
+              {point.values.map((value, seriesIndex) => {
+                const height = (value / max) * plotHeight;
+                base -= height;
+                return (
+                  <rect key={seriesIndex} x={x} y={base} width={barWidth} height={height} rx={3} fill={series[seriesIndex].color}>
+                    <title>{`${point.label} · ${series[seriesIndex].name}: ${format(value)}`}</title>
+                  </rect>
+                );
+              })}
+              <text x={x + barWidth / 2} y={HEIGHT - 10} textAnchor="middle" fontSize="10" fill="var(--muted)">{point.label}</text>
+            </g>
+          );
+        })}
+      </svg>
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-3 text-xs mt-1" style={{ color: "var(--muted)" }}>
+          {series.map((s) => (
+            <span key={s.name} className="inline-flex items-center gap-1">
+              <span className="inline-block h-2 w-2 rounded-full" style={{ background: s.color }} />
+              {s.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </figure>
+  );
+}
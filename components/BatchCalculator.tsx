@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { batchColumns, batchResultsCsv, runBatch, toCsv, type BatchResult } from "@/lib/batchBilling";
+import { tariffCatalogue, type TariffSchedule } from "@/lib/tariffEngine";
+import { customCatalogue, loadCustomSchedule, loadImportedSchedules } from "@/lib/tariffFile";
+
+const templateRows = [
+  [...batchColumns],
+  ["P123456", 1200, 1450, 31, "residential", 0, 0, ""],
+  ["P123457", 8800, 9310, 30, "nonResidential", 120.5, 100, "-25.50"],
+];
+
+const downloadCsv = (csv: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function BatchCalculator() {
+  const { t, money, number } = useI18n();
+  const [csv, setCsv] = useState<string>("");
+  const [fileName, setFileName] = useState<string>("");
+  const [catalogue, setCatalogue] = useState<TariffSchedule[]>(tariffCatalogue);
+  const [customRates, setCustomRates] = useState<boolean>(false);
+  const [batch, setBatch] = useState<BatchResult | null>(null);
+
+  // Bill with the same rates as the calculator, including any the user has edited or imported.
+  useEffect(() => {
+    const imported = loadImportedSchedules();
+    const stored = loadCustomSchedule();
+    if (!stored && imported.length === 0) return;
+    setCatalogue(customCatalogue(imported, stored));
+    setCustomRates(true);
+  }, []);
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setCsv(await file.text());
+    setBatch(null);
+  };
+
+  const rows = batch?.ok ? batch.rows : [];
+  const failed = rows.filter((row) => !row.ok).length;
+  const totalPayable = rows.reduce((sum, row) => sum + (row.ok ? row.results.payable : 0), 0);
+
+  return (
+    <div className="min-h-screen py-6 sm:py-10 px-0 sm:px-4 overflow-x-hidden">
+      <div className="max-w-5xl mx-auto space-y-4 sm:space-y-6">
+        <h1 className="text-3xl font-bold tracking-tight mb-6">{t("batch.title")}</h1>
+
+        <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+          <p className="text-xs mb-4" style={{ color: "var(--muted)" }}>
+            {t("batch.intro", { columns: batchColumns.join(", ") })}
+          </p>
+          {customRates && <p className="text-xs mb-4" role="note">{t("batch.customRates")}</p>}
+
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <label className="btn-soft cursor-pointer">
+              {t("batch.chooseFile")}
+              <input type="file" accept=".csv,text/csv" className="sr-only" onChange={(e) => loadFile(e.target.files?.[0])} />
+            </label>
+            {fileName && <span className="text-sm">{fileName}</span>}
+            <button type="button" className="btn-soft" onClick={() => downloadCsv(toCsv(templateRows), "ecg-batch-template.csv")}>
+              {t("batch.template")}
+            </button>
+          </div>
+
+          <label className="label" htmlFor="batchCsv">{t("batch.paste")}</label>
+          <textarea
+            id="batchCsv"
+            value={csv}
+            onChange={(e) => {
+              setCsv(e.target.value);
+              setBatch(null);
+            }}
+            rows={8}
+            className="input w-full font-mono text-xs"
+            spellCheck={false}
+          />
+
+          <div className="mt-4 flex flex-wrap gap-3">
+            <button type="button" className="btn-primary" onClick={() => setBatch(runBatch(csv, catalogue))} disabled={csv.trim() === ""}>
+              {t("batch.run")}
+            </button>
+            {rows.length > 0 && (
+              <button type="button" className="btn-soft" onClick={() => downloadCsv(batchResultsCsv(rows), "ecg-batch-results.csv")}>
+                {t("batch.download")}
+              </button>
+            )}
+          </div>
+
+          {batch && !batch.ok && (
+            <ul className="text-sm mt-4 mb-0 pl-4 list-disc" role="alert" style={{ color: "#ef4444" }}>
+              {batch.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {rows.length > 0 && (
+          <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+            <h2 className="text-lg font-semibold mb-1">{t("common.results")}</h2>
+            <p className="text-sm mb-4">
+              {t("batch.summary", { billed: rows.length - failed, failed, total: money(totalPayable) })}
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm rounded-xl overflow-hidden" style={{ border: "1px solid var(--outline)" }}>
+                <thead style={{ background: "var(--surface)" }}>
+                  <tr>
+                    {[t("batch.colLine"), t("batch.colMeter"), t("common.tariffType"), t("common.units"), t("common.totalBill"), t("batch.colPayable")].map((heading) => (
+                      <th key={heading} className="text-left p-2 break-words" style={{ borderBottom: "1px solid var(--outline)" }}>{heading}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.line} style={row.ok ? undefined : { background: "rgba(239,68,68,0.12)" }}>
+                      <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{row.line}</td>
+                      <td className="p-2 break-words" style={{ borderTop: "1px solid var(--outline)" }}>{row.meterId || "—"}</td>
+                      {row.ok ? (
+                        <>
+                          <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{t(`tariff.${row.results.tariffType}`)}</td>
+                          <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{number(row.results.units)}</td>
+                          <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{money(row.results.totalBill)}</td>
+                          <td className="p-2 font-medium" style={{ borderTop: "1px solid var(--outline)" }}>{money(row.results.payable)}</td>
+                        </>
+                      ) : (
+                        <td colSpan={4} className="p-2" style={{ borderTop: "1px solid var(--outline)", color: "#ef4444" }}>
+                          {row.issues.map((issue) => issue.message).join("; ")}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import React, { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { checkBill, checkLineKeys, DEFAULT_TOLERANCE, type BillCheck as BillCheckResult, type Cause, type CheckLineKey, type PrintedBill } from "@/lib/billCheck";
+import type { I18n } from "@/lib/i18n";
+import { daysBetween, sanitizeAdjustmentInput, tariffKeys, todayIso, type TariffKey, type TariffSchedule } from "@/lib/tariffEngine";
+
+type BillCheckProps = {
+  catalogue: TariffSchedule[];
+  initialTariff: TariffKey;
+  startDate: string;
+  endDate: string;
+  initialPrevReading: number;
+  initialCurrReading: number;
+};
+
+type CheckContext = { prevReading: number; currReading: number; startDate: string; endDate: string; tariffType: TariffKey };
+
+const numberValue = (raw: string) => (raw === "" ? 0 : Number(raw));
+
+const lineLabel = (key: CheckLineKey, { t }: I18n) => {
+  switch (key) {
+    case "units":
+      return t("common.units");
+    case "energyCost":
+      return t("common.energyCost");
+    case "serviceCharge":
+      return t("common.serviceCharge");
+    case "totalBill":
+      return t("common.totalBill");
+    default:
+      return t(`levy.${key}`);
+  }
+};
+
+const formatLine = (key: CheckLineKey, value: number, i18n: I18n) =>
+  key === "units" ? i18n.t("common.kwh", { value: i18n.number(value) }) : i18n.money(value);
+
+const describeCause = (cause: Cause, i18n: I18n) => {
+  const { t, number, percent, money } = i18n;
+  switch (cause.kind) {
+    case "estimatedReading":
+      return t("check.cause.estimatedReading", { billed: number(cause.billedUnits), metered: number(cause.meteredUnits) });
+    case "wrongTariff":
+      return t("check.cause.wrongTariff", { tariff: t(`tariff.${cause.billedAs}`) });
+    case "wrongDays":
+      return t("check.cause.wrongDays", { billed: cause.billedDays, actual: cause.actualDays });
+    case "outdatedRate":
+      return t("check.cause.outdatedRate", { schedule: cause.scheduleLabel });
+    case "levyRate":
+      return t("check.cause.levyRate", { levy: t(`levy.${cause.levy}`), billed: percent(cause.billedRate), expected: percent(cause.expectedRate) });
+    case "doesNotAddUp":
+      return t("check.cause.doesNotAddUp", { total: money(cause.linesTotal) });
+  }
+};
+
+/** Plain-text summary in the chosen language, ready to paste into a complaint. */
+const complaintSummary = (context: CheckContext, check: BillCheckResult, i18n: I18n) => {
+  const { t, number, money } = i18n;
+  const flagged = check.lines.filter((line) => line.flagged);
+  const rows = [
+    t("check.summary.heading"),
+    "",
+    t("check.summary.period", { start: context.startDate, end: context.endDate, days: daysBetween(context.startDate, context.endDate) }),
+    t("check.summary.tariff", { tariff: t(`tariff.${context.tariffType}`) }),
+    t("check.summary.readings", { prev: number(context.prevReading), curr: number(context.currReading), units: number(check.expected.units) }),
+    "",
+    flagged.length === 0 ? t("check.summary.noDifferences") : t("check.summary.differences"),
+    ...flagged.map((line) =>
+      `- ${lineLabel(line.key, i18n)}: ${t("check.summary.line", {
+        printed: formatLine(line.key, line.printed, i18n),
+        expected: formatLine(line.key, line.expected, i18n),
+      })}`,
+    ),
+  ];
+  if (check.causes.length > 0) rows.push("", t("check.summary.causes"), ...check.causes.map((cause) => `- ${describeCause(cause, i18n)}`));
+  if (check.overbilled > 0.005) rows.push("", t("check.summary.overbilled", { amount: money(check.overbilled) }));
+  else if (check.overbilled < -0.005) rows.push("", t("check.summary.underbilled", { amount: money(-check.overbilled) }));
+  return rows.join("\n");
+};
+
+export default function BillCheck({ catalogue, initialTariff, startDate, endDate, initialPrevReading, initialCurrReading }: BillCheckProps) {
+  const i18n = useI18n();
+  const { t, money, number } = i18n;
+  const [context, setContext] = useState<CheckContext>({
+    prevReading: initialPrevReading,
+    currReading: initialCurrReading,
+    startDate,
+    endDate,
+    tariffType: initialTariff,
+  });
+  const [printedText, setPrintedText] = useState<Partial<Record<CheckLineKey, string>>>({});
+  const [tolerance, setTolerance] = useState<number>(DEFAULT_TOLERANCE);
+  const [check, setCheck] = useState<BillCheckResult | null>(null);
+  const [copied, setCopied] = useState<boolean>(false);
+
+  const updateContext = (updates: Partial<CheckContext>) => setContext((prev) => ({ ...prev, ...updates }));
+
+  const runCheck = () => {
+    const printed: PrintedBill = {};
+    for (const key of checkLineKeys) {
+      const raw = printedText[key]?.trim();
+      if (raw) printed[key] = Number(raw);
+    }
+    setCopied(false);
+    setCheck(
+      checkBill(
+        { ...context, prevBalance: 0, payments: 0, adjustment: 0, catalogue },
+        printed,
+        Math.max(tolerance, 0),
+      ),
+    );
+  };
+
+  const summary = check ? complaintSummary(context, check, i18n) : "";
+
+  const copySummary = async () => {
+    try {
+      await navigator.clipboard.writeText(summary);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const downloadSummary = () => {
+    const url = URL.createObjectURL(new Blob([summary], { type: "text/plain;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `ecg-bill-check-${context.endDate || todayIso()}.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+      <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+        <h2 className="text-lg font-semibold mb-1">{t("check.title")}</h2>
+        <p className="text-xs mb-4" style={{ color: "var(--muted)" }}>
+          {t("check.intro")}
+        </p>
+
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div>
+            <label className="label" htmlFor="checkPrev">{t("common.prevReading")}</label>
+            <input id="checkPrev" type="number" inputMode="decimal" value={context.prevReading === 0 ? "" : context.prevReading} placeholder="0" onChange={(e) => updateContext({ prevReading: numberValue(e.target.value) })} className="input" />
+          </div>
+          <div>
+            <label className="label" htmlFor="checkCurr">{t("common.currReading")}</label>
+            <input id="checkCurr" type="number" inputMode="decimal" value={context.currReading === 0 ? "" : context.currReading} placeholder="0" onChange={(e) => updateContext({ currReading: numberValue(e.target.value) })} className="input" />
+          </div>
+          <div>
+            <label className="label" htmlFor="checkStart">{t("common.prevDate")}</label>
+            <input id="checkStart" type="date" value={context.startDate} max={context.endDate} onChange={(e) => updateContext({ startDate: e.target.value })} className="input" />
+          </div>
+          <div>
+            <label className="label" htmlFor="checkEnd">{t("common.currDate")}</label>
+            <input id="checkEnd" type="date" value={context.endDate} min={context.startDate} onChange={(e) => updateContext({ endDate: e.target.value })} className="input" />
+          </div>
+          <div className="sm:col-span-2">
+            <label className="label" htmlFor="checkTariff">{t("common.tariffType")}</label>
+            <select id="checkTariff" value={context.tariffType} onChange={(e) => updateContext({ tariffType: e.target.value as TariffKey })} className="input bg-white">
+              {tariffKeys.map((key) => (
+                <option key={key} value={key}>{t(`tariff.${key}`)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <h3 className="text-base font-semibold mt-6 mb-1">{t("check.printedLines")}</h3>
+        <p className="text-xs mb-3" style={{ color: "var(--muted)" }}>{t("check.printedHint")}</p>
+        <div className="grid sm:grid-cols-2 gap-4">
+          {checkLineKeys.map((key) => (
+            <div key={key}>
+              <label className="label" htmlFor={`printed-${key}`}>
+                {key === "units" ? t("calc.colUnits") : t("check.amountLabel", { line: lineLabel(key, i18n) })}
+              </label>
+              <input
+                id={`printed-${key}`}
+                type="text"
+                inputMode="decimal"
+                value={printedText[key] ?? ""}
+                onChange={(e) => setPrintedText((prev) => ({ ...prev, [key]: sanitizeAdjustmentInput(e.target.value).replace(/^[+-]/, "") }))}
+                className="input"
+              />
+            </div>
+          ))}
+          <div>
+            <label className="label" htmlFor="checkTolerance">{t("check.tolerance")}</label>
+            <input id="checkTolerance" type="number" inputMode="decimal" step="0.01" value={tolerance} onChange={(e) => setTolerance(numberValue(e.target.value))} className="input" />
+          </div>
+        </div>
+
+        <div className="mt-6 flex items-center gap-3">
+          <button onClick={runCheck} className="btn-primary">{t("check.run")}</button>
+        </div>
+      </section>
+
+      <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+        <h2 className="text-lg font-semibold mb-4">{t("common.results")}</h2>
+
+        {!check ? (
+          <p className="text-gray-500 text-sm">{t("check.empty")}</p>
+        ) : (
+          <div className="space-y-6">
+            {check.lines.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm rounded-xl overflow-hidden" style={{ border: "1px solid var(--outline)" }}>
+                  <thead style={{ background: "var(--surface)" }}>
+                    <tr>
+                      {[t("check.colLine"), t("check.colPrinted"), t("check.colExpected"), t("check.colDifference")].map((heading) => (
+                        <th key={heading} className="text-left p-2 break-words" style={{ borderBottom: "1px solid var(--outline)" }}>{heading}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {check.lines.map((line) => (
+                      <tr key={line.key} style={line.flagged ? { background: "rgba(239,68,68,0.12)" } : undefined}>
+                        <td className="p-2 break-words" style={{ borderTop: "1px solid var(--outline)" }}>{lineLabel(line.key, i18n)}</td>
+                        <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{formatLine(line.key, line.printed, i18n)}</td>
+                        <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{formatLine(line.key, line.expected, i18n)}</td>
+                        <td className="p-2" style={{ borderTop: "1px solid var(--outline)", color: line.flagged ? "#ef4444" : undefined }}>
+                          {line.key === "units" ? number(line.difference) : money(line.difference)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {check.causes.length > 0 ? (
+              <div className="rounded-xl p-3" role="alert" style={{ background: "rgba(255,204,0,0.16)", border: "1px solid rgba(255,204,0,0.35)" }}>
+                <p className="text-sm font-medium mb-2">{t("check.summary.causes")}</p>
+                <ul className="text-sm m-0 pl-4 list-disc space-y-1">
+                  {check.causes.map((cause, index) => (
+                    <li key={index}>{describeCause(cause, i18n)}</li>
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              check.lines.some((line) => line.flagged) && <p className="text-sm m-0">{t("check.noCause")}</p>
+            )}
+
+            <div>
+              <h3 className="text-base font-semibold mb-2">{t("check.complaint")}</h3>
+              <textarea readOnly value={summary} rows={10} className="input w-full font-mono text-xs" aria-label={t("check.complaint")} />
+              <div className="mt-2 flex flex-wrap gap-3">
+                <button type="button" className="btn-soft" onClick={copySummary}>{copied ? t("check.copied") : t("check.copy")}</button>
+                <button type="button" className="btn-soft" onClick={downloadSummary}>{t("check.download")}</button>
+              </div>
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
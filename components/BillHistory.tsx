@@ -0,0 +1,184 @@
+import React, { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { updateCycle, type BillingCycle, type CycleInput } from "@/lib/billHistory";
+import { validateBillRequest, type ValidationIssue } from "@/lib/billValidation";
+import { recordDeletedCycle } from "@/lib/historySync";
+import { scheduleLabel, type I18n, type MessageKey } from "@/lib/i18n";
+import { sanitizeAdjustmentInput } from "@/lib/tariffEngine";
+
+type BillHistoryProps = {
+  cycles: BillingCycle[];
+  onChange: (cycles: BillingCycle[]) => void;
+};
+
+type Draft = {
+  prevReading: string;
+  currReading: string;
+  startDate: string;
+  endDate: string;
+  prevBalance: string;
+  payments: string;
+  adjustment: string;
+};
+
+const toDraft = (input: CycleInput): Draft => ({
+  prevReading: String(input.prevReading),
+  currReading: String(input.currReading),
+  startDate: input.startDate,
+  endDate: input.endDate,
+  prevBalance: String(input.prevBalance),
+  payments: String(input.payments),
+  adjustment: String(input.adjustment),
+});
+
+const draftFields: { key: keyof Draft; label: MessageKey; type: string }[] = [
+  { key: "startDate", label: "common.prevDate", type: "date" },
+  { key: "endDate", label: "common.currDate", type: "date" },
+  { key: "prevReading", label: "common.prevReading", type: "number" },
+  { key: "currReading", label: "common.currReading", type: "number" },
+  { key: "prevBalance", label: "common.prevBalance", type: "text" },
+  { key: "payments", label: "common.payments", type: "text" },
+  { key: "adjustment", label: "common.adjustments", type: "text" },
+];
+
+// The meter event is not editable here, so its issues are shown on the reading that conflicts with it.
+const draftFieldOf = (field: string): keyof Draft | null => {
+  if (field === "meterEvent.oldFinalReading") return "prevReading";
+  if (field === "meterEvent.newStartReading" || field === "meterEvent.digits") return "currReading";
+  return draftFields.find((entry) => entry.key === field)?.key ?? null;
+};
+
+const issueText = (t: I18n["t"], issue: ValidationIssue, input: CycleInput) => {
+  const event = input.meterEvent;
+  switch (issue.code) {
+    case "required":
+      return t("validation.required");
+    case "not_a_number":
+      return t("validation.notANumber");
+    case "invalid_date":
+      return t("validation.invalidDate");
+    case "reversed_dates":
+      return t("validation.reversedDates");
+    case "malformed_adjustment":
+      return t("validation.malformedAdjustment");
+    case "reading_exceeds_register":
+      return event?.kind === "rollover" ? t("calc.exceedsRegister", { digits: event.digits }) : issue.message;
+    case "out_of_range":
+      return issue.field === "endDate" ? t("validation.periodTooLong", { max: 366 }) : t("validation.negative");
+    case "reversed_readings":
+      if (event?.kind === "replacement" && issue.field === "meterEvent.oldFinalReading") {
+        return t("validation.oldMeterReversed", { value: event.oldFinalReading });
+      }
+      if (event?.kind === "replacement" && issue.field === "meterEvent.newStartReading") {
+        return t("validation.newMeterReversed", { value: event.newStartReading });
+      }
+      return t("validation.reversedReadings");
+    default:
+      return issue.message;
+  }
+};
+
+export default function BillHistory({ cycles, onChange }: BillHistoryProps) {
+  const { t, money, number } = useI18n();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+
+  const startEdit = (cycle: BillingCycle) => {
+    setEditingId(cycle.id);
+    setDraft(toDraft(cycle.input));
+    setIssues([]);
+  };
+
+  // Edits go through the same checks as the API, so a saved cycle always bills and syncs.
+  const saveEdit = (cycle: BillingCycle) => {
+    if (!draft) return;
+    const validation = validateBillRequest({ ...cycle.input, ...draft });
+    if (!validation.ok) {
+      setIssues(validation.issues);
+      return;
+    }
+    onChange(cycles.map((entry) => (entry.id === cycle.id ? updateCycle(entry, validation.input) : entry)));
+    setEditingId(null);
+    setDraft(null);
+    setIssues([]);
+  };
+
+  const remove = (id: string) => {
+    if (!window.confirm(t("history.confirmDelete"))) return;
+    recordDeletedCycle(id);
+    onChange(cycles.filter((cycle) => cycle.id !== id));
+  };
+
+  return (
+    <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+      <h2 className="text-lg font-semibold mb-1">{t("history.title")}</h2>
+      <p className="text-xs mb-4" style={{ color: "var(--muted)" }}>
+        {t("history.intro")}
+      </p>
+
+      {cycles.length === 0 ? (
+        <p className="text-gray-500 text-sm">{t("history.empty")}</p>
+      ) : (
+        <div className="space-y-3">
+          {[...cycles].reverse().map((cycle) => (
+            <div key={cycle.id} className="glass p-3 rounded-none sm:rounded-xl">
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium">{cycle.input.startDate} → {cycle.input.endDate}</div>
+                  <div className="text-xs" style={{ color: "var(--muted)" }}>
+                    {number(cycle.input.prevReading)} → {number(cycle.input.currReading)} · {t("common.kwh", { value: number(cycle.results.units) })} · {t(`tariff.${cycle.input.tariffType}`)} · {cycle.tariff.map((schedule) => scheduleLabel(t, schedule)).join(", ")}
+                  </div>
+                </div>
+                <div className="font-semibold">{money(cycle.results.payable)}</div>
+                <button type="button" className="btn-soft" onClick={() => (editingId === cycle.id ? setEditingId(null) : startEdit(cycle))}>
+                  {editingId === cycle.id ? t("common.cancel") : t("common.edit")}
+                </button>
+                <button type="button" className="btn-danger-soft" onClick={() => remove(cycle.id)}>{t("common.delete")}</button>
+              </div>
+
+              {editingId === cycle.id && draft && (
+                <div className="mt-3 grid sm:grid-cols-2 gap-3">
+                  {issues
+                    .filter((issue) => draftFieldOf(issue.field) === null)
+                    .map((issue) => (
+                      <p key={issue.field + issue.code} className="col-span-full text-xs m-0" role="alert" style={{ color: "#ef4444" }}>
+                        {issueText(t, issue, cycle.input)}
+                      </p>
+                    ))}
+                  {draftFields.map((field) => (
+                    <div key={field.key}>
+                      <label className="label" htmlFor={`${cycle.id}-${field.key}`}>{t(field.label)}</label>
+                      <input
+                        id={`${cycle.id}-${field.key}`}
+                        type={field.type}
+                        inputMode={field.type === "date" ? undefined : "decimal"}
+                        value={draft[field.key]}
+                        onChange={(e) => {
+                          const value = field.type === "text" ? sanitizeAdjustmentInput(e.target.value) : e.target.value;
+                          setDraft({ ...draft, [field.key]: value });
+                        }}
+                        aria-invalid={issues.some((issue) => draftFieldOf(issue.field) === field.key) || undefined}
+                        className="input"
+                      />
+                      {issues
+                        .filter((issue) => draftFieldOf(issue.field) === field.key)
+                        .map((issue) => (
+                          <p key={issue.field + issue.code} className="text-xs mt-1 mb-0" role="alert" style={{ color: "#ef4444" }}>
+                            {issueText(t, issue, cycle.input)}
+                          </p>
+                        ))}
+                    </div>
+                  ))}
+                  <div className="col-span-full flex gap-3">
+                    <button type="button" className="btn-primary" onClick={() => saveEdit(cycle)}>{t("history.saveRecalculate")}</button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,78 @@
+import React from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type { I18n } from "@/lib/i18n";
+import { statementPdf, type Statement } from "@/lib/statement";
+
+export const downloadStatementPdf = (statement: Statement, i18n: I18n) => {
+  const blob = new Blob([statementPdf(statement, i18n)], { type: "application/pdf" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `ecg-bill-${statement.endDate}.pdf`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** Print-only statement; the rest of the page is hidden when printing. */
+export default function BillStatement({ statement }: { statement: Statement }) {
+  const { t, money, number, fixed } = useI18n();
+  return (
+    <div className="hidden print:block text-sm" style={{ color: "#000" }}>
+      <div className="flex items-end justify-between pb-3 mb-4" style={{ borderBottom: "2px solid #000" }}>
+        <div>
+          <h1 className="text-2xl font-bold m-0">{t("statement.title")}</h1>
+          <p className="text-xs m-0">{t("statement.subtitle")}</p>
+        </div>
+        <p className="text-xs m-0">{t("statement.issued", { date: statement.issuedOn })}</p>
+      </div>
+
+      <h2 className="text-base font-semibold mb-1">{t("statement.account")}</h2>
+      <table className="w-full mb-4">
+        <tbody>
+          <tr><td>{t("statement.tariff")}</td><td className="text-right">{statement.tariffLabel}</td></tr>
+          <tr><td>{t("statement.period")}</td><td className="text-right">{t("statement.periodDates", { from: statement.startDate, to: statement.endDate, days: statement.billingDays })}</td></tr>
+          <tr><td>{t("statement.prevReading")}</td><td className="text-right">{number(statement.prevReading)}</td></tr>
+          <tr><td>{t("statement.currReading")}</td><td className="text-right">{number(statement.currReading)}</td></tr>
+          {statement.unitsNote.map((note) => (
+            <tr key={note}><td colSpan={2}>{note}</td></tr>
+          ))}
+          <tr className="font-semibold"><td>{t("statement.units")}</td><td className="text-right">{t("common.kwh", { value: number(statement.units) })}</td></tr>
+        </tbody>
+      </table>
+
+      <h2 className="text-base font-semibold mb-1">{t("statement.bands")}</h2>
+      <table className="w-full mb-4">
+        <thead>
+          <tr><th className="text-left">{t("calc.colUnits")}</th><th className="text-left">{t("calc.colRate")}</th><th className="text-right">{t("calc.colCost")}</th></tr>
+        </thead>
+        <tbody>
+          {statement.bands.map((band, i) => (
+            <tr key={i}><td>{number(band.units)}</td><td>{fixed(band.rate, 4)}</td><td className="text-right">{fixed(band.cost, 2)}</td></tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h2 className="text-base font-semibold mb-1">{t("statement.charges")}</h2>
+      <table className="w-full mb-4">
+        <tbody>
+          {statement.charges.map((line) => (
+            <tr key={line.label}><td>{line.label}</td><td className="text-right">{money(line.amount)}</td></tr>
+          ))}
+          <tr className="font-semibold" style={{ borderTop: "1px solid #000" }}><td>{t("statement.total")}</td><td className="text-right">{money(statement.totalBill)}</td></tr>
+        </tbody>
+      </table>
+
+      <h2 className="text-base font-semibold mb-1">{t("statement.summary")}</h2>
+      <table className="w-full mb-4">
+        <tbody>
+          {statement.account.map((line) => (
+            <tr key={line.label}><td>{line.label}</td><td className="text-right">{money(line.amount)}</td></tr>
+          ))}
+          <tr className="text-lg font-bold" style={{ borderTop: "2px solid #000" }}><td>{t("statement.payable")}</td><td className="text-right">{money(statement.payable)}</td></tr>
+        </tbody>
+      </table>
+
+      <p className="text-xs mt-6">{t("statement.disclaimer")}</p>
+    </div>
+  );
+}
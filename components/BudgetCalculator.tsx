@@ -0,0 +1,175 @@
+import React, { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { affordableUnits, type ReverseResult } from "@/lib/reverseCalculator";
+import {
+  parseAmount,
+  periodEndingOn,
+  sanitizeAdjustmentInput,
+  tariffKeys,
+  type TariffKey,
+  type TariffSchedule,
+} from "@/lib/tariffEngine";
+
+type BudgetCalculatorProps = {
+  catalogue: TariffSchedule[];
+  initialTariff: TariffKey;
+  initialPrevReading: number;
+};
+
+export default function BudgetCalculator({ catalogue, initialTariff, initialPrevReading }: BudgetCalculatorProps) {
+  const { t, money, number, percent } = useI18n();
+  const [targetText, setTargetText] = useState<string>("");
+  const [prevReading, setPrevReading] = useState<number>(initialPrevReading);
+  const [billingDays, setBillingDays] = useState<number>(31);
+  const [tariffType, setTariffType] = useState<TariffKey>(initialTariff);
+  const [prevBalanceText, setPrevBalanceText] = useState<string>("");
+  const [adjustmentText, setAdjustmentText] = useState<string>("");
+  const [result, setResult] = useState<ReverseResult | null>(null);
+
+  const calculate = () => {
+    setResult(
+      affordableUnits({
+        targetPayable: parseAmount(targetText),
+        prevReading,
+        ...periodEndingOn(Math.max(billingDays, 1)),
+        tariffType,
+        prevBalance: parseAmount(prevBalanceText),
+        payments: 0,
+        adjustment: parseAmount(adjustmentText),
+        catalogue,
+      }),
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+      <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+        <h2 className="text-lg font-semibold mb-1">{t("budget.title")}</h2>
+        <p className="text-xs mb-4" style={{ color: "var(--muted)" }}>
+          {t("budget.intro")}
+        </p>
+
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div>
+            <label className="label" htmlFor="budgetTarget">{t("budget.target")}</label>
+            <input
+              id="budgetTarget"
+              type="text"
+              inputMode="decimal"
+              value={targetText}
+              placeholder={t("common.example", { value: "300" })}
+              onChange={(e) => setTargetText(sanitizeAdjustmentInput(e.target.value).replace(/^[+-]/, ""))}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label" htmlFor="budgetPrevReading">{t("common.prevReading")}</label>
+            <input
+              id="budgetPrevReading"
+              type="number"
+              inputMode="decimal"
+              value={prevReading === 0 ? "" : prevReading}
+              placeholder="0"
+              onChange={(e) => setPrevReading(e.target.value === "" ? 0 : Number(e.target.value))}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label" htmlFor="budgetDays">{t("budget.billingDays")}</label>
+            <input id="budgetDays" type="number" value={billingDays} onChange={(e) => setBillingDays(Number(e.target.value))} className="input" />
+          </div>
+          <div>
+            <label className="label" htmlFor="budgetTariff">{t("common.tariffType")}</label>
+            <select id="budgetTariff" value={tariffType} onChange={(e) => setTariffType(e.target.value as TariffKey)} className="input bg-white">
+              {tariffKeys.map((key) => (
+                <option key={key} value={key}>{t(`tariff.${key}`)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label" htmlFor="budgetBalance">{t("common.prevBalance")}</label>
+            <input
+              id="budgetBalance"
+              type="text"
+              inputMode="decimal"
+              value={prevBalanceText}
+              placeholder="0"
+              onChange={(e) => setPrevBalanceText(sanitizeAdjustmentInput(e.target.value).replace(/^\+/, ""))}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label" htmlFor="budgetAdjustment">{t("common.adjustments")}</label>
+            <input
+              id="budgetAdjustment"
+              type="text"
+              inputMode="decimal"
+              value={adjustmentText}
+              placeholder={t("common.example", { value: "-25.50" })}
+              onChange={(e) => setAdjustmentText(sanitizeAdjustmentInput(e.target.value))}
+              className="input"
+            />
+          </div>
+        </div>
+
+        <div className="mt-6 flex items-center gap-3">
+          <button onClick={calculate} className="btn-primary">{t("budget.findUnits")}</button>
+        </div>
+      </section>
+
+      <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+        <h2 className="text-lg font-semibold mb-4">{t("common.results")}</h2>
+
+        {!result ? (
+          <p className="text-gray-500 text-sm">{t("budget.empty")}</p>
+        ) : !result.affordable ? (
+          <p className="text-sm" role="alert">
+            {t("budget.unaffordable", { amount: money(result.minimumPayable) })}
+          </p>
+        ) : result.unlimited ? (
+          <p className="text-sm" role="alert">
+            {t("budget.unlimited", { units: t("common.kwh", { value: number(result.freeFrom) }), amount: money(result.results.payable) })}
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="border rounded-xl p-3">
+                <div className="text-xs text-gray-500 break-words">{t("budget.unitsYouCanUse")}</div>
+                <div className="text-xl font-semibold">{t("common.kwh", { value: number(result.wholeUnits) })}</div>
+              </div>
+              <div className="border rounded-xl p-3">
+                <div className="text-xs text-gray-500 break-words">{t("budget.stopAt")}</div>
+                <div className="text-xl font-semibold">{number(result.stopAtReading)}</div>
+              </div>
+            </div>
+
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="break-words">{t("common.energyCost")}</span>
+                <span>{money(result.results.energyCost)}</span>
+              </div>
+              {result.results.levyLines.map((line) => (
+                <div key={line.key} className="flex justify-between">
+                  <span className="break-words">{t("common.levyLine", { levy: t(`levy.${line.key}`), rate: percent(line.rate) })}</span>
+                  <span>{money(line.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between">
+                <span className="break-words">{t("common.serviceCharge")}</span>
+                <span>{money(result.results.serviceCharge)}</span>
+              </div>
+            </div>
+
+            <div className="p-4 rounded-xl" style={{ background: "linear-gradient(180deg, rgba(0,51,161,0.10), rgba(0,51,161,0.06))", border: "1px solid var(--outline)" }}>
+              <div className="text-sm" style={{ color: "var(--muted)" }}>{t("budget.payableAt", { units: t("common.kwh", { value: number(result.wholeUnits) }) })}</div>
+              <div className="text-2xl font-bold final-amount">{money(result.results.payable)}</div>
+              <p className="text-xs mt-1 m-0" style={{ color: "var(--muted)" }}>
+                {t("budget.oneMore")}
+              </p>
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from "react";
+import BarChart from "@/components/BarChart";
+import { useI18n } from "@/components/I18nProvider";
+import { averageOf, bandAlerts, summarizeCycles } from "@/lib/analytics";
+import { loadHistory, type BillingCycle } from "@/lib/billHistory";
+import type { MessageKey } from "@/lib/i18n";
+
+const cycleColumns: MessageKey[] = [
+  "analytics.colCycleEnd",
+  "analytics.colKwh",
+  "analytics.colDays",
+  "analytics.colDaily",
+  "analytics.colRate",
+  "analytics.colEnergy",
+  "analytics.colLevies",
+  "analytics.colTotal",
+];
+
+export default function ConsumptionDashboard() {
+  const { t, money, number, fixed, percent } = useI18n();
+  const [cycles, setCycles] = useState<BillingCycle[] | null>(null);
+
+  useEffect(() => {
+    setCycles(loadHistory());
+  }, []);
+
+  if (cycles === null) return null;
+
+  const stats = summarizeCycles(cycles);
+  const alerts = bandAlerts(stats);
+  const totalBilled = stats.reduce((sum, cycle) => sum + cycle.totalBill, 0);
+  const totalLevies = stats.reduce((sum, cycle) => sum + cycle.levies, 0);
+  const kwh = (value: number) => t("common.kwh", { value: number(value, 1) });
+
+  return (
+    <div className="min-h-screen py-6 sm:py-10 px-0 sm:px-4 overflow-x-hidden">
+      <div className="max-w-5xl mx-auto">
+        <h1 className="text-3xl font-bold tracking-tight mb-6">{t("analytics.title")}</h1>
+
+        {stats.length === 0 ? (
+          <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+            <p className="text-gray-500 text-sm m-0">{t("analytics.empty")}</p>
+          </section>
+        ) : (
+          <div className="space-y-4 sm:space-y-6">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="glass rounded-xl p-3">
+                <div className="text-xs text-gray-500 break-words">{t("analytics.averageCycle")}</div>
+                <div className="text-xl font-semibold">{kwh(averageOf(stats, (cycle) => cycle.units))}</div>
+              </div>
+              <div className="glass rounded-xl p-3">
+                <div className="text-xs text-gray-500 break-words">{t("analytics.averageDaily")}</div>
+                <div className="text-xl font-semibold">{kwh(averageOf(stats, (cycle) => cycle.dailyUnits))}</div>
+              </div>
+              <div className="glass rounded-xl p-3">
+                <div className="text-xs text-gray-500 break-words">{t("analytics.effectiveRate")}</div>
+                <div className="text-xl font-semibold">{t("analytics.perKwh", { amount: money(averageOf(stats, (cycle) => cycle.effectiveRate)) })}</div>
+              </div>
+              <div className="glass rounded-xl p-3">
+                <div className="text-xs text-gray-500 break-words">{t("analytics.levyShare")}</div>
+                <div className="text-xl font-semibold">{percent(totalBilled > 0 ? totalLevies / totalBilled : 0)}</div>
+              </div>
+            </div>
+
+            {alerts.length > 0 && (
+              <div className="rounded-xl p-3 sm:p-4" role="alert" style={{ background: "rgba(255,204,0,0.16)", border: "1px solid rgba(255,204,0,0.35)" }}>
+                <div className="flex items-start gap-3">
+                  <span className="accent-pill">{t("common.alert")}</span>
+                  <ul className="text-sm m-0 p-0 list-none space-y-1">
+                    {alerts.map((alert) => (
+                      <li key={alert.id}>
+                        {t("analytics.bandAlert", { label: alert.label, top: alert.topBand, usual: alert.usualBand })}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            )}
+
+            <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <BarChart
+                title={t("analytics.chartUnits")}
+                data={stats.map((cycle) => ({ label: cycle.label, values: [cycle.units] }))}
+                series={[{ name: "kWh", color: "var(--ecg-blue)" }]}
+                format={(value) => number(value, 0)}
+              />
+              <BarChart
+                title={t("analytics.chartDaily")}
+                data={stats.map((cycle) => ({ label: cycle.label, values: [cycle.dailyUnits] }))}
+                series={[{ name: "kWh/day", color: "var(--ecg-blue)" }]}
+                format={(value) => fixed(value, 1)}
+              />
+              <BarChart
+                title={t("analytics.chartRate")}
+                data={stats.map((cycle) => ({ label: cycle.label, values: [cycle.effectiveRate] }))}
+                series={[{ name: "GHS/kWh", color: "var(--ecg-yellow)" }]}
+                format={(value) => fixed(value, 2)}
+              />
+              <BarChart
+                title={t("analytics.chartSplit")}
+                data={stats.map((cycle) => ({ label: cycle.label, values: [cycle.energy, cycle.levies, cycle.fixedCharges] }))}
+                series={[
+                  { name: t("analytics.seriesEnergy"), color: "var(--ecg-blue)" },
+                  { name: t("analytics.seriesLevies"), color: "var(--ecg-yellow)" },
+                  { name: t("analytics.seriesService"), color: "var(--muted)" },
+                ]}
+                format={(value) => number(value, 0)}
+              />
+            </section>
+
+            <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+              <h2 className="text-lg font-semibold mb-4">{t("analytics.cycles")}</h2>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm rounded-xl overflow-hidden" style={{ border: "1px solid var(--outline)" }}>
+                  <thead style={{ background: "var(--surface)" }}>
+                    <tr>
+                      {cycleColumns.map((heading) => (
+                        <th key={heading} className="text-left p-2 break-words" style={{ borderBottom: "1px solid var(--outline)" }}>{t(heading)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.map((cycle) => (
+                      <tr key={cycle.id}>
+                        <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{cycle.label}</td>
+                        <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{number(cycle.units)}</td>
+                        <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{cycle.billingDays}</td>
+                        <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{fixed(cycle.dailyUnits, 2)}</td>
+                        <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{fixed(cycle.effectiveRate, 4)}</td>
+                        <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{money(cycle.energy)}</td>
+                        <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{money(cycle.levies)}</td>
+                        <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{money(cycle.totalBill)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
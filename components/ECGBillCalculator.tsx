@@ -1,153 +1,271 @@
 import React, { useEffect, useRef, useState } from "react";
+import ApplianceEstimator from "@/components/ApplianceEstimator";
+import BillCheck from "@/components/BillCheck";
+import BillHistory from "@/components/BillHistory";
+import BillStatement, { downloadStatementPdf } from "@/components/BillStatement";
+import BudgetCalculator from "@/components/BudgetCalculator";
+import ForecastCalculator from "@/components/ForecastCalculator";
+import HistorySync from "@/components/HistorySync";
+import { useI18n } from "@/components/I18nProvider";
+import MeterPhotoReader from "@/components/MeterPhotoReader";
+import PrepaidCalculator from "@/components/PrepaidCalculator";
+import ScenarioComparison from "@/components/ScenarioComparison";
+import TenantSplit from "@/components/TenantSplit";
+import {
+  createCycle,
+  loadHistory,
+  nextCycleDefaults,
+  recordCycle,
+  saveHistory,
+  type BillingCycle,
+  type CycleInput,
+} from "@/lib/billHistory";
+import { scheduleLabel, type MessageKey, type MessageParams } from "@/lib/i18n";
+import { buildStatement } from "@/lib/statement";
+import {
+  clearCustomSchedule,
+  customCatalogue,
+  loadCustomSchedule,
+  loadImportedSchedules,
+  parseTariffFile,
+  saveCustomSchedule,
+  saveImportedSchedules,
+  serializeTariffFile,
+  toImportedSchedule,
+} from "@/lib/tariffFile";
+import { decodeShareState, encodeShareState } from "@/lib/urlState";
+import {
+  bandRanges,
+  bandsOf,
+  calculateBill as computeBill,
+  convertBandMode,
+  DEFAULT_REGISTER_DIGITS,
+  daysBetween,
+  defaultSchedule,
+  levyKeys,
+  parseAmount,
+  periodEndingOn,
+  registerDigitOptions,
+  sanitizeAdjustmentInput,
+  tariffCategories,
+  tariffKeys,
+  todayIso,
+  validateBands,
+  withBands,
+  type Band,
+  type BandMode,
+  type BandSet,
+  type CalculationResults,
+  type LevyKey,
+  type MeterEvent,
+  type NetMetering,
+  type NettingRule,
+  type RateSchedule,
+  type TariffKey,
+  type TariffSchedule,
+} from "@/lib/tariffEngine";
 
-type Band = { limit: number; rate: number };
-type TariffKey = "residential" | "nonResidential";
-
-type CalculationResults = {
-  units: number;
-  bandBreakdown: { used: number; rate: number; cost: number }[];
-  energyCost: number;
-  serviceCharge: number;
-  natElectLevy: number;
-  streetLight: number;
-  nhilGetFund: number;
-  vat: number;
-  totalBill: number;
-  adjustment: number;
-  payable: number;
-};
-
-const initialRates: Record<TariffKey, Band[]> = {
-  residential: [
-    { limit: 50, rate: 1.4878 },
-    { limit: 250, rate: 1.9 },
-    { limit: 300, rate: 2.3 },
-    { limit: Infinity, rate: 2.5 },
-  ],
-  nonResidential: [{ limit: Infinity, rate: 1.59 }],
-};
-
-const sanitizeAdjustmentInput = (raw: string) => {
-  let value = raw.replace(/[^0-9+.-]/g, "");
-  if (value.length === 0) return "";
-  const signMatch = value.match(/^[+-]/);
-  const sign = signMatch ? signMatch[0] : "";
-  value = sign + value.slice(sign.length).replace(/[+-]/g, "");
-  const unsigned = value.slice(sign.length);
-  const parts = unsigned.split(".");
-  const integerPart = parts[0];
-  const decimalPart = parts.slice(1).join("");
-  const normalizedInteger = integerPart.replace(/^0+(?=\d)/, "");
-  const trimmedInteger = normalizedInteger === "" && integerPart.includes("0") ? "0" : normalizedInteger;
-  const result = sign + trimmedInteger + (decimalPart ? "." + decimalPart : "");
-  return result;
-};
+const noImports: TariffSchedule[] = [];
+
+type CalculatorMode = "bill" | "check" | "forecast" | "compare" | "prepaid" | "budget" | "estimate" | "split" | "history";
+
+const calculatorModes: CalculatorMode[] = ["bill", "check", "forecast", "compare", "prepaid", "budget", "estimate", "split", "history"];
 
 export default function ECGBillCalculator() {
+  const i18n = useI18n();
+  const { t, money, number, fixed, percent } = i18n;
+  const [mode, setMode] = useState<CalculatorMode>("bill");
   const [prevReading, setPrevReading] = useState<number>(0);
-  const [currReading, setCurrReading] = useState<number>(0);
-  const [billingDays, setBillingDays] = useState<number>(31);
+  // Null until a current reading is entered, so a register that rolled over to 0 still reads as a rollover.
+  const [currReadingEntry, setCurrReading] = useState<number | null>(null);
+  const currReading = currReadingEntry ?? 0;
+  const [startDate, setStartDate] = useState<string>("");
+  const [endDate, setEndDate] = useState<string>("");
   const [prevBalance, setPrevBalance] = useState<number>(0);
   const [prevBalanceText, setPrevBalanceText] = useState<string>("");
   const [payments, setPayments] = useState<number>(0);
   const [adjustmentText, setAdjustmentText] = useState<string>("");
   const [tariffType, setTariffType] = useState<TariffKey>("residential");
+  const [maxDemandKva, setMaxDemandKva] = useState<number>(0);
   const [quickMode, setQuickMode] = useState<boolean>(true);
+  const [meterEventKind, setMeterEventKind] = useState<MeterEvent["kind"]>("rollover");
+  const [registerDigits, setRegisterDigits] = useState<number>(DEFAULT_REGISTER_DIGITS);
+  const [oldFinalReading, setOldFinalReading] = useState<number>(0);
+  const [newStartReading, setNewStartReading] = useState<number>(0);
+  const [solar, setSolar] = useState<boolean>(false);
+  const [exportPrev, setExportPrev] = useState<number>(0);
+  const [exportCurr, setExportCurr] = useState<number>(0);
+  const [nettingRule, setNettingRule] = useState<NettingRule>("netUnits");
+  const [exportRate, setExportRate] = useState<number>(0);
+  const [creditBeforeLevies, setCreditBeforeLevies] = useState<boolean>(false);
   const [results, setResults] = useState<CalculationResults | null>(null);
-  const [rates, setRates] = useState<Record<TariffKey, Band[]>>(initialRates);
+  const [billedInput, setBilledInput] = useState<CycleInput | null>(null);
+  // `schedule` is the rate editor's copy of the latest schedule; `imported` are files placed at their own start dates.
+  const [schedule, setSchedule] = useState<RateSchedule>(defaultSchedule);
+  const [imported, setImported] = useState<TariffSchedule[]>(noImports);
+  const [tariffJson, setTariffJson] = useState<string>("");
+  const [tariffFileErrors, setTariffFileErrors] = useState<string[]>([]);
+  const [tariffFileNotice, setTariffFileNotice] = useState<string | null>(null);
   const [showRateEditor, setShowRateEditor] = useState<boolean>(false);
   const [rememberReadings, setRememberReadings] = useState<boolean>(true);
-  const [savedPrevReading, setSavedPrevReading] = useState<number | null>(null);
-  const [savedCurrReading, setSavedCurrReading] = useState<number | null>(null);
+  const [history, setHistory] = useState<BillingCycle[]>([]);
+  const [shareNotice, setShareNotice] = useState<{ key: MessageKey; params?: MessageParams } | null>(null);
+  // Rates opened from a shared link apply to this visit only until the user keeps them.
+  const [linkRates, setLinkRates] = useState<boolean>(false);
   const resultsRef = useRef<HTMLDivElement | null>(null);
 
+  const rates = bandsOf(schedule);
+  const updateRates = (update: (prev: Record<TariffKey, BandSet>) => Record<TariffKey, BandSet>) =>
+    setSchedule((prev) => withBands(prev, update(bandsOf(prev))));
+
+  const applyNextCycleDefaults = (cycles: BillingCycle[]) => {
+    const defaults = nextCycleDefaults(cycles);
+    if (!defaults) return;
+    setPrevReading(defaults.prevReading);
+    setStartDate(defaults.startDate);
+    setPrevBalance(defaults.prevBalance);
+    setPrevBalanceText(defaults.prevBalance === 0 ? "" : String(defaults.prevBalance));
+  };
+
   useEffect(() => {
+    // Dates are set on mount so the prerendered page does not carry the build date.
+    setStartDate(periodEndingOn(31).startDate);
+    setEndDate(todayIso());
+    const cycles = loadHistory();
+    setHistory(cycles);
+    applyNextCycleDefaults(cycles);
+    const storedImports = loadImportedSchedules();
+    const stored = loadCustomSchedule() ?? (storedImports.length > 0 ? customCatalogue(storedImports, null).at(-1)! : null);
+    if (storedImports.length > 0) setImported(storedImports);
+    if (stored) setSchedule(stored);
     try {
-      const sp = localStorage.getItem("ecg_prev_reading");
-      const sc = localStorage.getItem("ecg_curr_reading");
-      const sb = localStorage.getItem("ecg_prev_balance");
-      const sa = localStorage.getItem("ecg_adjustment");
-      if (sp !== null && !Number.isNaN(Number(sp))) setSavedPrevReading(Number(sp));
-      if (sc !== null && !Number.isNaN(Number(sc))) setSavedCurrReading(Number(sc));
-      if (sb !== null) {
-        const sanitized = sanitizeAdjustmentInput(sb).replace(/^\+/, "");
-        setPrevBalanceText(sanitized);
-        const numeric = sanitized.trim() === "" ? 0 : Number(sanitized);
-        setPrevBalance(Number.isNaN(numeric) ? 0 : numeric);
-      }
-      if (sa !== null) setAdjustmentText(sa);
       const sr = localStorage.getItem("ecg_remember");
       if (sr === "false") setRememberReadings(false);
     } catch {}
+
+    const { state, invalid, present } = decodeShareState(window.location.search);
+    if (!present) return;
+    if (state.prevReading !== undefined) setPrevReading(state.prevReading);
+    if (state.currReading !== undefined) setCurrReading(state.currReading);
+    if (state.startDate !== undefined) setStartDate(state.startDate);
+    if (state.endDate !== undefined) setEndDate(state.endDate);
+    if (state.tariffType !== undefined) setTariffType(state.tariffType);
+    if (state.prevBalance !== undefined) {
+      setPrevBalanceText(state.prevBalance);
+      setPrevBalance(parseAmount(state.prevBalance));
+    }
+    if (state.payments !== undefined) setPayments(state.payments);
+    if (state.adjustment !== undefined) setAdjustmentText(state.adjustment);
+    if (state.quickMode !== undefined) setQuickMode(state.quickMode);
+    if (state.maxDemandKva !== undefined) setMaxDemandKva(state.maxDemandKva);
+    if (state.meterEvent?.kind === "rollover") {
+      setMeterEventKind("rollover");
+      setRegisterDigits(state.meterEvent.digits);
+    } else if (state.meterEvent?.kind === "replacement") {
+      setMeterEventKind("replacement");
+      setOldFinalReading(state.meterEvent.oldFinalReading);
+      setNewStartReading(state.meterEvent.newStartReading);
+    }
+    if (state.netMetering) {
+      setSolar(true);
+      setExportPrev(state.netMetering.exportPrev);
+      setExportCurr(state.netMetering.exportCurr);
+      setNettingRule(state.netMetering.rule);
+      setExportRate(state.netMetering.exportRate);
+      setCreditBeforeLevies(state.netMetering.creditBeforeLevies);
+    }
+    if (state.schedule !== undefined) {
+      const from = state.ratesFrom;
+      setSchedule(state.schedule);
+      setImported(from ? [{ ...state.schedule, id: "shared", label: "Shared rates", effectiveFrom: from }] : noImports);
+      setLinkRates(true);
+    }
+    if (invalid.length > 0) setShareNotice({ key: "calc.linkInvalid", params: { fields: invalid.join(", ") } });
   }, []);
 
-  const serviceChargeFlat: Record<TariffKey, number> = {
-    residential: 2.13,
-    nonResidential: 12.43,
+  useEffect(() => {
+    if (schedule !== defaultSchedule && !linkRates) saveCustomSchedule(schedule);
+  }, [schedule, linkRates]);
+
+  useEffect(() => {
+    if (imported !== noImports && !linkRates) saveImportedSchedules(imported);
+  }, [imported, linkRates]);
+
+  const copyShareLink = async () => {
+    const query = encodeShareState({
+      prevReading,
+      currReading: currReadingEntry,
+      startDate,
+      endDate,
+      tariffType,
+      prevBalance: prevBalanceText,
+      payments,
+      adjustment: adjustmentText,
+      quickMode,
+      maxDemandKva,
+      meterEvent: meterEvent ?? null,
+      netMetering: netMetering ?? null,
+      schedule,
+      ratesFrom: catalogue[catalogue.length - 1].effectiveFrom,
+    });
+    const url = `${window.location.origin}${window.location.pathname}?${query}`;
+    window.history.replaceState(null, "", url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareNotice({ key: "calc.linkCopied" });
+    } catch {
+      setShareNotice({ key: "calc.linkInAddressBar" });
+    }
+  };
+
+  const updateHistory = (cycles: BillingCycle[]) => {
+    setHistory(cycles);
+    saveHistory(cycles);
   };
-  const streetLightRate = 0.03;
-  const nelRate = 0.02;
-  const nhilGetRate = 0.05;
-  const vatRate = 0.15;
+
+  const lastCycle = nextCycleDefaults(history);
+
+  const readingReversed = currReadingEntry !== null && currReadingEntry < prevReading;
+  const exceedsRegister = readingReversed && meterEventKind === "rollover" && Math.max(prevReading, currReading) >= 10 ** registerDigits;
+  const meterEvent: MeterEvent | undefined = !readingReversed
+    ? undefined
+    : meterEventKind === "rollover"
+      ? { kind: "rollover", digits: registerDigits }
+      : { kind: "replacement", oldFinalReading, newStartReading };
+  const netMetering: NetMetering | undefined = solar
+    ? { exportPrev, exportCurr, rule: nettingRule, exportRate, creditBeforeLevies }
+    : undefined;
+
+  const bandIssues = validateBands(rates[tariffType].bands, rates[tariffType].mode);
+  const ranges = bandRanges(rates[tariffType].bands, rates[tariffType].mode);
+
+  const catalogue = customCatalogue(imported, schedule);
+  const billingPeriod = quickMode ? periodEndingOn(31) : { startDate, endDate };
 
   const calculateBill = () => {
-    const units = Math.max(currReading - prevReading, 0);
-    const bands = rates[tariffType];
-    let remaining = units;
-    let energyCost = 0;
-    const bandBreakdown: { used: number; rate: number; cost: number }[] = [];
-
-    for (const band of bands) {
-      if (remaining <= 0) break;
-      const used = Math.min(remaining, band.limit);
-      const cost = used * band.rate;
-      energyCost += cost;
-      bandBreakdown.push({ used, rate: band.rate, cost });
-      remaining -= used;
+    if (bandIssues.length > 0) {
+      setShowRateEditor(true);
+      return;
     }
+    if (exceedsRegister) return;
+    const input: CycleInput = {
+      prevReading,
+      currReading,
+      ...billingPeriod,
+      tariffType,
+      maxDemandKva,
+      prevBalance: quickMode ? 0 : prevBalance,
+      payments: quickMode ? 0 : payments,
+      adjustment: quickMode ? 0 : parseAmount(adjustmentText),
+      ...(meterEvent ? { meterEvent } : {}),
+      ...(netMetering ? { netMetering } : {}),
+    };
+    setResults(computeBill({ ...input, catalogue }));
+    setBilledInput(input);
 
-    const days = quickMode ? 31 : billingDays;
-    const balance = quickMode ? 0 : prevBalance;
-    const paid = quickMode ? 0 : payments;
-    const normalizedAdjustment = sanitizeAdjustmentInput(adjustmentText);
-    const parsedAdjustment = normalizedAdjustment.trim() === "" ? 0 : Number(normalizedAdjustment);
-    const adj = quickMode || Number.isNaN(parsedAdjustment) ? 0 : parsedAdjustment;
-
-    const streetLight = energyCost * streetLightRate;
-    const natElectLevy = energyCost * nelRate;
-    const nhilGetFund = tariffType === "nonResidential" ? energyCost * nhilGetRate : 0;
-    const vatBase = tariffType === "nonResidential" ? energyCost + streetLight + natElectLevy + nhilGetFund : 0;
-    const vat = tariffType === "nonResidential" ? vatBase * vatRate : 0;
-    const serviceCharge = serviceChargeFlat[tariffType] * (days / 31);
-    const totalBill = energyCost + streetLight + natElectLevy + nhilGetFund + vat + serviceCharge;
-    const payable = totalBill + balance - paid + adj;
-
-    setResults({
-      units,
-      bandBreakdown,
-      energyCost,
-      serviceCharge,
-      natElectLevy,
-      streetLight,
-      nhilGetFund,
-      vat,
-      totalBill,
-      adjustment: adj,
-      payable,
-    });
-
+    if (rememberReadings) updateHistory(recordCycle(history, createCycle(input, catalogue)));
     try {
-      if (rememberReadings) {
-        localStorage.setItem("ecg_prev_reading", String(prevReading));
-        localStorage.setItem("ecg_curr_reading", String(currReading));
-        localStorage.setItem("ecg_prev_balance", prevBalanceText);
-        localStorage.setItem("ecg_adjustment", sanitizeAdjustmentInput(adjustmentText));
-        localStorage.setItem("ecg_remember", "true");
-        setSavedPrevReading(prevReading);
-        setSavedCurrReading(currReading);
-      } else {
-        localStorage.setItem("ecg_remember", "false");
-      }
+      localStorage.setItem("ecg_remember", rememberReadings ? "true" : "false");
     } catch {}
 
     // Smoothly scroll to results after rendering
@@ -157,45 +275,115 @@ export default function ECGBillCalculator() {
   };
 
   const updateBand = (type: TariffKey, index: number, updates: Partial<Band>) => {
-    setRates((prev) => {
+    updateRates((prev) => {
       const next = { ...prev };
-      const arr = [...next[type]];
+      const arr = [...next[type].bands];
       const current = arr[index];
       arr[index] = { ...current, ...updates };
-      next[type] = arr;
+      next[type] = { ...next[type], bands: arr };
       return next;
     });
   };
 
   const addBandBeforeInfinity = (type: TariffKey) => {
-    setRates((prev) => {
+    updateRates((prev) => {
       const next = { ...prev };
-      const arr = [...next[type]];
+      const { mode } = next[type];
+      const arr = [...next[type].bands];
       const infIndex = arr.length - 1;
-      arr.splice(infIndex, 0, { limit: 100, rate: 0 });
-      next[type] = arr;
+      // A cumulative limit has to sit above the band before it.
+      const floor = mode === "cumulative" && infIndex > 0 ? arr[infIndex - 1].limit : 0;
+      arr.splice(infIndex, 0, { limit: floor + 100, rate: 0 });
+      next[type] = { ...next[type], bands: arr };
       return next;
     });
   };
 
   const removeBand = (type: TariffKey, index: number) => {
-    setRates((prev) => {
+    updateRates((prev) => {
       const next = { ...prev };
-      const arr = [...next[type]];
+      const arr = [...next[type].bands];
       const lastIndex = arr.length - 1;
       if (index >= 0 && index < lastIndex) {
         arr.splice(index, 1);
       }
-      next[type] = arr;
+      next[type] = { ...next[type], bands: arr };
       return next;
     });
   };
 
-  const resetRates = () => setRates(initialRates);
+  const setBandMode = (type: TariffKey, mode: BandMode) => {
+    updateRates((prev) => ({
+      ...prev,
+      [type]: { mode, bands: convertBandMode(prev[type].bands, prev[type].mode, mode) },
+    }));
+  };
+
+  const resetRates = () => {
+    setSchedule(defaultSchedule);
+    setImported(noImports);
+    setLinkRates(false);
+    clearCustomSchedule();
+    setTariffFileErrors([]);
+    setTariffFileNotice(t("rates.resetDone"));
+  };
+
+  const updateCategory = (type: TariffKey, updates: { serviceCharge?: number; demandRate?: number }) => {
+    setSchedule((prev) => ({
+      ...prev,
+      categories: { ...prev.categories, [type]: { ...prev.categories[type], ...updates } },
+    }));
+  };
+
+  const updateLevy = (key: LevyKey, percent: number) => {
+    setSchedule((prev) => ({ ...prev, levies: { ...prev.levies, [key]: percent / 100 } }));
+  };
+
+  const exportTariff = () => {
+    const json = serializeTariffFile(schedule, { name: "Custom tariff", effectiveFrom: catalogue[catalogue.length - 1].effectiveFrom });
+    const url = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `ecg-tariff-${todayIso()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importTariff = (text: string) => {
+    const parsed = parseTariffFile(text);
+    if (!parsed.ok) {
+      setTariffFileErrors(parsed.errors);
+      setTariffFileNotice(null);
+      return;
+    }
+    setLinkRates(false);
+    setTariffFileErrors([]);
+    setTariffJson("");
+    const { name, effectiveFrom } = parsed.meta;
+    // A file without a start date stands in for the latest schedule, like edits made in the rate editor.
+    if (effectiveFrom === "") {
+      setSchedule(parsed.schedule);
+      setTariffFileNotice(t("rates.loaded", { name }));
+      return;
+    }
+    const nextImported = [...imported.filter((entry) => entry.effectiveFrom !== effectiveFrom), toImportedSchedule(parsed.schedule, parsed.meta)];
+    setImported(nextImported);
+    // The rate editor keeps showing the latest schedule, so it only takes the file's rates when the file is now the latest.
+    const latest = customCatalogue(nextImported, null).at(-1)!;
+    if (latest.effectiveFrom === effectiveFrom) setSchedule(parsed.schedule);
+    setTariffFileNotice(t("rates.loadedFrom", { name, date: effectiveFrom }));
+  };
+
+  const importTariffFile = async (file: File | undefined) => {
+    if (file) importTariff(await file.text());
+  };
+
+  const statement = results && billedInput ? buildStatement(billedInput, results, i18n) : null;
 
   return (
     <div className="min-h-screen py-6 sm:py-10 px-0 sm:px-4 overflow-x-hidden">
-      <div className="max-w-5xl mx-auto">
+      {statement && <BillStatement statement={statement} />}
+      <div className="max-w-5xl mx-auto print:hidden">
         <div
           className="mb-4 sm:mb-6 rounded-xl p-3 sm:p-4"
           role="note"
@@ -204,18 +392,112 @@ export default function ECGBillCalculator() {
             border: "1px solid rgba(255,204,0,0.35)",
           }}
         >
-          <div className="flex items-start gap-3">
-            <span className="accent-pill">Note</span>
-            <p className="text-sm leading-5 m-0" style={{ color: "var(--foreground)" }}>
-              This calculator is for ECG postpaid bills only. It does not apply to prepaid meters.
+          <div className="flex flex-wrap items-start gap-3">
+            <span className="accent-pill">{t("common.note")}</span>
+            <p className="text-sm leading-5 m-0 flex-1" style={{ color: "var(--foreground)" }}>
+              {t("calc.prepaidNote")}
             </p>
+            {mode !== "prepaid" && (
+              <button type="button" className="text-sm hover:underline" onClick={() => setMode("prepaid")}>{t("calc.openPrepaid")}</button>
+            )}
           </div>
         </div>
-        <h1 className="text-3xl font-bold tracking-tight mb-6">ECG Bill Calculator</h1>
+        <h1 className="text-3xl font-bold tracking-tight mb-6">{t("app.title")}</h1>
+
+        {shareNotice && (
+          <div className="mb-4 sm:mb-6 rounded-xl p-3 flex items-start gap-3" role="status" style={{ background: "rgba(0,51,161,0.08)", border: "1px solid var(--outline)" }}>
+            <p className="text-sm m-0 flex-1">{t(shareNotice.key, shareNotice.params)}</p>
+            <button type="button" className="text-sm hover:underline" aria-label={t("common.dismiss")} onClick={() => setShareNotice(null)}>{t("common.dismiss")}</button>
+          </div>
+        )}
+
+        {linkRates && (
+          <div className="mb-4 sm:mb-6 rounded-xl p-3 flex flex-wrap items-start gap-3" role="status" style={{ background: "rgba(0,51,161,0.08)", border: "1px solid var(--outline)" }}>
+            <p className="text-sm m-0 flex-1">{t("calc.linkRates")}</p>
+            <button type="button" className="btn-soft" onClick={() => setLinkRates(false)}>{t("calc.keepLinkRates")}</button>
+          </div>
+        )}
+
+        <div className="mb-4 sm:mb-6 flex flex-wrap gap-2" role="tablist" aria-label={t("calc.mode")}>
+          {calculatorModes.map((m) => (
+            <button
+              key={m}
+              type="button"
+              role="tab"
+              aria-selected={mode === m}
+              onClick={() => setMode(m)}
+              className="btn-soft"
+              style={mode === m ? { background: "var(--ecg-blue)", borderColor: "var(--ecg-blue)", color: "#fff" } : undefined}
+            >
+              {t(`calc.mode.${m}`)}
+            </button>
+          ))}
+        </div>
+
+        {mode === "history" && (
+          <div className="space-y-4 sm:space-y-6">
+            <HistorySync cycles={history} onChange={updateHistory} initialTariff={tariffType} />
+            <BillHistory cycles={history} onChange={updateHistory} />
+          </div>
+        )}
+
+        {mode === "split" && (
+          <TenantSplit
+            catalogue={catalogue}
+            tariffType={tariffType}
+            {...billingPeriod}
+            initialPrevReading={prevReading}
+            initialCurrReading={currReading}
+          />
+        )}
+
+        {mode === "check" && (
+          <BillCheck
+            catalogue={catalogue}
+            initialTariff={tariffType}
+            {...billingPeriod}
+            initialPrevReading={prevReading}
+            initialCurrReading={currReading}
+          />
+        )}
+
+        {mode === "forecast" && (
+          <ForecastCalculator
+            catalogue={catalogue}
+            initialTariff={tariffType}
+            startDate={lastCycle?.startDate ?? billingPeriod.startDate}
+            initialPrevReading={lastCycle?.prevReading ?? prevReading}
+          />
+        )}
+
+        {mode === "compare" && (
+          <ScenarioComparison
+            schedule={schedule}
+            initialTariff={tariffType}
+            {...billingPeriod}
+            initialPrevReading={prevReading}
+            initialCurrReading={currReading}
+          />
+        )}
+
+        {mode === "prepaid" && (
+          <PrepaidCalculator catalogue={catalogue} initialTariff={tariffType} />
+        )}
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+        {mode === "estimate" && (
+          <ApplianceEstimator catalogue={catalogue} initialTariff={tariffType} />
+        )}
+
+        {mode === "budget" && (
+          <BudgetCalculator catalogue={catalogue} initialTariff={tariffType} initialPrevReading={prevReading || (lastCycle?.prevReading ?? 0)} />
+        )}
+
+        <div className={`grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6 ${mode === "bill" ? "" : "hidden"}`}>
           <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
-            <h2 className="text-lg font-semibold mb-4">Inputs</h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold">{t("calc.inputs")}</h2>
+              <button type="button" className="btn-soft" onClick={copyShareLink}>{t("calc.copyLink")}</button>
+            </div>
 
             <div className="mb-4 px-1">
               <div className="flex items-center gap-3">
@@ -223,7 +505,7 @@ export default function ECGBillCalculator() {
                   type="button"
                   role="switch"
                   aria-checked={quickMode}
-                  aria-label="Toggle Quick Mode"
+                  aria-label={t("calc.toggleQuickMode")}
                   onClick={() => setQuickMode(!quickMode)}
                   className="relative inline-flex h-7 w-12 items-center rounded-full transition-colors focus:outline-none"
                   style={{ background: quickMode ? "var(--ecg-blue)" : "var(--outline)" }}
@@ -234,11 +516,11 @@ export default function ECGBillCalculator() {
                 </button>
                 <div className="flex-1">
                   <div className="flex items-center gap-2">
-                    <span className="font-medium">Quick Mode</span>
-                    <span className="accent-pill hidden md:inline-block">Fast</span>
+                    <span className="font-medium">{t("calc.quickMode")}</span>
+                    <span className="accent-pill hidden md:inline-block">{t("calc.fast")}</span>
                   </div>
                   <p className="text-xs mt-0.5" style={{ color: "var(--muted)" }}>
-                    Enter previous and current kWh only (31 days, no arrears)
+                    {t("calc.quickModeHint")}
                   </p>
                 </div>
               </div>
@@ -251,7 +533,7 @@ export default function ECGBillCalculator() {
                   type="button"
                   role="switch"
                   aria-checked={rememberReadings}
-                  aria-label="Remember readings"
+                  aria-label={t("calc.toggleHistory")}
                   onClick={() => setRememberReadings(!rememberReadings)}
                   className="relative inline-flex h-6 w-10 items-center rounded-full transition-colors focus:outline-none"
                   style={{ background: rememberReadings ? "var(--ecg-blue)" : "var(--outline)" }}
@@ -261,14 +543,14 @@ export default function ECGBillCalculator() {
                   />
                 </button>
                 <div className="flex-1">
-                  <span className="text-sm">Remember readings (local)</span>
+                  <span className="text-sm">{t("calc.saveHistory")}</span>
                 </div>
               </div>
             </div>
 
             <div className="grid sm:grid-cols-2 gap-4">
               <div>
-                <label className="label" htmlFor="prevReading">Previous Reading (kWh)</label>
+                <label className="label" htmlFor="prevReading">{t("common.prevReading")}</label>
                   <input
                     id="prevReading"
                     type="number"
@@ -279,46 +561,177 @@ export default function ECGBillCalculator() {
                     onChange={(e) => setPrevReading(e.target.value === "" ? 0 : Number(e.target.value))}
                     className="input"
                   />
-                {prevReading === 0 && (
+                <MeterPhotoReader id="prevReadingPhoto" onConfirm={setPrevReading} />
+                {prevReading === 0 && lastCycle && (
                   <div className="mt-1 flex flex-wrap items-center gap-2 text-xs" style={{ color: "var(--muted)" }}>
-                    {savedPrevReading !== null && (
-                      <button type="button" className="btn-soft" onClick={() => setPrevReading(savedPrevReading!)}>
-                        Use saved: {savedPrevReading}
-                      </button>
-                    )}
-                    {savedPrevReading === null && savedCurrReading !== null && (
-                      <button type="button" className="btn-soft" onClick={() => setPrevReading(savedCurrReading!)}>
-                        Use last current: {savedCurrReading}
-                      </button>
-                    )}
+                    <button type="button" className="btn-soft" onClick={() => applyNextCycleDefaults(history)}>
+                      {t("calc.useLastReading", { reading: number(lastCycle.prevReading) })}
+                    </button>
                   </div>
                 )}
               </div>
               <div>
-                <label className="label" htmlFor="currReading">Current Reading (kWh)</label>
+                <label className="label" htmlFor="currReading">{t("common.currReading")}</label>
                 <input
                   id="currReading"
                   type="number"
                   inputMode="decimal"
                   pattern="[0-9]*"
-                  value={currReading === 0 ? "" : currReading}
+                  value={currReadingEntry ?? ""}
                   placeholder="0"
-                  onChange={(e) => setCurrReading(e.target.value === "" ? 0 : Number(e.target.value))}
+                  onChange={(e) => setCurrReading(e.target.value === "" ? null : Number(e.target.value))}
                   className="input"
                 />
+                <MeterPhotoReader id="currReadingPhoto" onConfirm={setCurrReading} />
               </div>
             </div>
 
+            {readingReversed && (
+              <div className="mt-4 rounded-xl p-3" role="alert" style={{ background: "rgba(255,204,0,0.16)", border: "1px solid rgba(255,204,0,0.35)" }}>
+                <p className="text-sm font-medium mb-2">{t("calc.readingReversed")}</p>
+                <div className="flex flex-wrap gap-2 mb-3">
+                  <button
+                    type="button"
+                    className="btn-soft"
+                    aria-pressed={meterEventKind === "rollover"}
+                    style={meterEventKind === "rollover" ? { borderColor: "var(--ecg-blue)", color: "var(--ecg-blue)" } : undefined}
+                    onClick={() => setMeterEventKind("rollover")}
+                  >
+                    {t("calc.rolledOver")}
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-soft"
+                    aria-pressed={meterEventKind === "replacement"}
+                    style={meterEventKind === "replacement" ? { borderColor: "var(--ecg-blue)", color: "var(--ecg-blue)" } : undefined}
+                    onClick={() => setMeterEventKind("replacement")}
+                  >
+                    {t("calc.replaced")}
+                  </button>
+                </div>
+                {meterEventKind === "rollover" ? (
+                  <div>
+                    <label className="label" htmlFor="registerDigits">{t("calc.registerDigits")}</label>
+                    <select id="registerDigits" value={registerDigits} onChange={(e) => setRegisterDigits(Number(e.target.value))} className="input bg-white">
+                      {registerDigitOptions.map((digits) => (
+                        <option key={digits} value={digits}>{t("calc.digitsOption", { digits, max: number(10 ** digits - 1) })}</option>
+                      ))}
+                    </select>
+                    {exceedsRegister && (
+                      <p className="text-sm mt-2 mb-0" style={{ color: "#ef4444" }}>{t("calc.exceedsRegister", { digits: registerDigits })}</p>
+                    )}
+                  </div>
+                ) : (
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className="label" htmlFor="oldFinalReading">{t("calc.oldFinalReading")}</label>
+                      <input
+                        id="oldFinalReading"
+                        type="number"
+                        inputMode="decimal"
+                        value={oldFinalReading === 0 ? "" : oldFinalReading}
+                        placeholder="0"
+                        onChange={(e) => setOldFinalReading(e.target.value === "" ? 0 : Number(e.target.value))}
+                        className="input"
+                      />
+                    </div>
+                    <div>
+                      <label className="label" htmlFor="newStartReading">{t("calc.newStartReading")}</label>
+                      <input
+                        id="newStartReading"
+                        type="number"
+                        inputMode="decimal"
+                        value={newStartReading === 0 ? "" : newStartReading}
+                        placeholder="0"
+                        onChange={(e) => setNewStartReading(e.target.value === "" ? 0 : Number(e.target.value))}
+                        className="input"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="mt-4">
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={solar} onChange={(e) => setSolar(e.target.checked)} />
+                {t("calc.solar")}
+              </label>
+              {solar && (
+                <div className="mt-3 grid sm:grid-cols-2 gap-4">
+                  <p className="text-xs m-0 sm:col-span-2" style={{ color: "var(--muted)" }}>{t("calc.solarHint")}</p>
+                  <div>
+                    <label className="label" htmlFor="exportPrev">{t("calc.exportPrev")}</label>
+                    <input
+                      id="exportPrev"
+                      type="number"
+                      inputMode="decimal"
+                      value={exportPrev === 0 ? "" : exportPrev}
+                      placeholder="0"
+                      onChange={(e) => setExportPrev(e.target.value === "" ? 0 : Number(e.target.value))}
+                      className="input"
+                    />
+                  </div>
+                  <div>
+                    <label className="label" htmlFor="exportCurr">{t("calc.exportCurr")}</label>
+                    <input
+                      id="exportCurr"
+                      type="number"
+                      inputMode="decimal"
+                      value={exportCurr === 0 ? "" : exportCurr}
+                      placeholder="0"
+                      onChange={(e) => setExportCurr(e.target.value === "" ? 0 : Number(e.target.value))}
+                      className="input"
+                    />
+                  </div>
+                  <div>
+                    <label className="label" htmlFor="nettingRule">{t("calc.nettingRule")}</label>
+                    <select id="nettingRule" value={nettingRule} onChange={(e) => setNettingRule(e.target.value as NettingRule)} className="input bg-white">
+                      <option value="netUnits">{t("calc.netting.netUnits")}</option>
+                      <option value="exportCredit">{t("calc.netting.exportCredit")}</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="label" htmlFor="exportRate">{t("calc.exportRate")}</label>
+                    <input
+                      id="exportRate"
+                      type="number"
+                      inputMode="decimal"
+                      step="0.0001"
+                      value={exportRate === 0 ? "" : exportRate}
+                      placeholder="0"
+                      onChange={(e) => setExportRate(e.target.value === "" ? 0 : Math.max(Number(e.target.value), 0))}
+                      className="input"
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-sm sm:col-span-2">
+                    <input type="checkbox" checked={creditBeforeLevies} onChange={(e) => setCreditBeforeLevies(e.target.checked)} />
+                    {t("calc.creditBeforeLevies")}
+                  </label>
+                  {exportCurr > 0 && exportCurr < exportPrev && (
+                    <p className="text-xs m-0 sm:col-span-2" role="alert" style={{ color: "#ef4444" }}>{t("calc.exportReversed")}</p>
+                  )}
+                </div>
+              )}
+            </div>
+
             {!quickMode && (
               <div className="mt-4 grid sm:grid-cols-2 gap-4">
                 <div>
-                  <label className="label" htmlFor="billingDays">Billing Days</label>
-                  <input id="billingDays" type="number" value={billingDays} onChange={(e) => setBillingDays(Number(e.target.value))} className="input" />
+                  <label className="label" htmlFor="startDate">{t("common.prevDate")}</label>
+                  <input id="startDate" type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} className="input" />
+                </div>
+                <div>
+                  <label className="label flex items-center justify-between" htmlFor="endDate">
+                    <span>{t("common.currDate")}</span>
+                    <span className="text-xs" style={{ color: "var(--muted)" }}>{t("calc.billingDays", { days: Math.max(daysBetween(startDate, endDate), 0) || 0 })}</span>
+                  </label>
+                  <input id="endDate" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className="input" />
                 </div>
                 <div>
                   <label className="label flex items-center justify-between" htmlFor="prevBalance">
-                    <span>Previous Balance (GHS)</span>
-                    <span className="text-xs" style={{ color: "var(--muted)" }}>Can be credit (-)</span>
+                    <span>{t("common.prevBalance")}</span>
+                    <span className="text-xs" style={{ color: "var(--muted)" }}>{t("calc.creditHint")}</span>
                   </label>
                   <div className="flex gap-2">
                     <input
@@ -353,7 +766,7 @@ export default function ECGBillCalculator() {
                   </div>
                 </div>
                 <div>
-                  <label className="label" htmlFor="payments">Payments Made (GHS)</label>
+                  <label className="label" htmlFor="payments">{t("common.payments")}</label>
                   <input
                     id="payments"
                     type="number"
@@ -366,8 +779,8 @@ export default function ECGBillCalculator() {
                 </div>
                 <div>
                   <label className="label flex items-center justify-between" htmlFor="adjustment">
-                    <span>Adjustments (GHS)</span>
-                    <span className="text-xs" style={{ color: "var(--muted)" }}>Use + or -</span>
+                    <span>{t("common.adjustments")}</span>
+                    <span className="text-xs" style={{ color: "var(--muted)" }}>{t("calc.signHint")}</span>
                   </label>
                   <div className="flex gap-2">
                     <input
@@ -375,7 +788,7 @@ export default function ECGBillCalculator() {
                       type="text"
                       inputMode="decimal"
                       value={adjustmentText}
-                      placeholder="e.g. -25.50"
+                      placeholder={t("common.example", { value: "-25.50" })}
                       onChange={(e) => setAdjustmentText(sanitizeAdjustmentInput(e.target.value))}
                       className="input flex-1"
                     />
@@ -388,87 +801,170 @@ export default function ECGBillCalculator() {
                     </button>
                   </div>
                   <p className="text-xs mt-1" style={{ color: "var(--muted)" }}>
-                    Enter positive for surcharge, negative for credit.
+                    {t("calc.adjustmentHint")}
                   </p>
                 </div>
                 <div>
-                  <label className="label" htmlFor="tariffType">Tariff Type</label>
+                  <label className="label" htmlFor="tariffType">{t("common.tariffType")}</label>
                   <select id="tariffType" value={tariffType} onChange={(e) => setTariffType(e.target.value as TariffKey)} className="input bg-white">
-                    <option value="residential">Residential</option>
-                    <option value="nonResidential">Non-Residential</option>
+                    {tariffKeys.map((key) => (
+                      <option key={key} value={key}>{t(`tariff.${key}`)}</option>
+                    ))}
                   </select>
                 </div>
+                {tariffCategories[tariffType].demandRate !== undefined && (
+                  <div>
+                    <label className="label" htmlFor="maxDemandKva">{t("calc.maxDemand")}</label>
+                    <input
+                      id="maxDemandKva"
+                      type="number"
+                      inputMode="decimal"
+                      value={maxDemandKva === 0 ? "" : maxDemandKva}
+                      placeholder="0"
+                      onChange={(e) => setMaxDemandKva(e.target.value === "" ? 0 : Number(e.target.value))}
+                      className="input"
+                    />
+                  </div>
+                )}
               </div>
             )}
 
             <div className="mt-6 hidden sm:flex items-center gap-3">
-              <button onClick={calculateBill} className="btn-primary">Calculate Bill</button>
+              <button onClick={calculateBill} className="btn-primary">{t("calc.calculateBill")}</button>
               <button
                 onClick={() => {
                   setPrevReading(0);
-                  setCurrReading(0);
-                  setBillingDays(31);
+                  setCurrReading(null);
+                  setStartDate(periodEndingOn(31).startDate);
+                  setEndDate(todayIso());
                   setPrevBalance(0);
                   setPrevBalanceText("");
                   setPayments(0);
                   setAdjustmentText("");
+                  setOldFinalReading(0);
+                  setNewStartReading(0);
                   setResults(null);
                 }}
                 className="btn-warning"
               >
-                Clear
+                {t("calc.clear")}
               </button>
             </div>
 
             {/* Mobile action bar: only visible while within the input panel area */}
             <div className="sticky bottom-0 lg:hidden p-3" style={{ background: "linear-gradient(180deg, transparent, rgba(0,0,0,0.08))" }}>
               <div className="max-w-5xl mx-auto flex gap-3">
-                <button onClick={calculateBill} className="btn-primary flex-1">Calculate</button>
+                <button onClick={calculateBill} className="btn-primary flex-1">{t("calc.calculate")}</button>
                 <button
                   onClick={() => {
                     setPrevReading(0);
-                    setCurrReading(0);
-                    setBillingDays(31);
+                    setCurrReading(null);
+                    setStartDate(periodEndingOn(31).startDate);
+                    setEndDate(todayIso());
                     setPrevBalance(0);
                     setPrevBalanceText("");
                     setPayments(0);
                     setAdjustmentText("");
+                    setOldFinalReading(0);
+                    setNewStartReading(0);
                     setResults(null);
                   }}
                   className="btn-warning"
                 >
-                  Clear
+                  {t("calc.clear")}
                 </button>
               </div>
             </div>
 
             <div className="mt-8" style={{ borderTop: "1px solid var(--outline)" }}>
               <div className="flex items-center justify-between">
-                <h3 className="text-base font-semibold">Tariff Rates</h3>
+                <h3 className="text-base font-semibold">{t("rates.title")}</h3>
                 <button className="text-sm text-blue-600 hover:underline" onClick={() => setShowRateEditor(!showRateEditor)}>
-                  {showRateEditor ? "Hide editor" : "Edit rates"}
+                  {showRateEditor ? t("rates.hide") : t("rates.edit")}
                 </button>
               </div>
 
               {showRateEditor && (
                 <div className="mt-4">
                   <div className="flex items-center gap-3 mb-3 px-1">
-                    <span className="text-sm text-gray-600">Editing:</span>
+                    <span className="text-sm text-gray-600">{t("rates.editing")}</span>
                     <select value={tariffType} onChange={(e) => setTariffType(e.target.value as TariffKey)} className="input bg-white text-center">
-                      <option value="residential">Residential</option>
-                      <option value="nonResidential">Non-Residential</option>
+                      {tariffKeys.map((key) => (
+                        <option key={key} value={key}>{t(`tariff.${key}`)}</option>
+                      ))}
+                    </select>
+                    <button onClick={() => addBandBeforeInfinity(tariffType)} className="ml-auto btn-soft">{t("rates.addBand")}</button>
+                    <button onClick={resetRates} className="btn-soft">{t("rates.reset")}</button>
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3 px-1">
+                    <div>
+                      <label className="label" htmlFor="serviceCharge">{t("rates.serviceCharge")}</label>
+                      <input
+                        id="serviceCharge"
+                        type="number"
+                        step="0.01"
+                        inputMode="decimal"
+                        value={schedule.categories[tariffType].serviceCharge}
+                        onChange={(e) => updateCategory(tariffType, { serviceCharge: Math.max(0, Number(e.target.value)) })}
+                        className="input text-center"
+                      />
+                    </div>
+                    {schedule.categories[tariffType].demandRate !== undefined && (
+                      <div>
+                        <label className="label" htmlFor="demandRate">{t("rates.demandRate")}</label>
+                        <input
+                          id="demandRate"
+                          type="number"
+                          step="0.01"
+                          inputMode="decimal"
+                          value={schedule.categories[tariffType].demandRate}
+                          onChange={(e) => updateCategory(tariffType, { demandRate: Math.max(0, Number(e.target.value)) })}
+                          className="input text-center"
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-3 px-1">
+                    {levyKeys.map((key) => (
+                      <div key={key}>
+                        <label className="label" htmlFor={`levy-${key}`}>{t("rates.levyPercent", { levy: t(`levy.${key}`) })}</label>
+                        <input
+                          id={`levy-${key}`}
+                          type="number"
+                          step="0.1"
+                          inputMode="decimal"
+                          value={Number((schedule.levies[key] * 100).toFixed(4))}
+                          onChange={(e) => updateLevy(key, Math.min(100, Math.max(0, Number(e.target.value))))}
+                          className="input text-center"
+                        />
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="flex items-center gap-3 mb-3 px-1">
+                    <label className="text-sm text-gray-600" htmlFor="bandMode">{t("rates.limitsAre")}</label>
+                    <select id="bandMode" value={rates[tariffType].mode} onChange={(e) => setBandMode(tariffType, e.target.value as BandMode)} className="input bg-white text-center">
+                      <option value="cumulative">{t("rates.cumulative")}</option>
+                      <option value="width">{t("rates.width")}</option>
                     </select>
-                    <button onClick={() => addBandBeforeInfinity(tariffType)} className="ml-auto btn-soft">Add band</button>
-                    <button onClick={resetRates} className="btn-soft">Reset</button>
                   </div>
 
                   <div className="space-y-3">
-                    {rates[tariffType].map((band, index) => {
+                    {rates[tariffType].bands.map((band, index) => {
                       const isInfinity = band.limit === Infinity;
+                      const range = ranges[index];
+                      const issues = bandIssues.filter((issue) => issue.index === index);
                       return (
                         <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-center glass p-3 rounded-none sm:rounded-xl">
+                          <div className="col-span-full text-xs" style={{ color: "var(--muted)" }}>
+                            {isInfinity
+                              ? t("rates.bandAbove", { band: index + 1, from: number(range.from) })
+                              : t("rates.bandRange", { band: index + 1, from: number(range.from + (index === 0 ? 0 : 1)), to: number(range.to) })}
+                          </div>
                           <div className="md:col-span-4 col-span-full">
-                            <label className="label">Limit (kWh)</label>
+                            <label className="label">{rates[tariffType].mode === "cumulative" ? t("rates.upTo") : t("rates.widthLabel")}</label>
                             {isInfinity ? (
                               <div className="px-3 py-2 h-[44px] flex items-center justify-center input" style={{ background: "var(--surface)", color: "var(--muted)" }}>∞</div>
                             ) : (
@@ -482,7 +978,7 @@ export default function ECGBillCalculator() {
                             )}
                           </div>
                           <div className="md:col-span-4 col-span-full">
-                            <label className="label">Rate (GHS/kWh)</label>
+                            <label className="label">{t("rates.rate")}</label>
                             <input
                               type="number"
                               step="0.0001"
@@ -493,94 +989,198 @@ export default function ECGBillCalculator() {
                             />
                           </div>
                           <div className="md:col-span-4 col-span-full flex md:justify-end">
-                            <button disabled={isInfinity} onClick={() => removeBand(tariffType, index)} className={`btn-danger-soft ${isInfinity ? "opacity-40 cursor-not-allowed" : ""}`}>Remove</button>
+                            <button disabled={isInfinity} onClick={() => removeBand(tariffType, index)} className={`btn-danger-soft ${isInfinity ? "opacity-40 cursor-not-allowed" : ""}`}>{t("common.remove")}</button>
                           </div>
+                          {issues.map((issue) => (
+                            <p key={issue.code} className="col-span-full text-xs m-0" role="alert" style={{ color: "#ef4444" }}>
+                              {t(`rates.issue.${issue.code}`, issue.code === "limitNotRising" ? { previous: number(issue.previous) } : undefined)}
+                            </p>
+                          ))}
                         </div>
                       );
                     })}
                   </div>
+
+                  <div className="mt-4 px-1 space-y-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-medium">{t("rates.file")}</span>
+                      <button type="button" onClick={exportTariff} className="ml-auto btn-soft">{t("rates.export")}</button>
+                      <label className="btn-soft cursor-pointer">
+                        {t("rates.import")}
+                        <input
+                          type="file"
+                          accept="application/json,.json"
+                          className="sr-only"
+                          onChange={(e) => {
+                            void importTariffFile(e.target.files?.[0]);
+                            e.target.value = "";
+                          }}
+                        />
+                      </label>
+                    </div>
+                    <textarea
+                      value={tariffJson}
+                      onChange={(e) => setTariffJson(e.target.value)}
+                      placeholder={t("rates.pastePlaceholder")}
+                      rows={4}
+                      className="input w-full font-mono text-xs"
+                      aria-label={t("rates.pasteLabel")}
+                    />
+                    <button type="button" disabled={tariffJson.trim() === ""} onClick={() => importTariff(tariffJson)} className="btn-soft">{t("rates.applyPasted")}</button>
+                    {tariffFileNotice && <p className="text-xs m-0" style={{ color: "var(--muted)" }}>{tariffFileNotice}</p>}
+                    {tariffFileErrors.length > 0 && (
+                      <ul className="text-xs m-0 pl-4 list-disc" role="alert" style={{ color: "#ef4444" }}>
+                        {tariffFileErrors.map((error) => (
+                          <li key={error}>{error}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
                 </div>
               )}
             </div>
           </section>
 
           <section ref={resultsRef} className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
-            <h2 className="text-lg font-semibold mb-4">Results</h2>
+            <h2 className="text-lg font-semibold mb-4">{t("common.results")}</h2>
 
             {!results ? (
-              <p className="text-gray-500 text-sm">Enter values and click Calculate.</p>
+              <p className="text-gray-500 text-sm">{t("calc.empty")}</p>
             ) : (
               <div className="space-y-6">
                 <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
                   <div className="border rounded-xl p-3">
-                  <div className="text-xs text-gray-500 break-words">Units</div>
-                    <div className="text-xl font-semibold">{results.units} kWh</div>
+                  <div className="text-xs text-gray-500 break-words">{results.netMetering ? t("calc.netBillable") : t("common.units")}</div>
+                    <div className="text-xl font-semibold">{t("common.kwh", { value: number(results.units) })}</div>
                   </div>
                   <div className="border rounded-xl p-3">
-                    <div className="text-xs text-gray-500 break-words">Energy Cost</div>
-                    <div className="text-xl font-semibold">GHS {results.energyCost.toFixed(2)}</div>
+                    <div className="text-xs text-gray-500 break-words">{t("common.energyCost")}</div>
+                    <div className="text-xl font-semibold">{money(results.energyCost)}</div>
                   </div>
                   <div className="border rounded-xl p-3">
-                    <div className="text-xs text-gray-500 break-words">Service Charge</div>
-                    <div className="text-xl font-semibold">GHS {results.serviceCharge.toFixed(2)}</div>
+                    <div className="text-xs text-gray-500 break-words">{t("common.serviceCharge")}</div>
+                    <div className="text-xl font-semibold">{money(results.serviceCharge)}</div>
                   </div>
                   <div className="border rounded-xl p-3">
-                  <div className="text-xs text-gray-500 break-words">Total Bill</div>
-                    <div className="text-xl font-semibold">GHS {results.totalBill.toFixed(2)}</div>
+                  <div className="text-xs text-gray-500 break-words">{t("common.totalBill")}</div>
+                    <div className="text-xl font-semibold">{money(results.totalBill)}</div>
                   </div>
                 </div>
 
                 <div className="space-y-1 text-sm">
-                  <div className="flex justify-between">
-                    <span className="break-words">Nat&#39;l Elect Levy (2%)</span>
-                    <span>GHS {results.natElectLevy.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="break-words">Street Light (3%)</span>
-                    <span>GHS {results.streetLight.toFixed(2)}</span>
-                  </div>
-                  {!quickMode && (
-                    <div className="flex justify-between">
-                      <span className="break-words">Adjustments</span>
-                      <span>GHS {results.adjustment.toFixed(2)}</span>
-                    </div>
+                  {results.tariffType !== tariffType && (
+                    <p className="text-xs" style={{ color: "var(--muted)" }}>
+                      {t("calc.tariffFallback", { from: t(`tariff.${tariffType}`), to: t(`tariff.${results.tariffType}`) })}
+                    </p>
                   )}
-                  {tariffType === "nonResidential" && (
+                  {results.netMetering && (
                     <>
                       <div className="flex justify-between">
-                        <span className="break-words">NHIL & GETFund (5%)</span>
-                        <span>GHS {results.nhilGetFund.toFixed(2)}</span>
+                        <span className="break-words">{t("calc.grossImport")}</span>
+                        <span>{t("common.kwh", { value: number(results.netMetering.grossImport) })}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="break-words">{t("calc.exported")}</span>
+                        <span>{t("common.kwh", { value: number(results.netMetering.exported) })}</span>
                       </div>
                       <div className="flex justify-between">
-                        <span className="break-words">VAT (15%)</span>
-                        <span>GHS {results.vat.toFixed(2)}</span>
+                        <span className="break-words">{t("calc.exportCredit", { units: number(results.netMetering.creditedUnits) })}</span>
+                        <span>{money(-results.netMetering.exportCredit)}</span>
                       </div>
                     </>
                   )}
+                  {results.demandCharge > 0 && (
+                    <div className="flex justify-between">
+                      <span className="break-words">{t("calc.demandCharge")}</span>
+                      <span>{money(results.demandCharge)}</span>
+                    </div>
+                  )}
+                  {results.levyLines.map((line) => (
+                    <div key={line.key} className="flex justify-between">
+                      <span className="break-words">{t("common.levyLine", { levy: t(`levy.${line.key}`), rate: percent(line.rate) })}</span>
+                      <span>{money(line.amount)}</span>
+                    </div>
+                  ))}
+                  {!quickMode && (
+                    <div className="flex justify-between">
+                      <span className="break-words">{t("calc.adjustments")}</span>
+                      <span>{money(results.adjustment)}</span>
+                    </div>
+                  )}
                 </div>
 
                 <div className="p-4 rounded-xl" style={{ background: "linear-gradient(180deg, rgba(0,51,161,0.10), rgba(0,51,161,0.06))", border: "1px solid var(--outline)" }}>
-                  <div className="text-sm" style={{ color: "var(--muted)" }}>Final Amount Payable</div>
-                  <div className="text-2xl font-bold final-amount">GHS {results.payable.toFixed(2)}</div>
+                  <div className="text-sm" style={{ color: "var(--muted)" }}>{t("calc.payable")}</div>
+                  <div className="text-2xl font-bold final-amount">{money(results.payable)}</div>
                 </div>
 
+                {statement && (
+                  <div className="flex flex-wrap gap-3">
+                    <button type="button" className="btn-soft" onClick={() => window.print()}>{t("calc.print")}</button>
+                    <button type="button" className="btn-soft" onClick={() => downloadStatementPdf(statement, i18n)}>{t("calc.downloadPdf")}</button>
+                  </div>
+                )}
+
+                {results.periods.length > 1 && (
+                  <div>
+                    <h3 className="text-base font-semibold mb-2">{t("calc.periods")}</h3>
+                    <p className="text-xs mb-2" style={{ color: "var(--muted)" }}>
+                      {t("calc.periodsNote")}
+                    </p>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm rounded-xl overflow-hidden" style={{ border: "1px solid var(--outline)", tableLayout: "fixed" }}>
+                        <thead style={{ background: "var(--surface)" }}>
+                          <tr>
+                            <th className="text-left p-2 break-words" style={{ borderBottom: "1px solid var(--outline)" }}>{t("calc.colTariff")}</th>
+                            <th className="text-left p-2 break-words" style={{ borderBottom: "1px solid var(--outline)" }}>{t("calc.colDates")}</th>
+                            <th className="text-left p-2 break-words" style={{ borderBottom: "1px solid var(--outline)" }}>{t("calc.colUnits")}</th>
+                            <th className="text-left p-2 break-words" style={{ borderBottom: "1px solid var(--outline)" }}>{t("calc.colEnergy")}</th>
+                            <th className="text-left p-2 break-words" style={{ borderBottom: "1px solid var(--outline)" }}>{t("calc.colService")}</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {results.periods.map((p) => (
+                            <tr key={p.startDate}>
+                              <td className="p-2 break-words" style={{ borderTop: "1px solid var(--outline)" }}>{scheduleLabel(t, { id: p.scheduleId, label: p.label })}</td>
+                              <td className="p-2 break-words" style={{ borderTop: "1px solid var(--outline)" }}>{t("calc.periodDates", { from: p.startDate, to: p.endDate, days: p.days })}</td>
+                              <td className="p-2 break-words" style={{ borderTop: "1px solid var(--outline)" }}>{fixed(p.units, 2)}</td>
+                              <td className="p-2 break-words" style={{ borderTop: "1px solid var(--outline)" }}>{fixed(p.energyCost, 2)}</td>
+                              <td className="p-2 break-words" style={{ borderTop: "1px solid var(--outline)" }}>{fixed(p.serviceCharge, 2)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+
                 <div>
-                  <h3 className="text-base font-semibold mb-2">Band Breakdown</h3>
+                  <h3 className="text-base font-semibold mb-2">{t("calc.bandBreakdown")}</h3>
+                  {results.unitsDerivation.method !== "direct" && (
+                    <div className="mb-2 space-y-1 text-sm">
+                      {results.unitsDerivation.steps.map((step) => (
+                        <div key={step.kind} className="flex justify-between">
+                          <span className="break-words">{t(`calc.step.${step.kind}`)}: {number(step.from)} → {number(step.to)}</span>
+                          <span>{t("common.kwh", { value: number(step.units) })}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   <div className="overflow-x-auto">
                     <table className="w-full text-sm rounded-xl overflow-hidden" style={{ border: "1px solid var(--outline)", tableLayout: "fixed" }}>
                       <thead style={{ background: "var(--surface)" }}>
                         <tr>
-                          <th className="text-left p-2 break-words" style={{ borderBottom: "1px solid var(--outline)" }}>Units (kWh)</th>
-                          <th className="text-left p-2 break-words" style={{ borderBottom: "1px solid var(--outline)" }}>Rate (GHS/kWh)</th>
-                          <th className="text-left p-2 break-words" style={{ borderBottom: "1px solid var(--outline)" }}>Cost (GHS)</th>
+                          <th className="text-left p-2 break-words" style={{ borderBottom: "1px solid var(--outline)" }}>{t("calc.colUnits")}</th>
+                          <th className="text-left p-2 break-words" style={{ borderBottom: "1px solid var(--outline)" }}>{t("calc.colRate")}</th>
+                          <th className="text-left p-2 break-words" style={{ borderBottom: "1px solid var(--outline)" }}>{t("calc.colCost")}</th>
                         </tr>
                       </thead>
                       <tbody>
                         {results.bandBreakdown.map((b, i) => (
                           <tr key={i}>
-                            <td className="p-2 break-words" style={{ borderTop: "1px solid var(--outline)" }}>{b.used}</td>
-                            <td className="p-2 break-words" style={{ borderTop: "1px solid var(--outline)" }}>{b.rate.toFixed(4)}</td>
-                            <td className="p-2 break-words" style={{ borderTop: "1px solid var(--outline)" }}>{b.cost.toFixed(2)}</td>
+                            <td className="p-2 break-words" style={{ borderTop: "1px solid var(--outline)" }}>{number(b.used)}</td>
+                            <td className="p-2 break-words" style={{ borderTop: "1px solid var(--outline)" }}>{fixed(b.rate, 4)}</td>
+                            <td className="p-2 break-words" style={{ borderTop: "1px solid var(--outline)" }}>{fixed(b.cost, 2)}</td>
                           </tr>
                         ))}
                       </tbody>
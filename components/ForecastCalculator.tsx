@@ -0,0 +1,176 @@
+import React, { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { forecastBill, type Forecast } from "@/lib/forecast";
+import { addDays, tariffKeys, todayIso, type TariffKey, type TariffSchedule } from "@/lib/tariffEngine";
+
+type ForecastCalculatorProps = {
+  catalogue: TariffSchedule[];
+  initialTariff: TariffKey;
+  startDate: string;
+  initialPrevReading: number;
+};
+
+const numberValue = (raw: string) => (raw === "" ? 0 : Number(raw));
+
+export default function ForecastCalculator({ catalogue, initialTariff, startDate: initialStart, initialPrevReading }: ForecastCalculatorProps) {
+  const { t, money, number, fixed } = useI18n();
+  const [prevReading, setPrevReading] = useState<number>(initialPrevReading);
+  const [interimReading, setInterimReading] = useState<number>(0);
+  const [startDate, setStartDate] = useState<string>(initialStart);
+  const [interimDate, setInterimDate] = useState<string>(todayIso());
+  const [endDate, setEndDate] = useState<string>(addDays(initialStart, 31));
+  const [tariffType, setTariffType] = useState<TariffKey>(initialTariff);
+  const [forecast, setForecast] = useState<Forecast | null>(null);
+
+  const calculate = () => {
+    setForecast(forecastBill({ prevReading, interimReading, startDate, interimDate, endDate, tariffType, catalogue }));
+  };
+
+  const kwh = (value: number, digits = 1) => t("common.kwh", { value: number(value, digits) });
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+      <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+        <h2 className="text-lg font-semibold mb-1">{t("forecast.title")}</h2>
+        <p className="text-xs mb-4" style={{ color: "var(--muted)" }}>
+          {t("forecast.intro")}
+        </p>
+
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div>
+            <label className="label" htmlFor="forecastPrev">{t("common.prevReading")}</label>
+            <input id="forecastPrev" type="number" inputMode="decimal" value={prevReading === 0 ? "" : prevReading} placeholder="0" onChange={(e) => setPrevReading(numberValue(e.target.value))} className="input" />
+          </div>
+          <div>
+            <label className="label" htmlFor="forecastStart">{t("common.prevDate")}</label>
+            <input id="forecastStart" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="input" />
+          </div>
+          <div>
+            <label className="label" htmlFor="forecastInterim">{t("forecast.interimReading")}</label>
+            <input id="forecastInterim" type="number" inputMode="decimal" value={interimReading === 0 ? "" : interimReading} placeholder="0" onChange={(e) => setInterimReading(numberValue(e.target.value))} className="input" />
+          </div>
+          <div>
+            <label className="label" htmlFor="forecastInterimDate">{t("forecast.interimDate")}</label>
+            <input id="forecastInterimDate" type="date" value={interimDate} min={startDate} max={endDate} onChange={(e) => setInterimDate(e.target.value)} className="input" />
+          </div>
+          <div>
+            <label className="label" htmlFor="forecastEnd">{t("forecast.cycleEnd")}</label>
+            <input id="forecastEnd" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className="input" />
+          </div>
+          <div>
+            <label className="label" htmlFor="forecastTariff">{t("common.tariffType")}</label>
+            <select id="forecastTariff" value={tariffType} onChange={(e) => setTariffType(e.target.value as TariffKey)} className="input bg-white">
+              {tariffKeys.map((key) => (
+                <option key={key} value={key}>{t(`tariff.${key}`)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="mt-6 flex items-center gap-3">
+          <button onClick={calculate} className="btn-primary">{t("forecast.run")}</button>
+        </div>
+      </section>
+
+      <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+        <h2 className="text-lg font-semibold mb-4">{t("common.results")}</h2>
+
+        {!forecast ? (
+          <p className="text-gray-500 text-sm">{t("forecast.empty")}</p>
+        ) : !forecast.ok ? (
+          <p className="text-sm m-0" role="alert" style={{ color: "#ef4444" }}>
+            {forecast.reason === "interimDate" ? t("forecast.badDate") : t("forecast.badReading")}
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="border rounded-xl p-3">
+                <div className="text-xs text-gray-500 break-words">{t("forecast.soFar", { days: forecast.elapsedDays })}</div>
+                <div className="text-xl font-semibold">{kwh(forecast.unitsSoFar, 0)}</div>
+              </div>
+              <div className="border rounded-xl p-3">
+                <div className="text-xs text-gray-500 break-words">{t("forecast.dailyAverage")}</div>
+                <div className="text-xl font-semibold">{kwh(forecast.dailyUnits)}</div>
+              </div>
+              <div className="border rounded-xl p-3">
+                <div className="text-xs text-gray-500 break-words">{t("forecast.projectedUnits", { days: forecast.results.billingDays })}</div>
+                <div className="text-xl font-semibold">{kwh(forecast.projectedUnits)}</div>
+              </div>
+              <div className="border rounded-xl p-3">
+                <div className="text-xs text-gray-500 break-words">{t("forecast.projectedBand")}</div>
+                <div className="text-xl font-semibold">{t("estimate.band", { band: forecast.projectedBand })}</div>
+              </div>
+            </div>
+
+            {forecast.crossesBand && (
+              <div className="rounded-xl p-3" role="alert" style={{ background: "rgba(255,204,0,0.16)", border: "1px solid rgba(255,204,0,0.35)" }}>
+                <p className="text-sm m-0">
+                  {forecast.results.tariffType !== tariffType
+                    ? t("calc.tariffFallback", { from: t(`tariff.${tariffType}`), to: t(`tariff.${forecast.results.tariffType}`) })
+                    : t("forecast.crossesBand", { from: forecast.currentBand, to: forecast.projectedBand })}
+                </p>
+              </div>
+            )}
+
+            {forecast.bandLimit !== null && (
+              <p className="text-sm m-0">
+                {forecast.dailyBudget === null
+                  ? t("forecast.cycleOver")
+                  : t("forecast.dailyBudget", {
+                      budget: kwh(forecast.dailyBudget),
+                      limit: kwh(forecast.bandLimit, 0),
+                      band: forecast.currentBand,
+                      days: forecast.remainingDays,
+                    })}
+              </p>
+            )}
+
+            <div>
+              <h3 className="text-base font-semibold mb-2">{t("forecast.bandBreakdown")}</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm rounded-xl overflow-hidden" style={{ border: "1px solid var(--outline)", tableLayout: "fixed" }}>
+                  <thead style={{ background: "var(--surface)" }}>
+                    <tr>
+                      {[t("calc.colUnits"), t("calc.colRate"), t("calc.colCost")].map((heading) => (
+                        <th key={heading} className="text-left p-2 break-words" style={{ borderBottom: "1px solid var(--outline)" }}>{heading}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {forecast.results.bandBreakdown.map((band, index) => (
+                      <tr key={index}>
+                        <td className="p-2 break-words" style={{ borderTop: "1px solid var(--outline)" }}>{number(band.used, 1)}</td>
+                        <td className="p-2 break-words" style={{ borderTop: "1px solid var(--outline)" }}>{fixed(band.rate, 4)}</td>
+                        <td className="p-2 break-words" style={{ borderTop: "1px solid var(--outline)" }}>{fixed(band.cost, 2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="break-words">{t("common.energyCost")}</span>
+                <span>{money(forecast.results.energyCost)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="break-words">{t("forecast.levies")}</span>
+                <span>{money(forecast.results.levyLines.reduce((sum, line) => sum + line.amount, 0))}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="break-words">{t("common.serviceCharge")}</span>
+                <span>{money(forecast.results.serviceCharge)}</span>
+              </div>
+            </div>
+
+            <div className="p-4 rounded-xl" style={{ background: "linear-gradient(180deg, rgba(0,51,161,0.10), rgba(0,51,161,0.06))", border: "1px solid var(--outline)" }}>
+              <div className="text-sm" style={{ color: "var(--muted)" }}>{t("forecast.projectedBill")}</div>
+              <div className="text-2xl font-bold final-amount">{money(forecast.results.totalBill)}</div>
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
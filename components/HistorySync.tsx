@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type { BillingCycle } from "@/lib/billHistory";
+import type { Household } from "@/lib/householdStore";
+import {
+  createHousehold,
+  fetchHouseholds,
+  forgetDeletedCycles,
+  keepRejectedCycles,
+  loadDeletedCycles,
+  loadSyncHousehold,
+  saveSyncHousehold,
+  syncHistory,
+} from "@/lib/historySync";
+import { tariffKeys, type TariffKey } from "@/lib/tariffEngine";
+
+type HistorySyncProps = {
+  cycles: BillingCycle[];
+  onChange: (cycles: BillingCycle[]) => void;
+  initialTariff: TariffKey;
+};
+
+type Rejection = { cycle: BillingCycle; messages: string[] };
+
+type Status =
+  | { kind: "idle" }
+  | { kind: "busy" }
+  | { kind: "synced"; count: number; rejected: Rejection[] }
+  | { kind: "failed"; errors: string[] };
+
+export default function HistorySync({ cycles, onChange, initialTariff }: HistorySyncProps) {
+  const { t } = useI18n();
+  const [households, setHouseholds] = useState<Household[] | null>(null);
+  const [householdId, setHouseholdId] = useState<string>("");
+  const [adding, setAdding] = useState<boolean>(false);
+  const [name, setName] = useState<string>("");
+  const [meterNumber, setMeterNumber] = useState<string>("");
+  const [tariffType, setTariffType] = useState<TariffKey>(initialTariff);
+  const [status, setStatus] = useState<Status>({ kind: "idle" });
+
+  useEffect(() => {
+    const saved = loadSyncHousehold();
+    fetchHouseholds().then((result) => {
+      if (!result.ok) {
+        setStatus({ kind: "failed", errors: result.errors });
+        return;
+      }
+      setHouseholds(result.value);
+      if (result.value.some((household) => household.id === saved)) setHouseholdId(saved);
+    });
+  }, []);
+
+  const selectHousehold = (id: string) => {
+    setHouseholdId(id);
+    saveSyncHousehold(id);
+    setStatus({ kind: "idle" });
+  };
+
+  const addHousehold = async () => {
+    setStatus({ kind: "busy" });
+    const result = await createHousehold({ name, meterNumber, tariffType });
+    if (!result.ok) {
+      setStatus({ kind: "failed", errors: result.errors });
+      return;
+    }
+    setHouseholds((prev) => [...(prev ?? []), result.value]);
+    selectHousehold(result.value.id);
+    setAdding(false);
+    setName("");
+    setMeterNumber("");
+  };
+
+  const sync = async () => {
+    setStatus({ kind: "busy" });
+    const deleted = loadDeletedCycles();
+    const result = await syncHistory(householdId, cycles, deleted);
+    if (!result.ok) {
+      setStatus({ kind: "failed", errors: result.errors });
+      return;
+    }
+    forgetDeletedCycles(deleted);
+    onChange(keepRejectedCycles(cycles, result.value));
+    const rejected = result.value.rejected.map((entry) => ({ cycle: cycles[entry.index], messages: entry.issues.map((issue) => issue.message) }));
+    setStatus({ kind: "synced", count: result.value.cycles.length, rejected });
+  };
+
+  const busy = status.kind === "busy";
+
+  return (
+    <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+      <h2 className="text-lg font-semibold mb-1">{t("sync.title")}</h2>
+      <p className="text-xs mb-4" style={{ color: "var(--muted)" }}>
+        {t("sync.intro")}
+      </p>
+
+      {households === null ? (
+        status.kind !== "failed" && <p className="text-gray-500 text-sm">{t("sync.loading")}</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex-1 min-w-[12rem]">
+              <label className="label" htmlFor="syncHousehold">{t("sync.household")}</label>
+              <select id="syncHousehold" value={householdId} onChange={(e) => selectHousehold(e.target.value)} className="input bg-white">
+                <option value="">{t("sync.chooseHousehold")}</option>
+                {households.map((household) => (
+                  <option key={household.id} value={household.id}>
+                    {household.name} · {household.meterNumber}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button type="button" className="btn-soft" onClick={() => setAdding((prev) => !prev)}>
+              {adding ? t("common.cancel") : t("sync.addHousehold")}
+            </button>
+            <button type="button" className="btn-primary" onClick={sync} disabled={!householdId || busy}>
+              {busy ? t("sync.syncing") : t("sync.syncNow")}
+            </button>
+          </div>
+
+          {adding && (
+            <div className="grid sm:grid-cols-3 gap-3">
+              <div>
+                <label className="label" htmlFor="syncName">{t("sync.name")}</label>
+                <input id="syncName" type="text" value={name} onChange={(e) => setName(e.target.value)} className="input" />
+              </div>
+              <div>
+                <label className="label" htmlFor="syncMeter">{t("sync.meterNumber")}</label>
+                <input id="syncMeter" type="text" value={meterNumber} onChange={(e) => setMeterNumber(e.target.value)} className="input" />
+              </div>
+              <div>
+                <label className="label" htmlFor="syncTariff">{t("common.tariffType")}</label>
+                <select id="syncTariff" value={tariffType} onChange={(e) => setTariffType(e.target.value as TariffKey)} className="input bg-white">
+                  {tariffKeys.map((key) => (
+                    <option key={key} value={key}>{t(`tariff.${key}`)}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-span-full">
+                <button type="button" className="btn-primary" onClick={addHousehold} disabled={busy}>{t("sync.saveHousehold")}</button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {status.kind === "synced" && (
+        <p className="text-sm mt-4 mb-0" role="status">{t("sync.synced", { count: status.count })}</p>
+      )}
+      {status.kind === "synced" && status.rejected.length > 0 && (
+        <div className="text-sm mt-2" role="alert" style={{ color: "#ef4444" }}>
+          <p className="m-0">{t("sync.rejected", { count: status.rejected.length })}</p>
+          <ul className="m-0 pl-4 list-disc">
+            {status.rejected.map(({ cycle, messages }) => (
+              <li key={cycle.id}>
+                {cycle.input.startDate} → {cycle.input.endDate}: {messages.join("; ")}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {status.kind === "failed" && (
+        <div className="text-sm mt-4" role="alert" style={{ color: "#ef4444" }}>
+          {status.errors.length === 0 ? (
+            <p className="m-0">{t("sync.unreachable")}</p>
+          ) : (
+            <ul className="m-0 pl-4 list-disc">
+              {status.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,11 @@
+import React, { createContext, useContext, useMemo } from "react";
+import { createI18n, type I18n, type Locale } from "@/lib/i18n";
+
+const I18nContext = createContext<I18n>(createI18n("en"));
+
+export function I18nProvider({ locale, children }: { locale: Locale; children: React.ReactNode }) {
+  const i18n = useMemo(() => createI18n(locale), [locale]);
+  return <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>;
+}
+
+export const useI18n = () => useContext(I18nContext);
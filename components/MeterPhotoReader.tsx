@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { readMeterDigits, type MeterReading, type Region } from "@/lib/meterOcr";
+
+type MeterPhotoReaderProps = {
+  id: string;
+  onConfirm: (reading: number) => void;
+};
+
+// Phone photos are scaled down before reading; the digit window needs far fewer pixels than the camera takes.
+const MAX_SIDE = 960;
+const MIN_SELECTION = 8;
+
+const isReading = (text: string) => /^\d+(\.\d+)?$/.test(text.trim());
+
+const normalise = (start: { x: number; y: number }, end: { x: number; y: number }): Region => ({
+  x: Math.round(Math.min(start.x, end.x)),
+  y: Math.round(Math.min(start.y, end.y)),
+  width: Math.round(Math.abs(end.x - start.x)),
+  height: Math.round(Math.abs(end.y - start.y)),
+});
+
+export default function MeterPhotoReader({ id, onConfirm }: MeterPhotoReaderProps) {
+  const { t } = useI18n();
+  const [status, setStatus] = useState<"idle" | "loading" | "ready" | "failed">("idle");
+  const [reading, setReading] = useState<MeterReading | null>(null);
+  const [text, setText] = useState<string>("");
+  const [selection, setSelection] = useState<Region | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const photoRef = useRef<HTMLCanvasElement | null>(null);
+  const pixelsRef = useRef<ImageData | null>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  const read = (region?: Region) => {
+    if (!pixelsRef.current) return;
+    const result = readMeterDigits(pixelsRef.current, region);
+    setReading(result);
+    setText(result.ok ? result.text : "");
+  };
+
+  const loadPhoto = async (file: File | undefined) => {
+    if (!file) return;
+    setStatus("loading");
+    setSelection(null);
+    try {
+      const bitmap = await createImageBitmap(file);
+      const scale = Math.min(1, MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+      const photo = document.createElement("canvas");
+      photo.width = Math.round(bitmap.width * scale);
+      photo.height = Math.round(bitmap.height * scale);
+      const context = photo.getContext("2d");
+      if (!context) throw new Error("Canvas unavailable");
+      context.drawImage(bitmap, 0, 0, photo.width, photo.height);
+      bitmap.close();
+      photoRef.current = photo;
+      pixelsRef.current = context.getImageData(0, 0, photo.width, photo.height);
+      read();
+      setStatus("ready");
+    } catch {
+      setStatus("failed");
+    }
+  };
+
+  const close = () => {
+    setStatus("idle");
+    setReading(null);
+    setSelection(null);
+    photoRef.current = null;
+    pixelsRef.current = null;
+  };
+
+  // Redraw the photo with the digits found and the box being dragged.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const photo = photoRef.current;
+    const context = canvas?.getContext("2d");
+    if (status !== "ready" || !canvas || !photo || !context) return;
+    canvas.width = photo.width;
+    canvas.height = photo.height;
+    context.drawImage(photo, 0, 0);
+    context.lineWidth = Math.max(2, photo.width / 240);
+    for (const digit of reading?.ok ? reading.digits : []) {
+      context.strokeStyle = digit.digit === null ? "#ef4444" : "#16a34a";
+      context.strokeRect(digit.box.x, digit.box.y, digit.box.width, digit.box.height);
+    }
+    if (selection) {
+      context.strokeStyle = "#0033a1";
+      context.setLineDash([8, 6]);
+      context.strokeRect(selection.x, selection.y, selection.width, selection.height);
+      context.setLineDash([]);
+    }
+  }, [status, reading, selection]);
+
+  const pointAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const { width, height } = e.currentTarget;
+    return {
+      x: Math.min(width, Math.max(0, ((e.clientX - bounds.left) * width) / bounds.width)),
+      y: Math.min(height, Math.max(0, ((e.clientY - bounds.top) * height) / bounds.height)),
+    };
+  };
+
+  const endDrag = () => {
+    if (!dragStart.current) return;
+    dragStart.current = null;
+    if (selection && selection.width >= MIN_SELECTION && selection.height >= MIN_SELECTION) read(selection);
+    else {
+      setSelection(null);
+      read();
+    }
+  };
+
+  return (
+    <div className="mt-1">
+      <label className="btn-soft cursor-pointer text-xs inline-block">
+        {t("photo.read")}
+        <input
+          type="file"
+          accept="image/*"
+          capture="environment"
+          className="sr-only"
+          onChange={(e) => {
+            void loadPhoto(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+      </label>
+
+      {status === "loading" && <p className="text-xs mt-2 mb-0" style={{ color: "var(--muted)" }}>{t("photo.reading")}</p>}
+      {status === "failed" && <p className="text-xs mt-2 mb-0" role="alert" style={{ color: "#ef4444" }}>{t("photo.failed")}</p>}
+
+      {status === "ready" && (
+        <div className="mt-2 rounded-xl p-3 space-y-2" style={{ border: "1px solid var(--outline)" }}>
+          <canvas
+            ref={canvasRef}
+            className="w-full h-auto rounded-lg cursor-crosshair"
+            style={{ touchAction: "none" }}
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              dragStart.current = pointAt(e);
+              setSelection(null);
+            }}
+            onPointerMove={(e) => {
+              if (dragStart.current) setSelection(normalise(dragStart.current, pointAt(e)));
+            }}
+            onPointerUp={endDrag}
+            onPointerCancel={endDrag}
+          />
+          <p className="text-xs m-0" style={{ color: "var(--muted)" }}>{t("photo.hint")}</p>
+          {reading && !reading.ok && (
+            <p className="text-xs m-0" role="alert" style={{ color: "#ef4444" }}>
+              {t(reading.reason === "notSevenSegment" ? "photo.notSevenSegment" : "photo.none")}
+            </p>
+          )}
+          {reading?.ok && <p className="text-xs m-0">{t("photo.check")}</p>}
+          <div>
+            <label className="label" htmlFor={id}>{t("photo.result")}</label>
+            <input id={id} type="text" inputMode="decimal" value={text} onChange={(e) => setText(e.target.value)} className="input font-mono" />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              className="btn-primary"
+              disabled={!isReading(text)}
+              onClick={() => {
+                onConfirm(Number(text.trim()));
+                close();
+              }}
+            >
+              {t("photo.use")}
+            </button>
+            <button type="button" className="btn-soft" onClick={close}>{t("common.cancel")}</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
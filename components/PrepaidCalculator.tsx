@@ -0,0 +1,182 @@
+import React, { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { topUpForUnits, unitsForTopUp, type Vend } from "@/lib/prepaid";
+import { parseAmount, sanitizeAdjustmentInput, tariffKeys, type TariffKey, type TariffSchedule } from "@/lib/tariffEngine";
+
+type PrepaidCalculatorProps = {
+  catalogue: TariffSchedule[];
+  initialTariff: TariffKey;
+};
+
+type Direction = "amount" | "units";
+
+const numberValue = (raw: string) => (raw === "" ? 0 : Number(raw));
+
+export default function PrepaidCalculator({ catalogue, initialTariff }: PrepaidCalculatorProps) {
+  const { t, money, number, percent } = useI18n();
+  const [direction, setDirection] = useState<Direction>("amount");
+  const [amountText, setAmountText] = useState<string>("");
+  const [units, setUnits] = useState<number>(0);
+  const [tariffType, setTariffType] = useState<TariffKey>(initialTariff);
+  const [unitsThisMonth, setUnitsThisMonth] = useState<number>(0);
+  const [debtText, setDebtText] = useState<string>("");
+  const [debtRecoveryPercent, setDebtRecoveryPercent] = useState<number>(50);
+  const [chargeServiceCharge, setChargeServiceCharge] = useState<boolean>(true);
+  const [vend, setVend] = useState<Vend | null>(null);
+
+  const calculate = () => {
+    const input = {
+      tariffType,
+      unitsThisMonth,
+      debt: parseAmount(debtText),
+      debtRecoveryRate: debtRecoveryPercent / 100,
+      chargeServiceCharge,
+      catalogue,
+    };
+    setVend(direction === "amount" ? unitsForTopUp(parseAmount(amountText), input) : topUpForUnits(units, input));
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+      <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+        <h2 className="text-lg font-semibold mb-1">{t("prepaid.title")}</h2>
+        <p className="text-xs mb-4" style={{ color: "var(--muted)" }}>
+          {t("prepaid.intro")}
+        </p>
+
+        <div className="flex flex-wrap gap-2 mb-4" role="radiogroup" aria-label={t("prepaid.direction")}>
+          {(["amount", "units"] as Direction[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={direction === option}
+              className="btn-soft"
+              style={direction === option ? { borderColor: "var(--ecg-blue)", color: "var(--ecg-blue)" } : undefined}
+              onClick={() => {
+                setDirection(option);
+                setVend(null);
+              }}
+            >
+              {option === "amount" ? t("prepaid.fromAmount") : t("prepaid.fromUnits")}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-4">
+          {direction === "amount" ? (
+            <div>
+              <label className="label" htmlFor="prepaidAmount">{t("prepaid.topUp")}</label>
+              <input
+                id="prepaidAmount"
+                type="text"
+                inputMode="decimal"
+                value={amountText}
+                placeholder={t("common.example", { value: "100" })}
+                onChange={(e) => setAmountText(sanitizeAdjustmentInput(e.target.value).replace(/^[+-]/, ""))}
+                className="input"
+              />
+            </div>
+          ) : (
+            <div>
+              <label className="label" htmlFor="prepaidUnits">{t("prepaid.unitsWanted")}</label>
+              <input id="prepaidUnits" type="number" inputMode="decimal" value={units === 0 ? "" : units} placeholder="0" onChange={(e) => setUnits(numberValue(e.target.value))} className="input" />
+            </div>
+          )}
+          <div>
+            <label className="label" htmlFor="prepaidTariff">{t("common.tariffType")}</label>
+            <select id="prepaidTariff" value={tariffType} onChange={(e) => setTariffType(e.target.value as TariffKey)} className="input bg-white">
+              {tariffKeys.map((key) => (
+                <option key={key} value={key}>{t(`tariff.${key}`)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label" htmlFor="prepaidBought">{t("prepaid.unitsThisMonth")}</label>
+            <input id="prepaidBought" type="number" inputMode="decimal" value={unitsThisMonth === 0 ? "" : unitsThisMonth} placeholder="0" onChange={(e) => setUnitsThisMonth(Math.max(numberValue(e.target.value), 0))} className="input" />
+          </div>
+          <div>
+            <label className="label" htmlFor="prepaidDebt">{t("prepaid.debt")}</label>
+            <input
+              id="prepaidDebt"
+              type="text"
+              inputMode="decimal"
+              value={debtText}
+              placeholder="0"
+              onChange={(e) => setDebtText(sanitizeAdjustmentInput(e.target.value).replace(/^[+-]/, ""))}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="label" htmlFor="prepaidRecovery">{t("prepaid.recoveryRate")}</label>
+            <input id="prepaidRecovery" type="number" inputMode="decimal" min={0} max={99} value={debtRecoveryPercent} onChange={(e) => setDebtRecoveryPercent(Math.min(Math.max(numberValue(e.target.value), 0), 99))} className="input" />
+          </div>
+          <label className="flex items-center gap-2 text-sm sm:col-span-2">
+            <input type="checkbox" checked={chargeServiceCharge} onChange={(e) => setChargeServiceCharge(e.target.checked)} />
+            {t("prepaid.serviceChargeDue")}
+          </label>
+        </div>
+
+        <div className="mt-6 flex items-center gap-3">
+          <button onClick={calculate} className="btn-primary">{t("calc.calculate")}</button>
+        </div>
+      </section>
+
+      <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+        <h2 className="text-lg font-semibold mb-4">{t("common.results")}</h2>
+
+        {!vend ? (
+          <p className="text-gray-500 text-sm">{t("prepaid.empty")}</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="border rounded-xl p-3">
+                <div className="text-xs text-gray-500 break-words">{t("prepaid.topUpLabel")}</div>
+                <div className="text-xl font-semibold">{money(vend.topUp)}</div>
+              </div>
+              <div className="border rounded-xl p-3">
+                <div className="text-xs text-gray-500 break-words">{t("prepaid.unitsCredited")}</div>
+                <div className="text-xl font-semibold">{t("common.kwh", { value: number(vend.units) })}</div>
+              </div>
+            </div>
+
+            <div className="space-y-1 text-sm">
+              {vend.debtRecovery > 0 && (
+                <div className="flex justify-between">
+                  <span className="break-words">{t("prepaid.debtRecovery")}</span>
+                  <span>{money(vend.debtRecovery)}</span>
+                </div>
+              )}
+              {vend.serviceCharge > 0 && (
+                <div className="flex justify-between">
+                  <span className="break-words">{t("common.serviceCharge")}</span>
+                  <span>{money(vend.serviceCharge)}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="break-words">{t("common.energyCost")}</span>
+                <span>{money(vend.energyCost)}</span>
+              </div>
+              {vend.levyLines.map((line) => (
+                <div key={line.key} className="flex justify-between">
+                  <span className="break-words">{t("common.levyLine", { levy: t(`levy.${line.key}`), rate: percent(line.rate) })}</span>
+                  <span>{money(line.amount)}</span>
+                </div>
+              ))}
+              {vend.rounding >= 0.005 && (
+                <div className="flex justify-between">
+                  <span className="break-words">{t("prepaid.rounding")}</span>
+                  <span>{money(vend.rounding)}</span>
+                </div>
+              )}
+            </div>
+
+            {vend.units === 0 && (
+              <p className="text-sm m-0" role="alert">{t("prepaid.nothingCredited")}</p>
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
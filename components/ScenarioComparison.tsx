@@ -0,0 +1,238 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type { I18n } from "@/lib/i18n";
+import { newId } from "@/lib/json";
+import {
+  compareScenarios,
+  defaultSensitivityLevels,
+  loadScenarios,
+  parseLevels,
+  sameRates,
+  saveScenarios,
+  sensitivityTable,
+  type ComparisonCell,
+  type ComparisonLineKey,
+  type Scenario,
+} from "@/lib/scenarios";
+import { defaultSchedule, tariffKeys, type RateSchedule, type TariffKey } from "@/lib/tariffEngine";
+
+type ScenarioComparisonProps = {
+  schedule: RateSchedule;
+  initialTariff: TariffKey;
+  startDate: string;
+  endDate: string;
+  initialPrevReading: number;
+  initialCurrReading: number;
+};
+
+const numberValue = (raw: string) => (raw === "" ? 0 : Number(raw));
+
+const lineLabel = (key: ComparisonLineKey, { t }: I18n) => {
+  switch (key) {
+    case "units":
+      return t("common.units");
+    case "energyCost":
+      return t("common.energyCost");
+    case "demandCharge":
+      return t("compare.demandCharge");
+    case "serviceCharge":
+      return t("common.serviceCharge");
+    case "totalBill":
+      return t("common.totalBill");
+    case "payable":
+      return t("compare.payable");
+    default:
+      return t(`levy.${key}`);
+  }
+};
+
+const signed = (value: number, format: (value: number) => string) => (value > 0 ? `+${format(value)}` : format(value));
+
+const starterScenarios = (tariffType: TariffKey, schedule: RateSchedule, t: I18n["t"]): Scenario[] => [
+  { id: newId(), name: t("compare.published"), tariffType, schedule: null },
+  schedule !== defaultSchedule
+    ? { id: newId(), name: t("compare.edited"), tariffType, schedule }
+    : {
+        id: newId(),
+        name: t(`tariff.${tariffType === "nonResidential" ? "residential" : "nonResidential"}`),
+        tariffType: tariffType === "nonResidential" ? "residential" : "nonResidential",
+        schedule: null,
+      },
+];
+
+export default function ScenarioComparison({ schedule, initialTariff, startDate: initialStart, endDate: initialEnd, initialPrevReading, initialCurrReading }: ScenarioComparisonProps) {
+  const i18n = useI18n();
+  const { t, money, number, percent } = i18n;
+  const [scenarios, setScenarios] = useState<Scenario[] | null>(null);
+  const [prevReading, setPrevReading] = useState<number>(initialPrevReading);
+  const [currReading, setCurrReading] = useState<number>(initialCurrReading);
+  const [startDate, setStartDate] = useState<string>(initialStart);
+  const [endDate, setEndDate] = useState<string>(initialEnd);
+  const [levelsText, setLevelsText] = useState<string>(defaultSensitivityLevels.join(", "));
+  // Seeds the first visit only; saved scenarios keep the rates they were given.
+  const starters = useRef(starterScenarios(initialTariff, schedule, t));
+
+  useEffect(() => {
+    setScenarios(loadScenarios() ?? starters.current);
+  }, []);
+
+  useEffect(() => {
+    if (scenarios) saveScenarios(scenarios);
+  }, [scenarios]);
+
+  if (scenarios === null) return null;
+
+  const updateScenario = (id: string, updates: Partial<Scenario>) =>
+    setScenarios(scenarios.map((scenario) => (scenario.id === id ? { ...scenario, ...updates } : scenario)));
+
+  const addScenario = () =>
+    setScenarios([...scenarios, { id: newId(), name: t("compare.scenarioName", { n: scenarios.length + 1 }), tariffType: initialTariff, schedule: null }]);
+
+  const readings = { prevReading, currReading, startDate, endDate, prevBalance: 0, payments: 0, adjustment: 0 };
+  const valid = scenarios.length > 0 && currReading >= prevReading && startDate < endDate;
+  const lines = valid ? compareScenarios(scenarios, readings) : [];
+  const sensitivity = valid ? sensitivityTable(scenarios, readings, parseLevels(levelsText)) : [];
+
+  const renderCell = (cell: ComparisonCell, index: number, format: (value: number) => string) => (
+    <td key={index} className="p-2 align-top" style={{ borderTop: "1px solid var(--outline)" }}>
+      <div>{format(cell.value)}</div>
+      {index > 0 && Math.abs(cell.difference) > 0.005 && (
+        <div className="text-xs" style={{ color: cell.difference > 0 ? "#ef4444" : "#16a34a" }}>
+          {signed(cell.difference, format)}
+          {cell.percent !== null && ` (${signed(cell.percent, percent)})`}
+        </div>
+      )}
+    </td>
+  );
+
+  const headerRow = (first: string) => (
+    <tr>
+      {[first, ...scenarios.map((scenario) => scenario.name || "—")].map((heading, index) => (
+        <th key={index} className="text-left p-2 break-words" style={{ borderBottom: "1px solid var(--outline)" }}>{heading}</th>
+      ))}
+    </tr>
+  );
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+        <h2 className="text-lg font-semibold mb-1">{t("compare.title")}</h2>
+        <p className="text-xs mb-4" style={{ color: "var(--muted)" }}>
+          {t("compare.intro")}
+        </p>
+
+        <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div>
+            <label className="label" htmlFor="comparePrev">{t("common.prevReading")}</label>
+            <input id="comparePrev" type="number" inputMode="decimal" value={prevReading === 0 ? "" : prevReading} placeholder="0" onChange={(e) => setPrevReading(numberValue(e.target.value))} className="input" />
+          </div>
+          <div>
+            <label className="label" htmlFor="compareCurr">{t("common.currReading")}</label>
+            <input id="compareCurr" type="number" inputMode="decimal" value={currReading === 0 ? "" : currReading} placeholder="0" onChange={(e) => setCurrReading(numberValue(e.target.value))} className="input" />
+          </div>
+          <div>
+            <label className="label" htmlFor="compareStart">{t("common.prevDate")}</label>
+            <input id="compareStart" type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} className="input" />
+          </div>
+          <div>
+            <label className="label" htmlFor="compareEnd">{t("common.currDate")}</label>
+            <input id="compareEnd" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className="input" />
+          </div>
+        </div>
+
+        <h3 className="text-base font-semibold mt-6 mb-1">{t("compare.scenarios")}</h3>
+        <p className="text-xs mb-3" style={{ color: "var(--muted)" }}>{t("compare.scenariosHint")}</p>
+        <div className="space-y-3">
+          {scenarios.map((scenario, index) => (
+            <div key={scenario.id} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end">
+              <div className="md:col-span-4">
+                <label className="label" htmlFor={`scenario-${scenario.id}-name`}>
+                  {index === 0 ? t("compare.baselineName") : t("compare.name")}
+                </label>
+                <input id={`scenario-${scenario.id}-name`} type="text" value={scenario.name} onChange={(e) => updateScenario(scenario.id, { name: e.target.value })} className="input" />
+              </div>
+              <div className="md:col-span-3">
+                <label className="label" htmlFor={`scenario-${scenario.id}-tariff`}>{t("common.tariffType")}</label>
+                <select id={`scenario-${scenario.id}-tariff`} value={scenario.tariffType} onChange={(e) => updateScenario(scenario.id, { tariffType: e.target.value as TariffKey })} className="input bg-white">
+                  {tariffKeys.map((key) => (
+                    <option key={key} value={key}>{t(`tariff.${key}`)}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="md:col-span-3">
+                <label className="label" htmlFor={`scenario-${scenario.id}-rates`}>{t("compare.rates")}</label>
+                <select
+                  id={`scenario-${scenario.id}-rates`}
+                  value={scenario.schedule ? "edited" : "published"}
+                  onChange={(e) => updateScenario(scenario.id, { schedule: e.target.value === "edited" ? schedule : null })}
+                  className="input bg-white"
+                >
+                  <option value="published">{t("compare.published")}</option>
+                  <option value="edited">{t("compare.edited")}</option>
+                </select>
+              </div>
+              <div className="md:col-span-2 flex gap-2 md:justify-end">
+                {scenario.schedule && !sameRates(scenario.schedule, schedule) && (
+                  <button type="button" className="btn-soft" title={t("compare.refreshRatesHint")} onClick={() => updateScenario(scenario.id, { schedule })}>
+                    {t("compare.refreshRates")}
+                  </button>
+                )}
+                <button type="button" className="btn-danger-soft" onClick={() => setScenarios(scenarios.filter((other) => other.id !== scenario.id))} disabled={scenarios.length <= 1}>
+                  {t("common.remove")}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="mt-4">
+          <button type="button" className="btn-soft" onClick={addScenario}>{t("compare.add")}</button>
+        </div>
+      </section>
+
+      <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+        <h2 className="text-lg font-semibold mb-4">{t("compare.sideBySide")}</h2>
+        {!valid ? (
+          <p className="text-gray-500 text-sm m-0">{t("compare.invalid")}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm rounded-xl overflow-hidden" style={{ border: "1px solid var(--outline)" }}>
+              <thead style={{ background: "var(--surface)" }}>{headerRow(t("compare.colLine"))}</thead>
+              <tbody>
+                {lines.map((line) => (
+                  <tr key={line.key} className={line.key === "totalBill" || line.key === "payable" ? "font-semibold" : undefined}>
+                    <td className="p-2 break-words align-top" style={{ borderTop: "1px solid var(--outline)" }}>{lineLabel(line.key, i18n)}</td>
+                    {line.cells.map((cell, index) => renderCell(cell, index, line.key === "units" ? (value) => number(value) : money))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+        <h2 className="text-lg font-semibold mb-1">{t("compare.sensitivity")}</h2>
+        <p className="text-xs mb-4" style={{ color: "var(--muted)" }}>{t("compare.sensitivityIntro")}</p>
+        <div className="max-w-md mb-4">
+          <label className="label" htmlFor="compareLevels">{t("compare.levels")}</label>
+          <input id="compareLevels" type="text" inputMode="decimal" value={levelsText} onChange={(e) => setLevelsText(e.target.value)} className="input" />
+        </div>
+        {sensitivity.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm rounded-xl overflow-hidden" style={{ border: "1px solid var(--outline)" }}>
+              <thead style={{ background: "var(--surface)" }}>{headerRow(t("calc.colUnits"))}</thead>
+              <tbody>
+                {sensitivity.map((row) => (
+                  <tr key={row.units}>
+                    <td className="p-2 align-top" style={{ borderTop: "1px solid var(--outline)" }}>{number(row.units)}</td>
+                    {row.cells.map((cell, index) => renderCell(cell, index, money))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
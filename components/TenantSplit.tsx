@@ -0,0 +1,192 @@
+import React, { useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import type { MessageKey } from "@/lib/i18n";
+import { defaultSplitRules, splitBill, type SplitResult, type SplitRules, type TenantReading } from "@/lib/tenantSplit";
+import type { TariffKey, TariffSchedule } from "@/lib/tariffEngine";
+
+type TenantSplitProps = {
+  catalogue: TariffSchedule[];
+  tariffType: TariffKey;
+  startDate: string;
+  endDate: string;
+  initialPrevReading: number;
+  initialCurrReading: number;
+};
+
+const ruleOptions: { key: keyof SplitRules; options: string[] }[] = [
+  { key: "energy", options: ["consumption", "standalone", "even"] },
+  { key: "charges", options: ["even", "consumption"] },
+  { key: "remainder", options: ["consumption", "even"] },
+];
+
+const resultColumns: MessageKey[] = ["split.colTenant", "split.colKwh", "split.colEnergy", "split.colUnmetered", "split.colCharges", "split.colTotal"];
+
+const numberValue = (raw: string) => (raw === "" ? 0 : Number(raw));
+
+export default function TenantSplit({ catalogue, tariffType, startDate, endDate, initialPrevReading, initialCurrReading }: TenantSplitProps) {
+  const { t, money, number, fixed } = useI18n();
+  const [mainPrev, setMainPrev] = useState<number>(initialPrevReading);
+  const [mainCurr, setMainCurr] = useState<number>(initialCurrReading);
+  const [tenants, setTenants] = useState<TenantReading[]>([
+    { name: t("split.tenantName", { number: 1 }), prevReading: 0, currReading: 0 },
+    { name: t("split.tenantName", { number: 2 }), prevReading: 0, currReading: 0 },
+  ]);
+  const [rules, setRules] = useState<SplitRules>(defaultSplitRules);
+  const [result, setResult] = useState<SplitResult | null>(null);
+
+  const updateTenant = (index: number, updates: Partial<TenantReading>) => {
+    setTenants((prev) => prev.map((tenant, i) => (i === index ? { ...tenant, ...updates } : tenant)));
+  };
+
+  const calculate = () => {
+    setResult(
+      splitBill(
+        { prevReading: mainPrev, currReading: mainCurr, startDate, endDate, tariffType, prevBalance: 0, payments: 0, adjustment: 0, catalogue },
+        tenants,
+        rules,
+      ),
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+      <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+        <h2 className="text-lg font-semibold mb-1">{t("split.title")}</h2>
+        <p className="text-xs mb-4" style={{ color: "var(--muted)" }}>
+          {t("split.context", { tariff: t(`tariff.${tariffType}`), start: startDate, end: endDate })}
+        </p>
+
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div>
+            <label className="label" htmlFor="mainPrev">{t("split.mainPrev")}</label>
+            <input id="mainPrev" type="number" inputMode="decimal" value={mainPrev === 0 ? "" : mainPrev} placeholder="0" onChange={(e) => setMainPrev(numberValue(e.target.value))} className="input" />
+          </div>
+          <div>
+            <label className="label" htmlFor="mainCurr">{t("split.mainCurr")}</label>
+            <input id="mainCurr" type="number" inputMode="decimal" value={mainCurr === 0 ? "" : mainCurr} placeholder="0" onChange={(e) => setMainCurr(numberValue(e.target.value))} className="input" />
+          </div>
+        </div>
+
+        <h3 className="text-base font-semibold mt-6 mb-2">{t("split.subMeters")}</h3>
+        <div className="space-y-3">
+          {tenants.map((tenant, index) => (
+            <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end glass p-3 rounded-none sm:rounded-xl">
+              <div className="md:col-span-4 col-span-full">
+                <label className="label" htmlFor={`tenant-${index}-name`}>{t("split.name")}</label>
+                <input id={`tenant-${index}-name`} type="text" value={tenant.name} onChange={(e) => updateTenant(index, { name: e.target.value })} className="input" />
+              </div>
+              <div className="md:col-span-3 col-span-full">
+                <label className="label" htmlFor={`tenant-${index}-prev`}>{t("split.previous")}</label>
+                <input id={`tenant-${index}-prev`} type="number" inputMode="decimal" value={tenant.prevReading === 0 ? "" : tenant.prevReading} placeholder="0" onChange={(e) => updateTenant(index, { prevReading: numberValue(e.target.value) })} className="input" />
+              </div>
+              <div className="md:col-span-3 col-span-full">
+                <label className="label" htmlFor={`tenant-${index}-curr`}>{t("split.current")}</label>
+                <input id={`tenant-${index}-curr`} type="number" inputMode="decimal" value={tenant.currReading === 0 ? "" : tenant.currReading} placeholder="0" onChange={(e) => updateTenant(index, { currReading: numberValue(e.target.value) })} className="input" />
+              </div>
+              <div className="md:col-span-2 col-span-full flex md:justify-end">
+                <button
+                  type="button"
+                  disabled={tenants.length <= 1}
+                  onClick={() => setTenants((prev) => prev.filter((_, i) => i !== index))}
+                  className={`btn-danger-soft ${tenants.length <= 1 ? "opacity-40 cursor-not-allowed" : ""}`}
+                >
+                  {t("common.remove")}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          className="btn-soft mt-3"
+          onClick={() => setTenants((prev) => [...prev, { name: t("split.tenantName", { number: prev.length + 1 }), prevReading: 0, currReading: 0 }])}
+        >
+          {t("split.addTenant")}
+        </button>
+
+        <h3 className="text-base font-semibold mt-6 mb-2">{t("split.rules")}</h3>
+        <div className="grid sm:grid-cols-3 gap-4">
+          {ruleOptions.map((rule) => (
+            <div key={rule.key}>
+              <label className="label" htmlFor={`rule-${rule.key}`}>{t(`split.rule.${rule.key}`)}</label>
+              <select
+                id={`rule-${rule.key}`}
+                value={rules[rule.key]}
+                onChange={(e) => setRules((prev) => ({ ...prev, [rule.key]: e.target.value }))}
+                className="input bg-white"
+              >
+                {rule.options.map((option) => (
+                  <option key={option} value={option}>{t(`split.option.${option}` as MessageKey)}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-6 flex items-center gap-3">
+          <button onClick={calculate} className="btn-primary">{t("split.calculate")}</button>
+        </div>
+      </section>
+
+      <section className="glass card rounded-none sm:rounded-2xl p-4 sm:p-6">
+        <h2 className="text-lg font-semibold mb-4">{t("common.results")}</h2>
+
+        {!result ? (
+          <p className="text-gray-500 text-sm">{t("split.empty")}</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="border rounded-xl p-3">
+                <div className="text-xs text-gray-500 break-words">{t("split.mainMeter")}</div>
+                <div className="text-xl font-semibold">{t("common.kwh", { value: number(result.main.units) })}</div>
+              </div>
+              <div className="border rounded-xl p-3">
+                <div className="text-xs text-gray-500 break-words">{t("split.subMetered")}</div>
+                <div className="text-xl font-semibold">{t("common.kwh", { value: number(result.meteredUnits) })}</div>
+              </div>
+              <div className="border rounded-xl p-3">
+                <div className="text-xs text-gray-500 break-words">{t("split.unmetered")}</div>
+                <div className="text-xl font-semibold">{t("common.kwh", { value: number(result.remainderUnits) })}</div>
+              </div>
+            </div>
+
+            {result.overMetered && (
+              <p className="text-sm m-0" role="alert">
+                {t("split.overMetered")}
+              </p>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm rounded-xl overflow-hidden" style={{ border: "1px solid var(--outline)" }}>
+                <thead style={{ background: "var(--surface)" }}>
+                  <tr>
+                    {resultColumns.map((heading) => (
+                      <th key={heading} className="text-left p-2 break-words" style={{ borderBottom: "1px solid var(--outline)" }}>{t(heading)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.shares.map((share, i) => (
+                    <tr key={i}>
+                      <td className="p-2 break-words" style={{ borderTop: "1px solid var(--outline)" }}>{share.name}</td>
+                      <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{number(share.units)}</td>
+                      <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{fixed(share.energy, 2)}</td>
+                      <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{fixed(share.remainder, 2)}</td>
+                      <td className="p-2" style={{ borderTop: "1px solid var(--outline)" }}>{fixed(share.charges, 2)}</td>
+                      <td className="p-2 font-semibold" style={{ borderTop: "1px solid var(--outline)" }}>{fixed(share.total, 2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="p-4 rounded-xl" style={{ background: "linear-gradient(180deg, rgba(0,51,161,0.10), rgba(0,51,161,0.06))", border: "1px solid var(--outline)" }}>
+              <div className="text-sm" style={{ color: "var(--muted)" }}>{t("split.mainBill")}</div>
+              <div className="text-2xl font-bold final-amount">{money(result.main.totalBill)}</div>
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import React, { useEffect, useState } from "react";
+import { useI18n } from "@/components/I18nProvider";
+import { applyUpdate, registerServiceWorker } from "@/lib/serviceWorker";
+
+export default function UpdatePrompt() {
+  const { t } = useI18n();
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+
+  useEffect(() => {
+    registerServiceWorker(setWaiting).catch(() => {});
+  }, []);
+
+  if (!waiting) return null;
+
+  return (
+    <div role="status" className="fixed bottom-4 inset-x-4 sm:left-auto sm:right-4 sm:max-w-sm z-20 glass card rounded-2xl p-4 flex items-center gap-3 print:hidden">
+      <p className="text-sm m-0 flex-1">{t("update.available")}</p>
+      <button type="button" className="btn-soft" onClick={() => setWaiting(null)}>{t("update.later")}</button>
+      <button type="button" className="btn-primary !py-2" onClick={() => applyUpdate(waiting)}>{t("update.reload")}</button>
+    </div>
+  );
+}
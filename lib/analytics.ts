@@ -0,0 +1,60 @@
+import type { BillingCycle } from "@/lib/billHistory";
+import { topBandOf } from "@/lib/tariffEngine";
+
+export type CycleStats = {
+  id: string;
+  label: string;
+  units: number;
+  billingDays: number;
+  dailyUnits: number;
+  /** Total bill divided by units: what each kWh really cost once levies and charges are in. */
+  effectiveRate: number;
+  energy: number;
+  levies: number;
+  fixedCharges: number;
+  totalBill: number;
+  /** Number of bands the cycle reached, counting from 1. */
+  topBand: number;
+};
+
+export type BandAlert = { id: string; label: string; topBand: number; usualBand: number };
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export const cycleStats = (cycle: BillingCycle): CycleStats => {
+  const { results } = cycle;
+  const levies = results.levyLines.reduce((sum, line) => sum + line.amount, 0);
+  return {
+    id: cycle.id,
+    label: cycle.input.endDate,
+    units: results.units,
+    billingDays: results.billingDays,
+    dailyUnits: results.billingDays > 0 ? results.units / results.billingDays : 0,
+    effectiveRate: results.units > 0 ? results.totalBill / results.units : 0,
+    energy: results.energyCost + results.demandCharge,
+    levies,
+    fixedCharges: results.serviceCharge,
+    totalBill: results.totalBill,
+    topBand: topBandOf(results),
+  };
+};
+
+/** Cycle stats in date order, oldest first. */
+export const summarizeCycles = (cycles: BillingCycle[]) =>
+  [...cycles].sort((a, b) => a.input.endDate.localeCompare(b.input.endDate)).map(cycleStats);
+
+/** Flags cycles that reached a higher band than the household's median cycle. */
+export const bandAlerts = (stats: CycleStats[]): BandAlert[] => {
+  if (stats.length < 2) return [];
+  const usualBand = median(stats.map((cycle) => cycle.topBand));
+  return stats
+    .filter((cycle) => cycle.topBand > usualBand)
+    .map((cycle) => ({ id: cycle.id, label: cycle.label, topBand: cycle.topBand, usualBand: Math.round(usualBand) }));
+};
+
+export const averageOf = (stats: CycleStats[], pick: (cycle: CycleStats) => number) =>
+  stats.length === 0 ? 0 : stats.reduce((sum, cycle) => sum + pick(cycle), 0) / stats.length;
@@ -0,0 +1,103 @@
+import {
+  calculateBill,
+  periodEndingOn,
+  topBandOf,
+  type CalculationResults,
+  type TariffKey,
+  type TariffSchedule,
+} from "@/lib/tariffEngine";
+
+export type Appliance = {
+  id: string;
+  name: string;
+  watts: number;
+  quantity: number;
+  hoursPerDay: number;
+};
+
+export type AppliancePreset = { key: string; watts: number; hoursPerDay: number };
+
+/** Typical ratings and daily use; fridges and freezers count compressor running time, not hours plugged in. */
+export const appliancePresets: AppliancePreset[] = [
+  { key: "ledBulb", watts: 10, hoursPerDay: 6 },
+  { key: "ceilingFan", watts: 75, hoursPerDay: 8 },
+  { key: "standingFan", watts: 55, hoursPerDay: 8 },
+  { key: "television", watts: 100, hoursPerDay: 5 },
+  { key: "decoder", watts: 20, hoursPerDay: 5 },
+  { key: "fridge", watts: 150, hoursPerDay: 10 },
+  { key: "chestFreezer", watts: 200, hoursPerDay: 10 },
+  { key: "airConditioner", watts: 1100, hoursPerDay: 6 },
+  { key: "iron", watts: 1000, hoursPerDay: 0.5 },
+  { key: "kettle", watts: 1500, hoursPerDay: 0.25 },
+  { key: "microwave", watts: 1200, hoursPerDay: 0.25 },
+  { key: "riceCooker", watts: 700, hoursPerDay: 0.5 },
+  { key: "waterHeater", watts: 3000, hoursPerDay: 0.5 },
+  { key: "washingMachine", watts: 500, hoursPerDay: 1 },
+  { key: "waterPump", watts: 750, hoursPerDay: 1 },
+  { key: "laptop", watts: 60, hoursPerDay: 6 },
+  { key: "desktop", watts: 200, hoursPerDay: 4 },
+  { key: "phoneCharger", watts: 10, hoursPerDay: 3 },
+];
+
+export type EstimateOptions = {
+  tariffType: TariffKey;
+  days: number;
+  catalogue?: TariffSchedule[];
+};
+
+export type ApplianceImpact = {
+  id: string;
+  units: number;
+  /** True when taking this appliance away drops the bill to a lower band or tariff. */
+  pushesBand: boolean;
+  /** Bill reduction if the appliance is switched off entirely. */
+  savingIfOff: number;
+  /** Bill reduction if it runs one hour a day less (or not at all, if it runs under an hour). */
+  savingPerHour: number;
+};
+
+export type Estimate = {
+  units: number;
+  topBand: number;
+  results: CalculationResults;
+  impacts: ApplianceImpact[];
+};
+
+export const applianceUnits = (appliance: Appliance, days: number) =>
+  (Math.max(appliance.watts, 0) * Math.max(appliance.quantity, 0) * Math.max(appliance.hoursPerDay, 0) * days) / 1000;
+
+const totalUnits = (appliances: Appliance[], days: number) => appliances.reduce((sum, appliance) => sum + applianceUnits(appliance, days), 0);
+
+const billFor = (units: number, options: EstimateOptions) =>
+  calculateBill({
+    prevReading: 0,
+    currReading: units,
+    ...periodEndingOn(options.days),
+    tariffType: options.tariffType,
+    prevBalance: 0,
+    payments: 0,
+    adjustment: 0,
+    catalogue: options.catalogue,
+  });
+
+export const estimateBill = (appliances: Appliance[], options: EstimateOptions): Estimate => {
+  const units = totalUnits(appliances, options.days);
+  const results = billFor(units, options);
+  const topBand = topBandOf(results);
+
+  const impacts = appliances.map((appliance) => {
+    const others = appliances.filter((other) => other.id !== appliance.id);
+    const without = billFor(totalUnits(others, options.days), options);
+    const reduced = { ...appliance, hoursPerDay: Math.max(appliance.hoursPerDay - 1, 0) };
+    const withReduced = billFor(totalUnits([...others, reduced], options.days), options);
+    return {
+      id: appliance.id,
+      units: applianceUnits(appliance, options.days),
+      pushesBand: without.tariffType !== results.tariffType || topBandOf(without) < topBand,
+      savingIfOff: results.totalBill - without.totalBill,
+      savingPerHour: results.totalBill - withReduced.totalBill,
+    };
+  });
+
+  return { units, topBand, results, impacts };
+};
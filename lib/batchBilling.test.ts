@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, runBatch } from "@/lib/batchBilling";
+import { calculateBill } from "@/lib/tariffEngine";
+
+describe("parseCsv", () => {
+  it("keeps commas, doubled quotes and line breaks inside quoted cells", () => {
+    const text = 'meterId,note\r\n"P-01, Block A","said ""read me""\nat the gate"\r\n\r\nP-02,plain\n';
+    expect(parseCsv(text)).toEqual([
+      ["meterId", "note"],
+      ["P-01, Block A", 'said "read me"\nat the gate'],
+      ["P-02", "plain"],
+    ]);
+  });
+
+  it("drops a byte-order mark and a last line with no newline", () => {
+    expect(parseCsv("\uFEFFa,b\n1,2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+});
+
+describe("runBatch", () => {
+  const csv = [
+    "meterId,prevReading,currReading,days,tariffType",
+    '"P-01, Block A",1000,1250,31,residential',
+    "P-02,900,800,31,residential",
+    "P-03,abc,10,31,residential",
+    ",10,20,31,residential",
+    "P-05,0,400,30,nonResidential",
+  ].join("\n");
+
+  it("bills the good rows when others fail, and reports each bad row by its line", () => {
+    const result = runBatch(csv);
+    if (!result.ok) throw new Error(result.errors.join("; "));
+
+    expect(result.rows.map((row) => [row.line, row.meterId, row.ok])).toEqual([
+      [2, "P-01, Block A", true],
+      [3, "P-02", false],
+      [4, "P-03", false],
+      [5, "", false],
+      [6, "P-05", true],
+    ]);
+    const failed = result.rows.flatMap((row) => (row.ok ? [] : [row.issues.map((issue) => issue.code)]));
+    expect(failed).toEqual([["reversed_readings"], ["not_a_number"], ["required"]]);
+    for (const row of result.rows) {
+      if (row.ok) expect(row.results).toEqual(calculateBill(row.input));
+    }
+  });
+
+  it("bills a row the same as the calculator", () => {
+    const result = runBatch(csv);
+    const first = result.ok ? result.rows[0] : null;
+    expect(first?.ok && first.results.totalBill).toBeCloseTo(479.24, 2);
+  });
+});
@@ -0,0 +1,210 @@
+import { validateBillRequest, type ValidationIssue } from "@/lib/billValidation";
+import {
+  calculateBill,
+  levyKeys,
+  type BillInput,
+  type CalculationResults,
+  type TariffSchedule,
+} from "@/lib/tariffEngine";
+
+export const batchColumns = ["meterId", "prevReading", "currReading", "days", "tariffType", "prevBalance", "payments", "adjustment"] as const;
+
+type BatchColumn = (typeof batchColumns)[number];
+
+export const MAX_BATCH_ROWS = 1000;
+
+export type BatchRow =
+  | { line: number; meterId: string; ok: true; input: BillInput; results: CalculationResults }
+  | { line: number; meterId: string; ok: false; issues: ValidationIssue[] };
+
+export type BatchResult = { ok: true; rows: BatchRow[] } | { ok: false; errors: string[] };
+
+// Header spellings people actually use in spreadsheets, normalised to lower-case letters and digits.
+const headerAliases: Record<string, BatchColumn> = {
+  meterid: "meterId",
+  meter: "meterId",
+  meterno: "meterId",
+  meternumber: "meterId",
+  prevreading: "prevReading",
+  previousreading: "prevReading",
+  prev: "prevReading",
+  previous: "prevReading",
+  currreading: "currReading",
+  currentreading: "currReading",
+  curr: "currReading",
+  current: "currReading",
+  days: "days",
+  billingdays: "days",
+  tarifftype: "tariffType",
+  tariff: "tariffType",
+  prevbalance: "prevBalance",
+  previousbalance: "prevBalance",
+  balance: "prevBalance",
+  payments: "payments",
+  paymentsmade: "payments",
+  adjustment: "adjustment",
+  adjustments: "adjustment",
+};
+
+/** Splits CSV text into rows of cells, honouring quoted cells with embedded commas, quotes and newlines. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"' && cell === "") quoted = true;
+    else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += char;
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]) => rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+
+/** Maps each column to its cell index, or null when the first row is data rather than a header. */
+const readHeader = (cells: string[]): { columns: Partial<Record<BatchColumn, number>>; unknown: string[] } | null => {
+  const normalised = cells.map((cell) => cell.toLowerCase().replace(/[^a-z0-9]/g, ""));
+  if (!normalised.some((cell) => headerAliases[cell] === "meterId")) return null;
+  const columns: Partial<Record<BatchColumn, number>> = {};
+  const unknown: string[] = [];
+  normalised.forEach((cell, index) => {
+    const column = headerAliases[cell];
+    if (column && columns[column] === undefined) columns[column] = index;
+    else if (cell !== "") unknown.push(cells[index].trim());
+  });
+  return { columns, unknown };
+};
+
+const positional = Object.fromEntries(batchColumns.map((column, index) => [column, index])) as Record<BatchColumn, number>;
+
+/**
+ * Bills every row of a CSV with the same engine as the calculator. The
+ * header row is optional; without one, columns are read in `batchColumns`
+ * order. Bad rows get their own issues and never stop the rest of the batch.
+ */
+export const runBatch = (text: string, catalogue?: TariffSchedule[]): BatchResult => {
+  const table = parseCsv(text);
+  if (table.length === 0) return { ok: false, errors: ["The file has no rows"] };
+
+  const header = readHeader(table[0]);
+  if (header && header.unknown.length > 0) {
+    return { ok: false, errors: [`Unknown columns: ${header.unknown.join(", ")}. Expected: ${batchColumns.join(", ")}`] };
+  }
+  const columns = header?.columns ?? positional;
+  if (header && (columns.prevReading === undefined || columns.currReading === undefined)) {
+    return { ok: false, errors: ["The header must include prevReading and currReading columns"] };
+  }
+  const firstLine = header ? 2 : 1;
+  const data = header ? table.slice(1) : table;
+  if (data.length > MAX_BATCH_ROWS) return { ok: false, errors: [`A batch can hold at most ${MAX_BATCH_ROWS} rows; this file has ${data.length}`] };
+
+  const rows = data.map((cells, index): BatchRow => {
+    const line = firstLine + index;
+    const cell = (column: BatchColumn) => {
+      const at = columns[column];
+      const value = at === undefined ? "" : (cells[at] ?? "").trim();
+      return value === "" ? undefined : value;
+    };
+    const meterId = cell("meterId") ?? "";
+    const issues: ValidationIssue[] = [];
+    if (meterId === "") issues.push({ field: "meterId", code: "required", message: "meterId is required" });
+
+    const validation = validateBillRequest({
+      prevReading: cell("prevReading"),
+      currReading: cell("currReading"),
+      days: cell("days"),
+      tariffType: cell("tariffType"),
+      prevBalance: cell("prevBalance"),
+      payments: cell("payments"),
+      adjustment: cell("adjustment"),
+    });
+    if (!validation.ok) issues.push(...validation.issues);
+    if (!validation.ok || issues.length > 0) return { line, meterId, ok: false, issues };
+
+    const input = catalogue ? { ...validation.input, catalogue } : validation.input;
+    return { line, meterId, ok: true, input, results: calculateBill(input) };
+  });
+  return { ok: true, rows };
+};
+
+const money = (amount: number) => amount.toFixed(2);
+
+const resultColumns = [
+  "meterId",
+  "line",
+  "status",
+  "startDate",
+  "endDate",
+  "billingDays",
+  "tariffBilled",
+  "units",
+  "energyCost",
+  "demandCharge",
+  "serviceCharge",
+  ...levyKeys,
+  "totalBill",
+  "prevBalance",
+  "payments",
+  "adjustment",
+  "payable",
+  "errors",
+];
+
+/** Every line item per meter; rows that failed validation carry their messages in the last column. */
+export const batchResultsCsv = (rows: BatchRow[]) =>
+  toCsv([
+    resultColumns,
+    ...rows.map((row) => {
+      if (!row.ok) {
+        const blanks = Array<string>(resultColumns.length - 4).fill("");
+        return [row.meterId, row.line, "error", ...blanks, row.issues.map((issue) => issue.message).join("; ")];
+      }
+      const { input, results } = row;
+      return [
+        row.meterId,
+        row.line,
+        "ok",
+        input.startDate,
+        input.endDate,
+        results.billingDays,
+        results.tariffType,
+        results.units,
+        money(results.energyCost),
+        money(results.demandCharge),
+        money(results.serviceCharge),
+        ...levyKeys.map((key) => money(results.levyLines.find((levy) => levy.key === key)?.amount ?? 0)),
+        money(results.totalBill),
+        money(input.prevBalance),
+        money(input.payments),
+        money(results.adjustment),
+        money(results.payable),
+        "",
+      ];
+    }),
+  ]);
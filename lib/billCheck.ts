@@ -0,0 +1,140 @@
+import {
+  calculateBill,
+  daysBetween,
+  levyKeys,
+  periodEndingOn,
+  tariffCatalogue,
+  tariffKeys,
+  type BillInput,
+  type CalculationResults,
+  type LevyKey,
+  type TariffKey,
+} from "@/lib/tariffEngine";
+
+export type CheckLineKey = "units" | "energyCost" | "serviceCharge" | LevyKey | "totalBill";
+
+export const checkLineKeys: CheckLineKey[] = ["units", "energyCost", "serviceCharge", ...levyKeys, "totalBill"];
+
+/** Figures copied from the printed bill; lines the bill does not show are left out. */
+export type PrintedBill = Partial<Record<CheckLineKey, number>>;
+
+export type CheckLine = {
+  key: CheckLineKey;
+  printed: number;
+  expected: number;
+  difference: number;
+  flagged: boolean;
+};
+
+export type Cause =
+  | { kind: "estimatedReading"; billedUnits: number; meteredUnits: number }
+  | { kind: "wrongTariff"; billedAs: TariffKey }
+  | { kind: "wrongDays"; billedDays: number; actualDays: number }
+  | { kind: "outdatedRate"; scheduleLabel: string }
+  | { kind: "levyRate"; levy: LevyKey; billedRate: number; expectedRate: number }
+  | { kind: "doesNotAddUp"; linesTotal: number };
+
+export type BillCheck = {
+  lines: CheckLine[];
+  causes: Cause[];
+  expected: CalculationResults;
+  /** Printed total minus the recomputed total; positive means overbilled. */
+  overbilled: number;
+};
+
+export const DEFAULT_TOLERANCE = 0.1;
+/** Readings are whole kWh, so anything under half a unit is display rounding. */
+const UNIT_TOLERANCE = 0.5;
+
+const levyAmount = (results: CalculationResults, key: LevyKey) => results.levyLines.find((line) => line.key === key)?.amount ?? 0;
+
+const lineValue = (results: CalculationResults, key: CheckLineKey) => {
+  if (key === "units" || key === "energyCost" || key === "serviceCharge" || key === "totalBill") return results[key];
+  return levyAmount(results, key);
+};
+
+/**
+ * Recomputes a printed bill from its readings and explains the lines that
+ * disagree. Cause checks rerun the engine with the billed units, so a wrong
+ * rate is not blamed on an estimated reading.
+ */
+export const checkBill = (input: BillInput, printed: PrintedBill, tolerance = DEFAULT_TOLERANCE): BillCheck => {
+  const expected = calculateBill(input);
+  const matches = (a: number, b: number) => Math.abs(a - b) <= tolerance + 1e-9;
+
+  const lines = checkLineKeys.flatMap((key) => {
+    const value = printed[key];
+    if (value === undefined) return [];
+    const expectedValue = lineValue(expected, key);
+    const difference = value - expectedValue;
+    const flagged = Math.abs(difference) > (key === "units" ? UNIT_TOLERANCE : tolerance) + 1e-9;
+    return [{ key, printed: value, expected: expectedValue, difference, flagged }];
+  });
+
+  const causes: Cause[] = [];
+  const billedUnits = printed.units ?? expected.units;
+  if (Math.abs(billedUnits - expected.units) > UNIT_TOLERANCE) {
+    causes.push({ kind: "estimatedReading", billedUnits, meteredUnits: expected.units });
+  }
+
+  const billedInput: BillInput = { ...input, prevReading: 0, currReading: billedUnits, meterEvent: undefined };
+  const billed = calculateBill(billedInput);
+
+  if (printed.energyCost !== undefined && !matches(printed.energyCost, billed.energyCost)) {
+    const energy = printed.energyCost;
+    const otherTariff = tariffKeys.find(
+      (key) => key !== input.tariffType && matches(calculateBill({ ...billedInput, tariffType: key }).energyCost, energy),
+    );
+    if (otherTariff) causes.push({ kind: "wrongTariff", billedAs: otherTariff });
+    else {
+      const used = new Set(billed.periods.map((period) => period.scheduleId));
+      const schedules = [...(input.catalogue ?? []), ...tariffCatalogue];
+      const older = schedules.find(
+        (schedule) => !used.has(schedule.id) && matches(calculateBill({ ...billedInput, catalogue: [schedule] }).energyCost, energy),
+      );
+      if (older) causes.push({ kind: "outdatedRate", scheduleLabel: older.label });
+    }
+  }
+
+  if (printed.serviceCharge !== undefined && !matches(printed.serviceCharge, billed.serviceCharge)) {
+    const serviceCharge = printed.serviceCharge;
+    const actualDays = daysBetween(input.startDate, input.endDate);
+    for (let days = 1; days <= 120; days++) {
+      if (days === actualDays) continue;
+      const candidate = calculateBill({ ...billedInput, ...periodEndingOn(days, input.endDate) });
+      if (matches(candidate.serviceCharge, serviceCharge)) {
+        causes.push({ kind: "wrongDays", billedDays: days, actualDays });
+        break;
+      }
+    }
+  }
+
+  // A levy can only be judged on its own once the charges it is levied on agree.
+  const energyAgrees = printed.energyCost === undefined || matches(printed.energyCost, billed.energyCost);
+  if (energyAgrees) {
+    const energy = printed.energyCost ?? billed.energyCost;
+    const base = energy + billed.demandCharge;
+    for (const line of billed.levyLines) {
+      const amount = printed[line.key];
+      if (amount === undefined || matches(amount, line.amount)) continue;
+      const otherLevies = levyKeys
+        .filter((key) => key !== "vat")
+        .reduce((sum, key) => sum + (printed[key] ?? levyAmount(billed, key)), 0);
+      const levyBase = line.key === "vat" ? base + otherLevies : base;
+      if (levyBase > 0) causes.push({ kind: "levyRate", levy: line.key, billedRate: amount / levyBase, expectedRate: line.rate });
+    }
+  }
+
+  if (printed.totalBill !== undefined && printed.energyCost !== undefined && printed.serviceCharge !== undefined) {
+    const linesTotal =
+      printed.energyCost + billed.demandCharge + printed.serviceCharge + levyKeys.reduce((sum, key) => sum + (printed[key] ?? 0), 0);
+    if (!matches(linesTotal, printed.totalBill)) causes.push({ kind: "doesNotAddUp", linesTotal });
+  }
+
+  return {
+    lines,
+    causes,
+    expected,
+    overbilled: printed.totalBill !== undefined ? printed.totalBill - expected.totalBill : 0,
+  };
+};
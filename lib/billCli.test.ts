@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { main } from "@/lib/billCli";
+import { calculateBill } from "@/lib/tariffEngine";
+
+const run = (...args: string[]) => {
+  const log = vi.spyOn(console, "log").mockImplementation(() => {});
+  const error = vi.spyOn(console, "error").mockImplementation(() => {});
+  const code = main(args);
+  return { code, stdout: log.mock.calls.join("\n"), stderr: error.mock.calls.join("\n") };
+};
+
+afterEach(() => vi.restoreAllMocks());
+
+describe("npm run bill", () => {
+  it("prints the engine's figures as JSON, and exits 1 on invalid input and 2 on bad options", () => {
+    const billed = run("--prev", "1000", "--curr", "1250", "--start", "2025-09-01", "--end", "2025-10-02", "--balance", "120.50", "--adjustment=-25.50", "--json");
+    expect(billed.code).toBe(0);
+    const printed = JSON.parse(billed.stdout);
+    expect(printed.results).toEqual(JSON.parse(JSON.stringify(calculateBill(printed.input))));
+    expect(printed.results.totalBill).toBeCloseTo(479.24, 2);
+    expect(printed.results.payable).toBeCloseTo(574.24, 2);
+
+    const reversed = run("--prev", "1250", "--curr", "1000");
+    expect(reversed.code).toBe(1);
+    expect(reversed.stderr).toMatch(/^currReading: /);
+
+    expect(run("--prev", "1000", "--colour").code).toBe(2);
+    expect(run("--file", "missing.json").code).toBe(2);
+  });
+});
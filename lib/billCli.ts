@@ -0,0 +1,155 @@
+/**
+ * Command-line bill calculator. Input goes through the same validation as
+ * POST /api/calculate and the figures come straight from calculateBill;
+ * the text output follows the printed statement's layout.
+ *
+ * scripts/ecg-bill.ts runs it; `npm run build` bundles that into
+ * build/ecg-bill.cjs for `npm run bill -- --prev 1200 --curr 1450 --days 31`.
+ */
+import { readFileSync } from "fs";
+import { parseArgs } from "util";
+import { validateBillRequest } from "@/lib/billValidation";
+import { createI18n } from "@/lib/i18n";
+import { buildStatement, type StatementLine } from "@/lib/statement";
+import { calculateBill } from "@/lib/tariffEngine";
+
+const EXIT_INVALID_INPUT = 1;
+const EXIT_USAGE = 2;
+
+const usage = `Usage: npm run bill -- [options]
+
+  --prev <kWh>           Previous reading (required)
+  --curr <kWh>           Current reading (required)
+  --days <n>             Billing days ending today (default 31)
+  --start <YYYY-MM-DD>   Previous reading date, with --end instead of --days
+  --end <YYYY-MM-DD>     Current reading date
+  --tariff <type>        lifeline, residential (default), nonResidential,
+                         sltLowVoltage, sltMediumVoltage or sltHighVoltage
+  --balance <GHS>        Previous balance
+  --payments <GHS>       Payments made
+  --adjustment <GHS>     Signed adjustment such as -25.50
+  --max-demand <kVA>     Maximum demand, for SLT tariffs
+  --file <path>          Read a JSON request body, as POST /api/calculate takes;
+                         flags given as well override its fields
+  --json                 Print { input, results } as JSON
+  -h, --help             Show this help
+
+Negative amounts need the = form: --adjustment=-25.50.
+Exit codes: 0 billed, 1 invalid input, 2 bad options or unreadable file.`;
+
+// Flag name -> request body field.
+const fieldFlags = {
+  prev: "prevReading",
+  curr: "currReading",
+  days: "days",
+  start: "startDate",
+  end: "endDate",
+  tariff: "tariffType",
+  balance: "prevBalance",
+  payments: "payments",
+  adjustment: "adjustment",
+  "max-demand": "maxDemandKva",
+} as const;
+
+type FieldFlag = keyof typeof fieldFlags;
+
+class UsageError extends Error {}
+
+const parseOptions = (args: string[]) => {
+  try {
+    return parseArgs({
+      args,
+      strict: true,
+      allowPositionals: false,
+      options: {
+        ...(Object.fromEntries(Object.keys(fieldFlags).map((flag) => [flag, { type: "string" }])) as Record<FieldFlag, { type: "string" }>),
+        file: { type: "string" },
+        json: { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    }).values;
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+};
+
+const readBodyFile = (path: string): Record<string, unknown> => {
+  let body: unknown;
+  try {
+    body = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new UsageError(`Could not read ${path}: ${(error as Error).message}`);
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) throw new UsageError(`${path} must hold a JSON object`);
+  return body as Record<string, unknown>;
+};
+
+const padRow = (cells: string[], widths: number[]) =>
+  cells.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join("  ");
+
+const i18n = createI18n("en");
+const { money, number, fixed } = i18n;
+
+const amountRows = (lines: StatementLine[], width: number) => lines.map((line) => padRow([line.label, money(line.amount)], [width, 16]));
+
+const renderText = (statement: ReturnType<typeof buildStatement>) => {
+  const bandWidths = [6, 12, 14, 14];
+  const labelWidth = Math.max(24, ...[...statement.charges, ...statement.account].map((line) => line.label.length));
+  return [
+    `${statement.tariffLabel} tariff, ${statement.startDate} to ${statement.endDate} (${statement.billingDays} days)`,
+    `Readings: ${number(statement.prevReading)} -> ${number(statement.currReading)}`,
+    ...statement.unitsNote,
+    `Units billed: ${number(statement.units)} kWh`,
+    "",
+    padRow(["Band", "Units (kWh)", "Rate (GHS)", "Cost (GHS)"], bandWidths),
+    ...statement.bands.map((band, i) => padRow([String(i + 1), fixed(band.units, 2), fixed(band.rate, 4), fixed(band.cost, 2)], bandWidths)),
+    "",
+    ...amountRows(statement.charges, labelWidth),
+    padRow(["Total Bill", money(statement.totalBill)], [labelWidth, 16]),
+    "",
+    ...amountRows(statement.account, labelWidth),
+    padRow(["Amount Payable", money(statement.payable)], [labelWidth, 16]),
+  ].join("\n");
+};
+
+const bill = (args: string[]) => {
+  const options = parseOptions(args);
+  if (options.help) {
+    console.log(usage);
+    return 0;
+  }
+
+  const body: Record<string, unknown> = options.file ? readBodyFile(options.file) : {};
+  for (const [flag, field] of Object.entries(fieldFlags)) {
+    const value = options[flag as FieldFlag];
+    if (value !== undefined) body[field] = value;
+  }
+  // Dates on the command line replace a file's billing days, and days replace its dates.
+  if (options.days !== undefined && options.start === undefined && options.end === undefined) {
+    delete body.startDate;
+    delete body.endDate;
+  }
+
+  const validation = validateBillRequest(body);
+  if (!validation.ok) {
+    if (options.json) console.log(JSON.stringify({ error: "invalid_input", issues: validation.issues }, null, 2));
+    else for (const issue of validation.issues) console.error(`${issue.field}: ${issue.message}`);
+    return EXIT_INVALID_INPUT;
+  }
+
+  const results = calculateBill(validation.input);
+  if (options.json) console.log(JSON.stringify({ input: validation.input, results }, null, 2));
+  else console.log(renderText(buildStatement(validation.input, results, i18n)));
+  return 0;
+};
+
+/** Runs the command with `args` (without the node and script paths) and returns its exit code. */
+export const main = (args: string[]) => {
+  try {
+    return bill(args);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    console.error(`${error.message}\n\n${usage}`);
+    return EXIT_USAGE;
+  }
+};
@@ -0,0 +1,114 @@
+import { decodeInfinity, encodeInfinity, newId } from "@/lib/json";
+import {
+  calculateBill,
+  periodEndingOn,
+  sanitizeAdjustmentInput,
+  splitPeriod,
+  tariffCatalogue,
+  type BillInput,
+  type CalculationResults,
+  type TariffSchedule,
+} from "@/lib/tariffEngine";
+
+export type CycleInput = Omit<BillInput, "catalogue">;
+
+export type BillingCycle = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  input: CycleInput;
+  /** The schedules the cycle was billed under, so later tariff edits do not rewrite history. */
+  tariff: TariffSchedule[];
+  results: CalculationResults;
+};
+
+type HistoryStore = { version: 1; cycles: BillingCycle[] };
+
+export const HISTORY_KEY = "ecg_history";
+const HISTORY_VERSION = 1;
+const LEGACY_KEYS = ["ecg_prev_reading", "ecg_curr_reading", "ecg_prev_balance", "ecg_adjustment"];
+
+const snapshotTariff = (catalogue: TariffSchedule[], input: CycleInput) => {
+  const used = splitPeriod(catalogue, input.startDate, input.endDate).map((segment) => segment.schedule);
+  return used.filter((schedule, index) => used.indexOf(schedule) === index);
+};
+
+export const createCycle = (input: CycleInput, catalogue: TariffSchedule[] = tariffCatalogue): BillingCycle => {
+  const now = new Date().toISOString();
+  const tariff = snapshotTariff(catalogue, input);
+  return { id: newId(), createdAt: now, updatedAt: now, input, tariff, results: calculateBill({ ...input, catalogue: tariff }) };
+};
+
+/** Re-bills a cycle after an edit, under the tariff it was saved with. */
+export const updateCycle = (cycle: BillingCycle, updates: Partial<CycleInput>): BillingCycle => {
+  const input = { ...cycle.input, ...updates };
+  return {
+    ...cycle,
+    updatedAt: new Date().toISOString(),
+    input,
+    results: calculateBill({ ...input, catalogue: cycle.tariff }),
+  };
+};
+
+/** Builds the first ledger entry from the single reading pair the old "Remember readings" kept. */
+const migrateLegacy = (storage: Storage): BillingCycle[] => {
+  const prev = storage.getItem("ecg_prev_reading");
+  const curr = storage.getItem("ecg_curr_reading");
+  if (prev === null || curr === null || Number.isNaN(Number(prev)) || Number.isNaN(Number(curr))) return [];
+  const balance = Number(sanitizeAdjustmentInput(storage.getItem("ecg_prev_balance") ?? "").replace(/^\+/, ""));
+  const adjustment = Number(sanitizeAdjustmentInput(storage.getItem("ecg_adjustment") ?? ""));
+  return [
+    createCycle({
+      prevReading: Number(prev),
+      currReading: Number(curr),
+      ...periodEndingOn(31),
+      tariffType: "residential",
+      prevBalance: Number.isNaN(balance) ? 0 : balance,
+      payments: 0,
+      adjustment: Number.isNaN(adjustment) ? 0 : adjustment,
+    }),
+  ];
+};
+
+export const loadHistory = (): BillingCycle[] => {
+  try {
+    const raw = localStorage.getItem(HISTORY_KEY);
+    if (raw !== null) {
+      const store = JSON.parse(raw, decodeInfinity) as HistoryStore;
+      return store.version === HISTORY_VERSION && Array.isArray(store.cycles) ? store.cycles : [];
+    }
+    const migrated = migrateLegacy(localStorage);
+    saveHistory(migrated);
+    LEGACY_KEYS.forEach((key) => localStorage.removeItem(key));
+    return migrated;
+  } catch {
+    return [];
+  }
+};
+
+export const saveHistory = (cycles: BillingCycle[]) => {
+  try {
+    const store: HistoryStore = { version: HISTORY_VERSION, cycles };
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(store, encodeInfinity));
+  } catch {}
+};
+
+/** Adds a cycle, replacing the latest one when it is the same cycle recalculated. */
+export const recordCycle = (cycles: BillingCycle[], cycle: BillingCycle) => {
+  const latest = cycles[cycles.length - 1];
+  if (latest && latest.input.startDate === cycle.input.startDate && latest.input.prevReading === cycle.input.prevReading) {
+    return [...cycles.slice(0, -1), { ...cycle, id: latest.id, createdAt: latest.createdAt }];
+  }
+  return [...cycles, cycle];
+};
+
+/** Where the next cycle starts: the last reading, its date and the amount left payable. */
+export const nextCycleDefaults = (cycles: BillingCycle[]) => {
+  const latest = cycles[cycles.length - 1];
+  if (!latest) return null;
+  return {
+    prevReading: latest.input.currReading,
+    startDate: latest.input.endDate,
+    prevBalance: Math.round(latest.results.payable * 100) / 100,
+  };
+};
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { validateBillRequest } from "@/lib/billValidation";
+
+const readings = { prevReading: 1000, currReading: 1250 };
+
+describe("validateBillRequest: billing period", () => {
+  it("accepts reading dates a leap year apart", () => {
+    expect(validateBillRequest({ ...readings, startDate: "2024-01-01", endDate: "2025-01-01" })).toMatchObject({ ok: true });
+  });
+
+  it("limits reading dates to the same 366 days as `days`", () => {
+    expect(validateBillRequest({ ...readings, startDate: "1900-01-01", endDate: "2025-10-02" })).toMatchObject({
+      ok: false,
+      issues: [{ field: "endDate", code: "out_of_range" }],
+    });
+    expect(validateBillRequest({ ...readings, days: 367 })).toMatchObject({ ok: false, issues: [{ field: "days", code: "out_of_range" }] });
+  });
+});
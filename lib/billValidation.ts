@@ -0,0 +1,198 @@
+import {
+  daysBetween,
+  isIsoDate,
+  isTariffKey,
+  periodEndingOn,
+  sanitizeAdjustmentInput,
+  tariffKeys,
+  type BillInput,
+  type MeterEvent,
+  type NetMetering,
+  type NettingRule,
+} from "@/lib/tariffEngine";
+
+export type ValidationIssue = { field: string; code: string; message: string };
+
+export type ValidationResult =
+  | { ok: true; input: BillInput }
+  | { ok: false; issues: ValidationIssue[] };
+
+const MAX_BILLING_DAYS = 366;
+
+const STRICT_AMOUNT = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+
+/**
+ * Parses an adjustment the way the calculator's input field accepts it, but
+ * rejects anything the field would have had to clean up first.
+ */
+export const parseAdjustment = (raw: unknown): number | null => {
+  if (typeof raw === "number") return Number.isFinite(raw) ? raw : null;
+  if (typeof raw !== "string") return null;
+  const trimmed = raw.trim();
+  if (trimmed === "") return 0;
+  if (!STRICT_AMOUNT.test(trimmed)) return null;
+  const value = Number(sanitizeAdjustmentInput(trimmed));
+  return Number.isFinite(value) ? value : null;
+};
+
+const readNumber = (
+  body: Record<string, unknown>,
+  field: string,
+  issues: ValidationIssue[],
+  { required = false, min }: { required?: boolean; min?: number } = {},
+) => {
+  const raw = body[field];
+  if (raw === undefined || raw === null || raw === "") {
+    if (required) issues.push({ field, code: "required", message: `${field} is required` });
+    return 0;
+  }
+  const value = typeof raw === "string" ? Number(raw) : raw;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    issues.push({ field, code: "not_a_number", message: `${field} must be a finite number` });
+    return 0;
+  }
+  if (min !== undefined && value < min) {
+    issues.push({ field, code: "out_of_range", message: `${field} must be ${min} or more` });
+  }
+  return value;
+};
+
+const MIN_REGISTER_DIGITS = 4;
+const MAX_REGISTER_DIGITS = 8;
+
+const readMeterEvent = (raw: unknown, prevReading: number, currReading: number, issues: ValidationIssue[]): MeterEvent | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  const event = raw as Record<string, unknown>;
+  if (typeof raw !== "object" || (event.kind !== "rollover" && event.kind !== "replacement")) {
+    issues.push({ field: "meterEvent.kind", code: "invalid_meter_event", message: "meterEvent.kind must be rollover or replacement" });
+    return undefined;
+  }
+  if (event.kind === "rollover") {
+    const digits = event.digits;
+    if (typeof digits !== "number" || !Number.isInteger(digits) || digits < MIN_REGISTER_DIGITS || digits > MAX_REGISTER_DIGITS) {
+      issues.push({ field: "meterEvent.digits", code: "out_of_range", message: `meterEvent.digits must be a whole number from ${MIN_REGISTER_DIGITS} to ${MAX_REGISTER_DIGITS}` });
+      return undefined;
+    }
+    if (Math.max(prevReading, currReading) >= 10 ** digits) {
+      issues.push({ field: "meterEvent.digits", code: "reading_exceeds_register", message: `Readings must fit a ${digits}-digit register` });
+    }
+    return { kind: "rollover", digits };
+  }
+  const nested = { oldFinalReading: event.oldFinalReading, newStartReading: event.newStartReading };
+  const nestedIssues: ValidationIssue[] = [];
+  const oldFinalReading = readNumber(nested, "oldFinalReading", nestedIssues, { required: true, min: 0 });
+  const newStartReading = readNumber(nested, "newStartReading", nestedIssues, { required: true, min: 0 });
+  issues.push(...nestedIssues.map((issue) => ({ ...issue, field: `meterEvent.${issue.field}` })));
+  if (nestedIssues.length > 0) return undefined;
+  if (oldFinalReading < prevReading) {
+    issues.push({ field: "meterEvent.oldFinalReading", code: "reversed_readings", message: "oldFinalReading must not be lower than prevReading" });
+  }
+  if (currReading < newStartReading) {
+    issues.push({ field: "meterEvent.newStartReading", code: "reversed_readings", message: "currReading must not be lower than newStartReading" });
+  }
+  return { kind: "replacement", oldFinalReading, newStartReading };
+};
+
+const nettingRules: NettingRule[] = ["netUnits", "exportCredit"];
+
+const readNetMetering = (raw: unknown, issues: ValidationIssue[]): NetMetering | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    issues.push({ field: "netMetering", code: "invalid_type", message: "netMetering must be an object" });
+    return undefined;
+  }
+  const terms = raw as Record<string, unknown>;
+  const nestedIssues: ValidationIssue[] = [];
+  const exportPrev = readNumber(terms, "exportPrev", nestedIssues, { required: true, min: 0 });
+  const exportCurr = readNumber(terms, "exportCurr", nestedIssues, { required: true, min: 0 });
+  const exportRate = readNumber(terms, "exportRate", nestedIssues, { min: 0 });
+  if (nestedIssues.length === 0 && exportCurr < exportPrev) {
+    nestedIssues.push({ field: "exportCurr", code: "reversed_readings", message: "exportCurr must not be lower than exportPrev" });
+  }
+  const rule = terms.rule ?? "netUnits";
+  if (!(nettingRules as unknown[]).includes(rule)) {
+    nestedIssues.push({ field: "rule", code: "unknown_rule", message: `rule must be one of: ${nettingRules.join(", ")}` });
+  }
+  const creditBeforeLevies = terms.creditBeforeLevies ?? false;
+  if (typeof creditBeforeLevies !== "boolean") {
+    nestedIssues.push({ field: "creditBeforeLevies", code: "invalid_type", message: "creditBeforeLevies must be true or false" });
+  }
+  issues.push(...nestedIssues.map((issue) => ({ ...issue, field: `netMetering.${issue.field}` })));
+  if (nestedIssues.length > 0) return undefined;
+  return { exportPrev, exportCurr, rule: rule as NettingRule, exportRate, creditBeforeLevies: creditBeforeLevies as boolean };
+};
+
+/** Validates an untrusted request body into engine input, collecting every problem found. */
+export const validateBillRequest = (body: unknown): ValidationResult => {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { ok: false, issues: [{ field: "body", code: "invalid_type", message: "Request body must be a JSON object" }] };
+  }
+  const fields = body as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+
+  const prevReading = readNumber(fields, "prevReading", issues, { required: true, min: 0 });
+  const currReading = readNumber(fields, "currReading", issues, { required: true, min: 0 });
+  const meterEvent = readMeterEvent(fields.meterEvent, prevReading, currReading, issues);
+  const netMetering = readNetMetering(fields.netMetering, issues);
+  if (currReading < prevReading && fields.meterEvent === undefined && !issues.some((issue) => issue.field.endsWith("Reading"))) {
+    issues.push({
+      field: "currReading",
+      code: "reversed_readings",
+      message: "currReading must not be lower than prevReading unless meterEvent explains a rollover or replacement",
+    });
+  }
+
+  const tariffType = fields.tariffType ?? "residential";
+  if (!isTariffKey(tariffType)) {
+    issues.push({ field: "tariffType", code: "unknown_tariff", message: `tariffType must be one of: ${tariffKeys.join(", ")}` });
+  }
+
+  let period = periodEndingOn(31);
+  if (fields.startDate !== undefined || fields.endDate !== undefined) {
+    const { startDate, endDate } = fields;
+    if (typeof startDate !== "string" || !isIsoDate(startDate)) {
+      issues.push({ field: "startDate", code: "invalid_date", message: "startDate must be a YYYY-MM-DD date" });
+    } else if (typeof endDate !== "string" || !isIsoDate(endDate)) {
+      issues.push({ field: "endDate", code: "invalid_date", message: "endDate must be a YYYY-MM-DD date" });
+    } else if (daysBetween(startDate, endDate) <= 0) {
+      issues.push({ field: "endDate", code: "reversed_dates", message: "endDate must be after startDate" });
+    } else if (daysBetween(startDate, endDate) > MAX_BILLING_DAYS) {
+      issues.push({ field: "endDate", code: "out_of_range", message: `endDate must be at most ${MAX_BILLING_DAYS} days after startDate` });
+    } else {
+      period = { startDate, endDate };
+    }
+  } else if (fields.days !== undefined) {
+    const days = typeof fields.days === "string" ? Number(fields.days) : fields.days;
+    if (typeof days !== "number" || !Number.isInteger(days) || days < 1 || days > MAX_BILLING_DAYS) {
+      issues.push({ field: "days", code: "out_of_range", message: `days must be a whole number from 1 to ${MAX_BILLING_DAYS}` });
+    } else {
+      period = periodEndingOn(days);
+    }
+  }
+
+  const prevBalance = readNumber(fields, "prevBalance", issues);
+  const payments = readNumber(fields, "payments", issues, { min: 0 });
+  const maxDemandKva = readNumber(fields, "maxDemandKva", issues, { min: 0 });
+  const adjustment = parseAdjustment(fields.adjustment ?? 0);
+  if (adjustment === null) {
+    issues.push({ field: "adjustment", code: "malformed_adjustment", message: "adjustment must be a signed amount such as -25.50 or +10" });
+  }
+
+  if (issues.length > 0 || !isTariffKey(tariffType) || adjustment === null) return { ok: false, issues };
+
+  return {
+    ok: true,
+    input: {
+      prevReading,
+      currReading,
+      ...period,
+      tariffType,
+      prevBalance,
+      payments,
+      adjustment,
+      maxDemandKva,
+      ...(meterEvent ? { meterEvent } : {}),
+      ...(netMetering ? { netMetering } : {}),
+    },
+  };
+};
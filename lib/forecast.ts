@@ -0,0 +1,110 @@
+import {
+  bandRanges,
+  calculateBill,
+  daysBetween,
+  resolveTariff,
+  splitPeriod,
+  tariffCatalogue,
+  topBandOf,
+  type CalculationResults,
+  type TariffKey,
+  type TariffSchedule,
+} from "@/lib/tariffEngine";
+
+export type ForecastInput = {
+  prevReading: number;
+  interimReading: number;
+  /** The cycle runs from the last bill's reading date to its expected end. */
+  startDate: string;
+  interimDate: string;
+  endDate: string;
+  tariffType: TariffKey;
+  catalogue?: TariffSchedule[];
+};
+
+export type Forecast =
+  | { ok: false; reason: "interimDate" | "interimReading" }
+  | {
+      ok: true;
+      elapsedDays: number;
+      remainingDays: number;
+      unitsSoFar: number;
+      dailyUnits: number;
+      projectedUnits: number;
+      /** The projected end-of-cycle bill, from the engine as calculateBill runs it. */
+      results: CalculationResults;
+      /** The band the reading so far sits in, counting from 1. */
+      currentBand: number;
+      projectedBand: number;
+      /** True when the projection reaches a dearer band, or loses lifeline rates. */
+      crossesBand: boolean;
+      /** kWh over the whole cycle at which the current band ends; null for an open-ended band. */
+      bandLimit: number | null;
+      /** kWh a day for the rest of the cycle that keeps the total within `bandLimit`. */
+      dailyBudget: number | null;
+    };
+
+/**
+ * Where the current band ends for the full cycle. Band widths are shared out
+ * across tariff changes the same way calculateBill does it, and a lifeline
+ * account's limit is its unit threshold rather than a band edge.
+ */
+const currentBandLimit = (input: ForecastInput, catalogue: TariffSchedule[], unitsSoFar: number, band: number) => {
+  const billingDays = daysBetween(input.startDate, input.endDate);
+  let limit = 0;
+  for (const segment of splitPeriod(catalogue, input.startDate, input.endDate)) {
+    const category = segment.schedule.categories[resolveTariff(segment.schedule, input.tariffType, unitsSoFar)];
+    if (category.lifeline) return category.lifeline.maxUnits;
+    const range = bandRanges(category.bands, category.bandMode)[Math.max(band, 1) - 1];
+    if (!range || !Number.isFinite(range.to)) return null;
+    limit += range.to * (daysBetween(segment.startDate, segment.endDate) / billingDays);
+  }
+  return limit;
+};
+
+/** Projects the end-of-cycle bill by carrying the average daily use so far through to the cycle's end. */
+export const forecastBill = (input: ForecastInput): Forecast => {
+  const catalogue = input.catalogue ?? tariffCatalogue;
+  const cycleDays = daysBetween(input.startDate, input.endDate);
+  const elapsedDays = daysBetween(input.startDate, input.interimDate);
+  if (elapsedDays <= 0 || elapsedDays > cycleDays) return { ok: false, reason: "interimDate" };
+  if (input.interimReading < input.prevReading) return { ok: false, reason: "interimReading" };
+
+  const unitsSoFar = input.interimReading - input.prevReading;
+  const dailyUnits = unitsSoFar / elapsedDays;
+  const projectedUnits = dailyUnits * cycleDays;
+  const billFor = (units: number) =>
+    calculateBill({
+      prevReading: input.prevReading,
+      currReading: input.prevReading + units,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      tariffType: input.tariffType,
+      prevBalance: 0,
+      payments: 0,
+      adjustment: 0,
+      catalogue,
+    });
+
+  const soFar = billFor(unitsSoFar);
+  const results = billFor(projectedUnits);
+  const currentBand = Math.max(topBandOf(soFar), 1);
+  const projectedBand = topBandOf(results);
+  const bandLimit = currentBandLimit(input, catalogue, unitsSoFar, currentBand);
+  const remainingDays = cycleDays - elapsedDays;
+
+  return {
+    ok: true,
+    elapsedDays,
+    remainingDays,
+    unitsSoFar,
+    dailyUnits,
+    projectedUnits,
+    results,
+    currentBand,
+    projectedBand,
+    crossesBand: projectedBand > currentBand || results.tariffType !== soFar.tariffType,
+    bandLimit,
+    dailyBudget: bandLimit === null || remainingDays === 0 ? null : Math.max(bandLimit - unitsSoFar, 0) / remainingDays,
+  };
+};
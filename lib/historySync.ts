@@ -0,0 +1,90 @@
+import type { BillingCycle } from "@/lib/billHistory";
+import type { RejectedCycle } from "@/lib/householdApi";
+import type { Household, HouseholdFields } from "@/lib/householdStore";
+import { decodeInfinity, encodeInfinity } from "@/lib/json";
+
+export const SYNC_HOUSEHOLD_KEY = "ecg_sync_household";
+export const SYNC_DELETED_KEY = "ecg_sync_deleted";
+
+/** `errors` holds the server's validation messages; it is empty when the server could not be reached. */
+export type SyncResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+const request = async <T>(url: string, method = "GET", body?: unknown): Promise<SyncResult<T>> => {
+  try {
+    const res = await fetch(url, {
+      method,
+      headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body, encodeInfinity),
+    });
+    const data = JSON.parse((await res.text()) || "null", decodeInfinity);
+    if (res.ok) return { ok: true, value: data as T };
+    const issues: { message: string }[] = Array.isArray(data?.issues) ? data.issues : [];
+    return { ok: false, errors: issues.length > 0 ? issues.map((issue) => issue.message) : [String(data?.error ?? res.status)] };
+  } catch {
+    return { ok: false, errors: [] };
+  }
+};
+
+const pick = <T, K extends keyof T>(result: SyncResult<T>, key: K): SyncResult<T[K]> =>
+  result.ok ? { ok: true, value: result.value[key] } : result;
+
+export const fetchHouseholds = async () => pick(await request<{ households: Household[] }>("/api/households"), "households");
+
+export const createHousehold = async (fields: HouseholdFields) =>
+  pick(await request<{ household: Household }>("/api/households", "POST", fields), "household");
+
+export type SyncedHistory = { cycles: BillingCycle[]; rejected: RejectedCycle[] };
+
+/** Sends this device's cycles and the ids it deleted, and returns the household's merged history and the cycles it rejected. */
+export const syncHistory = async (householdId: string, cycles: BillingCycle[], deleted: string[] = []) =>
+  request<SyncedHistory>(`/api/households/${encodeURIComponent(householdId)}/sync`, "POST", { cycles, deleted });
+
+/** The merged history with the rejected cycles kept as this device has them, so they can be fixed and sent again. */
+export const keepRejectedCycles = (local: BillingCycle[], synced: SyncedHistory) => {
+  const kept = synced.rejected.map((entry) => local[entry.index]).filter((cycle) => cycle !== undefined);
+  return [...synced.cycles.filter((cycle) => !kept.some((entry) => entry.id === cycle.id)), ...kept].sort(
+    (a, b) => a.input.startDate.localeCompare(b.input.startDate) || a.createdAt.localeCompare(b.createdAt),
+  );
+};
+
+export const loadSyncHousehold = () => {
+  try {
+    return localStorage.getItem(SYNC_HOUSEHOLD_KEY) ?? "";
+  } catch {
+    return "";
+  }
+};
+
+export const saveSyncHousehold = (id: string) => {
+  try {
+    if (id) localStorage.setItem(SYNC_HOUSEHOLD_KEY, id);
+    else localStorage.removeItem(SYNC_HOUSEHOLD_KEY);
+  } catch {}
+};
+
+/** Cycles deleted on this device that the next sync still has to report. */
+export const loadDeletedCycles = (): string[] => {
+  try {
+    const ids: unknown = JSON.parse(localStorage.getItem(SYNC_DELETED_KEY) ?? "[]");
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === "string") : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveDeletedCycles = (ids: string[]) => {
+  try {
+    if (ids.length > 0) localStorage.setItem(SYNC_DELETED_KEY, JSON.stringify(ids));
+    else localStorage.removeItem(SYNC_DELETED_KEY);
+  } catch {}
+};
+
+/** Remembers a deletion for the next sync; nothing to remember while no household is chosen. */
+export const recordDeletedCycle = (id: string) => {
+  if (!loadSyncHousehold()) return;
+  const ids = loadDeletedCycles();
+  if (!ids.includes(id)) saveDeletedCycles([...ids, id]);
+};
+
+/** Drops the deletions a sync has reported. */
+export const forgetDeletedCycles = (reported: string[]) => saveDeletedCycles(loadDeletedCycles().filter((id) => !reported.includes(id)));
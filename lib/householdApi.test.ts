@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { validateCycles } from "@/lib/householdApi";
+
+const cycle = (id: string, currReading: number) => ({
+  id,
+  input: { prevReading: 1000, currReading, startDate: "2025-08-01", endDate: "2025-09-01" },
+});
+
+describe("validateCycles", () => {
+  it("keeps the valid cycles of a sync and reports each rejected one", () => {
+    const { cycles, rejected } = validateCycles([cycle("good", 1250), cycle("reversed", 900), "not a cycle"], "residential");
+
+    expect(cycles.map((entry) => entry.id)).toEqual(["good"]);
+    expect(cycles[0].results.units).toBe(250);
+    expect(rejected).toMatchObject([
+      { index: 1, id: "reversed", issues: [{ field: "input.currReading", code: "reversed_readings" }] },
+      { index: 2, id: null, issues: [{ field: "body", code: "invalid_type" }] },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { validateBillRequest, type ValidationIssue } from "@/lib/billValidation";
+import { createCycle, type BillingCycle } from "@/lib/billHistory";
+import type { HouseholdFields } from "@/lib/householdStore";
+import { decodeInfinity, encodeInfinity, isRecord } from "@/lib/json";
+import { isIsoDate, isTariffKey, tariffKeys, type TariffKey, type TariffSchedule } from "@/lib/tariffEngine";
+import { parseTariffData, TARIFF_FILE_FORMAT, TARIFF_FILE_VERSION } from "@/lib/tariffFile";
+
+export type HouseholdValidation =
+  | { ok: true; fields: Partial<HouseholdFields> }
+  | { ok: false; issues: ValidationIssue[] };
+
+export type CycleValidation =
+  | { ok: true; cycle: BillingCycle }
+  | { ok: false; issues: ValidationIssue[] };
+
+/** A cycle a sync left out, by its position in the request and its id when it had one. */
+export type RejectedCycle = { index: number; id: string | null; issues: ValidationIssue[] };
+
+const MAX_NAME_LENGTH = 120;
+const METER_NUMBER = /^[A-Za-z0-9-]{4,20}$/;
+
+/** Responds with Infinity written the way saved history writes it, since res.json would turn it into null. */
+export const sendJson = (res: NextApiResponse, status: number, body: unknown) => {
+  res.status(status).setHeader("Content-Type", "application/json; charset=utf-8").send(JSON.stringify(body, encodeInfinity));
+};
+
+export const rejectMethod = (req: NextApiRequest, res: NextApiResponse, allowed: string[]) => {
+  if (req.method && allowed.includes(req.method)) return false;
+  res.setHeader("Allow", allowed.join(", "));
+  sendJson(res, 405, { error: "method_not_allowed" });
+  return true;
+};
+
+export const queryParam = (req: NextApiRequest, name: string) => {
+  const value = req.query[name];
+  return Array.isArray(value) ? value[0] : (value ?? "");
+};
+
+/** The request body with "Infinity" strings turned back into numbers. */
+export const decodedBody = (req: NextApiRequest): unknown => JSON.parse(JSON.stringify(req.body ?? null), decodeInfinity);
+
+/** Validates a household; with `partial`, only the fields present are checked (for updates). */
+export const validateHousehold = (body: unknown, { partial = false } = {}): HouseholdValidation => {
+  if (!isRecord(body)) {
+    return { ok: false, issues: [{ field: "body", code: "invalid_type", message: "Request body must be a JSON object" }] };
+  }
+  const issues: ValidationIssue[] = [];
+  const fields: Partial<HouseholdFields> = {};
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (name === "" || name.length > MAX_NAME_LENGTH) {
+      issues.push({ field: "name", code: "invalid_name", message: `name is required and must be at most ${MAX_NAME_LENGTH} characters` });
+    } else fields.name = name;
+  }
+  if (body.meterNumber !== undefined || !partial) {
+    const meterNumber = typeof body.meterNumber === "string" ? body.meterNumber.trim() : "";
+    if (!METER_NUMBER.test(meterNumber)) {
+      issues.push({ field: "meterNumber", code: "invalid_meter_number", message: "meterNumber must be 4 to 20 letters, digits or dashes" });
+    } else fields.meterNumber = meterNumber;
+  }
+  if (body.tariffType !== undefined || !partial) {
+    const tariffType = body.tariffType ?? "residential";
+    if (!isTariffKey(tariffType)) {
+      issues.push({ field: "tariffType", code: "unknown_tariff", message: `tariffType must be one of: ${tariffKeys.join(", ")}` });
+    } else fields.tariffType = tariffType;
+  }
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, fields };
+};
+
+const parseSnapshot = (raw: unknown, index: number, issues: ValidationIssue[]): TariffSchedule | null => {
+  const field = `tariff[${index}]`;
+  if (!isRecord(raw) || typeof raw.id !== "string" || typeof raw.label !== "string" || typeof raw.effectiveFrom !== "string" || !isIsoDate(raw.effectiveFrom)) {
+    issues.push({ field, code: "invalid_tariff", message: `${field} must be a rate schedule with id, label and effectiveFrom` });
+    return null;
+  }
+  const parsed = parseTariffData({ ...raw, format: TARIFF_FILE_FORMAT, version: TARIFF_FILE_VERSION, name: raw.label });
+  if (!parsed.ok) {
+    issues.push(...parsed.errors.map((message) => ({ field, code: "invalid_tariff", message })));
+    return null;
+  }
+  return { ...parsed.schedule, id: raw.id, label: raw.label, effectiveFrom: raw.effectiveFrom };
+};
+
+/**
+ * Validates a billing cycle: `input` is checked like a calculation request,
+ * and `tariff` (the schedules it was billed under) like a tariff file.
+ * Results are always recomputed here rather than taken from the client.
+ * Without a tariff snapshot the cycle is billed under the published rates.
+ */
+export const validateCycle = (body: unknown, defaultTariff: TariffKey): CycleValidation => {
+  if (!isRecord(body)) {
+    return { ok: false, issues: [{ field: "body", code: "invalid_type", message: "Request body must be a JSON object" }] };
+  }
+  const rawInput = isRecord(body.input) ? body.input : {};
+  const validation = validateBillRequest({ tariffType: defaultTariff, ...rawInput });
+  const issues = validation.ok ? [] : validation.issues.map((issue) => ({ ...issue, field: `input.${issue.field}` }));
+
+  let tariff: TariffSchedule[] | null = null;
+  if (body.tariff !== undefined) {
+    if (!Array.isArray(body.tariff) || body.tariff.length === 0) {
+      issues.push({ field: "tariff", code: "invalid_tariff", message: "tariff must be a non-empty list of rate schedules" });
+    } else {
+      const schedules = body.tariff.map((raw, index) => parseSnapshot(raw, index, issues));
+      if (schedules.every((schedule) => schedule !== null)) tariff = schedules as TariffSchedule[];
+    }
+  }
+
+  if (!validation.ok || issues.length > 0) return { ok: false, issues };
+
+  const cycle = createCycle(validation.input, tariff ?? undefined);
+  const timestamp = (value: unknown) => (typeof value === "string" && !Number.isNaN(Date.parse(value)) ? value : undefined);
+  return {
+    ok: true,
+    cycle: {
+      ...cycle,
+      id: typeof body.id === "string" && body.id !== "" ? body.id : cycle.id,
+      createdAt: timestamp(body.createdAt) ?? cycle.createdAt,
+      updatedAt: timestamp(body.updatedAt) ?? cycle.updatedAt,
+    },
+  };
+};
+
+/** Validates every cycle of a sync on its own, so one bad cycle does not hold back the rest. */
+export const validateCycles = (list: unknown[], defaultTariff: TariffKey) => {
+  const cycles: BillingCycle[] = [];
+  const rejected: RejectedCycle[] = [];
+  list.forEach((raw, index) => {
+    const validation = validateCycle(raw, defaultTariff);
+    if (validation.ok) cycles.push(validation.cycle);
+    else rejected.push({ index, id: isRecord(raw) && typeof raw.id === "string" ? raw.id : null, issues: validation.issues });
+  });
+  return { cycles, rejected };
+};
@@ -0,0 +1,49 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createCycle } from "@/lib/billHistory";
+import { createHousehold, deleteCycle, syncCycles } from "@/lib/householdStore";
+import { tariffCatalogue } from "@/lib/tariffEngine";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "ecg-store-"));
+  process.env.ECG_DATA_FILE = path.join(dir, "store.json");
+});
+
+afterEach(() => {
+  delete process.env.ECG_DATA_FILE;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const cycle = (startDate: string, endDate: string) =>
+  createCycle(
+    { prevReading: 1000, currReading: 1250, startDate, endDate, tariffType: "residential", prevBalance: 0, payments: 0, adjustment: 0 },
+    tariffCatalogue,
+  );
+
+describe("syncCycles: deletions", () => {
+  it("does not take back a cycle deleted through the API from a device that still holds it", async () => {
+    const household = await createHousehold({ name: "Home", meterNumber: "P-1234", tariffType: "residential" });
+    const august = cycle("2025-08-01", "2025-09-01");
+    const september = cycle("2025-09-01", "2025-10-02");
+    await syncCycles(household.id, [august, september]);
+
+    expect(await deleteCycle(household.id, august.id)).toBe(true);
+    const merged = await syncCycles(household.id, [august, september]);
+    expect(merged?.map((stored) => stored.id)).toEqual([september.id]);
+  });
+
+  it("removes the cycles a device reports deleted, for every other device", async () => {
+    const household = await createHousehold({ name: "Home", meterNumber: "P-1234", tariffType: "residential" });
+    const august = cycle("2025-08-01", "2025-09-01");
+    const september = cycle("2025-09-01", "2025-10-02");
+    await syncCycles(household.id, [august, september]);
+
+    await syncCycles(household.id, [september], [august.id]);
+    const otherDevice = await syncCycles(household.id, [august, september]);
+    expect(otherDevice?.map((stored) => stored.id)).toEqual([september.id]);
+  });
+});
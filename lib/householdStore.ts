@@ -0,0 +1,165 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { BillingCycle } from "@/lib/billHistory";
+import { decodeInfinity, encodeInfinity, newId } from "@/lib/json";
+import type { TariffKey } from "@/lib/tariffEngine";
+
+export type HouseholdFields = {
+  name: string;
+  meterNumber: string;
+  tariffType: TariffKey;
+};
+
+export type Household = HouseholdFields & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type StoredCycle = BillingCycle & { householdId: string };
+
+/** Left behind by a deleted cycle, so a device that still holds the cycle cannot sync it back. */
+export type DeletedCycle = { householdId: string; id: string; deletedAt: string };
+
+type StoreFile = { version: 1; households: Household[]; cycles: StoredCycle[]; deleted: DeletedCycle[] };
+
+const STORE_VERSION = 1;
+
+/** Server-only: where households and their cycles are kept. Override with ECG_DATA_FILE. */
+export const storeFile = () => process.env.ECG_DATA_FILE ?? path.join(process.cwd(), "data", "ecg-store.json");
+
+const emptyStore = (): StoreFile => ({ version: STORE_VERSION, households: [], cycles: [], deleted: [] });
+
+const readStore = async (): Promise<StoreFile> => {
+  let raw: string;
+  try {
+    raw = await fs.readFile(storeFile(), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return emptyStore();
+    throw error;
+  }
+  const store = JSON.parse(raw, decodeInfinity) as StoreFile;
+  if (store.version !== STORE_VERSION) throw new Error(`Unsupported store version ${String(store.version)} in ${storeFile()}`);
+  // Stores written before deletions were recorded have no list.
+  return { ...store, deleted: store.deleted ?? [] };
+};
+
+// Written to a sibling file and renamed, so a crash mid-write never leaves half a store behind.
+const writeStore = async (store: StoreFile) => {
+  const file = storeFile();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(store, encodeInfinity, 2));
+  await fs.rename(temp, file);
+};
+
+let pending: Promise<unknown> = Promise.resolve();
+
+/** Runs read-modify-write changes one at a time, so concurrent requests cannot overwrite each other. */
+const transact = <T>(change: (store: StoreFile) => T) => {
+  const run = pending.then(async () => {
+    const store = await readStore();
+    const result = change(store);
+    await writeStore(store);
+    return result;
+  });
+  pending = run.catch(() => undefined);
+  return run;
+};
+
+const byPeriod = (a: StoredCycle, b: StoredCycle) =>
+  a.input.startDate.localeCompare(b.input.startDate) || a.createdAt.localeCompare(b.createdAt);
+
+const cyclesOf = (store: StoreFile, householdId: string) =>
+  store.cycles.filter((cycle) => cycle.householdId === householdId).sort(byPeriod);
+
+const isDeleted = (store: StoreFile, householdId: string, cycleId: string) =>
+  store.deleted.some((entry) => entry.householdId === householdId && entry.id === cycleId);
+
+/** Removes a cycle and records its deletion; false when the household never had it. */
+const removeCycle = (store: StoreFile, householdId: string, cycleId: string) => {
+  const before = store.cycles.length;
+  store.cycles = store.cycles.filter((cycle) => !(cycle.householdId === householdId && cycle.id === cycleId));
+  const removed = store.cycles.length < before;
+  if (removed && !isDeleted(store, householdId, cycleId)) store.deleted.push({ householdId, id: cycleId, deletedAt: new Date().toISOString() });
+  return removed;
+};
+
+export const listHouseholds = async () => (await readStore()).households;
+
+export const getHousehold = async (id: string) => (await readStore()).households.find((household) => household.id === id) ?? null;
+
+export const createHousehold = (fields: HouseholdFields) =>
+  transact((store) => {
+    const now = new Date().toISOString();
+    const household: Household = { id: newId(), createdAt: now, updatedAt: now, ...fields };
+    store.households.push(household);
+    return household;
+  });
+
+export const updateHousehold = (id: string, fields: Partial<HouseholdFields>) =>
+  transact((store) => {
+    const index = store.households.findIndex((household) => household.id === id);
+    if (index === -1) return null;
+    const household = { ...store.households[index], ...fields, updatedAt: new Date().toISOString() };
+    store.households[index] = household;
+    return household;
+  });
+
+/** Deletes a household together with its billing cycles. */
+export const deleteHousehold = (id: string) =>
+  transact((store) => {
+    const before = store.households.length;
+    store.households = store.households.filter((household) => household.id !== id);
+    store.cycles = store.cycles.filter((cycle) => cycle.householdId !== id);
+    store.deleted = store.deleted.filter((entry) => entry.householdId !== id);
+    return store.households.length < before;
+  });
+
+/** The household's cycles oldest first, or null when the household does not exist. */
+export const listCycles = async (householdId: string) => {
+  const store = await readStore();
+  return store.households.some((household) => household.id === householdId) ? cyclesOf(store, householdId) : null;
+};
+
+export const getCycle = async (householdId: string, cycleId: string) =>
+  (await readStore()).cycles.find((cycle) => cycle.householdId === householdId && cycle.id === cycleId) ?? null;
+
+export const addCycle = (householdId: string, cycle: BillingCycle) =>
+  transact((store) => {
+    if (!store.households.some((household) => household.id === householdId)) return null;
+    const stored: StoredCycle = { ...cycle, id: newId(), householdId };
+    store.cycles.push(stored);
+    return stored;
+  });
+
+export const replaceCycle = (householdId: string, cycleId: string, cycle: BillingCycle) =>
+  transact((store) => {
+    const index = store.cycles.findIndex((stored) => stored.householdId === householdId && stored.id === cycleId);
+    if (index === -1) return null;
+    const stored: StoredCycle = { ...cycle, id: cycleId, householdId, createdAt: store.cycles[index].createdAt };
+    store.cycles[index] = stored;
+    return stored;
+  });
+
+export const deleteCycle = (householdId: string, cycleId: string) => transact((store) => removeCycle(store, householdId, cycleId));
+
+/**
+ * Merges a device's history into the household's: cycles are matched by id
+ * and the more recently updated copy wins. `deletedIds` are cycles the device
+ * deleted since it last synced. A deleted cycle stays deleted, whichever
+ * device sends it later. Returns the merged history, or null when the
+ * household does not exist.
+ */
+export const syncCycles = (householdId: string, incoming: BillingCycle[], deletedIds: string[] = []) =>
+  transact((store) => {
+    if (!store.households.some((household) => household.id === householdId)) return null;
+    for (const id of deletedIds) removeCycle(store, householdId, id);
+    for (const cycle of incoming) {
+      if (isDeleted(store, householdId, cycle.id)) continue;
+      const index = store.cycles.findIndex((stored) => stored.householdId === householdId && stored.id === cycle.id);
+      if (index === -1) store.cycles.push({ ...cycle, householdId });
+      else if (cycle.updatedAt > store.cycles[index].updatedAt) store.cycles[index] = { ...cycle, householdId };
+    }
+    return cyclesOf(store, householdId);
+  });
@@ -0,0 +1,66 @@
+import en, { type Catalogue, type MessageKey } from "@/lib/messages/en";
+import ee from "@/lib/messages/ee";
+import fr from "@/lib/messages/fr";
+import gaa from "@/lib/messages/gaa";
+import tw from "@/lib/messages/tw";
+
+export type { MessageKey } from "@/lib/messages/en";
+
+export type Locale = "en" | "tw" | "gaa" | "ee" | "fr";
+
+export const LOCALE_KEY = "locale";
+
+/** `intl` is the tag handed to the Intl APIs. Only languages whose catalogue covers every key are listed. */
+export const locales: { code: Locale; label: string; intl: string }[] = [
+  { code: "en", label: "English", intl: "en-GH" },
+  { code: "tw", label: "Twi", intl: "ak-GH" },
+  { code: "gaa", label: "Gã", intl: "gaa-GH" },
+  { code: "ee", label: "Eʋegbe", intl: "ee-GH" },
+  { code: "fr", label: "Français", intl: "fr-GH" },
+];
+
+const catalogues: Record<Locale, Catalogue> = { en, tw, gaa, ee, fr };
+
+export const isLocale = (value: unknown): value is Locale => locales.some((locale) => locale.code === value);
+
+export type MessageParams = Record<string, string | number>;
+
+export type I18n = {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  /** Amount in cedis, e.g. GH₵1,234.50. */
+  money: (value: number) => string;
+  /** Number with up to `maxDigits` decimals. */
+  number: (value: number, maxDigits?: number) => string;
+  /** Number with exactly `digits` decimals. */
+  fixed: (value: number, digits: number) => string;
+  /** A fraction as a percentage, e.g. 0.15 → 15%. */
+  percent: (fraction: number) => string;
+};
+
+export const createI18n = (locale: Locale): I18n => {
+  const messages = catalogues[locale];
+  const intl = locales.find((entry) => entry.code === locale)!.intl;
+  const moneyFormat = new Intl.NumberFormat(intl, { style: "currency", currency: "GHS", currencyDisplay: "narrowSymbol" });
+  const percentFormat = new Intl.NumberFormat(intl, { style: "percent", maximumFractionDigits: 2 });
+
+  return {
+    locale,
+    t: (key, params) => {
+      const template = messages[key] ?? en[key];
+      if (!params) return template;
+      return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+    },
+    // Rounding first keeps tiny negatives from showing as -GH₵0.00.
+    money: (value) => moneyFormat.format(Math.round(value * 100) / 100 || 0),
+    number: (value, maxDigits = 2) => new Intl.NumberFormat(intl, { maximumFractionDigits: maxDigits }).format(value),
+    fixed: (value, digits) => new Intl.NumberFormat(intl, { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value),
+    percent: (fraction) => percentFormat.format(fraction),
+  };
+};
+
+/** Published schedules are named in the catalogues; imported or stored ones keep the label they came with. */
+export const scheduleLabel = (t: I18n["t"], schedule: { id: string; label: string }) => {
+  const key = `schedule.${schedule.id}`;
+  return key in en ? t(key as MessageKey) : schedule.label;
+};
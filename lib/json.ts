@@ -0,0 +1,14 @@
+/**
+ * Helpers for the JSON this app stores and sends: saved history, share links,
+ * scenarios, tariff files and the household store on the server.
+ */
+
+// JSON has no Infinity, and every tariff ends in an open-ended band.
+export const encodeInfinity = (_key: string, value: unknown) => (value === Infinity ? "Infinity" : value);
+export const decodeInfinity = (_key: string, value: unknown) => (value === "Infinity" ? Infinity : value);
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Short, time-ordered ids for saved records; unique enough for one user's data, not a UUID. */
+export const newId = () => Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
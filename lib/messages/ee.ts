@@ -0,0 +1,459 @@
+import type { Messages } from "@/lib/messages/en";
+
+const ee: Messages = {
+  "app.title": "ECG Dzo Fe Xexlẽmɔ",
+  "app.logoAlt": "ECG Dzesi",
+  "app.beta": "Dodokpɔ",
+  "app.analytics": "Dzodzro",
+  "app.batch": "Geɖe",
+  "app.language": "Gbe",
+  "app.toggleTheme": "Trɔ amadede",
+  "app.themeLight": "Kekeli",
+  "app.themeDark": "Viviti",
+  "app.notAffiliated": "Wowɔ esia be wòakpe ɖe amewo ŋu. Menye ECG tɔ o.",
+  "app.disclaimerTitle": "Nuxlɔ̃ame:",
+  "app.disclaimer":
+    "Fe kple adzɔ siwo woxɔna la ate ŋu atrɔ ɣeaɖeɣi. Ne èdi nusi sɔ eye wònye yeyee la, kpɔ ECG fe si wota la egbe hafi nàzã nusi do tso eme.",
+  "app.copyright": "© {year} Gomenɔamesiwo katã nye wo tɔ. Lɔlɔ̃ mee wowɔe kple",
+
+  "update.available": "Xexlẽmɔ sia ƒe yeye li.",
+  "update.later": "Emegbe",
+  "update.reload": "Gaʋui",
+
+  "common.results": "Nusi do tso eme",
+  "common.note": "De dzesii",
+  "common.alert": "Nuxlɔ̃ame",
+  "common.dismiss": "Ɖee ɖa",
+  "common.remove": "Ɖee ɖa",
+  "common.edit": "Trɔe",
+  "common.cancel": "Gbe",
+  "common.delete": "Tutui",
+  "common.kwh": "{value} kWh",
+  "common.example": "abe {value} ene",
+  "common.prevReading": "Xexlẽme gbãtɔ (kWh)",
+  "common.currReading": "Fifi xexlẽme (kWh)",
+  "common.prevDate": "Xexlẽme gbãtɔ ŋkeke",
+  "common.currDate": "Fifi xexlẽme ŋkeke",
+  "common.prevBalance": "Fe si susɔ (GHS)",
+  "common.payments": "Ga si nèxe (GHS)",
+  "common.adjustments": "Tɔtrɔwo (GHS)",
+  "common.tariffType": "Fe ƒomevi",
+  "common.units": "Yunit",
+  "common.energyCost": "Dzo fe",
+  "common.serviceCharge": "Subɔsubɔ fe",
+  "common.totalBill": "Fe blibo",
+  "common.levyLine": "{levy} ({rate})",
+
+  "tariff.lifeline": "Aƒeme Lifeline (0–30 kWh)",
+  "tariff.residential": "Aƒeme",
+  "tariff.nonResidential": "Menye aƒeme o",
+  "tariff.sltLowVoltage": "SLT Ŋusẽ sue",
+  "tariff.sltMediumVoltage": "SLT Ŋusẽ titina",
+  "tariff.sltHighVoltage": "SLT Ŋusẽ gã",
+
+  "levy.nel": "Dukɔ Dzo Adzɔ",
+  "levy.streetLight": "Mɔtadzo",
+  "levy.nhilGetFund": "NHIL kple GETFund",
+  "levy.vat": "VAT",
+
+  "calc.mode": "Xexlẽmɔ mɔnu",
+  "calc.mode.bill": "Fe",
+  "calc.mode.budget": "Ga ɖoɖo",
+  "calc.mode.split": "Mãe",
+  "calc.mode.estimate": "Bui",
+  "calc.mode.prepaid": "Xe do ŋgɔ",
+  "calc.mode.check": "Kpɔe",
+  "calc.mode.forecast": "Gblɔe ɖi",
+  "calc.mode.compare": "Sɔe kpɔ",
+  "calc.mode.history": "Ŋutinya",
+  "calc.prepaidNote": "Fe akpa la xlẽa fe agbalẽ si nèxena emegbe. Ne wò mita nye xe-do-ŋgɔ tɔ la, zã Xe do ŋgɔ akpa la nàkpɔ yunit nenie ga si nàde eme la aƒle.",
+  "calc.openPrepaid": "Ʋu Xe do ŋgɔ",
+  "calc.inputs": "Nusiwo nède eme",
+  "calc.copyLink": "Kɔpi link la",
+  "calc.linkCopied": "Wokɔpi link la. Ame sia ame si aʋui la akpɔ nusiwo nède eme siawo.",
+  "calc.linkInAddressBar": "Kɔpi link la tso address bar la dzi nàma nusiwo nède eme siawo.",
+  "calc.linkInvalid": "Nu aɖewo le link sia me siwo mesɔ o, eyata míegbugbɔ nusiwo li xoxo la ɖo wo teƒe: {fields}.",
+  "calc.linkRates": "Link sia lé eŋutɔ ƒe fewo ɖe asi. Fifia ko wòwɔa dɔ; fe siwo nèdzra ɖo metrɔ o.",
+  "calc.keepLinkRates": "Dzra fe siawo ɖo",
+  "calc.toggleQuickMode": "Trɔ Kaba mɔnu",
+  "calc.quickMode": "Kaba mɔnu",
+  "calc.fast": "Kaba",
+  "calc.quickModeHint": "De gbãtɔ kple fifi kWh ko (ŋkeke 31, fe xoxo aɖeke mele eme o)",
+  "calc.toggleHistory": "Dzra fe agbalẽ ɖo ɖe ŋutinya me",
+  "calc.saveHistory": "Dzra fe agbalẽ ɖesiaɖe ɖo ɖe ŋutinya me (le afisia)",
+  "calc.useLastReading": "Zã xexlẽme mamlɛtɔ: {reading}",
+  "calc.readingReversed": "Fifi xexlẽme la sue wu gbãtɔ. Nuka dzɔ?",
+  "calc.rolledOver": "Mita la gadze egɔme",
+  "calc.replaced": "Wotrɔ mita la",
+  "calc.registerDigits": "Mita la ƒe xexlẽdzesiwo ƒe agbɔsɔsɔ",
+  "calc.digitsOption": "Xexlẽdzesi {digits} (egadzea egɔme le {max} megbe)",
+  "calc.exceedsRegister": "Mita si ƒe xexlẽdzesiwo nye {digits} mate ŋu afia xexlẽme sia o. Tia xexlẽdzesi agbɔsɔsɔ si le mita la ŋkume.",
+  "calc.oldFinalReading": "Mita xoxo la ƒe xexlẽme mamlɛtɔ",
+  "calc.newStartReading": "Mita yeye la ƒe xexlẽme gbãtɔ",
+  "calc.billingDays": "Fe ŋkeke {days}",
+  "calc.creditHint": "Ate ŋu anye fe si wotsɔ na wò (-)",
+  "calc.signHint": "Zã + alo -",
+  "calc.adjustmentHint": "De xexlẽme nyui na fe si gbɔ kpe ɖe eŋu, kple xexlẽme si le - na fe si wotsɔ na wò.",
+  "calc.maxDemand": "Nudidi si gbɔ wu (kVA)",
+  "calc.calculateBill": "Xlẽ fe la",
+  "calc.calculate": "Xlẽe",
+  "calc.clear": "Tutu",
+  "calc.empty": "De nuawo eme eye nàzi Xlẽe dzi.",
+  "calc.tariffFallback": "Dzo si nèzã la wu {from}, eyata fe sia zã {to} ƒe fewo tsɔ xlẽe.",
+  "calc.solar": "Ɣedzo le xɔ ta (net metering)",
+  "calc.solarHint": "Xexlẽme siwo le etame la nye dzo si va eme tɔ. De dzo si yi egodo ƒe xexlẽmewo hã, kple ale si woaxe dzo si yi egodo ƒe fe.",
+  "calc.exportPrev": "Dzo si yi egodo ƒe xexlẽme gbãtɔ (kWh)",
+  "calc.exportCurr": "Dzo si yi egodo ƒe fifi xexlẽme (kWh)",
+  "calc.nettingRule": "Ɖoɖo si wozãna tsɔ ɖea ɖa",
+  "calc.netting.netUnits": "Ɖe kWh ɖa hafi woayi akpawo me, eye nàtsɔ nusi susɔ ana wò",
+  "calc.netting.exportCredit": "Xlẽ dzo si va eme katã ƒe fe, eye nàxe dzo si yi egodo katã ƒe fe na wò",
+  "calc.exportRate": "Fe si woxena na dzo si yi egodo (GHS/kWh)",
+  "calc.creditBeforeLevies": "Ɖe ga si wotsɔ na wò la ɖa hafi woaxlẽ adzɔwo",
+  "calc.exportReversed": "Dzo si yi egodo ƒe fifi xexlẽme la sue wu gbãtɔ, eyata womexlẽ dzo aɖeke si yi egodo o.",
+  "calc.netBillable": "Yunit siwo ƒe fe nàxe",
+  "calc.grossImport": "Dzo si va eme katã",
+  "calc.exported": "Dzo si yi egodo",
+  "calc.exportCredit": "Ga si wotsɔ na wò le dzo si yi egodo ta ({units} kWh)",
+  "calc.demandCharge": "Nudidi fe",
+  "calc.adjustments": "Tɔtrɔwo",
+  "calc.payable": "Ga si nàxe",
+  "calc.print": "Ta fe agbalẽ",
+  "calc.downloadPdf": "Xɔ PDF",
+  "calc.periods": "Fe ɣeyiɣiwo",
+  "calc.periodsNote": "Fewo trɔ le fe ɣeyiɣi sia me, eyata woma dzo si nèzã kple subɔsubɔ fe la ɖe ŋkekewo nu.",
+  "calc.colTariff": "Fe",
+  "calc.colDates": "Ŋkekewo",
+  "calc.colUnits": "Yunit (kWh)",
+  "calc.colEnergy": "Dzo (GHS)",
+  "calc.colService": "Subɔsubɔ (GHS)",
+  "calc.colRate": "Asi (GHS/kWh)",
+  "calc.colCost": "Fe (GHS)",
+  "calc.periodDates": "{from} → {to} (ŋkeke {days})",
+  "calc.bandBreakdown": "Akpawo ƒe mama",
+  "calc.step.advance": "Mita la ƒe ŋgɔyiyi",
+  "calc.step.beforeRollover": "Va se ɖe esime wògadze egɔme",
+  "calc.step.afterRollover": "Esime wògadze egɔme megbe",
+  "calc.step.oldMeter": "Mita xoxo",
+  "calc.step.newMeter": "Mita yeye",
+
+  "schedule.2025-q3": "PURC Q3 2025",
+  "schedule.shared": "Fe siwo woma",
+
+  "statement.title": "Dzo Fe Agbalẽ",
+  "statement.issued": "Wotsɔe na {date}",
+  "statement.subtitle": "ECG fe si woxena emegbe - ECG Dzo Fe Xexlẽmɔ ye xlẽe",
+  "statement.account": "Akɔnta kple Mita",
+  "statement.tariff": "Fe",
+  "statement.period": "Fe ɣeyiɣi",
+  "statement.periodDates": "{from} va se ɖe {to} (ŋkeke {days})",
+  "statement.prevReading": "Xexlẽme gbãtɔ",
+  "statement.currReading": "Fifi xexlẽme",
+  "statement.step": "{step}: {from} -> {to} ({units} kWh)",
+  "statement.netMetering": "Net metering: {imported} kWh va eme, {exported} kWh yi egodo, woxlẽ {billed} kWh ƒe fe",
+  "statement.units": "Yunit siwo nèzã",
+  "statement.bands": "Dzo akpawo",
+  "statement.charges": "Fewo",
+  "statement.energy": "Dzo fe",
+  "statement.demand": "Nudidi fe",
+  "statement.service": "Subɔsubɔ fe",
+  "statement.levy": "{levy} ({rate}%)",
+  "statement.exportCredit": "Ga si wotsɔ na wò ({units} kWh)",
+  "statement.total": "Fifi fe blibo",
+  "statement.summary": "Akɔnta ƒe nya kpui",
+  "statement.balance": "Fe si tso do ŋgɔ",
+  "statement.payments": "Ga si woxɔ",
+  "statement.adjustments": "Tɔtrɔwo",
+  "statement.payable": "Ga si nàxe",
+  "statement.disclaimer": "Menye ECG tɔ o. Kpɔ ECG fe si wota la egbe hafi nàzã xexlẽme sia.",
+  "statement.pdfTitle": "Fe agbalẽ {from} va se ɖe {to}",
+
+  "photo.read": "Xlẽe tso foto me",
+  "photo.reading": "Ele foto la xlẽm…",
+  "photo.failed": "Míete ŋu ʋu foto la o. Gadze agbagba.",
+  "photo.hint": "He aɖaka ɖe xexlẽdzesiwo ŋu eye nàxlẽ akpa ma ko. Dzo mita LCD ƒe xexlẽdzesiwo ko míate ŋu axlẽ. Foto la nɔa mɔ̃ sia dzi.",
+  "photo.none": "Míekpɔ xexlẽdzesi aɖeke o. He aɖaka ɖe mita la ƒe xexlẽdzesiwo ƒe fesre ŋu.",
+  "photo.notSevenSegment": "Ele abe mita si ƒe xexlẽdzesiwo wota ɖe nu siwo trɔna dzi ene, si míate ŋu axlẽ o. Ŋlɔ xexlẽme la ɖe eme boŋ.",
+  "photo.check": "Sɔ xexlẽdzesi ɖesiaɖe kple mita la eye nàɖɔ esiwo wotsɔ ? de dzesii la ɖo hafi nàzã xexlẽme la.",
+  "photo.result": "Xexlẽme si tso foto me",
+  "photo.use": "Zã xexlẽme la",
+
+  "rates.title": "Fewo",
+  "rates.edit": "Trɔ fewo",
+  "rates.hide": "Ɣla trɔla la",
+  "rates.editing": "Ele etrɔm:",
+  "rates.addBand": "Tsɔ akpa kpe ɖe eŋu",
+  "rates.reset": "Gbugbɔ gbãtɔ ɖo",
+  "rates.resetDone": "Míegbugbɔ fe siwo wota la ɖo.",
+  "rates.serviceCharge": "Subɔsubɔ fe (GHS/ɣleti)",
+  "rates.demandRate": "Nudidi asi (GHS/kVA)",
+  "rates.levyPercent": "{levy} (%)",
+  "rates.limitsAre": "Seƒewo nye:",
+  "rates.cumulative": "Ƒo ƒu (va se ɖe N kWh)",
+  "rates.width": "Akpa ƒe keke (N kWh ɖesiaɖe)",
+  "rates.bandAbove": "Akpa {band}: wu {from} kWh",
+  "rates.bandRange": "Akpa {band}: {from}–{to} kWh",
+  "rates.upTo": "Va se ɖe (kWh)",
+  "rates.widthLabel": "Keke (kWh)",
+  "rates.rate": "Asi (GHS/kWh)",
+  "rates.issue.negativeRate": "Ele be asi la nanye zero alo wu ema",
+  "rates.issue.lastBandBounded": "Mele be akpa mamlɛtɔ la nanɔ seƒe o",
+  "rates.issue.limitNotPositive": "Ele be seƒe la nawu zero",
+  "rates.issue.limitNotRising": "Ele be seƒe la nawu akpa si do ŋgɔ la ƒe {previous} kWh",
+  "rates.file": "Fe faɛl",
+  "rates.export": "Ɖe JSON",
+  "rates.import": "Tsɔ faɛl va",
+  "rates.pastePlaceholder": "…alo de fe JSON ɖe afisia",
+  "rates.pasteLabel": "Fe JSON",
+  "rates.applyPasted": "Zã JSON si nède eme",
+  "rates.loaded": "Wotsɔ \"{name}\" va. Wodzrae ɖo ɖe mɔ̃ sia dzi va se ɖe esime nàgbugbɔ gbãtɔ ɖo.",
+  "rates.loadedFrom": "Wotsɔ \"{name}\" va na fe siwo dze egɔme {date}; ŋkeke siwo do ŋgɔ la zãa fe siwo nɔ anyi ɣemaɣi. Wodzrae ɖo ɖe mɔ̃ sia dzi va se ɖe esime nàgbugbɔ gbãtɔ ɖo.",
+
+  "history.title": "Fe ŋutinya",
+  "history.intro": "Wodzrae ɖo ɖe mɔ̃ sia dzi. Fe yeye ɖesiaɖe dzea egɔme tso xexlẽme kple ga si nàxe mamlɛtɔ dzi.",
+  "history.empty": "Mèdzra fe ɣeyiɣi aɖeke ɖo haɖe o. Xlẽ fe aɖe eye nàna ŋutinya dzraɖoƒe nawɔ dɔ.",
+  "history.confirmDelete": "Èdi be yeatutu fe ɣeyiɣi sia?",
+  "history.saveRecalculate": "Dzrae ɖo eye nàgaxlẽe",
+  "validation.required": "De nane eme.",
+  "validation.notANumber": "De xexlẽdzesi eme.",
+  "validation.negative": "De zero alo nusi wu ema.",
+  "validation.invalidDate": "De ŋkeke eme.",
+  "validation.reversedDates": "Ele be fifi xexlẽme ŋkeke la nava xexlẽme gbãtɔ ŋkeke la megbe.",
+  "validation.periodTooLong": "Xexlẽmewo ƒe ŋkekewo dome mate ŋu awu ŋkeke {max} o.",
+  "validation.reversedReadings": "Fifi xexlẽme la sue wu gbãtɔ. Ŋlɔe be mita la gadze egɔme alo wotrɔe le xexlẽmɔ la me.",
+  "validation.oldMeterReversed": "Xexlẽme gbãtɔ la wu mita xoxo la ƒe xexlẽme mamlɛtɔ ({value}).",
+  "validation.newMeterReversed": "Fifi xexlẽme la sue wu mita yeye la ƒe xexlẽme gbãtɔ ({value}).",
+  "validation.malformedAdjustment": "De ga si le + alo -, abe -25.50 alo +10 ene.",
+  "sync.title": "Fe ŋutinya si wowɔ ɖeka",
+  "sync.intro": "Ma ŋutinya sia kple wò ƒome to aƒe aɖe si le server la dzi ŋu nàtsɔe aku. Wozãa ID tsɔ dia fe ɣeyiɣi ɖesiaɖe, eye wodzraa nusi wotrɔ mamlɛ la ɖo.",
+  "sync.loading": "Ele aƒewo tsɔm vam…",
+  "sync.household": "Aƒe",
+  "sync.chooseHousehold": "Tia aƒe aɖe",
+  "sync.addHousehold": "Aƒe yeye",
+  "sync.name": "Ŋkɔ",
+  "sync.meterNumber": "Mita xexlẽdzesi",
+  "sync.saveHousehold": "Dzra aƒe la ɖo",
+  "sync.syncNow": "Wɔe ɖeka fifia",
+  "sync.syncing": "Ele ewɔm ɖeka…",
+  "sync.synced": "Wowɔe ɖeka. Fe ɣeyiɣi {count} le aƒe sia si.",
+  "sync.rejected": "Womewɔ fe ɣeyiɣi {count} ɖeka o elabena vodada le wo me. Ɖɔ wo ɖo le Fe ŋutinya me eye nàgawɔe ɖeka.",
+  "sync.unreachable": "Míete ŋu ɖo server la gbɔ o. Ŋutinya la gakpɔtɔ le mɔ̃ sia dzi.",
+
+  "budget.title": "Ga ɖoɖo",
+  "budget.intro": "Kpɔ yunit nenie nàte ŋu azã hafi fe la naɖo wò ga ɖoɖo dzi.",
+  "budget.target": "Ga si nèdi be yeaxe (GHS)",
+  "budget.billingDays": "Fe ŋkekewo",
+  "budget.findUnits": "Di yunit",
+  "budget.empty": "De ga si nèdi be yeaxe la eme eye nàzi Di yunit dzi.",
+  "budget.unaffordable": "Fe siwo metrɔna o kple fe si susɔ la ɖeɖe nye {amount} xoxo, eye wòwu ga si nèdi be yeaxe la.",
+  "budget.unlimited": "Fe sia mexɔa naneke le yunit siwo wu {units} ta o, eyata seƒe aɖeke meli o: fe la anɔ {amount} ne èzã geɖe gɔ̃ hã.",
+  "budget.unitsYouCanUse": "Yunit siwo nàte ŋu azã",
+  "budget.stopAt": "Tɔ ɖe xexlẽme sia dzi",
+  "budget.payableAt": "Ga si nàxe le {units}",
+  "budget.oneMore": "Ne èzã kWh ɖeka ko kpe ɖe eŋu la, fe la awu ga si nèdi be yeaxe la.",
+
+  "split.title": "Mita si woma",
+  "split.context": "{tariff} fe, {start} va se ɖe {end}. Trɔ esia le Fe akpa la dzi.",
+  "split.mainPrev": "Mita gã ƒe xexlẽme gbãtɔ (kWh)",
+  "split.mainCurr": "Mita gã ƒe fifi xexlẽme (kWh)",
+  "split.subMeters": "Mita suewo",
+  "split.name": "Ŋkɔ",
+  "split.previous": "Gbãtɔ",
+  "split.current": "Fifitɔ",
+  "split.tenantName": "Xɔdzrala {number}",
+  "split.addTenant": "Tsɔ xɔdzrala kpe ɖe eŋu",
+  "split.rules": "Se siwo wozãna tsɔ maa",
+  "split.rule.energy": "Dzo fe",
+  "split.rule.charges": "Subɔsubɔ fe kple adzɔwo",
+  "split.rule.remainder": "Nusi mita aɖeke mexlẽ o",
+  "split.option.consumption": "Ale si ame sia ame zãe",
+  "split.option.standalone": "Ale si eƒe akpa fe le eɖeka",
+  "split.option.even": "Sɔsɔe",
+  "split.calculate": "Ma fe la",
+  "split.empty": "De mita gã kple mita sue ɖesiaɖe eme, eye nàzi Ma fe la dzi.",
+  "split.mainMeter": "Mita gã",
+  "split.subMetered": "Mita suewo xlẽe",
+  "split.unmetered": "Mita aɖeke mexlẽe o",
+  "split.overMetered": "Mita suewo katã ƒo ƒu wu mita gã la. Kpɔ xexlẽmewo; wogakpɔtɔ zãa mita suewo ƒe zãzã tsɔ maa fe la.",
+  "split.colTenant": "Xɔdzrala",
+  "split.colKwh": "kWh",
+  "split.colEnergy": "Dzo",
+  "split.colUnmetered": "Womexlẽe o",
+  "split.colCharges": "Fewo",
+  "split.colTotal": "Katã",
+  "split.mainBill": "Mita gã ƒe fe",
+
+  "batch.title": "Fe geɖewo",
+  "batch.intro": "Xlẽ mita geɖewo ƒe fe zi ɖeka tso CSV si me mita ɖesiaɖe le eƒe fli dzi. Akpawo: {columns}. Mehiã be nàde tanya fli o. Ne ŋkekewo meli o la, wonye 31, eye ne fe meli o la, enye aƒeme tɔ.",
+  "batch.customRates": "Wozãa fe siwo nètrɔ alo nètsɔ va, abe ale si wòle le xexlẽmɔ la me ene.",
+  "batch.chooseFile": "Tia CSV faɛl",
+  "batch.template": "Xɔ kpɔɖeŋu",
+  "batch.paste": "Alo de CSV eme",
+  "batch.run": "Xlẽ wo katã",
+  "batch.download": "Xɔ nusi do tso eme CSV",
+  "batch.summary": "Woxlẽ mita {billed} ƒe fe, vodada le fli {failed} me. Ga si nàxe katã: {total}.",
+  "batch.colLine": "Fli",
+  "batch.colMeter": "Mita",
+  "batch.colPayable": "Nusi nàxe",
+  "analytics.title": "Dzo zãzã ƒe dzodzro",
+  "analytics.empty": "Mèdzra fe ɣeyiɣi aɖeke ɖo haɖe o. Xlẽ fe aɖe eye nàna ŋutinya dzraɖoƒe nawɔ dɔ be nàkpɔ ale si nuwo le yiyim.",
+  "analytics.averageCycle": "Fe ɣeyiɣi ɖesiaɖe ƒe titina",
+  "analytics.averageDaily": "Gbesiagbe zãzã ƒe titina",
+  "analytics.effectiveRate": "Asi ŋutɔŋutɔ",
+  "analytics.levyShare": "Nusi nèxena le adzɔwo me",
+  "analytics.perKwh": "{amount}/kWh",
+  "analytics.bandAlert": "Fe ɣeyiɣi mamlɛtɔ {label} ɖo akpa {top}; zi geɖe la, ènɔa akpa {usual} me.",
+  "analytics.chartUnits": "kWh le fe ɣeyiɣi ɖesiaɖe me",
+  "analytics.chartDaily": "Gbesiagbe zãzã ƒe titina (kWh/ŋkeke)",
+  "analytics.chartRate": "Asi ŋutɔŋutɔ (GHS/kWh)",
+  "analytics.chartSplit": "Afisi fe ɖesiaɖe yi (GHS)",
+  "analytics.seriesEnergy": "Dzo",
+  "analytics.seriesLevies": "Adzɔwo kple VAT",
+  "analytics.seriesService": "Subɔsubɔ fe",
+  "analytics.cycles": "Fe ɣeyiɣiwo",
+  "analytics.colCycleEnd": "Fe ɣeyiɣi ƒe nuwuwu",
+  "analytics.colKwh": "kWh",
+  "analytics.colDays": "Ŋkekewo",
+  "analytics.colDaily": "kWh/ŋkeke",
+  "analytics.colRate": "GHS/kWh",
+  "analytics.colEnergy": "Dzo",
+  "analytics.colLevies": "Adzɔwo",
+  "analytics.colTotal": "Katã",
+
+  "estimate.title": "Mɔ̃wo ƒe zãzã ƒe tabuladidi",
+  "estimate.intro": "Xexlẽme aɖeke mele asiwò o? Ŋlɔ wò mɔ̃wo eye nàbu dzo si nàzã kple fe si nàxe le ɣleti me.",
+  "estimate.preset": "Mɔ̃",
+  "estimate.add": "Tsɔe kpe ɖe eŋu",
+  "estimate.addCustom": "Tsɔ wò ŋutɔ tɔ kpe ɖe eŋu",
+  "estimate.customName": "Wò ŋutɔ ƒe mɔ̃",
+  "estimate.watts": "Watt",
+  "estimate.quantity": "Agbɔsɔsɔ",
+  "estimate.hoursPerDay": "Gaƒoƒo/ŋkeke",
+  "estimate.empty": "Tsɔ mɔ̃ aɖe kpe ɖe eŋu nàkpɔ fe si nèbu.",
+  "estimate.units": "Zãzã si nèbu (ŋkeke {days})",
+  "estimate.topBand": "Akpa kɔkɔtɔ si nèɖo",
+  "estimate.band": "Akpa {band}",
+  "estimate.monthlyBill": "Fe si nèbu",
+  "estimate.byAppliance": "Mɔ̃ ɖesiaɖe",
+  "estimate.colAppliance": "Mɔ̃",
+  "estimate.colKwh": "kWh",
+  "estimate.colShare": "Eƒe akpa",
+  "estimate.colOff": "Nusi nàdzra ɖo ne èsi",
+  "estimate.colHourLess": "Nusi nàdzra ɖo, gaƒoƒo 1/ŋkeke dzi ɖeɖe",
+  "estimate.pushesBand": "Akpa si kplɔe ɖo",
+  "estimate.pushesBandNote": "Mɔ̃ siwo wotsɔ Akpa si kplɔe ɖo de dzesii la tsɔa zãzã yia akpa alo fe kɔkɔ me; ne wo meli o la, fe la katã anye asi si ɖiɖi.",
+
+  "check.title": "Kpɔ nye fe",
+  "check.intro": "De xexlẽdzesi siwo wota ɖe wò ECG fe agbalẽ dzi la eme. Wogaxlẽa fli ɖesiaɖe tso wò xexlẽmewo dzi eye woɖea nusi to vovo wu seƒe si woɖe mɔ ɖo la fiana.",
+  "check.printedLines": "Xexlẽdzesi siwo le fe agbalẽ la dzi",
+  "check.printedHint": "Ne wò fe agbalẽ meɖe fli aɖe fia o la, gblẽe ɖi ƒuƒlu.",
+  "check.amountLabel": "{line} (GHS)",
+  "check.tolerance": "Seƒe si woɖe mɔ ɖo (GHS)",
+  "check.run": "Kpɔ fe la",
+  "check.empty": "De wò xexlẽmewo kple fe agbalẽ la dzi xexlẽdzesiwo eme, eye nàzi Kpɔ fe la dzi.",
+  "check.colLine": "Fli",
+  "check.colPrinted": "Le fe agbalẽ dzi",
+  "check.colExpected": "Wogaxlẽe",
+  "check.colDifference": "Vovototo",
+  "check.noCause": "Fli aɖewo mesɔ o, gake nu ɖeka aɖeke meɖe wo me o. Bia ECG be woaɖe fli ma me.",
+  "check.complaint": "Nyatoƒoe ƒe nya kpui",
+  "check.copy": "Kɔpi nya kpui la",
+  "check.copied": "Wokɔpii",
+  "check.download": "Xɔ .txt",
+  "check.cause.estimatedReading": "Fe agbalẽ la xɔ {billed} kWh ƒe fe gake wò xexlẽmewo fia {metered} kWh. Ðewohĩ wozã xexlẽme si wobu tsɔ xlẽ fe la.",
+  "check.cause.wrongTariff": "Dzo fe la sɔ kple {tariff} ƒe fewo. Ðewohĩ wotsɔ akɔnta la de fe ƒomevi si mesɔ o me.",
+  "check.cause.wrongDays": "Subɔsubɔ fe la sɔ kple fe ŋkeke {billed}, gake xexlẽmewo ƒe ŋkekewo nye ŋkeke {actual}.",
+  "check.cause.outdatedRate": "Dzo fe la sɔ kple {schedule} ƒe fewo, si mekpɔ ɣeyiɣi sia gbɔ o.",
+  "check.cause.levyRate": "Woxɔ {levy} le {billed} boŋ wu {expected}.",
+  "check.cause.doesNotAddUp": "Fli siwo le fe agbalẽ la dzi ƒo ƒu nye {total}, menye nusi wota be enye katã o.",
+  "check.summary.heading": "ECG fe ƒe dzodzro",
+  "check.summary.period": "Fe ɣeyiɣi: {start} va se ɖe {end} (ŋkeke {days})",
+  "check.summary.tariff": "Fe: {tariff}",
+  "check.summary.readings": "Mita xexlẽmewo: {prev} va se ɖe {curr} ({units} kWh)",
+  "check.summary.noDifferences": "Fli ɖesiaɖe si le fe agbalẽ la dzi sɔ kple fe siwo wota.",
+  "check.summary.differences": "Fli siwo mesɔ kple fe siwo wota o:",
+  "check.summary.line": "woxɔ {printed}, ele be wòanye {expected}",
+  "check.summary.causes": "Nusiwo ate ŋu ahe:",
+  "check.summary.overbilled": "Ga si woxɔ wu nusi sɔ: {amount}",
+  "check.summary.underbilled": "Ga si woxɔ mede o: {amount}",
+
+  "forecast.title": "Fe ɣeyiɣi titina ƒe nyagblɔɖi",
+  "forecast.intro": "Xlẽ wò mita le fe ɣeyiɣi la ƒe titina eye nàkpɔ fe si nàxe le nuwuwu. Wotsɔa wò gbesiagbe zãzã ƒe titina va se ɖe egbe yia fe ɣeyiɣi la ƒe nuwuwu ŋkeke dzi.",
+  "forecast.interimReading": "Egbe xexlẽme (kWh)",
+  "forecast.interimDate": "Xexlẽme sia ƒe ŋkeke",
+  "forecast.cycleEnd": "Fe ɣeyiɣi ƒe nuwuwu ŋkeke si wolala",
+  "forecast.run": "Gblɔ fe la ɖi",
+  "forecast.empty": "De fe mamlɛtɔ ƒe xexlẽme kple egbe xexlẽme eme, eye nàzi Gblɔ fe la ɖi dzi.",
+  "forecast.badDate": "Ele be xexlẽme ŋkeke la nava xexlẽme gbãtɔ ŋkeke megbe eye megbɔ fe ɣeyiɣi ƒe nuwuwu o.",
+  "forecast.badReading": "Egbe xexlẽme mate ŋu asue wu xexlẽme gbãtɔ o.",
+  "forecast.soFar": "Nusi nèzã va se ɖe egbe (ŋkeke {days})",
+  "forecast.dailyAverage": "Gbesiagbe titina",
+  "forecast.projectedUnits": "Zãzã si wolala (ŋkeke {days})",
+  "forecast.projectedBand": "Akpa kɔkɔtɔ si wolala",
+  "forecast.crossesBand": "Ne èyi edzi nenema la, fe ɣeyiɣi la atso akpa {from} ayi akpa {to}, afisi kWh ɖesiaɖe si gbɔ kpe ɖe eŋu ƒe asi kɔ ɖe dzi.",
+  "forecast.dailyBudget": "Ne èdi be yeanɔ akpa {band} me (va se ɖe {limit} le fe ɣeyiɣi sia me) la, mègazã wu {budget} gbesiagbe le ŋkeke {days} siwo susɔ me o.",
+  "forecast.cycleOver": "Fe ɣeyiɣi la wu enu, eyata gbesiagbe ga ɖoɖo aɖeke megali o.",
+  "forecast.bandBreakdown": "Akpawo ƒe mama si wolala",
+  "forecast.levies": "Adzɔwo",
+  "forecast.projectedBill": "Fe si wolala",
+
+  "compare.title": "Ne edzɔ nenema la sɔe kpɔ",
+  "compare.intro": "Zã xexlẽme ɖeka ma ke le fe ɖoɖo vovovowo me, abe PURC fe yeye alo asisiwo ƒe ha yeye ene. Ɖoɖo gbãtɔ lae nye esi wotsɔa bubuawo sɔna kplii.",
+  "compare.scenarios": "Ɖoɖowo",
+  "compare.scenariosHint": "Wodzraa ɖoɖoawo ɖo ɖe mɔ̃ sia dzi. Ne ètia fe siwo nètrɔ la, wokɔpia wo yia ɖoɖo la me, eyata tɔtrɔ siwo nàwɔ emegbe metrɔnɛ o.",
+  "compare.baselineName": "Ɖoɖo gã ƒe ŋkɔ",
+  "compare.name": "Ɖoɖo ƒe ŋkɔ",
+  "compare.scenarioName": "Ɖoɖo {n}",
+  "compare.rates": "Fewo",
+  "compare.published": "Fe siwo wota",
+  "compare.edited": "Fe siwo metrɔ",
+  "compare.refreshRates": "Zã fifi fewo",
+  "compare.refreshRatesHint": "Tsɔ fe siwo le fe trɔla la me fifia ɖo fe siwo wodzra ɖo ɖe ɖoɖo sia me la teƒe.",
+  "compare.add": "Tsɔ ɖoɖo kpe ɖe eŋu",
+  "compare.sideBySide": "Axa kple axa",
+  "compare.invalid": "De xexlẽme siwo me fifitɔ mesue wu gbãtɔ o, kple nuwuwu ŋkeke si va gɔmedzedze ŋkeke megbe.",
+  "compare.colLine": "Fli",
+  "compare.demandCharge": "Nudidi fe",
+  "compare.payable": "Ga si nàxe",
+  "compare.sensitivity": "Tɔtrɔ ƒe dzodzro",
+  "compare.sensitivityIntro": "Fe blibo na ɖoɖo ɖesiaɖe le zãzã ƒe agbɔsɔsɔ vovovowo me, le fe ɣeyiɣi ɖeka ma ke me.",
+  "compare.levels": "Zãzã ƒe agbɔsɔsɔwo (kWh, zã koma tsɔ ma wo)",
+
+  "prepaid.title": "Xe do ŋgɔ ga si nàde eme",
+  "prepaid.intro": "Kpɔ yunit nenie ga si nàde eme la ana wò le fe xoxo si woɖena, ɣleti subɔsubɔ fe kple adzɔwo megbe, alo ga si nàxe na yunit agbɔsɔsɔ aɖe.",
+  "prepaid.direction": "Xlẽe tso",
+  "prepaid.fromAmount": "Ga → yunit",
+  "prepaid.fromUnits": "Yunit → ga",
+  "prepaid.topUp": "Ga si nàde eme (GHS)",
+  "prepaid.unitsWanted": "Yunit siwo nèdi (kWh)",
+  "prepaid.unitsThisMonth": "Yunit siwo nèƒle le ɣleti sia me xoxo (kWh)",
+  "prepaid.debt": "Fe si susɔ (GHS)",
+  "prepaid.recoveryRate": "Fe xoxo ɖeɖe (ga si nàde eme ɖesiaɖe ƒe %)",
+  "prepaid.serviceChargeDue": "Esia nye ga gbãtɔ si nède eme le ɣleti sia me (mèxe subɔsubɔ fe la haɖe o)",
+  "prepaid.empty": "De ga si nàde eme alo yunit siwo nèdi eme, eye nàzi Xlẽe dzi.",
+  "prepaid.topUpLabel": "Ga si nède eme",
+  "prepaid.unitsCredited": "Yunit siwo wotsɔ na wò",
+  "prepaid.debtRecovery": "Fe xoxo ɖeɖe",
+  "prepaid.rounding": "Meɖo 0.01 kWh bubu o",
+  "prepaid.nothingCredited": "Fe xoxo ɖeɖe kple subɔsubɔ fe xɔ ga si nède eme la katã, eyata wometsɔ yunit aɖeke na wò o.",
+
+  "appliance.ledBulb": "LED akaɖi",
+  "appliance.ceilingFan": "Xɔ ta fan",
+  "appliance.standingFan": "Fan si tsi tre",
+  "appliance.television": "Televiziɔn",
+  "appliance.decoder": "TV decoder",
+  "appliance.fridge": "Frigo",
+  "appliance.chestFreezer": "Adaka frigo",
+  "appliance.airConditioner": "Ya fafɛ mɔ̃ (1.5 HP)",
+  "appliance.iron": "Dzo ga",
+  "appliance.kettle": "Dzo tsi ze",
+  "appliance.microwave": "Microwave",
+  "appliance.riceCooker": "Mɔli ɖaɖa mɔ̃",
+  "appliance.waterHeater": "Tsi dzodzo mɔ̃",
+  "appliance.washingMachine": "Avɔ nyanya mɔ̃",
+  "appliance.waterPump": "Tsi pɔmpi",
+  "appliance.laptop": "Laptop",
+  "appliance.desktop": "Kɔmpiuta si nɔa kplɔ̃ dzi",
+  "appliance.phoneCharger": "Fon chaja",
+};
+
+export default ee;
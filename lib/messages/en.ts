@@ -0,0 +1,465 @@
+/**
+ * English messages. This catalogue defines every key; other languages may
+ * leave keys out and fall back to these. `{name}` marks a placeholder.
+ */
+const en = {
+  "app.title": "ECG Bill Calculator",
+  "app.logoAlt": "ECG Logo",
+  "app.beta": "Beta",
+  "app.analytics": "Analytics",
+  "app.batch": "Batch",
+  "app.language": "Language",
+  "app.toggleTheme": "Toggle theme",
+  "app.themeLight": "Light",
+  "app.themeDark": "Dark",
+  "app.notAffiliated": "Built for demonstration purposes. Not affiliated with ECG.",
+  "app.disclaimerTitle": "Disclaimer:",
+  "app.disclaimer":
+    "Tariffs and charges may change over time. For the most accurate and up-to-date rates, always verify with ECG's current published tariffs before relying on these results.",
+  "app.copyright": "© {year} All rights reserved. Made with love by",
+
+  "update.available": "A new version of the calculator is available.",
+  "update.later": "Later",
+  "update.reload": "Reload",
+
+  "common.results": "Results",
+  "common.note": "Note",
+  "common.alert": "Alert",
+  "common.dismiss": "Dismiss",
+  "common.remove": "Remove",
+  "common.edit": "Edit",
+  "common.cancel": "Cancel",
+  "common.delete": "Delete",
+  "common.kwh": "{value} kWh",
+  "common.example": "e.g. {value}",
+  "common.prevReading": "Previous Reading (kWh)",
+  "common.currReading": "Current Reading (kWh)",
+  "common.prevDate": "Previous Reading Date",
+  "common.currDate": "Current Reading Date",
+  "common.prevBalance": "Previous Balance (GHS)",
+  "common.payments": "Payments Made (GHS)",
+  "common.adjustments": "Adjustments (GHS)",
+  "common.tariffType": "Tariff Type",
+  "common.units": "Units",
+  "common.energyCost": "Energy Cost",
+  "common.serviceCharge": "Service Charge",
+  "common.totalBill": "Total Bill",
+  "common.levyLine": "{levy} ({rate})",
+
+  "tariff.lifeline": "Residential Lifeline (0–30 kWh)",
+  "tariff.residential": "Residential",
+  "tariff.nonResidential": "Non-Residential",
+  "tariff.sltLowVoltage": "SLT Low Voltage",
+  "tariff.sltMediumVoltage": "SLT Medium Voltage",
+  "tariff.sltHighVoltage": "SLT High Voltage",
+
+  "levy.nel": "Nat'l Elect Levy",
+  "levy.streetLight": "Street Light",
+  "levy.nhilGetFund": "NHIL & GETFund",
+  "levy.vat": "VAT",
+
+  "calc.mode": "Calculator mode",
+  "calc.mode.bill": "Bill",
+  "calc.mode.budget": "Budget",
+  "calc.mode.split": "Split",
+  "calc.mode.estimate": "Estimate",
+  "calc.mode.prepaid": "Prepaid",
+  "calc.mode.check": "Check",
+  "calc.mode.forecast": "Forecast",
+  "calc.mode.compare": "Compare",
+  "calc.mode.history": "History",
+  "calc.prepaidNote": "The Bill tab works out postpaid bills. On a prepaid meter, use the Prepaid tab to see the units a top-up buys.",
+  "calc.openPrepaid": "Open Prepaid",
+  "calc.inputs": "Inputs",
+  "calc.copyLink": "Copy link",
+  "calc.linkCopied": "Link copied. Anyone opening it sees these inputs.",
+  "calc.linkInAddressBar": "Copy the link from the address bar to share these inputs.",
+  "calc.linkInvalid": "Some values in this link were invalid and have been reset to defaults: {fields}.",
+  "calc.linkRates": "This link carries its own tariff rates. They apply to this visit only; your saved rates are unchanged.",
+  "calc.keepLinkRates": "Keep these rates",
+  "calc.toggleQuickMode": "Toggle Quick Mode",
+  "calc.quickMode": "Quick Mode",
+  "calc.fast": "Fast",
+  "calc.quickModeHint": "Enter previous and current kWh only (31 days, no arrears)",
+  "calc.toggleHistory": "Save bills to history",
+  "calc.saveHistory": "Save each bill to history (local)",
+  "calc.useLastReading": "Use last reading: {reading}",
+  "calc.readingReversed": "The current reading is lower than the previous one. What happened?",
+  "calc.rolledOver": "Meter rolled over",
+  "calc.replaced": "Meter was replaced",
+  "calc.registerDigits": "Register digits",
+  "calc.digitsOption": "{digits} digits (rolls over after {max})",
+  "calc.exceedsRegister": "A {digits}-digit register cannot show these readings. Choose the number of digits on the meter's display.",
+  "calc.oldFinalReading": "Old Meter Final Reading",
+  "calc.newStartReading": "New Meter Start Reading",
+  "calc.billingDays": "{days} billing days",
+  "calc.creditHint": "Can be credit (-)",
+  "calc.signHint": "Use + or -",
+  "calc.adjustmentHint": "Enter positive for surcharge, negative for credit.",
+  "calc.maxDemand": "Maximum Demand (kVA)",
+  "calc.calculateBill": "Calculate Bill",
+  "calc.calculate": "Calculate",
+  "calc.clear": "Clear",
+  "calc.empty": "Enter values and click Calculate.",
+  "calc.tariffFallback": "Consumption is above the {from} limit, so this bill uses the {to} tariff.",
+  "calc.solar": "Rooftop solar (net metering)",
+  "calc.solarHint": "Readings above are the import register. Enter the export register too, and how exported energy is settled.",
+  "calc.exportPrev": "Previous Export Reading (kWh)",
+  "calc.exportCurr": "Current Export Reading (kWh)",
+  "calc.nettingRule": "Netting Rule",
+  "calc.netting.netUnits": "Net kWh before bands, credit any surplus",
+  "calc.netting.exportCredit": "Bill all imports, credit every export",
+  "calc.exportRate": "Export Credit Rate (GHS/kWh)",
+  "calc.creditBeforeLevies": "Deduct the export credit before levies are charged",
+  "calc.exportReversed": "The current export reading is lower than the previous one, so no export is counted.",
+  "calc.netBillable": "Net Billable Units",
+  "calc.grossImport": "Gross import",
+  "calc.exported": "Exported",
+  "calc.exportCredit": "Export credit ({units} kWh)",
+  "calc.demandCharge": "Demand Charge",
+  "calc.adjustments": "Adjustments",
+  "calc.payable": "Final Amount Payable",
+  "calc.print": "Print statement",
+  "calc.downloadPdf": "Download PDF",
+  "calc.periods": "Tariff Periods",
+  "calc.periodsNote": "A tariff change fell inside this billing period, so consumption and the service charge are split pro-rata by days.",
+  "calc.colTariff": "Tariff",
+  "calc.colDates": "Dates",
+  "calc.colUnits": "Units (kWh)",
+  "calc.colEnergy": "Energy (GHS)",
+  "calc.colService": "Service (GHS)",
+  "calc.colRate": "Rate (GHS/kWh)",
+  "calc.colCost": "Cost (GHS)",
+  "calc.periodDates": "{from} → {to} ({days}d)",
+  "calc.bandBreakdown": "Band Breakdown",
+  "calc.step.advance": "Register advance",
+  "calc.step.beforeRollover": "Up to rollover",
+  "calc.step.afterRollover": "After rollover",
+  "calc.step.oldMeter": "Old meter",
+  "calc.step.newMeter": "New meter",
+
+  "schedule.2025-q3": "PURC Q3 2025",
+  "schedule.shared": "Shared rates",
+
+  "statement.title": "Electricity Bill Statement",
+  "statement.issued": "Issued {date}",
+  "statement.subtitle": "ECG postpaid format - computed by ECG Bill Calculator",
+  "statement.account": "Account & Meter",
+  "statement.tariff": "Tariff",
+  "statement.period": "Billing Period",
+  "statement.periodDates": "{from} to {to} ({days} days)",
+  "statement.prevReading": "Previous Reading",
+  "statement.currReading": "Current Reading",
+  "statement.step": "{step}: {from} -> {to} ({units} kWh)",
+  "statement.netMetering": "Net metering: {imported} kWh imported, {exported} kWh exported, {billed} kWh billed",
+  "statement.units": "Units Consumed",
+  "statement.bands": "Energy Bands",
+  "statement.charges": "Charges",
+  "statement.energy": "Energy Charge",
+  "statement.demand": "Demand Charge",
+  "statement.service": "Service Charge",
+  "statement.levy": "{levy} ({rate}%)",
+  "statement.exportCredit": "Export Credit ({units} kWh)",
+  "statement.total": "Total Current Bill",
+  "statement.summary": "Account Summary",
+  "statement.balance": "Balance Brought Forward",
+  "statement.payments": "Payments Received",
+  "statement.adjustments": "Adjustments",
+  "statement.payable": "Amount Payable",
+  "statement.disclaimer": "Not affiliated with ECG. Verify against ECG's current published tariffs before relying on these figures.",
+  "statement.pdfTitle": "Bill statement {from} to {to}",
+
+  "photo.read": "Read from photo",
+  "photo.reading": "Reading photo…",
+  "photo.failed": "That photo couldn't be opened. Try another one.",
+  "photo.hint": "Drag a box around the digits to read just that part. Only the LCD display of an electronic meter can be read. The photo stays on this device.",
+  "photo.none": "No digits found. Drag a box around the meter's digit window.",
+  "photo.notSevenSegment": "This looks like a printed drum counter, which the reader can't read. Type the reading in instead.",
+  "photo.check": "Check each digit against the meter and correct any marked ? before using the reading.",
+  "photo.result": "Reading from photo",
+  "photo.use": "Use reading",
+
+  "rates.title": "Tariff Rates",
+  "rates.edit": "Edit rates",
+  "rates.hide": "Hide editor",
+  "rates.editing": "Editing:",
+  "rates.addBand": "Add band",
+  "rates.reset": "Reset",
+  "rates.resetDone": "Rates reset to the published schedule.",
+  "rates.serviceCharge": "Service charge (GHS/month)",
+  "rates.demandRate": "Demand rate (GHS/kVA)",
+  "rates.levyPercent": "{levy} (%)",
+  "rates.limitsAre": "Limits are:",
+  "rates.cumulative": "Cumulative (up to N kWh)",
+  "rates.width": "Band widths (N kWh each)",
+  "rates.bandAbove": "Band {band}: above {from} kWh",
+  "rates.bandRange": "Band {band}: {from}–{to} kWh",
+  "rates.upTo": "Up to (kWh)",
+  "rates.widthLabel": "Width (kWh)",
+  "rates.rate": "Rate (GHS/kWh)",
+  "rates.issue.negativeRate": "Rate must be zero or more",
+  "rates.issue.lastBandBounded": "The last band must be open-ended",
+  "rates.issue.limitNotPositive": "Limit must be greater than zero",
+  "rates.issue.limitNotRising": "Limit must be higher than the previous band's {previous} kWh",
+  "rates.file": "Tariff file",
+  "rates.export": "Export JSON",
+  "rates.import": "Import file",
+  "rates.pastePlaceholder": "…or paste tariff JSON here",
+  "rates.pasteLabel": "Tariff JSON",
+  "rates.applyPasted": "Apply pasted JSON",
+  "rates.loaded": "Loaded \"{name}\". It is saved on this device until you reset.",
+  "rates.loadedFrom": "Loaded \"{name}\" for bills from {date}; earlier days keep the schedule in force before it. It is saved on this device until you reset.",
+
+  "history.title": "Billing History",
+  "history.intro": "Saved on this device. Each new bill starts from the last cycle's reading and amount payable.",
+  "history.empty": "No saved cycles yet. Calculate a bill with history saving turned on.",
+  "history.confirmDelete": "Delete this billing cycle?",
+  "history.saveRecalculate": "Save & Recalculate",
+  "validation.required": "Enter a value.",
+  "validation.notANumber": "Enter a number.",
+  "validation.negative": "Enter zero or more.",
+  "validation.invalidDate": "Enter a date.",
+  "validation.reversedDates": "The current reading date must be after the previous one.",
+  "validation.periodTooLong": "Reading dates can be at most {max} days apart.",
+  "validation.reversedReadings": "The current reading is lower than the previous one. Record a rollover or meter replacement in the calculator instead.",
+  "validation.oldMeterReversed": "The previous reading is higher than the old meter's final reading ({value}).",
+  "validation.newMeterReversed": "The current reading is lower than the new meter's starting reading ({value}).",
+  "validation.malformedAdjustment": "Enter a signed amount such as -25.50 or +10.",
+  "sync.title": "Sync History",
+  "sync.intro": "Share this history with your team by syncing it to a household on the server. Cycles are matched by ID and the most recently edited copy is kept.",
+  "sync.loading": "Loading households…",
+  "sync.household": "Household",
+  "sync.chooseHousehold": "Choose a household",
+  "sync.addHousehold": "New household",
+  "sync.name": "Name",
+  "sync.meterNumber": "Meter number",
+  "sync.saveHousehold": "Save household",
+  "sync.syncNow": "Sync now",
+  "sync.syncing": "Syncing…",
+  "sync.synced": "Synced. This household has {count} billing cycles.",
+  "sync.rejected": "{count} billing cycles were not synced because they have errors. Fix them in Billing History and sync again.",
+  "sync.unreachable": "The server could not be reached. History is still saved on this device.",
+
+  "budget.title": "Budget Planner",
+  "budget.intro": "Find how many units you can use before the bill reaches your budget.",
+  "budget.target": "Target Amount (GHS)",
+  "budget.billingDays": "Billing Days",
+  "budget.findUnits": "Find Units",
+  "budget.empty": "Enter a target amount and click Find Units.",
+  "budget.unaffordable": "Fixed charges and balances already come to {amount}, above your target.",
+  "budget.unlimited": "These rates charge nothing for units above {units}, so there is no limit: the bill stays at {amount} however much you use.",
+  "budget.unitsYouCanUse": "Units You Can Use",
+  "budget.stopAt": "Stop At Reading",
+  "budget.payableAt": "Amount Payable at {units}",
+  "budget.oneMore": "One more kWh would take the bill over your target.",
+
+  "split.title": "Shared Meter Split",
+  "split.context": "{tariff} tariff, {start} to {end}. Change these on the Bill tab.",
+  "split.mainPrev": "Main Meter Previous (kWh)",
+  "split.mainCurr": "Main Meter Current (kWh)",
+  "split.subMeters": "Sub-meters",
+  "split.name": "Name",
+  "split.previous": "Previous",
+  "split.current": "Current",
+  "split.tenantName": "Tenant {number}",
+  "split.addTenant": "Add tenant",
+  "split.rules": "Sharing Rules",
+  "split.rule.energy": "Energy charge",
+  "split.rule.charges": "Service charge & levies",
+  "split.rule.remainder": "Unmetered remainder",
+  "split.option.consumption": "By consumption",
+  "split.option.standalone": "By standalone band cost",
+  "split.option.even": "Evenly",
+  "split.calculate": "Split Bill",
+  "split.empty": "Enter the main meter and each sub-meter, then click Split Bill.",
+  "split.mainMeter": "Main Meter",
+  "split.subMetered": "Sub-metered",
+  "split.unmetered": "Unmetered",
+  "split.overMetered": "The sub-meters add up to more than the main meter. Check the readings; the bill is shared by sub-meter usage regardless.",
+  "split.colTenant": "Tenant",
+  "split.colKwh": "kWh",
+  "split.colEnergy": "Energy",
+  "split.colUnmetered": "Unmetered",
+  "split.colCharges": "Charges",
+  "split.colTotal": "Total",
+  "split.mainBill": "Main Meter Bill",
+
+  "batch.title": "Batch Bills",
+  "batch.intro": "Bill many meters at once from a CSV with one row per meter. Columns: {columns}. A header row is optional. Blank days default to 31 and a blank tariff to residential.",
+  "batch.customRates": "Your edited or imported rates are used, as in the calculator.",
+  "batch.chooseFile": "Choose CSV file",
+  "batch.template": "Download template",
+  "batch.paste": "Or paste CSV",
+  "batch.run": "Calculate All",
+  "batch.download": "Download results CSV",
+  "batch.summary": "{billed} meters billed, {failed} rows with errors. Total payable: {total}.",
+  "batch.colLine": "Row",
+  "batch.colMeter": "Meter",
+  "batch.colPayable": "Payable",
+  "analytics.title": "Consumption Analytics",
+  "analytics.empty": "No saved billing cycles yet. Calculate bills with history saving turned on to see trends here.",
+  "analytics.averageCycle": "Average per Cycle",
+  "analytics.averageDaily": "Average Daily Use",
+  "analytics.effectiveRate": "Effective Rate",
+  "analytics.levyShare": "Share Paid in Levies",
+  "analytics.perKwh": "{amount}/kWh",
+  "analytics.bandAlert": "Cycle ending {label} reached band {top}; you usually stay within band {usual}.",
+  "analytics.chartUnits": "kWh per Cycle",
+  "analytics.chartDaily": "Average Daily Usage (kWh/day)",
+  "analytics.chartRate": "Effective Rate (GHS/kWh)",
+  "analytics.chartSplit": "Where Each Bill Went (GHS)",
+  "analytics.seriesEnergy": "Energy",
+  "analytics.seriesLevies": "Levies & VAT",
+  "analytics.seriesService": "Service charge",
+  "analytics.cycles": "Cycles",
+  "analytics.colCycleEnd": "Cycle End",
+  "analytics.colKwh": "kWh",
+  "analytics.colDays": "Days",
+  "analytics.colDaily": "kWh/day",
+  "analytics.colRate": "GHS/kWh",
+  "analytics.colEnergy": "Energy",
+  "analytics.colLevies": "Levies",
+  "analytics.colTotal": "Total",
+
+  "estimate.title": "Appliance Estimator",
+  "estimate.intro": "No readings yet? List your appliances to estimate a month's consumption and bill.",
+  "estimate.preset": "Appliance",
+  "estimate.add": "Add",
+  "estimate.addCustom": "Add custom",
+  "estimate.customName": "Custom appliance",
+  "estimate.watts": "Watts",
+  "estimate.quantity": "Quantity",
+  "estimate.hoursPerDay": "Hours/day",
+  "estimate.empty": "Add appliances to see the estimated bill.",
+  "estimate.units": "Estimated Use ({days} days)",
+  "estimate.topBand": "Highest Band Reached",
+  "estimate.band": "Band {band}",
+  "estimate.monthlyBill": "Estimated Bill",
+  "estimate.byAppliance": "By Appliance",
+  "estimate.colAppliance": "Appliance",
+  "estimate.colKwh": "kWh",
+  "estimate.colShare": "Share",
+  "estimate.colOff": "Saving if off",
+  "estimate.colHourLess": "Saving, 1 h/day less",
+  "estimate.pushesBand": "Next band",
+  "estimate.pushesBandNote": "Appliances marked Next band take consumption into a higher band or tariff; without them the whole bill is charged at lower rates.",
+
+  "check.title": "Check My Bill",
+  "check.intro": "Enter the figures printed on your ECG bill. Each line is recomputed from your readings and flagged when it differs by more than the tolerance.",
+  "check.printedLines": "Figures on the Bill",
+  "check.printedHint": "Leave a line blank if your bill does not show it.",
+  "check.amountLabel": "{line} (GHS)",
+  "check.tolerance": "Tolerance (GHS)",
+  "check.run": "Check Bill",
+  "check.empty": "Enter your readings and the bill's figures, then click Check Bill.",
+  "check.colLine": "Line",
+  "check.colPrinted": "On bill",
+  "check.colExpected": "Recomputed",
+  "check.colDifference": "Difference",
+  "check.noCause": "Some lines differ, but no single cause explains them. Ask ECG for a breakdown of those lines.",
+  "check.complaint": "Complaint Summary",
+  "check.copy": "Copy summary",
+  "check.copied": "Copied",
+  "check.download": "Download .txt",
+  "check.cause.estimatedReading": "The bill charges {billed} kWh but your readings show {metered} kWh. The bill was probably based on an estimated reading.",
+  "check.cause.wrongTariff": "The energy charge matches the {tariff} tariff. The account may be on the wrong tariff category.",
+  "check.cause.wrongDays": "The service charge matches {billed} billing days, but the reading dates cover {actual} days.",
+  "check.cause.outdatedRate": "The energy charge matches the {schedule} rates, which do not apply to this period.",
+  "check.cause.levyRate": "{levy} was charged at {billed} instead of {expected}.",
+  "check.cause.doesNotAddUp": "The lines on the bill add up to {total}, not the printed total.",
+  "check.summary.heading": "ECG bill check",
+  "check.summary.period": "Billing period: {start} to {end} ({days} days)",
+  "check.summary.tariff": "Tariff: {tariff}",
+  "check.summary.readings": "Meter readings: {prev} to {curr} ({units} kWh)",
+  "check.summary.noDifferences": "Every line on the bill matches the published tariff.",
+  "check.summary.differences": "Lines that differ from the published tariff:",
+  "check.summary.line": "billed {printed}, should be {expected}",
+  "check.summary.causes": "Probable causes:",
+  "check.summary.overbilled": "Amount overbilled: {amount}",
+  "check.summary.underbilled": "Amount underbilled: {amount}",
+
+  "forecast.title": "Mid-cycle Forecast",
+  "forecast.intro": "Read your meter partway through the cycle to project the bill at the end of it. Your average daily use so far is carried through to the cycle end date.",
+  "forecast.interimReading": "Reading Today (kWh)",
+  "forecast.interimDate": "Date of This Reading",
+  "forecast.cycleEnd": "Expected Cycle End",
+  "forecast.run": "Project Bill",
+  "forecast.empty": "Enter the last bill's reading and today's reading, then click Project Bill.",
+  "forecast.badDate": "The reading date must fall after the previous reading date and no later than the cycle end.",
+  "forecast.badReading": "Today's reading cannot be lower than the previous reading.",
+  "forecast.soFar": "Used So Far ({days} days)",
+  "forecast.dailyAverage": "Average per Day",
+  "forecast.projectedUnits": "Projected Use ({days} days)",
+  "forecast.projectedBand": "Projected Top Band",
+  "forecast.crossesBand": "At this pace the cycle moves from band {from} into band {to}, where every extra kWh costs more.",
+  "forecast.dailyBudget": "To stay within band {band} (up to {limit} this cycle), use at most {budget} a day for the remaining {days} days.",
+  "forecast.cycleOver": "The cycle has ended, so there is no daily budget left to plan.",
+  "forecast.bandBreakdown": "Projected Band Breakdown",
+  "forecast.levies": "Levies",
+  "forecast.projectedBill": "Projected Bill",
+
+  "compare.title": "What-if Comparison",
+  "compare.intro": "Run one set of readings through several tariff scenarios, such as new PURC rates or a different customer category. The first scenario is the baseline the others are compared with.",
+  "compare.scenarios": "Scenarios",
+  "compare.scenariosHint": "Scenarios are saved on this device. Edited rates are copied into a scenario when you pick them, so later rate edits do not change it.",
+  "compare.baselineName": "Baseline name",
+  "compare.name": "Scenario name",
+  "compare.scenarioName": "Scenario {n}",
+  "compare.rates": "Rates",
+  "compare.published": "Published rates",
+  "compare.edited": "My edited rates",
+  "compare.refreshRates": "Use current rates",
+  "compare.refreshRatesHint": "Replace the rates saved with this scenario with the ones in the rate editor now.",
+  "compare.add": "Add scenario",
+  "compare.sideBySide": "Side by Side",
+  "compare.invalid": "Enter readings with the current reading no lower than the previous one, and an end date after the start date.",
+  "compare.colLine": "Line",
+  "compare.demandCharge": "Demand Charge",
+  "compare.payable": "Amount Payable",
+  "compare.sensitivity": "Sensitivity",
+  "compare.sensitivityIntro": "Total bill for each scenario at other consumption levels, over the same billing period.",
+  "compare.levels": "Consumption levels (kWh, comma-separated)",
+
+  "prepaid.title": "Prepaid Top-up",
+  "prepaid.intro": "See how many units a top-up credits after debt recovery, the monthly service charge and levies, or what to pay for a number of units.",
+  "prepaid.direction": "Calculate from",
+  "prepaid.fromAmount": "Amount → units",
+  "prepaid.fromUnits": "Units → amount",
+  "prepaid.topUp": "Top-up Amount (GHS)",
+  "prepaid.unitsWanted": "Units Wanted (kWh)",
+  "prepaid.unitsThisMonth": "Units Already Bought This Month (kWh)",
+  "prepaid.debt": "Outstanding Debt (GHS)",
+  "prepaid.recoveryRate": "Debt Recovery (% of each top-up)",
+  "prepaid.serviceChargeDue": "This is the first top-up this month (service charge not yet paid)",
+  "prepaid.empty": "Enter a top-up amount or the units you want, then click Calculate.",
+  "prepaid.topUpLabel": "Top-up",
+  "prepaid.unitsCredited": "Units Credited",
+  "prepaid.debtRecovery": "Debt Recovery",
+  "prepaid.rounding": "Not enough for another 0.01 kWh",
+  "prepaid.nothingCredited": "Debt recovery and the service charge take the whole top-up, so no units are credited.",
+
+  "appliance.ledBulb": "LED bulb",
+  "appliance.ceilingFan": "Ceiling fan",
+  "appliance.standingFan": "Standing fan",
+  "appliance.television": "Television",
+  "appliance.decoder": "TV decoder",
+  "appliance.fridge": "Fridge",
+  "appliance.chestFreezer": "Chest freezer",
+  "appliance.airConditioner": "Air conditioner (1.5 HP)",
+  "appliance.iron": "Electric iron",
+  "appliance.kettle": "Electric kettle",
+  "appliance.microwave": "Microwave",
+  "appliance.riceCooker": "Rice cooker",
+  "appliance.waterHeater": "Water heater",
+  "appliance.washingMachine": "Washing machine",
+  "appliance.waterPump": "Water pump",
+  "appliance.laptop": "Laptop",
+  "appliance.desktop": "Desktop computer",
+  "appliance.phoneCharger": "Phone charger",
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+export type Catalogue = Partial<Messages>;
+
+export default en satisfies Messages;
@@ -0,0 +1,459 @@
+import type { Messages } from "@/lib/messages/en";
+
+const fr: Messages = {
+  "app.title": "Calculateur de facture ECG",
+  "app.logoAlt": "Logo ECG",
+  "app.beta": "Bêta",
+  "app.analytics": "Analyses",
+  "app.batch": "Lot",
+  "app.language": "Langue",
+  "app.toggleTheme": "Changer de thème",
+  "app.themeLight": "Clair",
+  "app.themeDark": "Sombre",
+  "app.notAffiliated": "Conçu à des fins de démonstration. Sans lien avec ECG.",
+  "app.disclaimerTitle": "Avertissement :",
+  "app.disclaimer":
+    "Les tarifs et frais peuvent changer avec le temps. Pour des taux exacts et à jour, vérifiez toujours les tarifs publiés par ECG avant de vous fier à ces résultats.",
+  "app.copyright": "© {year} Tous droits réservés. Fait avec amour par",
+
+  "update.available": "Une nouvelle version du calculateur est disponible.",
+  "update.later": "Plus tard",
+  "update.reload": "Recharger",
+
+  "common.results": "Résultats",
+  "common.note": "Remarque",
+  "common.alert": "Alerte",
+  "common.dismiss": "Fermer",
+  "common.remove": "Supprimer",
+  "common.edit": "Modifier",
+  "common.cancel": "Annuler",
+  "common.delete": "Supprimer",
+  "common.kwh": "{value} kWh",
+  "common.example": "ex. {value}",
+  "common.prevReading": "Relevé précédent (kWh)",
+  "common.currReading": "Relevé actuel (kWh)",
+  "common.prevDate": "Date du relevé précédent",
+  "common.currDate": "Date du relevé actuel",
+  "common.prevBalance": "Solde précédent (GHS)",
+  "common.payments": "Paiements effectués (GHS)",
+  "common.adjustments": "Ajustements (GHS)",
+  "common.tariffType": "Type de tarif",
+  "common.units": "Unités",
+  "common.energyCost": "Coût de l'énergie",
+  "common.serviceCharge": "Frais de service",
+  "common.totalBill": "Facture totale",
+  "common.levyLine": "{levy} ({rate})",
+
+  "tariff.lifeline": "Résidentiel social (0–30 kWh)",
+  "tariff.residential": "Résidentiel",
+  "tariff.nonResidential": "Non résidentiel",
+  "tariff.sltLowVoltage": "SLT basse tension",
+  "tariff.sltMediumVoltage": "SLT moyenne tension",
+  "tariff.sltHighVoltage": "SLT haute tension",
+
+  "levy.nel": "Taxe nationale d'électrification",
+  "levy.streetLight": "Éclairage public",
+  "levy.nhilGetFund": "NHIL et GETFund",
+  "levy.vat": "TVA",
+
+  "calc.mode": "Mode du calculateur",
+  "calc.mode.bill": "Facture",
+  "calc.mode.budget": "Budget",
+  "calc.mode.split": "Partage",
+  "calc.mode.estimate": "Estimation",
+  "calc.mode.prepaid": "Prépayé",
+  "calc.mode.check": "Vérifier",
+  "calc.mode.forecast": "Prévision",
+  "calc.mode.compare": "Comparer",
+  "calc.mode.history": "Historique",
+  "calc.prepaidNote": "L'onglet Facture calcule les factures postpayées. Pour un compteur prépayé, utilisez l'onglet Prépayé pour voir les unités obtenues par une recharge.",
+  "calc.openPrepaid": "Ouvrir Prépayé",
+  "calc.inputs": "Saisies",
+  "calc.copyLink": "Copier le lien",
+  "calc.linkCopied": "Lien copié. Toute personne qui l'ouvre verra ces saisies.",
+  "calc.linkInAddressBar": "Copiez le lien depuis la barre d'adresse pour partager ces saisies.",
+  "calc.linkInvalid": "Certaines valeurs de ce lien étaient invalides et ont été réinitialisées : {fields}.",
+  "calc.linkRates": "Ce lien contient ses propres tarifs. Ils s'appliquent à cette visite seulement ; vos tarifs enregistrés ne changent pas.",
+  "calc.keepLinkRates": "Garder ces tarifs",
+  "calc.toggleQuickMode": "Activer le mode rapide",
+  "calc.quickMode": "Mode rapide",
+  "calc.fast": "Rapide",
+  "calc.quickModeHint": "Saisissez seulement les kWh précédents et actuels (31 jours, sans arriérés)",
+  "calc.toggleHistory": "Enregistrer les factures dans l'historique",
+  "calc.saveHistory": "Enregistrer chaque facture dans l'historique (local)",
+  "calc.useLastReading": "Utiliser le dernier relevé : {reading}",
+  "calc.readingReversed": "Le relevé actuel est inférieur au précédent. Que s'est-il passé ?",
+  "calc.rolledOver": "Le compteur est repassé à zéro",
+  "calc.replaced": "Le compteur a été remplacé",
+  "calc.registerDigits": "Chiffres du compteur",
+  "calc.digitsOption": "{digits} chiffres (repasse à zéro après {max})",
+  "calc.exceedsRegister": "Un compteur à {digits} chiffres ne peut pas afficher ces relevés. Choisissez le nombre de chiffres de l'afficheur du compteur.",
+  "calc.oldFinalReading": "Relevé final de l'ancien compteur",
+  "calc.newStartReading": "Relevé initial du nouveau compteur",
+  "calc.billingDays": "{days} jours facturés",
+  "calc.creditHint": "Peut être un crédit (-)",
+  "calc.signHint": "Utilisez + ou -",
+  "calc.adjustmentHint": "Positif pour un supplément, négatif pour un crédit.",
+  "calc.maxDemand": "Puissance maximale (kVA)",
+  "calc.calculateBill": "Calculer la facture",
+  "calc.calculate": "Calculer",
+  "calc.clear": "Effacer",
+  "calc.empty": "Saisissez les valeurs puis cliquez sur Calculer.",
+  "calc.tariffFallback": "La consommation dépasse la limite du tarif {from} ; cette facture utilise donc le tarif {to}.",
+  "calc.solar": "Solaire en toiture (comptage net)",
+  "calc.solarHint": "Les relevés ci-dessus sont ceux du registre d'import. Saisissez aussi le registre d'export et le mode de règlement de l'énergie exportée.",
+  "calc.exportPrev": "Relevé d'export précédent (kWh)",
+  "calc.exportCurr": "Relevé d'export actuel (kWh)",
+  "calc.nettingRule": "Règle de compensation",
+  "calc.netting.netUnits": "Compenser les kWh avant les tranches, créditer l'excédent",
+  "calc.netting.exportCredit": "Facturer tout l'import, créditer tout l'export",
+  "calc.exportRate": "Tarif de crédit d'export (GHS/kWh)",
+  "calc.creditBeforeLevies": "Déduire le crédit d'export avant le calcul des taxes",
+  "calc.exportReversed": "Le relevé d'export actuel est inférieur au précédent : aucun export n'est compté.",
+  "calc.netBillable": "Unités nettes facturables",
+  "calc.grossImport": "Import brut",
+  "calc.exported": "Exporté",
+  "calc.exportCredit": "Crédit d'export ({units} kWh)",
+  "calc.demandCharge": "Prime de puissance",
+  "calc.adjustments": "Ajustements",
+  "calc.payable": "Montant final à payer",
+  "calc.print": "Imprimer le relevé",
+  "calc.downloadPdf": "Télécharger le PDF",
+  "calc.periods": "Périodes tarifaires",
+  "calc.periodsNote": "Un changement de tarif est intervenu pendant cette période ; la consommation et les frais de service sont répartis au prorata des jours.",
+  "calc.colTariff": "Tarif",
+  "calc.colDates": "Dates",
+  "calc.colUnits": "Unités (kWh)",
+  "calc.colEnergy": "Énergie (GHS)",
+  "calc.colService": "Service (GHS)",
+  "calc.colRate": "Taux (GHS/kWh)",
+  "calc.colCost": "Coût (GHS)",
+  "calc.periodDates": "{from} → {to} ({days} j)",
+  "calc.bandBreakdown": "Détail par tranche",
+  "calc.step.advance": "Avance du compteur",
+  "calc.step.beforeRollover": "Jusqu'au passage à zéro",
+  "calc.step.afterRollover": "Après le passage à zéro",
+  "calc.step.oldMeter": "Ancien compteur",
+  "calc.step.newMeter": "Nouveau compteur",
+
+  "schedule.2025-q3": "PURC T3 2025",
+  "schedule.shared": "Tarifs partagés",
+
+  "statement.title": "Relevé de facture d'électricité",
+  "statement.issued": "Émis le {date}",
+  "statement.subtitle": "Format postpayé ECG - calculé par le Calculateur de facture ECG",
+  "statement.account": "Compte et compteur",
+  "statement.tariff": "Tarif",
+  "statement.period": "Période de facturation",
+  "statement.periodDates": "Du {from} au {to} ({days} jours)",
+  "statement.prevReading": "Relevé précédent",
+  "statement.currReading": "Relevé actuel",
+  "statement.step": "{step} : {from} -> {to} ({units} kWh)",
+  "statement.netMetering": "Comptage net : {imported} kWh importés, {exported} kWh exportés, {billed} kWh facturés",
+  "statement.units": "Unités consommées",
+  "statement.bands": "Tranches d'énergie",
+  "statement.charges": "Frais",
+  "statement.energy": "Frais d'énergie",
+  "statement.demand": "Frais de puissance",
+  "statement.service": "Frais de service",
+  "statement.levy": "{levy} ({rate} %)",
+  "statement.exportCredit": "Crédit d'export ({units} kWh)",
+  "statement.total": "Total de la facture actuelle",
+  "statement.summary": "Résumé du compte",
+  "statement.balance": "Solde reporté",
+  "statement.payments": "Paiements reçus",
+  "statement.adjustments": "Ajustements",
+  "statement.payable": "Montant à payer",
+  "statement.disclaimer": "Non affilié à ECG. Vérifiez les tarifs en vigueur publiés par ECG avant de vous fier à ces montants.",
+  "statement.pdfTitle": "Relevé de facture du {from} au {to}",
+
+  "photo.read": "Lire depuis une photo",
+  "photo.reading": "Lecture de la photo…",
+  "photo.failed": "Impossible d'ouvrir cette photo. Essayez-en une autre.",
+  "photo.hint": "Tracez un cadre autour des chiffres pour ne lire que cette partie. Seul l'écran LCD d'un compteur électronique peut être lu. La photo reste sur cet appareil.",
+  "photo.none": "Aucun chiffre trouvé. Tracez un cadre autour de la fenêtre des chiffres du compteur.",
+  "photo.notSevenSegment": "Cela ressemble à un compteur à rouleaux imprimés, que la lecture ne sait pas lire. Saisissez plutôt le relevé à la main.",
+  "photo.check": "Vérifiez chaque chiffre sur le compteur et corrigez ceux marqués ? avant d'utiliser le relevé.",
+  "photo.result": "Relevé lu sur la photo",
+  "photo.use": "Utiliser ce relevé",
+
+  "rates.title": "Grille tarifaire",
+  "rates.edit": "Modifier les tarifs",
+  "rates.hide": "Masquer l'éditeur",
+  "rates.editing": "Tarif modifié :",
+  "rates.addBand": "Ajouter une tranche",
+  "rates.reset": "Réinitialiser",
+  "rates.resetDone": "Tarifs réinitialisés selon la grille publiée.",
+  "rates.serviceCharge": "Frais de service (GHS/mois)",
+  "rates.demandRate": "Tarif de puissance (GHS/kVA)",
+  "rates.levyPercent": "{levy} (%)",
+  "rates.limitsAre": "Les limites sont :",
+  "rates.cumulative": "Cumulées (jusqu'à N kWh)",
+  "rates.width": "Largeurs de tranche (N kWh chacune)",
+  "rates.bandAbove": "Tranche {band} : au-delà de {from} kWh",
+  "rates.bandRange": "Tranche {band} : {from}–{to} kWh",
+  "rates.upTo": "Jusqu'à (kWh)",
+  "rates.widthLabel": "Largeur (kWh)",
+  "rates.rate": "Taux (GHS/kWh)",
+  "rates.issue.negativeRate": "Le taux doit être nul ou positif",
+  "rates.issue.lastBandBounded": "La dernière tranche doit être illimitée",
+  "rates.issue.limitNotPositive": "La limite doit être supérieure à zéro",
+  "rates.issue.limitNotRising": "La limite doit dépasser les {previous} kWh de la tranche précédente",
+  "rates.file": "Fichier tarifaire",
+  "rates.export": "Exporter en JSON",
+  "rates.import": "Importer un fichier",
+  "rates.pastePlaceholder": "…ou collez ici le JSON tarifaire",
+  "rates.pasteLabel": "JSON tarifaire",
+  "rates.applyPasted": "Appliquer le JSON collé",
+  "rates.loaded": "« {name} » chargé. Il reste enregistré sur cet appareil jusqu'à réinitialisation.",
+  "rates.loadedFrom": "« {name} » chargé pour les factures à partir du {date} ; les jours antérieurs gardent le barème alors en vigueur. Il reste enregistré sur cet appareil jusqu'à réinitialisation.",
+
+  "history.title": "Historique de facturation",
+  "history.intro": "Enregistré sur cet appareil. Chaque nouvelle facture part du relevé et du montant dû du dernier cycle.",
+  "history.empty": "Aucun cycle enregistré. Calculez une facture avec l'historique activé.",
+  "history.confirmDelete": "Supprimer ce cycle de facturation ?",
+  "history.saveRecalculate": "Enregistrer et recalculer",
+  "validation.required": "Saisissez une valeur.",
+  "validation.notANumber": "Saisissez un nombre.",
+  "validation.negative": "Saisissez zéro ou plus.",
+  "validation.invalidDate": "Saisissez une date.",
+  "validation.reversedDates": "La date du relevé actuel doit être postérieure à la précédente.",
+  "validation.periodTooLong": "Les dates de relevé peuvent être espacées de {max} jours au plus.",
+  "validation.reversedReadings": "Le relevé actuel est inférieur au précédent. Enregistrez plutôt un passage à zéro ou un remplacement de compteur dans le calculateur.",
+  "validation.oldMeterReversed": "Le relevé précédent dépasse le relevé final de l'ancien compteur ({value}).",
+  "validation.newMeterReversed": "Le relevé actuel est inférieur au relevé de départ du nouveau compteur ({value}).",
+  "validation.malformedAdjustment": "Saisissez un montant signé, par exemple -25.50 ou +10.",
+  "sync.title": "Synchroniser l'historique",
+  "sync.intro": "Partagez cet historique avec votre équipe en le synchronisant avec un foyer sur le serveur. Les cycles sont appariés par identifiant et la copie modifiée le plus récemment est conservée.",
+  "sync.loading": "Chargement des foyers…",
+  "sync.household": "Foyer",
+  "sync.chooseHousehold": "Choisissez un foyer",
+  "sync.addHousehold": "Nouveau foyer",
+  "sync.name": "Nom",
+  "sync.meterNumber": "Numéro de compteur",
+  "sync.saveHousehold": "Enregistrer le foyer",
+  "sync.syncNow": "Synchroniser",
+  "sync.syncing": "Synchronisation…",
+  "sync.synced": "Synchronisé. Ce foyer compte {count} cycles de facturation.",
+  "sync.rejected": "{count} cycles de facturation n'ont pas été synchronisés car ils comportent des erreurs. Corrigez-les dans l'historique de facturation puis synchronisez à nouveau.",
+  "sync.unreachable": "Le serveur est injoignable. L'historique reste enregistré sur cet appareil.",
+
+  "budget.title": "Planificateur de budget",
+  "budget.intro": "Découvrez combien d'unités vous pouvez consommer avant que la facture n'atteigne votre budget.",
+  "budget.target": "Montant visé (GHS)",
+  "budget.billingDays": "Jours facturés",
+  "budget.findUnits": "Trouver les unités",
+  "budget.empty": "Saisissez un montant visé puis cliquez sur Trouver les unités.",
+  "budget.unaffordable": "Les frais fixes et soldes atteignent déjà {amount}, au-dessus de votre budget.",
+  "budget.unlimited": "Ces tarifs ne facturent rien au-delà de {units} : il n'y a donc pas de limite et la facture reste à {amount} quelle que soit votre consommation.",
+  "budget.unitsYouCanUse": "Unités disponibles",
+  "budget.stopAt": "S'arrêter au relevé",
+  "budget.payableAt": "Montant dû à {units}",
+  "budget.oneMore": "Un kWh de plus ferait dépasser votre budget.",
+
+  "split.title": "Partage d'un compteur commun",
+  "split.context": "Tarif {tariff}, du {start} au {end}. Modifiez-les dans l'onglet Facture.",
+  "split.mainPrev": "Compteur principal précédent (kWh)",
+  "split.mainCurr": "Compteur principal actuel (kWh)",
+  "split.subMeters": "Sous-compteurs",
+  "split.name": "Nom",
+  "split.previous": "Précédent",
+  "split.current": "Actuel",
+  "split.tenantName": "Locataire {number}",
+  "split.addTenant": "Ajouter un locataire",
+  "split.rules": "Règles de partage",
+  "split.rule.energy": "Coût de l'énergie",
+  "split.rule.charges": "Frais de service et taxes",
+  "split.rule.remainder": "Reste non mesuré",
+  "split.option.consumption": "Selon la consommation",
+  "split.option.standalone": "Selon le coût individuel par tranche",
+  "split.option.even": "À parts égales",
+  "split.calculate": "Partager la facture",
+  "split.empty": "Saisissez le compteur principal et chaque sous-compteur, puis cliquez sur Partager la facture.",
+  "split.mainMeter": "Compteur principal",
+  "split.subMetered": "Sous-comptés",
+  "split.unmetered": "Non mesurés",
+  "split.overMetered": "Les sous-compteurs dépassent le compteur principal. Vérifiez les relevés ; la facture est tout de même partagée selon les sous-compteurs.",
+  "split.colTenant": "Locataire",
+  "split.colKwh": "kWh",
+  "split.colEnergy": "Énergie",
+  "split.colUnmetered": "Non mesuré",
+  "split.colCharges": "Frais",
+  "split.colTotal": "Total",
+  "split.mainBill": "Facture du compteur principal",
+
+  "batch.title": "Factures par lot",
+  "batch.intro": "Facturez plusieurs compteurs à la fois à partir d'un CSV comportant une ligne par compteur. Colonnes : {columns}. La ligne d'en-tête est facultative. Des jours vides valent 31 et un tarif vide vaut résidentiel.",
+  "batch.customRates": "Vos tarifs modifiés ou importés sont utilisés, comme dans le calculateur.",
+  "batch.chooseFile": "Choisir un fichier CSV",
+  "batch.template": "Télécharger le modèle",
+  "batch.paste": "Ou collez le CSV",
+  "batch.run": "Tout calculer",
+  "batch.download": "Télécharger les résultats CSV",
+  "batch.summary": "{billed} compteurs facturés, {failed} lignes en erreur. Total à payer : {total}.",
+  "batch.colLine": "Ligne",
+  "batch.colMeter": "Compteur",
+  "batch.colPayable": "À payer",
+  "analytics.title": "Analyse de consommation",
+  "analytics.empty": "Aucun cycle enregistré. Calculez des factures avec l'historique activé pour voir les tendances ici.",
+  "analytics.averageCycle": "Moyenne par cycle",
+  "analytics.averageDaily": "Consommation quotidienne moyenne",
+  "analytics.effectiveRate": "Taux effectif",
+  "analytics.levyShare": "Part payée en taxes",
+  "analytics.perKwh": "{amount}/kWh",
+  "analytics.bandAlert": "Le cycle se terminant le {label} a atteint la tranche {top} ; vous restez d'habitude dans la tranche {usual}.",
+  "analytics.chartUnits": "kWh par cycle",
+  "analytics.chartDaily": "Consommation quotidienne moyenne (kWh/jour)",
+  "analytics.chartRate": "Taux effectif (GHS/kWh)",
+  "analytics.chartSplit": "Répartition de chaque facture (GHS)",
+  "analytics.seriesEnergy": "Énergie",
+  "analytics.seriesLevies": "Taxes et TVA",
+  "analytics.seriesService": "Frais de service",
+  "analytics.cycles": "Cycles",
+  "analytics.colCycleEnd": "Fin du cycle",
+  "analytics.colKwh": "kWh",
+  "analytics.colDays": "Jours",
+  "analytics.colDaily": "kWh/jour",
+  "analytics.colRate": "GHS/kWh",
+  "analytics.colEnergy": "Énergie",
+  "analytics.colLevies": "Taxes",
+  "analytics.colTotal": "Total",
+
+  "estimate.title": "Estimation par appareils",
+  "estimate.intro": "Pas encore de relevés ? Listez vos appareils pour estimer la consommation et la facture d'un mois.",
+  "estimate.preset": "Appareil",
+  "estimate.add": "Ajouter",
+  "estimate.addCustom": "Ajouter un appareil personnalisé",
+  "estimate.customName": "Appareil personnalisé",
+  "estimate.watts": "Watts",
+  "estimate.quantity": "Quantité",
+  "estimate.hoursPerDay": "Heures/jour",
+  "estimate.empty": "Ajoutez des appareils pour voir la facture estimée.",
+  "estimate.units": "Consommation estimée ({days} jours)",
+  "estimate.topBand": "Tranche la plus haute atteinte",
+  "estimate.band": "Tranche {band}",
+  "estimate.monthlyBill": "Facture estimée",
+  "estimate.byAppliance": "Par appareil",
+  "estimate.colAppliance": "Appareil",
+  "estimate.colKwh": "kWh",
+  "estimate.colShare": "Part",
+  "estimate.colOff": "Économie si éteint",
+  "estimate.colHourLess": "Économie, 1 h/jour de moins",
+  "estimate.pushesBand": "Tranche suivante",
+  "estimate.pushesBandNote": "Les appareils marqués Tranche suivante font passer la consommation dans une tranche ou un tarif plus élevé ; sans eux, toute la facture est calculée à des taux plus bas.",
+
+  "check.title": "Vérifier ma facture",
+  "check.intro": "Saisissez les montants imprimés sur votre facture ECG. Chaque ligne est recalculée à partir de vos relevés et signalée si l'écart dépasse la tolérance.",
+  "check.printedLines": "Montants de la facture",
+  "check.printedHint": "Laissez une ligne vide si votre facture ne l'affiche pas.",
+  "check.amountLabel": "{line} (GHS)",
+  "check.tolerance": "Tolérance (GHS)",
+  "check.run": "Vérifier la facture",
+  "check.empty": "Saisissez vos relevés et les montants de la facture, puis cliquez sur Vérifier la facture.",
+  "check.colLine": "Ligne",
+  "check.colPrinted": "Sur la facture",
+  "check.colExpected": "Recalculé",
+  "check.colDifference": "Écart",
+  "check.noCause": "Certaines lignes diffèrent sans cause unique identifiable. Demandez à ECG le détail de ces lignes.",
+  "check.complaint": "Résumé pour réclamation",
+  "check.copy": "Copier le résumé",
+  "check.copied": "Copié",
+  "check.download": "Télécharger .txt",
+  "check.cause.estimatedReading": "La facture compte {billed} kWh mais vos relevés indiquent {metered} kWh. La facture repose probablement sur un relevé estimé.",
+  "check.cause.wrongTariff": "Le coût de l'énergie correspond au tarif {tariff}. Le compte est peut-être dans la mauvaise catégorie.",
+  "check.cause.wrongDays": "Les frais de service correspondent à {billed} jours facturés, alors que les dates de relevé couvrent {actual} jours.",
+  "check.cause.outdatedRate": "Le coût de l'énergie correspond aux tarifs {schedule}, qui ne s'appliquent pas à cette période.",
+  "check.cause.levyRate": "{levy} a été facturé à {billed} au lieu de {expected}.",
+  "check.cause.doesNotAddUp": "Les lignes de la facture totalisent {total}, et non le total imprimé.",
+  "check.summary.heading": "Vérification de facture ECG",
+  "check.summary.period": "Période de facturation : du {start} au {end} ({days} jours)",
+  "check.summary.tariff": "Tarif : {tariff}",
+  "check.summary.readings": "Relevés du compteur : {prev} à {curr} ({units} kWh)",
+  "check.summary.noDifferences": "Toutes les lignes de la facture correspondent au tarif publié.",
+  "check.summary.differences": "Lignes qui diffèrent du tarif publié :",
+  "check.summary.line": "facturé {printed}, devrait être {expected}",
+  "check.summary.causes": "Causes probables :",
+  "check.summary.overbilled": "Montant surfacturé : {amount}",
+  "check.summary.underbilled": "Montant sous-facturé : {amount}",
+
+  "forecast.title": "Prévision en cours de cycle",
+  "forecast.intro": "Relevez votre compteur en cours de cycle pour estimer la facture de fin de cycle. Votre consommation quotidienne moyenne est prolongée jusqu'à la fin du cycle.",
+  "forecast.interimReading": "Relevé du jour (kWh)",
+  "forecast.interimDate": "Date de ce relevé",
+  "forecast.cycleEnd": "Fin de cycle prévue",
+  "forecast.run": "Estimer la facture",
+  "forecast.empty": "Saisissez le relevé de la dernière facture et celui du jour, puis cliquez sur Estimer la facture.",
+  "forecast.badDate": "La date du relevé doit être postérieure au relevé précédent et ne pas dépasser la fin du cycle.",
+  "forecast.badReading": "Le relevé du jour ne peut pas être inférieur au relevé précédent.",
+  "forecast.soFar": "Consommé jusqu'ici ({days} jours)",
+  "forecast.dailyAverage": "Moyenne par jour",
+  "forecast.projectedUnits": "Consommation prévue ({days} jours)",
+  "forecast.projectedBand": "Tranche maximale prévue",
+  "forecast.crossesBand": "À ce rythme, le cycle passe de la tranche {from} à la tranche {to}, où chaque kWh supplémentaire coûte plus cher.",
+  "forecast.dailyBudget": "Pour rester dans la tranche {band} (jusqu'à {limit} sur ce cycle), consommez au plus {budget} par jour pendant les {days} jours restants.",
+  "forecast.cycleOver": "Le cycle est terminé : il n'y a plus de budget quotidien à prévoir.",
+  "forecast.bandBreakdown": "Répartition prévue par tranche",
+  "forecast.levies": "Taxes",
+  "forecast.projectedBill": "Facture prévue",
+
+  "compare.title": "Comparaison de scénarios",
+  "compare.intro": "Appliquez un même jeu de relevés à plusieurs scénarios tarifaires, comme de nouveaux tarifs PURC ou une autre catégorie de client. Le premier scénario sert de référence aux autres.",
+  "compare.scenarios": "Scénarios",
+  "compare.scenariosHint": "Les scénarios sont enregistrés sur cet appareil. Les tarifs modifiés sont copiés dans un scénario lorsque vous les choisissez : les modifications ultérieures ne le changent pas.",
+  "compare.baselineName": "Nom de la référence",
+  "compare.name": "Nom du scénario",
+  "compare.scenarioName": "Scénario {n}",
+  "compare.rates": "Tarifs",
+  "compare.published": "Tarifs publiés",
+  "compare.edited": "Mes tarifs modifiés",
+  "compare.refreshRates": "Tarifs actuels",
+  "compare.refreshRatesHint": "Remplacer les tarifs enregistrés avec ce scénario par ceux de l'éditeur de tarifs.",
+  "compare.add": "Ajouter un scénario",
+  "compare.sideBySide": "Côte à côte",
+  "compare.invalid": "Saisissez des relevés dont le relevé actuel n'est pas inférieur au précédent, et une date de fin postérieure à la date de début.",
+  "compare.colLine": "Ligne",
+  "compare.demandCharge": "Frais de puissance",
+  "compare.payable": "Montant à payer",
+  "compare.sensitivity": "Sensibilité",
+  "compare.sensitivityIntro": "Facture totale de chaque scénario pour d'autres niveaux de consommation, sur la même période.",
+  "compare.levels": "Niveaux de consommation (kWh, séparés par des virgules)",
+
+  "prepaid.title": "Recharge prépayée",
+  "prepaid.intro": "Voyez combien d'unités une recharge crédite après le recouvrement de dette, les frais de service mensuels et les taxes, ou combien payer pour un nombre d'unités.",
+  "prepaid.direction": "Calculer à partir de",
+  "prepaid.fromAmount": "Montant → unités",
+  "prepaid.fromUnits": "Unités → montant",
+  "prepaid.topUp": "Montant de la recharge (GHS)",
+  "prepaid.unitsWanted": "Unités souhaitées (kWh)",
+  "prepaid.unitsThisMonth": "Unités déjà achetées ce mois-ci (kWh)",
+  "prepaid.debt": "Dette restante (GHS)",
+  "prepaid.recoveryRate": "Recouvrement de dette (% de chaque recharge)",
+  "prepaid.serviceChargeDue": "Première recharge du mois (frais de service pas encore payés)",
+  "prepaid.empty": "Saisissez un montant de recharge ou les unités souhaitées, puis cliquez sur Calculer.",
+  "prepaid.topUpLabel": "Recharge",
+  "prepaid.unitsCredited": "Unités créditées",
+  "prepaid.debtRecovery": "Recouvrement de dette",
+  "prepaid.rounding": "Insuffisant pour 0,01 kWh de plus",
+  "prepaid.nothingCredited": "Le recouvrement de dette et les frais de service absorbent toute la recharge ; aucune unité n'est créditée.",
+
+  "appliance.ledBulb": "Ampoule LED",
+  "appliance.ceilingFan": "Ventilateur de plafond",
+  "appliance.standingFan": "Ventilateur sur pied",
+  "appliance.television": "Télévision",
+  "appliance.decoder": "Décodeur TV",
+  "appliance.fridge": "Réfrigérateur",
+  "appliance.chestFreezer": "Congélateur coffre",
+  "appliance.airConditioner": "Climatiseur (1,5 CV)",
+  "appliance.iron": "Fer à repasser",
+  "appliance.kettle": "Bouilloire électrique",
+  "appliance.microwave": "Micro-ondes",
+  "appliance.riceCooker": "Cuiseur à riz",
+  "appliance.waterHeater": "Chauffe-eau",
+  "appliance.washingMachine": "Lave-linge",
+  "appliance.waterPump": "Pompe à eau",
+  "appliance.laptop": "Ordinateur portable",
+  "appliance.desktop": "Ordinateur de bureau",
+  "appliance.phoneCharger": "Chargeur de téléphone",
+};
+
+export default fr;
@@ -0,0 +1,459 @@
+import type { Messages } from "@/lib/messages/en";
+
+const gaa: Messages = {
+  "app.title": "ECG Kanɛ Nyɔmɔ Hesaabu",
+  "app.logoAlt": "ECG Okadi",
+  "app.beta": "Kaa",
+  "app.analytics": "Taomɔ",
+  "app.batch": "Babaoo",
+  "app.language": "Wiemɔ",
+  "app.toggleTheme": "Tsake sui",
+  "app.themeLight": "La",
+  "app.themeDark": "Duŋ",
+  "app.notAffiliated": "Afee enɛ koni eye ebua mɛi. Jeee ECG nɔ.",
+  "app.disclaimerTitle": "Kɔkɔbɔ:",
+  "app.disclaimer":
+    "Nyɔmɔ kɛ too ni abaa lɛ baanyɛ atsake be ko. Kɛ́ otaoɔ nɔ ni ja ni ji ehee lɛ, kwɛmɔ ECG nyɔmɔ ni akala lɛ ŋmɛnɛ dani okɛ nɔ ni jɛ mli baa lɛ atsu nii.",
+  "app.copyright": "© {year} Hegbɛi fɛɛ yɛ mɛi ni he. Suɔmɔ kɛ efee",
+
+  "update.available": "Hesaabu nɛɛ ehee yɛ.",
+  "update.later": "Sɛɛ mli",
+  "update.reload": "Bie ekoŋŋ",
+
+  "common.results": "Nɔ ni jɛ mli ba",
+  "common.note": "Ha ekadi",
+  "common.alert": "Kɔkɔbɔ",
+  "common.dismiss": "Jiemɔ",
+  "common.remove": "Jiemɔ",
+  "common.edit": "Tsake",
+  "common.cancel": "Ŋmɛɛ",
+  "common.delete": "Kpata",
+  "common.kwh": "{value} kWh",
+  "common.example": "tamɔ {value}",
+  "common.prevReading": "Klɛŋklɛŋ kanemɔ (kWh)",
+  "common.currReading": "Amrɔ nɛɛ kanemɔ (kWh)",
+  "common.prevDate": "Klɛŋklɛŋ kanemɔ gbi",
+  "common.currDate": "Amrɔ nɛɛ kanemɔ gbi",
+  "common.prevBalance": "Nyɔmɔ ni shwɛ (GHS)",
+  "common.payments": "Shika ni owo (GHS)",
+  "common.adjustments": "Tsakemɔi (GHS)",
+  "common.tariffType": "Nyɔmɔ shishitoo",
+  "common.units": "Yunit",
+  "common.energyCost": "Kanɛ nyɔmɔ",
+  "common.serviceCharge": "Sɔɔmɔ nyɔmɔ",
+  "common.totalBill": "Nyɔmɔ fɛɛ",
+  "common.levyLine": "{levy} ({rate})",
+
+  "tariff.lifeline": "Shia Lifeline (0–30 kWh)",
+  "tariff.residential": "Shia",
+  "tariff.nonResidential": "Jeee shia",
+  "tariff.sltLowVoltage": "SLT Hewalɛ bibioo",
+  "tariff.sltMediumVoltage": "SLT Hewalɛ teŋgbɛ",
+  "tariff.sltHighVoltage": "SLT Hewalɛ wulu",
+
+  "levy.nel": "Maŋ Kanɛ Too",
+  "levy.streetLight": "Gbɛ nɔ kanɛ",
+  "levy.nhilGetFund": "NHIL kɛ GETFund",
+  "levy.vat": "VAT",
+
+  "calc.mode": "Hesaabu gbɛ",
+  "calc.mode.bill": "Nyɔmɔ",
+  "calc.mode.budget": "Shika gbɛjianɔtoo",
+  "calc.mode.split": "Ja",
+  "calc.mode.estimate": "Susumɔ",
+  "calc.mode.prepaid": "Wo klɛŋklɛŋ",
+  "calc.mode.check": "Kwɛ",
+  "calc.mode.forecast": "Gba",
+  "calc.mode.compare": "Sa he",
+  "calc.mode.history": "Blema saji",
+  "calc.prepaidNote": "Nyɔmɔ fã lɛ buɔ nyɔmɔ wolo ni owoɔ sɛɛ mli lɛ. Kɛ́ o-mita lɛ ji wo-klɛŋklɛŋ nɔ lɛ, kɛ Wo klɛŋklɛŋ fã lɛ akwɛ yunit abɔ ni shika ni okɛaawo mli lɛ aaahe.",
+  "calc.openPrepaid": "Bie Wo klɛŋklɛŋ",
+  "calc.inputs": "Nɔ ni okɛwoɔ mli",
+  "calc.copyLink": "Kɔ link lɛ",
+  "calc.linkCopied": "Akɔ link lɛ. Mɔ fɛɛ mɔ ni baabie lɛ baana nɔ ni okɛwo mli nɛɛ.",
+  "calc.linkInAddressBar": "Kɔ link lɛ kɛjɛ address bar lɛ nɔ ni okɛja nɔ ni okɛwo mli nɛɛ.",
+  "calc.linkInvalid": "Nibii komɛi yɛ link nɛɛ mli ni ejaaa, no hewɔ lɛ wɔkɛ nɔ ni yɔɔ jɛmɛ momo lɛ ewo jɛmɛ: {fields}.",
+  "calc.linkRates": "Link nɛɛ hiɛ lɛ diɛŋtsɛ enyɔmɔi. Amrɔ nɛɛ pɛ etsuɔ nii; nyɔmɔi ni otoɔ lɛ etsakeee.",
+  "calc.keepLinkRates": "To nyɔmɔi nɛɛ",
+  "calc.toggleQuickMode": "Tsake Oya gbɛ",
+  "calc.quickMode": "Oya gbɛ",
+  "calc.fast": "Oya",
+  "calc.quickModeHint": "Wo klɛŋklɛŋ kɛ amrɔ nɛɛ kWh pɛ (gbii 31, nyɔmɔ momo ko bɛ mli)",
+  "calc.toggleHistory": "To nyɔmɔ wolo yɛ blema saji mli",
+  "calc.saveHistory": "To nyɔmɔ wolo fɛɛ yɛ blema saji mli (yɛ biɛ)",
+  "calc.useLastReading": "Kɛ kanemɔ ni sɛɛ nyiɛ: {reading}",
+  "calc.readingReversed": "Amrɔ nɛɛ kanemɔ lɛ fiɛɛ fe klɛŋklɛŋ nɔ lɛ. Mɛni ba?",
+  "calc.rolledOver": "Mita lɛ je shishi ekoŋŋ",
+  "calc.replaced": "Atsake mita lɛ",
+  "calc.registerDigits": "Mita lɛ yibɔi abɔ",
+  "calc.digitsOption": "Yibɔi {digits} (eje shishi ekoŋŋ yɛ {max} sɛɛ)",
+  "calc.exceedsRegister": "Mita ni eyibɔi ji {digits} nyɛŋ atsɔɔ kanemɔ nɛɛ. Hala yibɔi abɔ ni yɔɔ mita lɛ hiɛ.",
+  "calc.oldFinalReading": "Mita momo lɛ kanemɔ ni sɛɛ nyiɛ",
+  "calc.newStartReading": "Mita hee lɛ klɛŋklɛŋ kanemɔ",
+  "calc.billingDays": "Nyɔmɔ gbii {days}",
+  "calc.creditHint": "Ebaanyɛ afee nyɔmɔ ni akɛhaa bo (-)",
+  "calc.signHint": "Kɛ + loo -",
+  "calc.adjustmentHint": "Wo yibɔ kpakpa kɛha nyɔmɔ ni kɛ efata he, kɛ yibɔ ni yɔɔ - kɛha nyɔmɔ ni akɛhaa bo.",
+  "calc.maxDemand": "Hiamɔ ni fe fɛɛ (kVA)",
+  "calc.calculateBill": "Bu nyɔmɔ lɛ",
+  "calc.calculate": "Bu",
+  "calc.clear": "Tsumɔ",
+  "calc.empty": "Wo nibii lɛ amli ni ominyɛ Bu.",
+  "calc.tariffFallback": "Kanɛ ni okɛtsu nii lɛ fa fe {from}, no hewɔ lɛ nyɔmɔ nɛɛ kɛ {to} nyɔmɔi buɔ.",
+  "calc.solar": "Hulu kanɛ yɛ tsu yiteŋ (net metering)",
+  "calc.solarHint": "Kanemɔi ni yɔɔ ŋwɛi lɛ ji kanɛ ni baa mli lɛ nɔ. Wo kanɛ ni yaa kpo lɛ kanemɔi hu, kɛ bɔ ni aaawo kanɛ ni yaa kpo lɛ nyɔmɔ.",
+  "calc.exportPrev": "Kanɛ ni yaa kpo klɛŋklɛŋ kanemɔ (kWh)",
+  "calc.exportCurr": "Kanɛ ni yaa kpo amrɔ nɛɛ kanemɔ (kWh)",
+  "calc.nettingRule": "Gbɛ ni akɛjieɔ",
+  "calc.netting.netUnits": "Jie kWh dani ayaa fãi lɛ amli, ni okɛ nɔ ni fa fe lɛ aha bo",
+  "calc.netting.exportCredit": "Bu kanɛ ni baa mli fɛɛ nyɔmɔ, ni owo kanɛ ni yaa kpo fɛɛ nyɔmɔ aha bo",
+  "calc.exportRate": "Nyɔmɔ ni awoɔ kɛha kanɛ ni yaa kpo (GHS/kWh)",
+  "calc.creditBeforeLevies": "Jie shika ni akɛhaa bo lɛ dani abu toi",
+  "calc.exportReversed": "Kanɛ ni yaa kpo amrɔ nɛɛ kanemɔ lɛ fiɛɛ fe klɛŋklɛŋ nɔ lɛ, no hewɔ lɛ abuuu kanɛ ko ni tee kpo.",
+  "calc.netBillable": "Yunit ni aaawo enyɔmɔ",
+  "calc.grossImport": "Kanɛ ni ba mli fɛɛ",
+  "calc.exported": "Kanɛ ni tee kpo",
+  "calc.exportCredit": "Shika ni akɛhaa bo yɛ kanɛ ni tee kpo lɛ he ({units} kWh)",
+  "calc.demandCharge": "Hiamɔ nyɔmɔ",
+  "calc.adjustments": "Tsakemɔi",
+  "calc.payable": "Shika ni sa akɛ owo",
+  "calc.print": "Fee nyɔmɔ wolo",
+  "calc.downloadPdf": "Gbala PDF",
+  "calc.periods": "Nyɔmɔ beii",
+  "calc.periodsNote": "Nyɔmɔi tsake yɛ nyɔmɔ be nɛɛ mli, no hewɔ lɛ aja kanɛ ni okɛtsu nii kɛ sɔɔmɔ nyɔmɔ lɛ mli yɛ gbii lɛ anaa.",
+  "calc.colTariff": "Nyɔmɔ",
+  "calc.colDates": "Gbii",
+  "calc.colUnits": "Yunit (kWh)",
+  "calc.colEnergy": "Kanɛ (GHS)",
+  "calc.colService": "Sɔɔmɔ (GHS)",
+  "calc.colRate": "Jara (GHS/kWh)",
+  "calc.colCost": "Nyɔmɔ (GHS)",
+  "calc.periodDates": "{from} → {to} (gbii {days})",
+  "calc.bandBreakdown": "Fãi amli jamɔ",
+  "calc.step.advance": "Mita lɛ yaa hiɛ",
+  "calc.step.beforeRollover": "Kɛyashi eje shishi ekoŋŋ",
+  "calc.step.afterRollover": "Eje shishi ekoŋŋ sɛɛ",
+  "calc.step.oldMeter": "Mita momo",
+  "calc.step.newMeter": "Mita hee",
+
+  "schedule.2025-q3": "PURC Q3 2025",
+  "schedule.shared": "Nyɔmɔi ni aja",
+
+  "statement.title": "Kanɛ Nyɔmɔ Wolo",
+  "statement.issued": "Akɛha {date}",
+  "statement.subtitle": "ECG nyɔmɔ ni awoɔ sɛɛ mli - ECG Kanɛ Nyɔmɔ Hesaabu bu",
+  "statement.account": "Akɔntaa kɛ Mita",
+  "statement.tariff": "Nyɔmɔ",
+  "statement.period": "Nyɔmɔ be",
+  "statement.periodDates": "{from} kɛyashi {to} (gbii {days})",
+  "statement.prevReading": "Klɛŋklɛŋ kanemɔ",
+  "statement.currReading": "Amrɔ nɛɛ kanemɔ",
+  "statement.step": "{step}: {from} -> {to} ({units} kWh)",
+  "statement.netMetering": "Net metering: {imported} kWh ba mli, {exported} kWh tee kpo, abu {billed} kWh nyɔmɔ",
+  "statement.units": "Yunit ni okɛtsu nii",
+  "statement.bands": "Kanɛ fãi",
+  "statement.charges": "Nyɔmɔi",
+  "statement.energy": "Kanɛ nyɔmɔ",
+  "statement.demand": "Hiamɔ nyɔmɔ",
+  "statement.service": "Sɔɔmɔ nyɔmɔ",
+  "statement.levy": "{levy} ({rate}%)",
+  "statement.exportCredit": "Shika ni akɛhaa bo ({units} kWh)",
+  "statement.total": "Amrɔ nɛɛ nyɔmɔ fɛɛ",
+  "statement.summary": "Akɔntaa sane kuku",
+  "statement.balance": "Nyɔmɔ ni jɛ klɛŋklɛŋ",
+  "statement.payments": "Shika ni ahé",
+  "statement.adjustments": "Tsakemɔi",
+  "statement.payable": "Shika ni sa akɛ owo",
+  "statement.disclaimer": "Jeee ECG nɔ. Kwɛmɔ ECG nyɔmɔ ni akala lɛ ŋmɛnɛ dani okɛ hesaabu nɛɛ atsu nii.",
+  "statement.pdfTitle": "Nyɔmɔ wolo {from} kɛyashi {to}",
+
+  "photo.read": "Kane kɛjɛ foni mli",
+  "photo.reading": "Ekaneɔ foni lɛ…",
+  "photo.failed": "Wɔnyɛɛɛ wɔbie foni lɛ. Ka ekoŋŋ.",
+  "photo.hint": "Gbala kpɔŋkpɔŋ ofa yibɔi lɛ ahe ni okane nakai fã lɛ pɛ. Kanɛ mita LCD yibɔi pɛ ji nɔ ni wɔbaanyɛ wɔkane. Foni lɛ hiɔ afiri nɛɛ nɔ.",
+  "photo.none": "Wɔnaaa yibɔ ko. Gbala kpɔŋkpɔŋ ofa mita lɛ yibɔi awindo lɛ he.",
+  "photo.notSevenSegment": "Etamɔ mita ni eyibɔi ji nɔ ni akala yɛ nibii ni buɔ nɔ, ni wɔnyɛŋ wɔkane. Ŋma kanemɔ lɛ moŋ.",
+  "photo.check": "Kɛ yibɔ fɛɛ yibɔ asa mita lɛ he ni osaa nɔ ni akɛ ? eha ekadi lɛ dani okɛ kanemɔ lɛ atsu nii.",
+  "photo.result": "Kanemɔ ni jɛ foni mli",
+  "photo.use": "Kɛ kanemɔ lɛ",
+
+  "rates.title": "Nyɔmɔi",
+  "rates.edit": "Tsake nyɔmɔi",
+  "rates.hide": "Teemɔ tsakelɔ lɛ",
+  "rates.editing": "Etsakeɔ:",
+  "rates.addBand": "Kɛ fã ko fata he",
+  "rates.reset": "Kɛ klɛŋklɛŋ nɔ lɛ ku sɛɛ",
+  "rates.resetDone": "Wɔkɛ nyɔmɔi ni akala lɛ eku sɛɛ.",
+  "rates.serviceCharge": "Sɔɔmɔ nyɔmɔ (GHS/nyɔɔŋ)",
+  "rates.demandRate": "Hiamɔ jara (GHS/kVA)",
+  "rates.levyPercent": "{levy} (%)",
+  "rates.limitsAre": "Naagbee lɛ ji:",
+  "rates.cumulative": "Ekomɛi (kɛyashi N kWh)",
+  "rates.width": "Fã lɛ lɛɛmɔ (N kWh fɛɛ)",
+  "rates.bandAbove": "Fã {band}: efa fe {from} kWh",
+  "rates.bandRange": "Fã {band}: {from}–{to} kWh",
+  "rates.upTo": "Kɛyashi (kWh)",
+  "rates.widthLabel": "Lɛɛmɔ (kWh)",
+  "rates.rate": "Jara (GHS/kWh)",
+  "rates.issue.negativeRate": "Esa akɛ jara lɛ afee ekoko loo efa fe nakai",
+  "rates.issue.lastBandBounded": "Esaaa akɛ fã ni sɛɛ nyiɛ lɛ ná naagbee",
+  "rates.issue.limitNotPositive": "Esa akɛ naagbee lɛ afa fe ekoko",
+  "rates.issue.limitNotRising": "Esa akɛ naagbee lɛ afa fe fã ni tsɔ hiɛ lɛ {previous} kWh",
+  "rates.file": "Nyɔmɔ fael",
+  "rates.export": "Jie JSON",
+  "rates.import": "Kɛ fael ba",
+  "rates.pastePlaceholder": "…loo wo nyɔmɔ JSON yɛ biɛ",
+  "rates.pasteLabel": "Nyɔmɔ JSON",
+  "rates.applyPasted": "Kɛ JSON ni owo mli lɛ atsu nii",
+  "rates.loaded": "Akɛ \"{name}\" eba. Ato yɛ afiri nɛɛ nɔ kɛyashi obaaku sɛɛ kɛ klɛŋklɛŋ nɔ lɛ.",
+  "rates.loadedFrom": "Akɛ \"{name}\" eba kɛha nyɔmɔi ni jɛ {date}; gbii ni tsɔ hiɛ lɛ kɛ nyɔmɔi ni yɔɔ nakai be lɛ buɔ. Ato yɛ afiri nɛɛ nɔ kɛyashi obaaku sɛɛ kɛ klɛŋklɛŋ nɔ lɛ.",
+
+  "history.title": "Nyɔmɔ blema saji",
+  "history.intro": "Ato yɛ afiri nɛɛ nɔ. Nyɔmɔ hee fɛɛ jɛɔ kanemɔ kɛ shika ni sa akɛ owo ni sɛɛ nyiɛ lɛ nɔ.",
+  "history.empty": "Otooo nyɔmɔ be ko. Bu nyɔmɔ ko ni ha blema saji totoo lɛ atsu nii.",
+  "history.confirmDelete": "Otaoɔ ni okpata nyɔmɔ be nɛɛ?",
+  "history.saveRecalculate": "To ni obu ekoŋŋ",
+  "validation.required": "Wo nɔ ko mli.",
+  "validation.notANumber": "Wo yibɔ mli.",
+  "validation.negative": "Wo ekoko loo nɔ ni fa fe nakai.",
+  "validation.invalidDate": "Wo gbi mli.",
+  "validation.reversedDates": "Esa akɛ amrɔ nɛɛ kanemɔ gbi lɛ aba klɛŋklɛŋ kanemɔ gbi lɛ sɛɛ.",
+  "validation.periodTooLong": "Kanemɔi agbii ateŋ nyɛŋ afa fe gbii {max}.",
+  "validation.reversedReadings": "Amrɔ nɛɛ kanemɔ lɛ fiɛɛ fe klɛŋklɛŋ nɔ lɛ. Ŋma akɛ mita lɛ je shishi ekoŋŋ loo atsake lɛ yɛ hesaabu lɛ mli.",
+  "validation.oldMeterReversed": "Klɛŋklɛŋ kanemɔ lɛ fa fe mita momo lɛ kanemɔ ni sɛɛ nyiɛ ({value}).",
+  "validation.newMeterReversed": "Amrɔ nɛɛ kanemɔ lɛ fiɛɛ fe mita hee lɛ klɛŋklɛŋ kanemɔ ({value}).",
+  "validation.malformedAdjustment": "Wo shika ni yɔɔ + loo -, tamɔ -25.50 loo +10.",
+  "sync.title": "Nyɔmɔ blema saji ni akpɛ",
+  "sync.intro": "Ja blema saji nɛɛ kɛ o-weku kɛtsɔ shia ko ni yɔɔ server lɛ nɔ ni okɛbaafata he nɔ. Akɛ ID taoɔ nyɔmɔ be fɛɛ, ni ato nɔ ni atsake naagbee lɛ.",
+  "sync.loading": "Ekɛ shiai baa…",
+  "sync.household": "Shia",
+  "sync.chooseHousehold": "Hala shia ko",
+  "sync.addHousehold": "Shia hee",
+  "sync.name": "Gbɛi",
+  "sync.meterNumber": "Mita yibɔ",
+  "sync.saveHousehold": "To shia lɛ",
+  "sync.syncNow": "Kpɛ amrɔ nɛɛ",
+  "sync.syncing": "Ekpɛɔ…",
+  "sync.synced": "Akpɛ. Shia nɛɛ yɛ nyɔmɔ beii {count}.",
+  "sync.rejected": "Akpɛɛɛ nyɔmɔ beii {count} ejaakɛ tɔmɔ yɛ mli. Sa amɛ yɛ Nyɔmɔ blema saji mli ni okpɛ ekoŋŋ.",
+  "sync.unreachable": "Wɔnyɛɛɛ wɔshɛɛɛ server lɛ. Ato blema saji lɛ yɛ afiri nɛɛ nɔ.",
+
+  "budget.title": "Shika gbɛjianɔtoo",
+  "budget.intro": "Na yunit abɔ ni obaanyɛ okɛtsu nii dani nyɔmɔ lɛ ashɛ o-shika gbɛjianɔtoo lɛ nɔ.",
+  "budget.target": "Shika ni otaoɔ ni owo (GHS)",
+  "budget.billingDays": "Nyɔmɔ gbii",
+  "budget.findUnits": "Tao yunit",
+  "budget.empty": "Wo shika ni otaoɔ ni owo lɛ mli ni ominyɛ Tao yunit.",
+  "budget.unaffordable": "Nyɔmɔ ni tsakeee kɛ nyɔmɔ ni shwɛ lɛ pɛ ji {amount} momo, ni efa fe shika ni otaoɔ ni owo lɛ.",
+  "budget.unlimited": "Nyɔmɔ nɛɛ heɔɔɔ nɔ ko yɛ yunit ni fa fe {units} he, no hewɔ lɛ naagbee ko bɛ: nyɔmɔ lɛ baahi {amount} kɛ́ okɛ babaoo tsu nii po.",
+  "budget.unitsYouCanUse": "Yunit ni obaanyɛ okɛtsu nii",
+  "budget.stopAt": "Dami kanemɔ nɛɛ nɔ",
+  "budget.payableAt": "Shika ni obaawo yɛ {units}",
+  "budget.oneMore": "Kɛ́ okɛ kWh kome fata he lɛ, nyɔmɔ lɛ baafa fe shika ni otaoɔ ni owo lɛ.",
+
+  "split.title": "Mita ni aja mli",
+  "split.context": "{tariff} nyɔmɔ, {start} kɛyashi {end}. Tsake enɛ yɛ Nyɔmɔ fã lɛ nɔ.",
+  "split.mainPrev": "Mita titri klɛŋklɛŋ kanemɔ (kWh)",
+  "split.mainCurr": "Mita titri amrɔ nɛɛ kanemɔ (kWh)",
+  "split.subMeters": "Mitai bibii",
+  "split.name": "Gbɛi",
+  "split.previous": "Klɛŋklɛŋ",
+  "split.current": "Amrɔ nɛɛ",
+  "split.tenantName": "Shiaŋhilɔ {number}",
+  "split.addTenant": "Kɛ shiaŋhilɔ fata he",
+  "split.rules": "Mlai ni akɛjaa",
+  "split.rule.energy": "Kanɛ nyɔmɔ",
+  "split.rule.charges": "Sɔɔmɔ nyɔmɔ kɛ toi",
+  "split.rule.remainder": "Nɔ ni mita ko kaneee",
+  "split.option.consumption": "Bɔ ni mɔ fɛɛ mɔ kɛtsu nii",
+  "split.option.standalone": "Bɔ ni efã nyɔmɔ ji yɛ ekome",
+  "split.option.even": "Ekome kome",
+  "split.calculate": "Ja nyɔmɔ lɛ",
+  "split.empty": "Wo mita titri kɛ mita bibioo fɛɛ mli, ni ominyɛ Ja nyɔmɔ lɛ.",
+  "split.mainMeter": "Mita titri",
+  "split.subMetered": "Mitai bibii kane",
+  "split.unmetered": "Mita ko kaneee",
+  "split.overMetered": "Mitai bibii lɛ fɛɛ fa fe mita titri lɛ. Kwɛ kanemɔi lɛ; akɛ mitai bibii lɛ anitsumɔ jaa nyɔmɔ lɛ.",
+  "split.colTenant": "Shiaŋhilɔ",
+  "split.colKwh": "kWh",
+  "split.colEnergy": "Kanɛ",
+  "split.colUnmetered": "Akaneee",
+  "split.colCharges": "Nyɔmɔi",
+  "split.colTotal": "Fɛɛ",
+  "split.mainBill": "Mita titri nyɔmɔ",
+
+  "batch.title": "Nyɔmɔi babaoo",
+  "batch.intro": "Bu mitai babaoo anyɔmɔ shikome kɛjɛ CSV ni mita fɛɛ mita yɛ egbɛ mli. Fãi: {columns}. Ehiaaa akɛ okɛ yitso gbɛ aba. Kɛ́ gbii bɛ lɛ, eji 31, ni kɛ́ nyɔmɔ bɛ lɛ, eji shia nɔ.",
+  "batch.customRates": "Akɛ nyɔmɔi ni otsake loo okɛba lɛ tsuɔ nii, tamɔ bɔ ni eyɔɔ yɛ hesaabu lɛ mli.",
+  "batch.chooseFile": "Hala CSV fael",
+  "batch.template": "Gbala nɔkwɛmɔnɔ",
+  "batch.paste": "Loo wo CSV mli",
+  "batch.run": "Bu fɛɛ",
+  "batch.download": "Gbala nɔ ni jɛ mli ba CSV",
+  "batch.summary": "Abu mitai {billed} anyɔmɔ, gbɛi {failed} yɛ tɔmɔ. Shika ni sa akɛ owo fɛɛ: {total}.",
+  "batch.colLine": "Gbɛ",
+  "batch.colMeter": "Mita",
+  "batch.colPayable": "Nɔ ni obaawo",
+  "analytics.title": "Kanɛ nitsumɔ taomɔ",
+  "analytics.empty": "Otooo nyɔmɔ be ko. Bu nyɔmɔ ko ni ha blema saji totoo lɛ atsu nii koni ona bɔ ni nibii yaa.",
+  "analytics.averageCycle": "Nyɔmɔ be fɛɛ teŋgbɛ",
+  "analytics.averageDaily": "Daa gbi nitsumɔ teŋgbɛ",
+  "analytics.effectiveRate": "Jara diɛŋtsɛ",
+  "analytics.levyShare": "Nɔ ni owoɔ yɛ toi amli",
+  "analytics.perKwh": "{amount}/kWh",
+  "analytics.bandAlert": "Nyɔmɔ be ni sɛɛ nyiɛ {label} shɛ fã {top}; be fɛɛ be ohiɔ fã {usual} mli.",
+  "analytics.chartUnits": "kWh yɛ nyɔmɔ be fɛɛ mli",
+  "analytics.chartDaily": "Daa gbi nitsumɔ teŋgbɛ (kWh/gbi)",
+  "analytics.chartRate": "Jara diɛŋtsɛ (GHS/kWh)",
+  "analytics.chartSplit": "He ni nyɔmɔ fɛɛ tee (GHS)",
+  "analytics.seriesEnergy": "Kanɛ",
+  "analytics.seriesLevies": "Toi kɛ VAT",
+  "analytics.seriesService": "Sɔɔmɔ nyɔmɔ",
+  "analytics.cycles": "Nyɔmɔ beii",
+  "analytics.colCycleEnd": "Nyɔmɔ be naagbee",
+  "analytics.colKwh": "kWh",
+  "analytics.colDays": "Gbii",
+  "analytics.colDaily": "kWh/gbi",
+  "analytics.colRate": "GHS/kWh",
+  "analytics.colEnergy": "Kanɛ",
+  "analytics.colLevies": "Toi",
+  "analytics.colTotal": "Fɛɛ",
+
+  "estimate.title": "Afiri nitsumɔ susumɔ",
+  "estimate.intro": "Kanemɔ ko bɛ owɔ? Ŋma o-afirii lɛ ni osusu kanɛ ni okɛaatsu nii kɛ nyɔmɔ ni obaawo yɛ nyɔɔŋ lɛ mli.",
+  "estimate.preset": "Afiri",
+  "estimate.add": "Kɛ fata he",
+  "estimate.addCustom": "Kɛ o-diɛŋtsɛ onɔ fata he",
+  "estimate.customName": "O-diɛŋtsɛ afiri",
+  "estimate.watts": "Watt",
+  "estimate.quantity": "Abɔ",
+  "estimate.hoursPerDay": "Ŋmɛlɛtswai/gbi",
+  "estimate.empty": "Kɛ afiri ko fata he ni ona nyɔmɔ ni osusuɔ.",
+  "estimate.units": "Nitsumɔ ni osusuɔ (gbii {days})",
+  "estimate.topBand": "Fã ni kwɔ fe fɛɛ ni oshɛ",
+  "estimate.band": "Fã {band}",
+  "estimate.monthlyBill": "Nyɔmɔ ni osusuɔ",
+  "estimate.byAppliance": "Afiri fɛɛ",
+  "estimate.colAppliance": "Afiri",
+  "estimate.colKwh": "kWh",
+  "estimate.colShare": "Efã",
+  "estimate.colOff": "Nɔ ni obaato kɛ́ ojɔ lɛ",
+  "estimate.colHourLess": "Nɔ ni obaato, ŋmɛlɛtswaa 1/gbi fiɛɛ",
+  "estimate.pushesBand": "Fã ni nyiɛ sɛɛ",
+  "estimate.pushesBandNote": "Afirii ni akɛ Fã ni nyiɛ sɛɛ eha amɛkadi lɛ kɛ nitsumɔ yaa fã loo nyɔmɔ ni kwɔ mli; kɛ́ amɛbɛ lɛ, nyɔmɔ lɛ fɛɛ baafee jara ni ba shi.",
+
+  "check.title": "Kwɛ mi-nyɔmɔ",
+  "check.intro": "Wo yibɔi ni akala yɛ o-ECG nyɔmɔ wolo lɛ nɔ lɛ mli. Abuɔ gbɛ fɛɛ ekoŋŋ kɛjɛ o-kanemɔi lɛ anɔ ni atsɔɔ nɔ ni yɔɔ srɔto fe naagbee ni aŋmɛ gbɛ lɛ.",
+  "check.printedLines": "Yibɔi ni yɔɔ nyɔmɔ wolo lɛ nɔ",
+  "check.printedHint": "Kɛ́ o-nyɔmɔ wolo tsɔɔɔ gbɛ ko lɛ, ŋmɛɛ lɛ yaka.",
+  "check.amountLabel": "{line} (GHS)",
+  "check.tolerance": "Naagbee ni aŋmɛ gbɛ (GHS)",
+  "check.run": "Kwɛ nyɔmɔ lɛ",
+  "check.empty": "Wo o-kanemɔi kɛ nyɔmɔ wolo lɛ nɔ yibɔi lɛ mli, ni ominyɛ Kwɛ nyɔmɔ lɛ.",
+  "check.colLine": "Gbɛ",
+  "check.colPrinted": "Yɛ nyɔmɔ wolo nɔ",
+  "check.colExpected": "Abu ekoŋŋ",
+  "check.colDifference": "Srɔtofeemɔ",
+  "check.noCause": "Gbɛi komɛi kɛ amɛhe kpaaa gbee, shi nɔ kome pɛ tsɔɔɔ mli. Bi ECG ni amɛtsɔɔ nakai gbɛ lɛ mli.",
+  "check.complaint": "Nifɔɔ sane kuku",
+  "check.copy": "Kɔ sane kuku lɛ",
+  "check.copied": "Akɔ",
+  "check.download": "Gbala .txt",
+  "check.cause.estimatedReading": "Nyɔmɔ wolo lɛ heɔ {billed} kWh nyɔmɔ shi o-kanemɔi tsɔɔ {metered} kWh. Ekolɛ akɛ kanemɔ ni asusu bu nyɔmɔ lɛ.",
+  "check.cause.wrongTariff": "Kanɛ nyɔmɔ lɛ kɛ {tariff} nyɔmɔi kpaa gbee. Ekolɛ akɛ akɔntaa lɛ ewo nyɔmɔ shishitoo ni ejaaa mli.",
+  "check.cause.wrongDays": "Sɔɔmɔ nyɔmɔ lɛ kɛ nyɔmɔ gbii {billed} kpaa gbee, shi kanemɔi lɛ agbii ji gbii {actual}.",
+  "check.cause.outdatedRate": "Kanɛ nyɔmɔ lɛ kɛ {schedule} nyɔmɔi kpaa gbee, ni no fataaa be nɛɛ he.",
+  "check.cause.levyRate": "Ahe {levy} yɛ {billed} moŋ fe {expected}.",
+  "check.cause.doesNotAddUp": "Gbɛi ni yɔɔ nyɔmɔ wolo lɛ nɔ lɛ fɛɛ ji {total}, jeee nɔ ni akala akɛ efɛɛ lɛ.",
+  "check.summary.heading": "ECG nyɔmɔ taomɔ",
+  "check.summary.period": "Nyɔmɔ be: {start} kɛyashi {end} (gbii {days})",
+  "check.summary.tariff": "Nyɔmɔ: {tariff}",
+  "check.summary.readings": "Mita kanemɔi: {prev} kɛyashi {curr} ({units} kWh)",
+  "check.summary.noDifferences": "Gbɛ fɛɛ ni yɔɔ nyɔmɔ wolo lɛ nɔ kɛ nyɔmɔi ni akala lɛ kpaa gbee.",
+  "check.summary.differences": "Gbɛi ni kɛ nyɔmɔi ni akala lɛ kpaaa gbee:",
+  "check.summary.line": "ahe {printed}, esa akɛ efee {expected}",
+  "check.summary.causes": "Nɔ ni ekolɛ ha eba:",
+  "check.summary.overbilled": "Shika ni ahe fa fe nɔ ni sa: {amount}",
+  "check.summary.underbilled": "Shika ni ahe fiɛɛ: {amount}",
+
+  "forecast.title": "Nyɔmɔ be teŋgbɛ gbamɔ",
+  "forecast.intro": "Kane o-mita yɛ nyɔmɔ be lɛ teŋ ni ona nyɔmɔ ni obaawo yɛ naagbee. Akɛ o-daa gbi nitsumɔ teŋgbɛ kɛyashi ŋmɛnɛ yaa nyɔmɔ be lɛ naagbee gbi.",
+  "forecast.interimReading": "Ŋmɛnɛ kanemɔ (kWh)",
+  "forecast.interimDate": "Kanemɔ nɛɛ gbi",
+  "forecast.cycleEnd": "Nyɔmɔ be naagbee gbi ni akwɛɔ gbɛ",
+  "forecast.run": "Gba nyɔmɔ lɛ",
+  "forecast.empty": "Wo nyɔmɔ ni sɛɛ nyiɛ lɛ kanemɔ kɛ ŋmɛnɛ kanemɔ lɛ mli, ni ominyɛ Gba nyɔmɔ lɛ.",
+  "forecast.badDate": "Esa akɛ kanemɔ gbi lɛ aba klɛŋklɛŋ kanemɔ gbi lɛ sɛɛ ni efeee nyɔmɔ be naagbee sɛɛ.",
+  "forecast.badReading": "Ŋmɛnɛ kanemɔ nyɛŋ afiɛɛ fe klɛŋklɛŋ kanemɔ lɛ.",
+  "forecast.soFar": "Nɔ ni okɛtsu nii kɛyashi ŋmɛnɛ (gbii {days})",
+  "forecast.dailyAverage": "Daa gbi teŋgbɛ",
+  "forecast.projectedUnits": "Nitsumɔ ni akwɛɔ gbɛ (gbii {days})",
+  "forecast.projectedBand": "Fã ni kwɔ ni akwɛɔ gbɛ",
+  "forecast.crossesBand": "Kɛ́ oya nɔ nakai lɛ, nyɔmɔ be lɛ baajɛ fã {from} aya fã {to}, he ni kWh fɛɛ ni fata he jara wa.",
+  "forecast.dailyBudget": "Kɛ́ otaoɔ ni ohi fã {band} mli (kɛyashi {limit} yɛ nyɔmɔ be nɛɛ mli) lɛ, kaakɛ nɔ ni fa fe {budget} atsu nii daa gbi yɛ gbii {days} ni shwɛ lɛ amli.",
+  "forecast.cycleOver": "Nyɔmɔ be lɛ eba naagbee, no hewɔ lɛ daa gbi shika gbɛjianɔtoo ko bɛ dɔŋŋ.",
+  "forecast.bandBreakdown": "Fãi amli jamɔ ni akwɛɔ gbɛ",
+  "forecast.levies": "Toi",
+  "forecast.projectedBill": "Nyɔmɔ ni akwɛɔ gbɛ",
+
+  "compare.title": "Kɛ́ eba nakai sa he",
+  "compare.intro": "Kɛ kanemɔi kome fa nyɔmɔ gbɛjianɔtoi srɔtoi amli, tamɔ PURC nyɔmɔ hee loo mɛi ni heɔ nii kuu hee. Gbɛjianɔtoo ni tsɔ hiɛ lɛ ji nɔ ni akɛ krokomɛi lɛ saa he.",
+  "compare.scenarios": "Gbɛjianɔtoi",
+  "compare.scenariosHint": "Ato gbɛjianɔtoi lɛ yɛ afiri nɛɛ nɔ. Kɛ́ ohala nyɔmɔi ni otsake lɛ, akɔɔ amɛ yaa gbɛjianɔtoo lɛ mli, no hewɔ lɛ tsakemɔi ni obaafee sɛɛ mli lɛ tsakeee lɛ.",
+  "compare.baselineName": "Gbɛjianɔtoo titri gbɛi",
+  "compare.name": "Gbɛjianɔtoo gbɛi",
+  "compare.scenarioName": "Gbɛjianɔtoo {n}",
+  "compare.rates": "Nyɔmɔi",
+  "compare.published": "Nyɔmɔi ni akala",
+  "compare.edited": "Nyɔmɔi ni mitsake",
+  "compare.refreshRates": "Kɛ amrɔ nɛɛ nyɔmɔi",
+  "compare.refreshRatesHint": "Kɛ nyɔmɔi ni yɔɔ nyɔmɔ tsakelɔ lɛ mli amrɔ nɛɛ ato nyɔmɔi ni ato yɛ gbɛjianɔtoo nɛɛ mli lɛ najiaŋ.",
+  "compare.add": "Kɛ gbɛjianɔtoo fata he",
+  "compare.sideBySide": "Ŋɔɔ kɛ ŋɔɔ",
+  "compare.invalid": "Wo kanemɔi ni amrɔ nɛɛ nɔ lɛ fiɛɛɛ fe klɛŋklɛŋ nɔ lɛ, kɛ naagbee gbi ni baa shishijee gbi lɛ sɛɛ.",
+  "compare.colLine": "Gbɛ",
+  "compare.demandCharge": "Hiamɔ nyɔmɔ",
+  "compare.payable": "Shika ni sa akɛ owo",
+  "compare.sensitivity": "Tsakemɔ taomɔ",
+  "compare.sensitivityIntro": "Nyɔmɔ fɛɛ kɛha gbɛjianɔtoo fɛɛ yɛ nitsumɔ abɔ srɔtoi amli, yɛ nyɔmɔ be kome nɔŋŋ mli.",
+  "compare.levels": "Nitsumɔ abɔ (kWh, kɛ kɔma ja mli)",
+
+  "prepaid.title": "Wo klɛŋklɛŋ shika ni okɛwoɔ mli",
+  "prepaid.intro": "Na yunit abɔ ni shika ni okɛwoɔ mli lɛ baaha bo yɛ nyɔmɔ momo ni aheɔ, nyɔɔŋ sɔɔmɔ nyɔmɔ kɛ toi sɛɛ, loo shika ni obaawo kɛha yunit abɔ ko.",
+  "prepaid.direction": "Bu kɛjɛ",
+  "prepaid.fromAmount": "Shika → yunit",
+  "prepaid.fromUnits": "Yunit → shika",
+  "prepaid.topUp": "Shika ni okɛwoɔ mli (GHS)",
+  "prepaid.unitsWanted": "Yunit ni otaoɔ (kWh)",
+  "prepaid.unitsThisMonth": "Yunit ni ohé nyɔɔŋ nɛɛ momo (kWh)",
+  "prepaid.debt": "Nyɔmɔ ni shwɛ (GHS)",
+  "prepaid.recoveryRate": "Nyɔmɔ momo hemɔ (shika ni okɛwoɔ mli fɛɛ % )",
+  "prepaid.serviceChargeDue": "Enɛ ji klɛŋklɛŋ shika ni okɛwo mli nyɔɔŋ nɛɛ (owoko sɔɔmɔ nyɔmɔ lɛ)",
+  "prepaid.empty": "Wo shika ni okɛaawo mli loo yunit ni otaoɔ mli, ni ominyɛ Bu.",
+  "prepaid.topUpLabel": "Shika ni okɛwoɔ mli",
+  "prepaid.unitsCredited": "Yunit ni akɛha bo",
+  "prepaid.debtRecovery": "Nyɔmɔ momo hemɔ",
+  "prepaid.rounding": "Eshɛɛɛ 0.01 kWh kroko",
+  "prepaid.nothingCredited": "Nyɔmɔ momo hemɔ kɛ sɔɔmɔ nyɔmɔ kɛ shika ni okɛwo mli lɛ fɛɛ, no hewɔ lɛ akɛ yunit ko haaa bo.",
+
+  "appliance.ledBulb": "LED kanɛ",
+  "appliance.ceilingFan": "Tsu yiteŋ fan",
+  "appliance.standingFan": "Fan ni damɔ shi",
+  "appliance.television": "Tɛlivishɔn",
+  "appliance.decoder": "TV decoder",
+  "appliance.fridge": "Frigyi",
+  "appliance.chestFreezer": "Adeka frigyi",
+  "appliance.airConditioner": "Kɔɔyɔɔ jɔmɔ afiri (1.5 HP)",
+  "appliance.iron": "Kanɛ dade",
+  "appliance.kettle": "Kanɛ nu tsɛ",
+  "appliance.microwave": "Microwave",
+  "appliance.riceCooker": "Omɔ tsomɔ afiri",
+  "appliance.waterHeater": "Nu tsomɔ afiri",
+  "appliance.washingMachine": "Atadei fɔmɔ afiri",
+  "appliance.waterPump": "Nu pɔmpi",
+  "appliance.laptop": "Laptop",
+  "appliance.desktop": "Kɔmputa ni hiɔ okplɔ nɔ",
+  "appliance.phoneCharger": "Fon chaja",
+};
+
+export default gaa;
@@ -0,0 +1,459 @@
+import type { Messages } from "@/lib/messages/en";
+
+const tw: Messages = {
+  "app.title": "ECG Kanea Ka Nkontaabu",
+  "app.logoAlt": "ECG Agyiraehyɛde",
+  "app.beta": "Sɔhwɛ",
+  "app.analytics": "Nhwehwɛmu",
+  "app.batch": "Dodow",
+  "app.language": "Kasa",
+  "app.toggleTheme": "Sesa ahosuo",
+  "app.themeLight": "Hann",
+  "app.themeDark": "Sum",
+  "app.notAffiliated": "Yɛyɛɛ yei de kyerɛ nkurɔfo. Ɛnyɛ ECG dea.",
+  "app.disclaimerTitle": "Kɔkɔbɔ:",
+  "app.disclaimer":
+    "Ka ne sika a wɔgye no betumi asesa bere bi. Sɛ wopɛ nea ɛyɛ pɛpɛɛpɛ na ɛyɛ foforɔ a, hwɛ ECG ka a wɔatintim no nnɛ ansa na wode nea efi mu ba yi adi dwuma.",
+  "app.copyright": "© {year} Ne kyɛfa nyinaa yɛ wɔn dea. Ɔdɔ na ɛmaa",
+
+  "update.available": "Nkontaabu yi foforɔ wɔ hɔ.",
+  "update.later": "Akyire yi",
+  "update.reload": "San bue",
+
+  "common.results": "Nea efi mu ba",
+  "common.note": "Hyɛ no nsow",
+  "common.alert": "Kɔkɔbɔ",
+  "common.dismiss": "Yi fi hɔ",
+  "common.remove": "Yi fi hɔ",
+  "common.edit": "Sesa",
+  "common.cancel": "Gyae",
+  "common.delete": "Popa",
+  "common.kwh": "{value} kWh",
+  "common.example": "sɛ {value}",
+  "common.prevReading": "Kan nkenkan (kWh)",
+  "common.currReading": "Seesei nkenkan (kWh)",
+  "common.prevDate": "Kan nkenkan da",
+  "common.currDate": "Seesei nkenkan da",
+  "common.prevBalance": "Ka a aka (GHS)",
+  "common.payments": "Sika a watua (GHS)",
+  "common.adjustments": "Nsakrae (GHS)",
+  "common.tariffType": "Ka ahorow",
+  "common.units": "Yunit",
+  "common.energyCost": "Kanea ho ka",
+  "common.serviceCharge": "Som ho ka",
+  "common.totalBill": "Ka nyinaa",
+  "common.levyLine": "{levy} ({rate})",
+
+  "tariff.lifeline": "Efie Lifeline (0–30 kWh)",
+  "tariff.residential": "Efie",
+  "tariff.nonResidential": "Ɛnyɛ efie",
+  "tariff.sltLowVoltage": "SLT Ahoɔden ketewa",
+  "tariff.sltMediumVoltage": "SLT Ahoɔden mfinimfini",
+  "tariff.sltHighVoltage": "SLT Ahoɔden kɛse",
+
+  "levy.nel": "Ɔman Kanea Tow",
+  "levy.streetLight": "Kwan so kanea",
+  "levy.nhilGetFund": "NHIL ne GETFund",
+  "levy.vat": "VAT",
+
+  "calc.mode": "Nkontaabu kwan",
+  "calc.mode.bill": "Ka",
+  "calc.mode.budget": "Sika nhyehyɛe",
+  "calc.mode.split": "Kyɛ",
+  "calc.mode.estimate": "Susu",
+  "calc.mode.prepaid": "Tua kan",
+  "calc.mode.check": "Hwɛ",
+  "calc.mode.forecast": "Hyɛ nkɔm",
+  "calc.mode.compare": "Toto ho",
+  "calc.mode.history": "Abakɔsɛm",
+  "calc.prepaidNote": "Ka krataa a wotua akyire no na Ka fã no bu. Sɛ wo mita yɛ tua-kan dea a, fa Tua kan fã no hwɛ yunit dodow a sika a wode bɛgu mu bɛtɔ.",
+  "calc.openPrepaid": "Bue Tua kan",
+  "calc.inputs": "Nea wode hyɛ mu",
+  "calc.copyLink": "Fa link no",
+  "calc.linkCopied": "Wɔafa link no. Obiara a obebue no behu nea wode ahyɛ mu yi.",
+  "calc.linkInAddressBar": "Fa link no fi address bar no so na kyɛ nea wode ahyɛ mu yi.",
+  "calc.linkInvalid": "Nneɛma bi wɔ link yi mu a ɛnteɛ, enti yɛasan de nea ɛwɔ hɔ dedaw asi hɔ: {fields}.",
+  "calc.linkRates": "Link yi kura n'ankasa ka. Ɛyɛ adwuma seesei nko ara; ka a woakora so nsesa.",
+  "calc.keepLinkRates": "Kora ka yi so",
+  "calc.toggleQuickMode": "Sesa Ntɛmntɛm kwan",
+  "calc.quickMode": "Ntɛmntɛm kwan",
+  "calc.fast": "Ntɛm",
+  "calc.quickModeHint": "Hyɛ kan ne seesei kWh nko ara (nna 31, ka dedaw biara nni mu)",
+  "calc.toggleHistory": "Kora ka krataa wɔ abakɔsɛm mu",
+  "calc.saveHistory": "Kora ka krataa biara wɔ abakɔsɛm mu (wɔ ha)",
+  "calc.useLastReading": "Fa nkenkan a etwa to: {reading}",
+  "calc.readingReversed": "Seesei nkenkan no sua sen kan dea no. Ɛdeɛn na esii?",
+  "calc.rolledOver": "Mita no san fii ase",
+  "calc.replaced": "Wɔsesaa mita no",
+  "calc.registerDigits": "Mita no nkontaahyɛde dodow",
+  "calc.digitsOption": "Nkontaahyɛde {digits} (ɛsan fi ase wɔ {max} akyi)",
+  "calc.exceedsRegister": "Mita a ne nkontaahyɛde yɛ {digits} rentumi nkyerɛ nkenkan yi. Paw nkontaahyɛde dodow a ɛwɔ mita no anim.",
+  "calc.oldFinalReading": "Mita dedaw no nkenkan a etwa to",
+  "calc.newStartReading": "Mita foforɔ no nkenkan a edi kan",
+  "calc.billingDays": "Ka nna {days}",
+  "calc.creditHint": "Ebetumi ayɛ ka a wɔde ma wo (-)",
+  "calc.signHint": "Fa + anaa -",
+  "calc.adjustmentHint": "Hyɛ dodow pa ma ka a ɛka ho, na dodow a ɛwɔ - ma ka a wɔde ma wo.",
+  "calc.maxDemand": "Ahiade a ɛsen biara (kVA)",
+  "calc.calculateBill": "Bu ka no akontaa",
+  "calc.calculate": "Bu akontaa",
+  "calc.clear": "Pepa",
+  "calc.empty": "Hyɛ nneɛma no mu na mia Bu akontaa.",
+  "calc.tariffFallback": "Kanea a wode adi dwuma no boro {from} ano, enti ka yi de {to} ka na ebu.",
+  "calc.solar": "Owia kanea wɔ dan atifi (net metering)",
+  "calc.solarHint": "Nkenkan a ɛwɔ soro no yɛ kanea a ɛba mu no dea. Hyɛ kanea a ɛkɔ abɔnten no nkenkan nso, ne sɛnea wobetua kanea a ɛkɔ abɔnten no ho ka.",
+  "calc.exportPrev": "Kanea a ɛkɔ abɔnten kan nkenkan (kWh)",
+  "calc.exportCurr": "Kanea a ɛkɔ abɔnten seesei nkenkan (kWh)",
+  "calc.nettingRule": "Ɔkwan a wɔde te so",
+  "calc.netting.netUnits": "Te kWh so ansa na wɔde akɔ ntoaso mu, na fa nea ɛboro so ma wo",
+  "calc.netting.exportCredit": "Bu kanea a ɛba mu nyinaa ka, na tua nea ɛkɔ abɔnten nyinaa ka ma wo",
+  "calc.exportRate": "Ka a wɔtua ma kanea a ɛkɔ abɔnten (GHS/kWh)",
+  "calc.creditBeforeLevies": "Yi sika a wɔde ma wo no fi mu ansa na wɔabu tow",
+  "calc.exportReversed": "Kanea a ɛkɔ abɔnten seesei nkenkan no sua sen kan dea no, enti wɔmmu kanea biara a ɛkɔɔ abɔnten.",
+  "calc.netBillable": "Yunit a wobetua ho ka",
+  "calc.grossImport": "Kanea a ɛbaa mu nyinaa",
+  "calc.exported": "Kanea a ɛkɔɔ abɔnten",
+  "calc.exportCredit": "Sika a wɔde ma wo wɔ kanea a ɛkɔɔ abɔnten ho ({units} kWh)",
+  "calc.demandCharge": "Ahiade ho ka",
+  "calc.adjustments": "Nsakrae",
+  "calc.payable": "Sika a ɛsɛ sɛ wotua",
+  "calc.print": "Tintim ka krataa",
+  "calc.downloadPdf": "Twe PDF",
+  "calc.periods": "Ka mmere",
+  "calc.periodsNote": "Ka sesae wɔ ka bere yi mu, enti wɔakyɛ kanea a wode dii dwuma ne som ho ka no mu sɛnea nna no te.",
+  "calc.colTariff": "Ka",
+  "calc.colDates": "Nna",
+  "calc.colUnits": "Yunit (kWh)",
+  "calc.colEnergy": "Kanea (GHS)",
+  "calc.colService": "Som (GHS)",
+  "calc.colRate": "Bo (GHS/kWh)",
+  "calc.colCost": "Ka (GHS)",
+  "calc.periodDates": "{from} → {to} (nna {days})",
+  "calc.bandBreakdown": "Ntoaso mu nkyɛmu",
+  "calc.step.advance": "Mita no nkɔanim",
+  "calc.step.beforeRollover": "Kosi sɛ ɛsan fii ase",
+  "calc.step.afterRollover": "Ɛsan fii ase akyi",
+  "calc.step.oldMeter": "Mita dedaw",
+  "calc.step.newMeter": "Mita foforɔ",
+
+  "schedule.2025-q3": "PURC Q3 2025",
+  "schedule.shared": "Ka a wɔakyɛ",
+
+  "statement.title": "Kanea Ka Krataa",
+  "statement.issued": "Wɔde mae {date}",
+  "statement.subtitle": "ECG ka a wotua akyire nhyehyɛe - ECG Kanea Ka Nkontaabu na ebui",
+  "statement.account": "Akontaa ne Mita",
+  "statement.tariff": "Ka",
+  "statement.period": "Ka bere",
+  "statement.periodDates": "{from} kosi {to} (nna {days})",
+  "statement.prevReading": "Kan nkenkan",
+  "statement.currReading": "Seesei nkenkan",
+  "statement.step": "{step}: {from} -> {to} ({units} kWh)",
+  "statement.netMetering": "Net metering: {imported} kWh na ɛbaa mu, {exported} kWh na ɛkɔɔ abɔnten, {billed} kWh na wobuu ho ka",
+  "statement.units": "Yunit a wode dii dwuma",
+  "statement.bands": "Kanea ntoaso",
+  "statement.charges": "Ka ahorow",
+  "statement.energy": "Kanea ho ka",
+  "statement.demand": "Ahiade ho ka",
+  "statement.service": "Som ho ka",
+  "statement.levy": "{levy} ({rate}%)",
+  "statement.exportCredit": "Sika a wɔde ma wo ({units} kWh)",
+  "statement.total": "Seesei ka nyinaa",
+  "statement.summary": "Akontaa mu nsɛm tiawa",
+  "statement.balance": "Ka a efi kan",
+  "statement.payments": "Sika a wɔagye",
+  "statement.adjustments": "Nsakrae",
+  "statement.payable": "Sika a ɛsɛ sɛ wotua",
+  "statement.disclaimer": "Ɛnyɛ ECG dea. Hwɛ ECG ka a wɔatintim no nnɛ ansa na wode nkontaa yi adi dwuma.",
+  "statement.pdfTitle": "Ka krataa {from} kosi {to}",
+
+  "photo.read": "Kenkan fi mfonini mu",
+  "photo.reading": "Ɛrekenkan mfonini no…",
+  "photo.failed": "Yɛantumi ammue mfonini no. Sɔ foforɔ hwɛ.",
+  "photo.hint": "Twe ahina fa nkontaahyɛde no ho na kenkan saa fã no nko ara. Anyinam ahoɔden mita LCD nkontaahyɛde nko ara na yetumi kenkan. Mfonini no tena afiri yi so.",
+  "photo.none": "Yɛanhu nkontaahyɛde biara. Twe ahina fa mita no nkontaahyɛde mfɛnsere no ho.",
+  "photo.notSevenSegment": "Ɛte sɛ mita a ne nkontaahyɛde yɛ nea wɔatintim wɔ nneɛma a ɛdannan so, na yentumi nkenkan. Kyerɛw nkenkan no mmom.",
+  "photo.check": "Fa nkontaahyɛde biara toto mita no ho na siesie nea wɔde ? ahyɛ no nsow ansa na wode nkenkan no adi dwuma.",
+  "photo.result": "Nkenkan a efi mfonini mu",
+  "photo.use": "Fa nkenkan no",
+
+  "rates.title": "Ka ahorow",
+  "rates.edit": "Sesa ka",
+  "rates.hide": "Fa sesafoɔ no sie",
+  "rates.editing": "Ɛresesa:",
+  "rates.addBand": "Fa ntoaso ka ho",
+  "rates.reset": "San fa nea edi kan",
+  "rates.resetDone": "Yɛasan de ka a wɔatintim no asi hɔ.",
+  "rates.serviceCharge": "Som ho ka (GHS/bosome)",
+  "rates.demandRate": "Ahiade bo (GHS/kVA)",
+  "rates.levyPercent": "{levy} (%)",
+  "rates.limitsAre": "Ahye no yɛ:",
+  "rates.cumulative": "Ɛbom (kosi N kWh)",
+  "rates.width": "Ntoaso tɛtrɛtɛ (N kWh biara)",
+  "rates.bandAbove": "Ntoaso {band}: ɛboro {from} kWh",
+  "rates.bandRange": "Ntoaso {band}: {from}–{to} kWh",
+  "rates.upTo": "Kosi (kWh)",
+  "rates.widthLabel": "Tɛtrɛtɛ (kWh)",
+  "rates.rate": "Bo (GHS/kWh)",
+  "rates.issue.negativeRate": "Ɛsɛ sɛ bo no yɛ hwee anaa ɛboro saa",
+  "rates.issue.lastBandBounded": "Ɛnsɛ sɛ ntoaso a etwa to no wɔ ahye",
+  "rates.issue.limitNotPositive": "Ɛsɛ sɛ ahye no boro hwee",
+  "rates.issue.limitNotRising": "Ɛsɛ sɛ ahye no boro ntoaso a edi kan no {previous} kWh",
+  "rates.file": "Ka fael",
+  "rates.export": "Yi JSON",
+  "rates.import": "Fa fael bra",
+  "rates.pastePlaceholder": "…anaa fa ka JSON hyɛ ha",
+  "rates.pasteLabel": "Ka JSON",
+  "rates.applyPasted": "Fa JSON a wode ahyɛ mu no di dwuma",
+  "rates.loaded": "Wɔde \"{name}\" aba. Wɔakora so wɔ afiri yi so kosi sɛ wobɛsan de nea edi kan asi hɔ.",
+  "rates.loadedFrom": "Wɔde \"{name}\" aba ama ka a efi {date}; nna a edi kan no de ka a na ɛwɔ hɔ saa bere no na ebu. Wɔakora so wɔ afiri yi so kosi sɛ wobɛsan de nea edi kan asi hɔ.",
+
+  "history.title": "Ka abakɔsɛm",
+  "history.intro": "Wɔakora so wɔ afiri yi so. Ka foforɔ biara fi nkenkan ne sika a ɛsɛ sɛ wotua a etwa to no so.",
+  "history.empty": "Wonkoraa ka bere biara so. Bu ka bi na ma abakɔsɛm kora no nyɛ adwuma.",
+  "history.confirmDelete": "Wopɛ sɛ wopopa ka bere yi?",
+  "history.saveRecalculate": "Kora na san bu",
+  "validation.required": "Hyɛ biribi mu.",
+  "validation.notANumber": "Hyɛ nɔma mu.",
+  "validation.negative": "Hyɛ hwee anaa nea ɛboro saa.",
+  "validation.invalidDate": "Hyɛ da mu.",
+  "validation.reversedDates": "Ɛsɛ sɛ seesei nkenkan da no ba kan nkenkan da no akyi.",
+  "validation.periodTooLong": "Nkenkan nna ntam ntumi nsen nna {max}.",
+  "validation.reversedReadings": "Seesei nkenkan no sua sen kan dea no. Kyerɛw sɛ mita no san fii ase anaa wɔsesaa no wɔ nkontaabu no mu.",
+  "validation.oldMeterReversed": "Kan nkenkan no boro mita dedaw no nkenkan a etwa to ({value}).",
+  "validation.newMeterReversed": "Seesei nkenkan no sua sen mita foforɔ no nkenkan a edi kan ({value}).",
+  "validation.malformedAdjustment": "Hyɛ sika dodow a ɛwɔ + anaa -, te sɛ -25.50 anaa +10.",
+  "sync.title": "Ka abakɔsɛm bom",
+  "sync.intro": "Kyɛ abakɔsɛm yi ne wo kuw no denam so a wode bɛka efie bi a ɛwɔ server no so ho. Wɔde ID na ɛhwehwɛ ka bere biara, na wɔkora nea wɔsesaa no akyire koraa no so.",
+  "sync.loading": "Ɛde efie ahorow reba…",
+  "sync.household": "Efie",
+  "sync.chooseHousehold": "Paw efie bi",
+  "sync.addHousehold": "Efie foforɔ",
+  "sync.name": "Din",
+  "sync.meterNumber": "Mita nɔma",
+  "sync.saveHousehold": "Kora efie no so",
+  "sync.syncNow": "Ka bom seesei",
+  "sync.syncing": "Ɛreka abom…",
+  "sync.synced": "Wɔaka abom. Efie yi wɔ ka bere {count}.",
+  "sync.rejected": "Wɔanka ka bere {count} mmom efisɛ mfomso wɔ mu. Siesie wɔn wɔ Ka abakɔsɛm mu na san ka bom.",
+  "sync.unreachable": "Yɛantumi anka server no. Wɔda so akora abakɔsɛm no so wɔ afiri yi so.",
+
+  "budget.title": "Sika nhyehyɛe",
+  "budget.intro": "Hu yunit dodow a wubetumi de adi dwuma ansa na ka no adu wo sika nhyehyɛe so.",
+  "budget.target": "Sika a wopɛ sɛ wotua (GHS)",
+  "budget.billingDays": "Ka nna",
+  "budget.findUnits": "Hwehwɛ yunit",
+  "budget.empty": "Hyɛ sika a wopɛ sɛ wotua mu na mia Hwehwɛ yunit.",
+  "budget.unaffordable": "Ka a ɛnsesa ne ka a aka no nkutoo yɛ {amount} dedaw, na ɛboro sika a wopɛ sɛ wotua no.",
+  "budget.unlimited": "Ka yi nnye hwee wɔ yunit a ɛboro {units} ho, enti ahye biara nni hɔ: ka no bɛtena {amount} ara sɛ wode pii di dwuma mpo a.",
+  "budget.unitsYouCanUse": "Yunit a wubetumi de adi dwuma",
+  "budget.stopAt": "Gyina nkenkan yi so",
+  "budget.payableAt": "Sika a wobetua wɔ {units}",
+  "budget.oneMore": "Sɛ wode kWh baako bɛka ho a, ka no bɛboro sika a wopɛ sɛ wotua no.",
+
+  "split.title": "Mita a wɔkyɛ mu",
+  "split.context": "{tariff} ka, {start} kosi {end}. Sesa yei wɔ Ka fã no so.",
+  "split.mainPrev": "Mita titiriw kan nkenkan (kWh)",
+  "split.mainCurr": "Mita titiriw seesei nkenkan (kWh)",
+  "split.subMeters": "Mita nketewa",
+  "split.name": "Din",
+  "split.previous": "Kan",
+  "split.current": "Seesei",
+  "split.tenantName": "Ɔtefoɔ {number}",
+  "split.addTenant": "Fa ɔtefoɔ ka ho",
+  "split.rules": "Mmara a wɔde kyɛ",
+  "split.rule.energy": "Kanea ho ka",
+  "split.rule.charges": "Som ho ka ne tow",
+  "split.rule.remainder": "Nea mita biara ankenkan",
+  "split.option.consumption": "Sɛnea obiara de dii dwuma",
+  "split.option.standalone": "Sɛnea ne ntoaso ka te ne nko",
+  "split.option.even": "Pɛpɛɛpɛ",
+  "split.calculate": "Kyɛ ka no",
+  "split.empty": "Hyɛ mita titiriw ne mita ketewa biara mu, na mia Kyɛ ka no.",
+  "split.mainMeter": "Mita titiriw",
+  "split.subMetered": "Mita nketewa kenkanee",
+  "split.unmetered": "Mita biara ankenkan",
+  "split.overMetered": "Mita nketewa no nyinaa bom boro mita titiriw no. Hwɛ nkenkan no; wɔda so de mita nketewa no dwumadi kyɛ ka no.",
+  "split.colTenant": "Ɔtefoɔ",
+  "split.colKwh": "kWh",
+  "split.colEnergy": "Kanea",
+  "split.colUnmetered": "Wɔankenkan",
+  "split.colCharges": "Ka ahorow",
+  "split.colTotal": "Ne nyinaa",
+  "split.mainBill": "Mita titiriw ka",
+
+  "batch.title": "Ka dodow",
+  "batch.intro": "Bu mita pii ka prɛko fi CSV a mita biara wɔ ne nkyerɛwee mu. Afã ahorow: {columns}. Ɛho nhia sɛ wode atifi nkyerɛwee hyɛ mu. Sɛ nna nni hɔ a, ɛyɛ 31, na sɛ ka nni hɔ a, ɛyɛ efie dea.",
+  "batch.customRates": "Wɔde ka a woasesa anaa wode aba no na edi dwuma, sɛnea ɛte wɔ nkontaabu no mu.",
+  "batch.chooseFile": "Paw CSV fael",
+  "batch.template": "Twe nhwɛsoɔ",
+  "batch.paste": "Anaa fa CSV hyɛ mu",
+  "batch.run": "Bu ne nyinaa",
+  "batch.download": "Twe nea efi mu ba CSV",
+  "batch.summary": "Wɔabu mita {billed} ka, nkyerɛwee {failed} wɔ mfomso. Sika a ɛsɛ sɛ wotua nyinaa: {total}.",
+  "batch.colLine": "Nkyerɛwee",
+  "batch.colMeter": "Mita",
+  "batch.colPayable": "Nea wobetua",
+  "analytics.title": "Kanea dwumadi nhwehwɛmu",
+  "analytics.empty": "Wonkoraa ka bere biara so. Bu ka bi na ma abakɔsɛm kora no nyɛ adwuma na woahu sɛnea nneɛma kɔ.",
+  "analytics.averageCycle": "Ka bere biara mfinimfini",
+  "analytics.averageDaily": "Da biara dwumadi mfinimfini",
+  "analytics.effectiveRate": "Bo ankasa",
+  "analytics.levyShare": "Nea wotua wɔ tow mu",
+  "analytics.perKwh": "{amount}/kWh",
+  "analytics.bandAlert": "Ka bere a ɛbaa awiei {label} duu ntoaso {top}; mpɛn pii wotena ntoaso {usual} mu.",
+  "analytics.chartUnits": "kWh wɔ ka bere biara mu",
+  "analytics.chartDaily": "Da biara dwumadi mfinimfini (kWh/da)",
+  "analytics.chartRate": "Bo ankasa (GHS/kWh)",
+  "analytics.chartSplit": "Baabi a ka biara kɔe (GHS)",
+  "analytics.seriesEnergy": "Kanea",
+  "analytics.seriesLevies": "Tow ne VAT",
+  "analytics.seriesService": "Som ho ka",
+  "analytics.cycles": "Ka mmere",
+  "analytics.colCycleEnd": "Ka bere awiei",
+  "analytics.colKwh": "kWh",
+  "analytics.colDays": "Nna",
+  "analytics.colDaily": "kWh/da",
+  "analytics.colRate": "GHS/kWh",
+  "analytics.colEnergy": "Kanea",
+  "analytics.colLevies": "Tow",
+  "analytics.colTotal": "Ne nyinaa",
+
+  "estimate.title": "Afiri dwumadi susuw",
+  "estimate.intro": "Wonni nkenkan biara? Kyerɛw w'afiri ahorow na susuw kanea a wode bedi dwuma ne ka a wobetua wɔ bosome mu.",
+  "estimate.preset": "Afiri",
+  "estimate.add": "Fa ka ho",
+  "estimate.addCustom": "Fa w'ankasa dea ka ho",
+  "estimate.customName": "W'ankasa afiri",
+  "estimate.watts": "Watt",
+  "estimate.quantity": "Dodow",
+  "estimate.hoursPerDay": "Dɔnhwerew/da",
+  "estimate.empty": "Fa afiri ka ho na hu ka a wosusuw.",
+  "estimate.units": "Dwumadi a wosusuw (nna {days})",
+  "estimate.topBand": "Ntoaso a ɛkorɔn sen biara a wodui",
+  "estimate.band": "Ntoaso {band}",
+  "estimate.monthlyBill": "Ka a wosusuw",
+  "estimate.byAppliance": "Afiri biara",
+  "estimate.colAppliance": "Afiri",
+  "estimate.colKwh": "kWh",
+  "estimate.colShare": "Ne kyɛfa",
+  "estimate.colOff": "Nea wobɛkora sɛ wodum a",
+  "estimate.colHourLess": "Nea wobɛkora, dɔnhwerew 1/da so te",
+  "estimate.pushesBand": "Ntoaso a edi so",
+  "estimate.pushesBandNote": "Afiri a wɔde Ntoaso a edi so ahyɛ no nsow no de dwumadi kɔ ntoaso anaa ka a ɛkorɔn mu; sɛ wɔnni hɔ a, ka no nyinaa bɛyɛ bo a ɛba fam.",
+
+  "check.title": "Hwɛ me ka",
+  "check.intro": "Hyɛ nɔma a wɔatintim wɔ wo ECG ka krataa so no mu. Wɔsan bu nkyerɛwee biara fi wo nkenkan so na wɔkyerɛ nea ɛsono no sen ahye a wɔma kwan no.",
+  "check.printedLines": "Nɔma a ɛwɔ ka krataa no so",
+  "check.printedHint": "Sɛ wo ka krataa nkyerɛ nkyerɛwee bi a, gyaw no hɔ kwa.",
+  "check.amountLabel": "{line} (GHS)",
+  "check.tolerance": "Ahye a wɔma kwan (GHS)",
+  "check.run": "Hwɛ ka no",
+  "check.empty": "Hyɛ wo nkenkan ne ka krataa no so nɔma mu, na mia Hwɛ ka no.",
+  "check.colLine": "Nkyerɛwee",
+  "check.colPrinted": "Wɔ ka krataa so",
+  "check.colExpected": "Wɔsan buu",
+  "check.colDifference": "Nsonsonoe",
+  "check.noCause": "Nkyerɛwee bi nhyia, nanso biribi baako nkyerɛkyerɛ mu. Bisa ECG ma wɔnkyerɛkyerɛ saa nkyerɛwee no mu.",
+  "check.complaint": "Anwiinwii nsɛm tiawa",
+  "check.copy": "Fa nsɛm tiawa no",
+  "check.copied": "Wɔafa",
+  "check.download": "Twe .txt",
+  "check.cause.estimatedReading": "Ka krataa no gye {billed} kWh ho ka nanso wo nkenkan kyerɛ {metered} kWh. Ebia wɔde nkenkan a wɔsusuwii na ebuu ka no.",
+  "check.cause.wrongTariff": "Kanea ho ka no ne {tariff} ka hyia. Ebia wɔde akontaa no ahyɛ ka ahorow a ɛnteɛ mu.",
+  "check.cause.wrongDays": "Som ho ka no ne ka nna {billed} hyia, nanso nkenkan nna no yɛ nna {actual}.",
+  "check.cause.outdatedRate": "Kanea ho ka no ne {schedule} ka hyia, na ɛno mfa bere yi ho.",
+  "check.cause.levyRate": "Wɔgyee {levy} wɔ {billed} mmom sen {expected}.",
+  "check.cause.doesNotAddUp": "Nkyerɛwee a ɛwɔ ka krataa no so bom yɛ {total}, ɛnyɛ nea wɔatintim sɛ ne nyinaa no.",
+  "check.summary.heading": "ECG ka nhwehwɛmu",
+  "check.summary.period": "Ka bere: {start} kosi {end} (nna {days})",
+  "check.summary.tariff": "Ka: {tariff}",
+  "check.summary.readings": "Mita nkenkan: {prev} kosi {curr} ({units} kWh)",
+  "check.summary.noDifferences": "Nkyerɛwee biara a ɛwɔ ka krataa no so ne ka a wɔatintim no hyia.",
+  "check.summary.differences": "Nkyerɛwee a ɛne ka a wɔatintim no nhyia:",
+  "check.summary.line": "wɔgyee {printed}, ɛsɛ sɛ ɛyɛ {expected}",
+  "check.summary.causes": "Nea ebia ɛde bae:",
+  "check.summary.overbilled": "Sika a wɔgyee boro so: {amount}",
+  "check.summary.underbilled": "Sika a wɔgyee sua: {amount}",
+
+  "forecast.title": "Ka bere mfinimfini nkɔmhyɛ",
+  "forecast.intro": "Kenkan wo mita wɔ ka bere no mfinimfini na hu ka a wobetua wɔ awiei. Wo da biara dwumadi mfinimfini de besi nnɛ no na wɔde kɔ ka bere no awiei da.",
+  "forecast.interimReading": "Nnɛ nkenkan (kWh)",
+  "forecast.interimDate": "Nkenkan yi da",
+  "forecast.cycleEnd": "Ka bere awiei da a wɔhwɛ kwan",
+  "forecast.run": "Hyɛ ka no ho nkɔm",
+  "forecast.empty": "Hyɛ ka a etwa to no nkenkan ne nnɛ nkenkan mu, na mia Hyɛ ka no ho nkɔm.",
+  "forecast.badDate": "Ɛsɛ sɛ nkenkan da no ba kan nkenkan da no akyi na ɛntra ka bere awiei.",
+  "forecast.badReading": "Nnɛ nkenkan ntumi nsua nsen kan nkenkan no.",
+  "forecast.soFar": "Nea woadi ho dwuma besi nnɛ (nna {days})",
+  "forecast.dailyAverage": "Da biara mfinimfini",
+  "forecast.projectedUnits": "Dwumadi a wɔhwɛ kwan (nna {days})",
+  "forecast.projectedBand": "Ntoaso a ɛkorɔn a wɔhwɛ kwan",
+  "forecast.crossesBand": "Sɛ wokɔ so saa a, ka bere no befi ntoaso {from} akɔ ntoaso {to}, baabi a kWh biara a ɛka ho bo yɛ den.",
+  "forecast.dailyBudget": "Sɛ wopɛ sɛ wotena ntoaso {band} mu (kosi {limit} wɔ ka bere yi mu) a, mfa nnsen {budget} nni dwuma da biara wɔ nna {days} a aka no mu.",
+  "forecast.cycleOver": "Ka bere no aba awiei, enti da biara sika nhyehyɛe biara nni hɔ bio.",
+  "forecast.bandBreakdown": "Ntoaso nkyɛmu a wɔhwɛ kwan",
+  "forecast.levies": "Tow",
+  "forecast.projectedBill": "Ka a wɔhwɛ kwan",
+
+  "compare.title": "Sɛ ɛba saa a toto ho",
+  "compare.intro": "Fa nkenkan baako fa ka nhyehyɛe ahorow mu, te sɛ PURC ka foforɔ anaa adetɔfoɔ kuw foforɔ. Nhyehyɛe a edi kan no ne nea wɔde afoforɔ no toto ho.",
+  "compare.scenarios": "Nhyehyɛe ahorow",
+  "compare.scenariosHint": "Wɔkora nhyehyɛe no so wɔ afiri yi so. Sɛ wopaw ka a woasesa a, wɔfa kɔ nhyehyɛe no mu, enti nsakrae a wobɛyɛ akyire no nsesa no.",
+  "compare.baselineName": "Nhyehyɛe titiriw din",
+  "compare.name": "Nhyehyɛe din",
+  "compare.scenarioName": "Nhyehyɛe {n}",
+  "compare.rates": "Ka",
+  "compare.published": "Ka a wɔatintim",
+  "compare.edited": "Ka a masesa",
+  "compare.refreshRates": "Fa seesei ka",
+  "compare.refreshRatesHint": "Fa ka a ɛwɔ ka sesafoɔ no mu seesei si ka a wɔakora so wɔ nhyehyɛe yi mu no anan mu.",
+  "compare.add": "Fa nhyehyɛe ka ho",
+  "compare.sideBySide": "Nkyɛn ne nkyɛn",
+  "compare.invalid": "Hyɛ nkenkan a seesei dea no nsua nsen kan dea no, ne awiei da a ɛba mfiase da no akyi.",
+  "compare.colLine": "Nkyerɛwee",
+  "compare.demandCharge": "Ahiade ho ka",
+  "compare.payable": "Sika a ɛsɛ sɛ wotua",
+  "compare.sensitivity": "Nsakrae nhwehwɛmu",
+  "compare.sensitivityIntro": "Ka nyinaa ma nhyehyɛe biara wɔ dwumadi dodow foforɔ mu, wɔ ka bere koro no ara mu.",
+  "compare.levels": "Dwumadi dodow (kWh, fa kɔma tetew mu)",
+
+  "prepaid.title": "Tua kan sika a wode gu mu",
+  "prepaid.intro": "Hu yunit dodow a sika a wode gu mu bɛma wo wɔ ka dedaw a wɔtwe, bosome som ho ka ne tow akyi, anaa sika a wobetua ama yunit dodow bi.",
+  "prepaid.direction": "Bu fi",
+  "prepaid.fromAmount": "Sika → yunit",
+  "prepaid.fromUnits": "Yunit → sika",
+  "prepaid.topUp": "Sika a wode gu mu (GHS)",
+  "prepaid.unitsWanted": "Yunit a wopɛ (kWh)",
+  "prepaid.unitsThisMonth": "Yunit a woatɔ bosome yi dedaw (kWh)",
+  "prepaid.debt": "Ka a aka (GHS)",
+  "prepaid.recoveryRate": "Ka dedaw twe (sika a wode gu mu biara % )",
+  "prepaid.serviceChargeDue": "Yei ne sika a edi kan a wode agu mu bosome yi (wontuaa som ho ka no ɛ)",
+  "prepaid.empty": "Hyɛ sika a wode bɛgu mu anaa yunit a wopɛ mu, na mia Bu akontaa.",
+  "prepaid.topUpLabel": "Sika a wode gu mu",
+  "prepaid.unitsCredited": "Yunit a wɔde ama wo",
+  "prepaid.debtRecovery": "Ka dedaw twe",
+  "prepaid.rounding": "Ɛnnɔɔso mma 0.01 kWh foforɔ",
+  "prepaid.nothingCredited": "Ka dedaw twe ne som ho ka fa sika a wode agu mu no nyinaa, enti wɔmfa yunit biara mma wo.",
+
+  "appliance.ledBulb": "LED kanea",
+  "appliance.ceilingFan": "Dan atifi fan",
+  "appliance.standingFan": "Fan a egyina fam",
+  "appliance.television": "Terebisyɛn",
+  "appliance.decoder": "TV decoder",
+  "appliance.fridge": "Frigye",
+  "appliance.chestFreezer": "Adaka frigye",
+  "appliance.airConditioner": "Mframa nwini afiri (1.5 HP)",
+  "appliance.iron": "Anyinam ahoɔden nnadeɛ",
+  "appliance.kettle": "Anyinam ahoɔden nsuo kuruwa",
+  "appliance.microwave": "Microwave",
+  "appliance.riceCooker": "Ɛmo noa afiri",
+  "appliance.waterHeater": "Nsuo hyew afiri",
+  "appliance.washingMachine": "Ntade hohoro afiri",
+  "appliance.waterPump": "Nsuo pɔmpe",
+  "appliance.laptop": "Laptop",
+  "appliance.desktop": "Kɔmputa a ɛtena ɔpon so",
+  "appliance.phoneCharger": "Fon chaja",
+};
+
+export default tw;
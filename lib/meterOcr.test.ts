@@ -0,0 +1,71 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { inflateSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { readMeterDigits, type Pixels, type Region } from "@/lib/meterOcr";
+
+type Fixture = {
+  file: string;
+  display: "lcd" | "drum";
+  /** What the meter shows, decimal point included. */
+  shows: string;
+  /** A box around the digit window, as a user would drag it. */
+  window: Region;
+};
+
+const FIXTURES = path.join(__dirname, "fixtures", "meters");
+const fixtures: Fixture[] = JSON.parse(readFileSync(path.join(FIXTURES, "readings.json"), "utf8"));
+
+/** Reads the 8-bit RGB, unfiltered PNGs that scripts/meter-fixtures.mjs writes into canvas-style RGBA pixels. */
+const loadPng = (file: string): Pixels => {
+  const bytes = readFileSync(path.join(FIXTURES, file));
+  let width = 0;
+  let height = 0;
+  const compressed: Buffer[] = [];
+  for (let offset = 8; offset < bytes.length; ) {
+    const length = bytes.readUInt32BE(offset);
+    const type = bytes.toString("ascii", offset + 4, offset + 8);
+    const body = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      if (body[8] !== 8 || body[9] !== 2) throw new Error(`${file} is not an 8-bit RGB PNG`);
+    }
+    if (type === "IDAT") compressed.push(body);
+    offset += length + 12;
+  }
+  const rows = inflateSync(Buffer.concat(compressed));
+  const stride = width * 3 + 1;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    if (rows[y * stride] !== 0) throw new Error(`${file} uses PNG row filters, which this reader skips`);
+    for (let x = 0; x < width; x++) {
+      const source = y * stride + 1 + x * 3;
+      data.set([rows[source], rows[source + 1], rows[source + 2], 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+const lcds = fixtures.filter((fixture) => fixture.display === "lcd");
+const drums = fixtures.filter((fixture) => fixture.display === "drum");
+
+describe("readMeterDigits on the sample meters", () => {
+  it.each(lcds)("reads $file as $shows, from the whole frame and from its window", ({ file, shows, window }) => {
+    const pixels = loadPng(file);
+    for (const reading of [readMeterDigits(pixels), readMeterDigits(pixels, window)]) {
+      expect(reading).toMatchObject({ ok: true, text: shows, value: Number(shows) });
+    }
+  });
+
+  it.each(drums)("turns $file away rather than misreading it", ({ file, window }) => {
+    const pixels = loadPng(file);
+    for (const reading of [readMeterDigits(pixels), readMeterDigits(pixels, window)]) {
+      expect(reading.ok).toBe(false);
+    }
+  });
+
+  it("says a drum counter is not a seven-segment display", () => {
+    for (const { file } of drums) expect(readMeterDigits(loadPng(file))).toEqual({ ok: false, reason: "notSevenSegment" });
+  });
+});
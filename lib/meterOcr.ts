@@ -0,0 +1,289 @@
+/**
+ * Reads the digits off a photo of a meter's display, entirely in the browser.
+ * The model is the seven-segment layout itself: each digit is cut out of the
+ * image and scored against the segments every numeral lights. That suits the
+ * LCD registers on ECG's electronic meters. Printed drum counters are turned
+ * away rather than guessed at, and the caller always has the user confirm the
+ * result.
+ */
+
+/** RGBA pixels in the layout of the canvas ImageData. */
+export type Pixels = { width: number; height: number; data: Uint8ClampedArray };
+
+export type Region = { x: number; y: number; width: number; height: number };
+
+export type DigitReading = {
+  /** Null when no numeral matches the segments clearly enough. */
+  digit: string | null;
+  /** 0–1: how far the best match stands clear of the runner-up. */
+  confidence: number;
+  box: Region;
+};
+
+export type MeterReading =
+  | { ok: false; reason: "noDigits" | "notSevenSegment" }
+  | {
+      ok: true;
+      /** The digits left to right, with "?" for any that could not be read and "." for a decimal point. */
+      text: string;
+      /** Null while any digit is unread. */
+      value: number | null;
+      digits: DigitReading[];
+      confidence: number;
+    };
+
+type Segment = "a" | "b" | "c" | "d" | "e" | "f" | "g";
+
+const segments: Segment[] = ["a", "b", "c", "d", "e", "f", "g"];
+
+// Where each segment sits in a digit's box, as fractions of its width and height.
+const segmentZones: Record<Segment, { u0: number; u1: number; v0: number; v1: number }> = {
+  a: { u0: 0.25, u1: 0.75, v0: 0, v1: 0.16 },
+  b: { u0: 0.72, u1: 1, v0: 0.12, v1: 0.42 },
+  c: { u0: 0.72, u1: 1, v0: 0.58, v1: 0.88 },
+  d: { u0: 0.25, u1: 0.75, v0: 0.84, v1: 1 },
+  e: { u0: 0, u1: 0.28, v0: 0.58, v1: 0.88 },
+  f: { u0: 0, u1: 0.28, v0: 0.12, v1: 0.42 },
+  g: { u0: 0.25, u1: 0.75, v0: 0.42, v1: 0.58 },
+};
+
+// Displays differ on the tails of 6, 7 and 9, so each shape is listed.
+const numerals: [string, string][] = [
+  ["0", "abcdef"],
+  ["2", "abdeg"],
+  ["3", "abcdg"],
+  ["4", "bcfg"],
+  ["5", "acdfg"],
+  ["6", "acdefg"],
+  ["6", "cdefg"],
+  ["7", "abc"],
+  ["7", "abcf"],
+  ["8", "abcdefg"],
+  ["9", "abcdfg"],
+  ["9", "abcfg"],
+];
+
+/**
+ * A "1" lights only its right-hand segments, so its box is far narrower than
+ * the other digits in the row; a row of nothing but ones is told apart by
+ * how slender the widest of them is.
+ */
+const ONE_WIDTH = 0.6;
+const ONE_ASPECT = 0.22;
+/** The narrowest a full digit cell gets against its height, for rows with no 0 or 8 to measure. */
+const CELL_ASPECT = 0.4;
+const MIN_CONFIDENCE = 0.3;
+const MIN_ROW = 8;
+/** The share of the digit row above a decimal point. */
+const BASELINE = 0.75;
+/**
+ * Seven-segment numerals never mark the two counters inside the 8; printed
+ * ones cross them with the diagonals of 2, 4 and 7 and the curves of 6 and 9.
+ */
+const COUNTER_INK = 0.1;
+
+const grayscale = ({ width, data }: Pixels, region: Region) => {
+  const gray = new Float32Array(region.width * region.height);
+  for (let y = 0; y < region.height; y++) {
+    for (let x = 0; x < region.width; x++) {
+      const i = ((region.y + y) * width + region.x + x) * 4;
+      gray[y * region.width + x] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    }
+  }
+  return gray;
+};
+
+/** Otsu's threshold: the grey level that best separates the two classes of pixel. */
+const otsuThreshold = (gray: Float32Array) => {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of gray) histogram[Math.min(255, Math.round(value))]++;
+  const total = gray.length;
+  const sum = histogram.reduce((acc, count, level) => acc + count * level, 0);
+  let below = 0;
+  let sumBelow = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let level = 0; level < 256; level++) {
+    below += histogram[level];
+    if (below === 0) continue;
+    const above = total - below;
+    if (above === 0) break;
+    sumBelow += level * histogram[level];
+    const meanBelow = sumBelow / below;
+    const meanAbove = (sum - sumBelow) / above;
+    const between = below * above * (meanBelow - meanAbove) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = level;
+    }
+  }
+  return threshold;
+};
+
+/** Marks the digit strokes. Digits cover less of a display than its background, whichever of the two is darker. */
+const inkMask = (gray: Float32Array) => {
+  const threshold = otsuThreshold(gray);
+  const dark = gray.reduce((count, value) => count + (value <= threshold ? 1 : 0), 0);
+  const darkInk = dark <= gray.length / 2;
+  return gray.map((value) => ((value <= threshold) === darkInk ? 1 : 0));
+};
+
+/** Runs of indices whose profile reaches `min`, joining runs split by gaps shorter than `bridge`. */
+const runs = (profile: number[], min: number, bridge: number) => {
+  const found: [number, number][] = [];
+  profile.forEach((value, index) => {
+    if (value < min) return;
+    const last = found[found.length - 1];
+    if (last && index - last[1] <= bridge + 1) last[1] = index;
+    else found.push([index, index]);
+  });
+  return found;
+};
+
+const fill = (mask: Float32Array, stride: number, box: Region) => {
+  if (box.width <= 0 || box.height <= 0) return 0;
+  let ink = 0;
+  for (let y = box.y; y < box.y + box.height; y++) {
+    for (let x = box.x; x < box.x + box.width; x++) ink += mask[y * stride + x];
+  }
+  return ink / (box.width * box.height);
+};
+
+const isOne = (ink: Region, widest: number) => ink.width < widest * ONE_WIDTH || widest < ink.height * ONE_ASPECT;
+
+// A 3 or 7 has no left-hand strokes, so its cell starts further left than its ink.
+const cellOf = (ink: Region, widest: number): Region => {
+  const left = Math.max(0, ink.x + ink.width - Math.max(widest, Math.round(ink.height * CELL_ASPECT)));
+  return { ...ink, x: left, width: ink.x + ink.width - left };
+};
+
+const counterInk = (mask: Float32Array, stride: number, box: Region) =>
+  Math.max(
+    ...[0.18, 0.6].map((v) =>
+      fill(mask, stride, {
+        x: box.x + Math.round(box.width * 0.3),
+        y: box.y + Math.round(box.height * v),
+        width: Math.round(box.width * 0.4),
+        height: Math.round(box.height * 0.22),
+      }),
+    ),
+  );
+
+const classify = (mask: Float32Array, stride: number, ink: Region, widest: number): Omit<DigitReading, "box"> => {
+  if (isOne(ink, widest)) return { digit: "1", confidence: Math.min(1, fill(mask, stride, ink) * 1.5) };
+  const box = cellOf(ink, widest);
+  const lit = segments.map((segment) => {
+    const zone = segmentZones[segment];
+    const x0 = box.x + Math.floor(zone.u0 * box.width);
+    const y0 = box.y + Math.floor(zone.v0 * box.height);
+    return fill(mask, stride, {
+      x: x0,
+      y: y0,
+      width: Math.max(1, box.x + Math.ceil(zone.u1 * box.width) - x0),
+      height: Math.max(1, box.y + Math.ceil(zone.v1 * box.height) - y0),
+    });
+  });
+  // Scale against the fullest segment so thin strokes and bold ones score alike.
+  const strongest = Math.max(...lit, 1e-6);
+  const scores = lit.map((value) => Math.min(1, (value / strongest) * 1.25));
+  const distances = numerals
+    .map(([digit, shape]) => ({
+      digit,
+      distance: segments.reduce((acc, segment, i) => acc + Math.abs(scores[i] - (shape.includes(segment) ? 1 : 0)), 0),
+    }))
+    .sort((a, b) => a.distance - b.distance);
+  const best = distances[0];
+  const runnerUp = distances.find((candidate) => candidate.digit !== best.digit) ?? best;
+  const confidence = runnerUp.distance === 0 ? 0 : Math.max(0, 1 - best.distance / runnerUp.distance);
+  return { digit: confidence >= MIN_CONFIDENCE ? best.digit : null, confidence };
+};
+
+/**
+ * How many digits come before the decimal point: the index of the first digit
+ * after a baseline mark in a gap between two digits, or null when there is none.
+ * Drawn points are at most half a digit wide and sit entirely below `from`.
+ */
+const decimalPoint = (mask: Float32Array, stride: number, from: number, to: number, boxes: Region[], widest: number) => {
+  const height = to - from + 1;
+  for (let i = 1; i < boxes.length; i++) {
+    const start = boxes[i - 1].x + boxes[i - 1].width;
+    const gap = boxes[i].x - start;
+    if (gap < 2) continue;
+    const marks = runs(
+      Array.from({ length: gap }, (_, x) => fill(mask, stride, { x: start + x, y: from, width: 1, height }) * height),
+      Math.max(1, height * 0.2),
+      0,
+    );
+    if (marks.some(([left, right]) => right - left + 1 >= Math.max(2, widest * 0.1) && right - left + 1 <= widest * 0.5)) return i;
+  }
+  return null;
+};
+
+/**
+ * Finds the row of digits in `region` (the whole image by default) and reads
+ * them left to right. A short mark sitting on the baseline between two digits
+ * is taken for the decimal point; other specks are dropped by height. Digits
+ * that are not seven-segment shapes turn the whole reading away.
+ */
+export const readMeterDigits = (pixels: Pixels, region?: Region): MeterReading => {
+  const area = region ?? { x: 0, y: 0, width: pixels.width, height: pixels.height };
+  if (area.width < 4 || area.height < 4) return { ok: false, reason: "noDigits" };
+  const mask = inkMask(grayscale(pixels, area));
+  const stride = area.width;
+  const inkIn = (box: Region) => fill(mask, stride, box) * box.width * box.height;
+
+  // The digit row is the band of rows holding the most ink among those whose marks are taller than wide,
+  // which rules out a bezel or the window's rim. Bands under MIN_ROW pixels are too small to read.
+  const rowProfile = Array.from({ length: area.height }, (_, y) => inkIn({ x: 0, y, width: stride, height: 1 }));
+  const band = runs(rowProfile, Math.max(2, stride * 0.02), Math.max(1, Math.round(area.height * 0.02)))
+    .map(([top, bottom]) => {
+      const height = bottom - top + 1;
+      const marks = runs(Array.from({ length: stride }, (_, x) => inkIn({ x, y: top, width: 1, height })), Math.max(1, height * 0.04), 0);
+      const widestMark = Math.max(...marks.map(([left, right]) => right - left + 1));
+      return { top, bottom, height, widestMark, ink: rowProfile.slice(top, bottom + 1).reduce((acc, value) => acc + value, 0) };
+    })
+    .filter((candidate) => candidate.height >= MIN_ROW && candidate.widestMark <= candidate.height)
+    .sort((a, b) => b.ink - a.ink)[0];
+  if (!band) return { ok: false, reason: "noDigits" };
+  const bandHeight = band.height;
+
+  // Digits are found from the upper three quarters of the row, so a decimal point on the baseline stays apart from the digit before it.
+  const upper = Math.round(bandHeight * BASELINE);
+  const columnProfile = Array.from({ length: stride }, (_, x) => inkIn({ x, y: band.top, width: 1, height: upper }));
+  const columns = runs(columnProfile, Math.max(1, bandHeight * 0.04), Math.max(1, Math.round(bandHeight * 0.04)));
+
+  const boxes: Region[] = [];
+  for (const [left, right] of columns) {
+    const width = right - left + 1;
+    const rows = runs(
+      Array.from({ length: bandHeight }, (_, y) => inkIn({ x: left, y: band.top + y, width, height: 1 })),
+      1,
+      Math.round(bandHeight * 0.15),
+    );
+    const top = rows[0]?.[0] ?? 0;
+    const bottom = rows[rows.length - 1]?.[1] ?? -1;
+    const box = { x: left, y: band.top + top, width, height: bottom - top + 1 };
+    if (box.height >= bandHeight * 0.6 && box.width >= 2) boxes.push(box);
+  }
+  if (boxes.length === 0) return { ok: false, reason: "noDigits" };
+
+  const widest = Math.max(...boxes.map((box) => box.width));
+  if (boxes.some((box) => !isOne(box, widest) && counterInk(mask, stride, cellOf(box, widest)) > COUNTER_INK)) {
+    return { ok: false, reason: "notSevenSegment" };
+  }
+  const point = decimalPoint(mask, stride, band.top + upper, band.bottom, boxes, widest);
+  const digits = boxes.map((box): DigitReading => ({
+    ...classify(mask, stride, box, widest),
+    box: { ...box, x: box.x + area.x, y: box.y + area.y },
+  }));
+
+  const whole = digits.map((reading) => reading.digit ?? "?").join("");
+  const text = point === null ? whole : `${whole.slice(0, point)}.${whole.slice(point)}`;
+  return {
+    ok: true,
+    text,
+    value: text.includes("?") ? null : Number(text),
+    digits,
+    confidence: Math.min(...digits.map((reading) => reading.confidence)),
+  };
+};
@@ -0,0 +1,81 @@
+/**
+ * A minimal single-page PDF writer for text and rules, using the standard
+ * Helvetica fonts so nothing has to be embedded or fetched.
+ */
+
+export type PdfOp =
+  | { kind: "text"; x: number; y: number; text: string; size?: number; bold?: boolean; align?: "left" | "right" }
+  | { kind: "line"; x1: number; y1: number; x2: number; y2: number; width?: number }
+  | { kind: "rect"; x: number; y: number; w: number; h: number; gray: number };
+
+// A4 in points.
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+// Helvetica advance widths (per 1000 em) for the characters statements use most; others fall back to an average.
+const NARROW = " .,:;!'|()[]/-";
+const CAPITALS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const charWidth = (char: string, bold: boolean) => {
+  if (/[0-9]/.test(char)) return 556;
+  if (NARROW.includes(char)) return char === "-" || char === "(" || char === ")" ? 333 : 278;
+  if (CAPITALS.includes(char)) return bold ? 722 : 667;
+  return bold ? 611 : 556;
+};
+
+export const textWidth = (text: string, size: number, bold = false) =>
+  ([...text].reduce((sum, char) => sum + charWidth(char, bold), 0) * size) / 1000;
+
+// Letters of the Ghanaian alphabets that have no ASCII base to fall back to.
+const GHANAIAN_LETTERS: Record<string, string> = { ɛ: "e", Ɛ: "E", ɔ: "o", Ɔ: "O", ŋ: "ng", Ŋ: "Ng", ɖ: "d", Ɖ: "D", ƒ: "f", Ƒ: "F", ɣ: "g", Ɣ: "G", ʋ: "v", Ʋ: "V" };
+
+/** The file is written as ASCII, so accents are dropped and the few typographic characters the app uses are folded. */
+const toPdfText = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[ɛƐɔƆŋŊɖƉƒƑɣƔʋƲ]/g, (letter) => GHANAIAN_LETTERS[letter])
+    .replace(/[–—]/g, "-")
+    .replace(/→/g, "->")
+    .replace(/₵/g, "C")
+    // Intl groups digits with no-break and narrow spaces in several locales.
+    .replace(/[\u00a0\u2009\u202f]/g, " ")
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/([\\()])/g, "\\$1");
+
+const renderOp = (op: PdfOp) => {
+  if (op.kind === "line") {
+    return `${op.width ?? 0.5} w ${op.x1} ${op.y1} m ${op.x2} ${op.y2} l S`;
+  }
+  if (op.kind === "rect") {
+    return `q ${op.gray} g ${op.x} ${op.y} ${op.w} ${op.h} re f Q`;
+  }
+  const size = op.size ?? 10;
+  const x = op.align === "right" ? op.x - textWidth(op.text, size, op.bold) : op.x;
+  return `BT /${op.bold ? "F2" : "F1"} ${size} Tf ${x.toFixed(2)} ${op.y} Td (${toPdfText(op.text)}) Tj ET`;
+};
+
+export const renderPdf = (ops: PdfOp[], title = "Statement") => {
+  const content = ops.map(renderOp).join("\n");
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Contents 4 0 R /Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Title (${toPdfText(title)}) /Producer (ECG Bill Calculator) >>`,
+  ];
+
+  // Every character is ASCII, so string offsets are byte offsets.
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new TextEncoder().encode(pdf);
+};
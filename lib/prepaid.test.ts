@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { topUpForUnits, unitsForTopUp, type PrepaidInput } from "@/lib/prepaid";
+
+const input = (extra: Partial<PrepaidInput> = {}): PrepaidInput => ({
+  tariffType: "residential",
+  unitsThisMonth: 0,
+  debt: 0,
+  debtRecoveryRate: 0,
+  chargeServiceCharge: false,
+  endDate: "2025-10-02",
+  ...extra,
+});
+
+const accountedFor = (vend: ReturnType<typeof unitsForTopUp>) =>
+  vend.debtRecovery + vend.serviceCharge + vend.energyCost + vend.levyLines.reduce((sum, line) => sum + line.amount, 0) + vend.rounding;
+
+describe("prepaid top-ups", () => {
+  it.each([
+    ["a first purchase", input(), 120],
+    ["a purchase that crosses into the second band", input({ unitsThisMonth: 40 }), 75.5],
+    ["debt recovery with the service charge due", input({ debt: 300, debtRecoveryRate: 0.3, chargeServiceCharge: true }), 150],
+    ["a top-up that clears the last of the debt", input({ debt: 12, debtRecoveryRate: 0.5, unitsThisMonth: 220 }), 90.25],
+  ])("credits the units the top-up was sized for: %s", (_, prepaid, units) => {
+    const needed = topUpForUnits(units, prepaid);
+    const vend = unitsForTopUp(needed.topUp, prepaid);
+
+    expect(vend.units).toBe(units);
+    expect(vend.debtRecovery).toBeCloseTo(needed.debtRecovery, 2);
+    expect(vend.rounding).toBeGreaterThanOrEqual(0);
+    expect(vend.rounding).toBeLessThan(0.02);
+    expect(accountedFor(vend)).toBeCloseTo(vend.topUp, 6);
+  });
+
+  it("withholds the recovery rate until the debt is cleared", () => {
+    expect(unitsForTopUp(100, input({ debt: 500, debtRecoveryRate: 0.25 })).debtRecovery).toBe(25);
+    expect(unitsForTopUp(100, input({ debt: 10, debtRecoveryRate: 0.25 })).debtRecovery).toBe(10);
+  });
+
+  it("credits nothing when recovery and the service charge take the whole top-up", () => {
+    const vend = unitsForTopUp(2, input({ debt: 50, debtRecoveryRate: 0.5, chargeServiceCharge: true }));
+    expect(vend.units).toBe(0);
+    expect(vend.debtRecovery + vend.serviceCharge).toBeCloseTo(2, 6);
+  });
+});
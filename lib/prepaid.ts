@@ -0,0 +1,139 @@
+import { affordableUnits } from "@/lib/reverseCalculator";
+import {
+  calculateBill,
+  levyKeys,
+  periodEndingOn,
+  STANDARD_BILLING_DAYS,
+  tariffCatalogue,
+  tariffKeys,
+  type LevyLine,
+  type TariffCategory,
+  type TariffKey,
+  type TariffSchedule,
+} from "@/lib/tariffEngine";
+
+export type PrepaidInput = {
+  tariffType: TariffKey;
+  /** Units already vended this month; bands run on the month's cumulative purchases. */
+  unitsThisMonth: number;
+  /** Outstanding arrears being recovered through the meter. */
+  debt: number;
+  /** Share of each top-up withheld for debt, e.g. 0.5 for 50%. */
+  debtRecoveryRate: number;
+  /** The monthly service charge is taken from the first top-up of the month. */
+  chargeServiceCharge: boolean;
+  catalogue?: TariffSchedule[];
+  endDate?: string;
+};
+
+export type Vend = {
+  topUp: number;
+  debtRecovery: number;
+  serviceCharge: number;
+  energyCost: number;
+  levyLines: LevyLine[];
+  /** Pesewas left over after crediting units to the nearest 0.01 kWh. */
+  rounding: number;
+  units: number;
+};
+
+const floorHundredths = (value: number) => Math.floor(value * 100 + 1e-9) / 100;
+const ceilHundredths = (value: number) => Math.ceil(value * 100 - 1e-9) / 100;
+
+/** Service charges are handled per top-up here, so the band walk runs without them. */
+const energyOnly = (catalogue: TariffSchedule[]) =>
+  catalogue.map((schedule) => ({
+    ...schedule,
+    categories: Object.fromEntries(
+      tariffKeys.map((key) => [key, { ...schedule.categories[key], serviceCharge: 0 }]),
+    ) as Record<TariffKey, TariffCategory>,
+  }));
+
+const monthBill = (units: number, input: PrepaidInput, catalogue: TariffSchedule[]) =>
+  calculateBill({
+    prevReading: 0,
+    currReading: units,
+    ...periodEndingOn(STANDARD_BILLING_DAYS, input.endDate),
+    tariffType: input.tariffType,
+    prevBalance: 0,
+    payments: 0,
+    adjustment: 0,
+    catalogue,
+  });
+
+const serviceChargeDue = (input: PrepaidInput) =>
+  input.chargeServiceCharge ? monthBill(input.unitsThisMonth, input, input.catalogue ?? tariffCatalogue).serviceCharge : 0;
+
+/** Energy and levies for `units` bought on top of what the month has already used. */
+const purchaseCost = (units: number, input: PrepaidInput, catalogue: TariffSchedule[]) => {
+  const before = monthBill(input.unitsThisMonth, input, catalogue);
+  const after = monthBill(input.unitsThisMonth + units, input, catalogue);
+  const levyLines = levyKeys.flatMap((key) => {
+    const line = after.levyLines.find((entry) => entry.key === key);
+    if (!line) return [];
+    const previous = before.levyLines.find((entry) => entry.key === key)?.amount ?? 0;
+    return [{ ...line, amount: line.amount - previous }];
+  });
+  return { energyCost: after.energyCost - before.energyCost, levyLines, total: after.totalBill - before.totalBill };
+};
+
+const debtRecoveryOn = (topUp: number, input: PrepaidInput) =>
+  Math.min(topUp * Math.min(Math.max(input.debtRecoveryRate, 0), 1), Math.max(input.debt, 0));
+
+/** Units the vending system credits for a top-up amount. */
+export const unitsForTopUp = (topUp: number, input: PrepaidInput): Vend => {
+  const catalogue = energyOnly(input.catalogue ?? tariffCatalogue);
+  const debtRecovery = debtRecoveryOn(topUp, input);
+  const serviceCharge = Math.min(serviceChargeDue(input), topUp - debtRecovery);
+  const available = topUp - debtRecovery - serviceCharge;
+
+  let units = 0;
+  if (available > 0) {
+    const alreadyCharged = monthBill(input.unitsThisMonth, input, catalogue).payable;
+    const reverse = affordableUnits({
+      targetPayable: alreadyCharged + available,
+      prevReading: 0,
+      ...periodEndingOn(STANDARD_BILLING_DAYS, input.endDate),
+      tariffType: input.tariffType,
+      prevBalance: 0,
+      payments: 0,
+      adjustment: 0,
+      catalogue,
+    });
+    if (reverse.affordable && !reverse.unlimited) units = Math.max(floorHundredths(reverse.maxUnits - input.unitsThisMonth), 0);
+  }
+
+  const cost = purchaseCost(units, input, catalogue);
+  return {
+    topUp,
+    debtRecovery,
+    serviceCharge,
+    energyCost: cost.energyCost,
+    levyLines: cost.levyLines,
+    rounding: Math.max(available - cost.total, 0),
+    units,
+  };
+};
+
+/** Top-up needed to be credited with `units`, rounded up to the pesewa. */
+export const topUpForUnits = (units: number, input: PrepaidInput): Vend => {
+  const catalogue = energyOnly(input.catalogue ?? tariffCatalogue);
+  const cost = purchaseCost(Math.max(units, 0), input, catalogue);
+  const serviceCharge = serviceChargeDue(input);
+  const net = cost.total + serviceCharge;
+  const rate = Math.min(Math.max(input.debtRecoveryRate, 0), 0.99);
+  // Recovery takes a share of the whole top-up until the debt is cleared.
+  const grossed = net / (1 - rate);
+  const topUp = ceilHundredths(grossed * rate <= input.debt ? grossed : net + Math.max(input.debt, 0));
+  const debtRecovery = debtRecoveryOn(topUp, input);
+
+  return {
+    topUp,
+    debtRecovery,
+    serviceCharge,
+    energyCost: cost.energyCost,
+    levyLines: cost.levyLines,
+    rounding: topUp - debtRecovery - net,
+    units: Math.max(units, 0),
+  };
+};
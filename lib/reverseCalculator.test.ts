@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { affordableUnits, type ReverseInput } from "@/lib/reverseCalculator";
+import { defaultSchedule, initialRates, tariffCatalogue, withBands, withLatestSchedule } from "@/lib/tariffEngine";
+
+const base: ReverseInput = {
+  targetPayable: 479.24,
+  prevReading: 1000,
+  startDate: "2025-09-01",
+  endDate: "2025-10-02",
+  tariffType: "residential",
+  prevBalance: 0,
+  payments: 0,
+  adjustment: 0,
+};
+
+describe("affordableUnits", () => {
+  it("inverts the bill to the units that reach the target", () => {
+    const result = affordableUnits(base);
+    expect(result).toMatchObject({ affordable: true, unlimited: false, wholeUnits: 250, stopAtReading: 1250 });
+  });
+
+  it("reports a target below the fixed charges as unaffordable", () => {
+    expect(affordableUnits({ ...base, targetPayable: 1 })).toMatchObject({ affordable: false });
+  });
+
+  it("reports no limit when the open-ended band is free", () => {
+    const bands = [
+      { limit: 50, rate: 1.4878 },
+      { limit: Infinity, rate: 0 },
+    ];
+    const catalogue = withLatestSchedule(tariffCatalogue, withBands(defaultSchedule, { ...initialRates, residential: { mode: "cumulative", bands } }));
+    const result = affordableUnits({ ...base, targetPayable: 500, catalogue });
+    expect(result).toMatchObject({ affordable: true, unlimited: true, freeFrom: 50 });
+    if (result.affordable) expect(Number.isFinite(result.results.payable)).toBe(true);
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  bandRanges,
+  calculateBill,
+  splitPeriod,
+  tariffCatalogue,
+  type BillInput,
+  type CalculationResults,
+} from "@/lib/tariffEngine";
+
+export type ReverseInput = Omit<BillInput, "currReading" | "meterEvent"> & {
+  targetPayable: number;
+};
+
+export type ReverseResult =
+  | { affordable: false; minimumPayable: number }
+  | {
+      affordable: true;
+      /** The open-ended band costs nothing, so no amount of use reaches the target. */
+      unlimited: true;
+      /** kWh from which further use is free. */
+      freeFrom: number;
+      results: CalculationResults;
+    }
+  | {
+      affordable: true;
+      unlimited: false;
+      /** Exact kWh at which the payable amount reaches the target. */
+      maxUnits: number;
+      /** Whole kWh the meter can register without going over the target. */
+      wholeUnits: number;
+      stopAtReading: number;
+      results: CalculationResults;
+    };
+
+const toPesewas = (amount: number) => Math.round(amount * 100);
+
+/** Consumption levels where the bill's slope can change: band edges and lifeline thresholds. */
+const breakpoints = (input: ReverseInput) => {
+  const catalogue = input.catalogue ?? tariffCatalogue;
+  const points = new Set<number>([0]);
+  for (const { schedule } of splitPeriod(catalogue, input.startDate, input.endDate)) {
+    const category = schedule.categories[input.tariffType];
+    const candidates = [category];
+    if (category.lifeline) {
+      points.add(category.lifeline.maxUnits);
+      candidates.push(schedule.categories[category.lifeline.fallback]);
+    }
+    for (const candidate of candidates) {
+      for (const range of bandRanges(candidate.bands, candidate.bandMode)) {
+        if (Number.isFinite(range.to)) points.add(range.to);
+      }
+    }
+  }
+  return [...points].sort((a, b) => a - b);
+};
+
+/**
+ * Inverts calculateBill: the payable amount is piecewise linear in units, so
+ * find the piece holding the target and solve it exactly.
+ */
+export const affordableUnits = (input: ReverseInput): ReverseResult => {
+  const { targetPayable, ...rest } = input;
+  const payableAt = (units: number) =>
+    calculateBill({ ...rest, prevReading: 0, currReading: units }).payable;
+
+  const minimumPayable = payableAt(0);
+  if (toPesewas(minimumPayable) > toPesewas(targetPayable)) return { affordable: false, minimumPayable };
+
+  const points = breakpoints(input);
+  let lower = 0;
+  let upper = Infinity;
+  for (const point of points) {
+    if (payableAt(point) <= targetPayable) lower = point;
+    else {
+      upper = point;
+      break;
+    }
+  }
+
+  // Sample strictly inside the piece so a lifeline jump at `lower` is not mistaken for the slope.
+  const span = Number.isFinite(upper) ? upper - lower : 3;
+  const x1 = lower + span / 3;
+  const x2 = lower + (2 * span) / 3;
+  const y1 = payableAt(x1);
+  const slope = (payableAt(x2) - y1) / (x2 - x1);
+  if (!Number.isFinite(upper) && slope <= 1e-9) {
+    return { affordable: true, unlimited: true, freeFrom: lower, results: calculateBill({ ...rest, currReading: input.prevReading + lower }) };
+  }
+  const solved = slope > 0 ? x1 + (targetPayable - y1) / slope : upper;
+  const maxUnits = Math.min(Math.max(solved, lower), upper);
+
+  // Settle on whole kWh by the same pesewa rounding the bill is printed with.
+  let wholeUnits = Math.floor(maxUnits + 1e-9);
+  while (wholeUnits > 0 && toPesewas(payableAt(wholeUnits)) > toPesewas(targetPayable)) wholeUnits -= 1;
+  while (toPesewas(payableAt(wholeUnits + 1)) <= toPesewas(targetPayable)) wholeUnits += 1;
+
+  return {
+    affordable: true,
+    unlimited: false,
+    maxUnits,
+    wholeUnits,
+    stopAtReading: input.prevReading + wholeUnits,
+    results: calculateBill({ ...rest, currReading: input.prevReading + wholeUnits }),
+  };
+};
@@ -0,0 +1,113 @@
+import { decodeInfinity, encodeInfinity } from "@/lib/json";
+import {
+  calculateBill,
+  levyKeys,
+  tariffCatalogue,
+  withLatestSchedule,
+  type BillInput,
+  type CalculationResults,
+  type LevyKey,
+  type RateSchedule,
+  type TariffKey,
+} from "@/lib/tariffEngine";
+
+/** A named way of billing the same readings: a tariff category under published or edited rates. */
+export type Scenario = {
+  id: string;
+  name: string;
+  tariffType: TariffKey;
+  /** Edited rates applied to the latest schedule; null bills under the published catalogue. */
+  schedule: RateSchedule | null;
+};
+
+export type ScenarioReadings = Omit<BillInput, "tariffType" | "catalogue">;
+
+export type ComparisonLineKey = "units" | "energyCost" | "demandCharge" | "serviceCharge" | LevyKey | "totalBill" | "payable";
+
+export type ComparisonCell = {
+  value: number;
+  /** Against the first scenario, which is the baseline. */
+  difference: number;
+  /** Null when the baseline is zero. */
+  percent: number | null;
+};
+
+export type ComparisonLine = { key: ComparisonLineKey; cells: ComparisonCell[] };
+
+export type SensitivityRow = { units: number; cells: ComparisonCell[] };
+
+type ScenarioStore = { version: 1; scenarios: Scenario[] };
+
+export const SCENARIOS_KEY = "ecg_scenarios";
+const SCENARIOS_VERSION = 1;
+
+export const comparisonLineKeys: ComparisonLineKey[] = ["units", "energyCost", "demandCharge", "serviceCharge", ...levyKeys, "totalBill", "payable"];
+
+export const defaultSensitivityLevels = [30, 50, 100, 200, 300, 500, 1000];
+
+export const sameRates = (a: RateSchedule, b: RateSchedule) =>
+  a === b || JSON.stringify(a, encodeInfinity) === JSON.stringify(b, encodeInfinity);
+
+export const runScenario = (scenario: Scenario, readings: ScenarioReadings) =>
+  calculateBill({
+    ...readings,
+    tariffType: scenario.tariffType,
+    catalogue: scenario.schedule ? withLatestSchedule(tariffCatalogue, scenario.schedule) : tariffCatalogue,
+  });
+
+const lineValue = (results: CalculationResults, key: ComparisonLineKey) => {
+  switch (key) {
+    case "units":
+    case "energyCost":
+    case "demandCharge":
+    case "serviceCharge":
+    case "totalBill":
+    case "payable":
+      return results[key];
+    default:
+      return results.levyLines.find((line) => line.key === key)?.amount ?? 0;
+  }
+};
+
+const againstBaseline = (values: number[]): ComparisonCell[] =>
+  values.map((value) => {
+    const difference = value - values[0];
+    return { value, difference, percent: values[0] === 0 ? null : difference / values[0] };
+  });
+
+/** Every bill line for each scenario, with its difference from the first. */
+export const compareScenarios = (scenarios: Scenario[], readings: ScenarioReadings): ComparisonLine[] => {
+  const results = scenarios.map((scenario) => runScenario(scenario, readings));
+  return comparisonLineKeys.map((key) => ({ key, cells: againstBaseline(results.map((result) => lineValue(result, key))) }));
+};
+
+/** The total bill for each scenario at each consumption level, over the readings' billing period. */
+export const sensitivityTable = (scenarios: Scenario[], readings: ScenarioReadings, levels: number[]): SensitivityRow[] =>
+  levels.map((units) => {
+    const atLevel = { ...readings, prevReading: 0, currReading: units, meterEvent: undefined };
+    return { units, cells: againstBaseline(scenarios.map((scenario) => runScenario(scenario, atLevel).totalBill)) };
+  });
+
+/** Reads "50, 100, 200" into sorted, distinct, non-negative levels. */
+export const parseLevels = (text: string) =>
+  [...new Set(text.split(/[\s,;]+/).filter(Boolean).map(Number))]
+    .filter((level) => Number.isFinite(level) && level >= 0)
+    .sort((a, b) => a - b);
+
+export const loadScenarios = (): Scenario[] | null => {
+  try {
+    const raw = localStorage.getItem(SCENARIOS_KEY);
+    if (raw === null) return null;
+    const store = JSON.parse(raw, decodeInfinity) as ScenarioStore;
+    return store.version === SCENARIOS_VERSION && Array.isArray(store.scenarios) ? store.scenarios : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveScenarios = (scenarios: Scenario[]) => {
+  try {
+    const store: ScenarioStore = { version: SCENARIOS_VERSION, scenarios };
+    localStorage.setItem(SCENARIOS_KEY, JSON.stringify(store, encodeInfinity));
+  } catch {}
+};
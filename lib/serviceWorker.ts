@@ -0,0 +1,28 @@
+/**
+ * Registers the offline service worker and reports when a newer deployment
+ * has been installed and is waiting to take over.
+ */
+export const registerServiceWorker = async (onUpdateReady: (worker: ServiceWorker) => void) => {
+  if (!("serviceWorker" in navigator) || process.env.NODE_ENV !== "production") return;
+
+  const registration = await navigator.serviceWorker.register(`/sw.js?build=${process.env.NEXT_PUBLIC_BUILD_ID}`);
+
+  // Without a controller this is the first install, not an update.
+  const notifyIfWaiting = () => {
+    if (registration.waiting && navigator.serviceWorker.controller) onUpdateReady(registration.waiting);
+  };
+
+  notifyIfWaiting();
+  registration.addEventListener("updatefound", () => {
+    const worker = registration.installing;
+    worker?.addEventListener("statechange", () => {
+      if (worker.state === "installed") notifyIfWaiting();
+    });
+  });
+};
+
+/** Activates the waiting worker and reloads once it controls the page. */
+export const applyUpdate = (worker: ServiceWorker) => {
+  navigator.serviceWorker.addEventListener("controllerchange", () => window.location.reload(), { once: true });
+  worker.postMessage({ type: "SKIP_WAITING" });
+};
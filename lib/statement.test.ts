@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { createI18n, type Locale } from "@/lib/i18n";
+import { buildStatement, statementPdf } from "@/lib/statement";
+import { calculateBill, type BillInput } from "@/lib/tariffEngine";
+
+const input: Omit<BillInput, "catalogue"> = {
+  prevReading: 99950,
+  currReading: 200,
+  startDate: "2025-09-01",
+  endDate: "2025-10-02",
+  tariffType: "residential",
+  prevBalance: 0,
+  payments: 0,
+  adjustment: 0,
+  meterEvent: { kind: "rollover", digits: 5 },
+};
+
+const statementIn = (locale: Locale) => buildStatement(input, calculateBill(input), createI18n(locale), "2025-10-02");
+
+describe("buildStatement", () => {
+  it("labels the statement in English", () => {
+    const statement = statementIn("en");
+    expect(statement.tariffLabel).toBe("Residential");
+    expect(statement.unitsNote).toEqual(["Up to rollover: 99,950 -> 100,000 (50 kWh)", "After rollover: 0 -> 200 (200 kWh)"]);
+    expect(statement.charges.map((line) => line.label)).toEqual(["Energy Charge", "Service Charge", "Nat'l Elect Levy (2%)", "Street Light (3%)"]);
+    expect(statement.totalBill).toBeCloseTo(479.24, 2);
+  });
+
+  it("labels the statement in the chosen language", () => {
+    const statement = statementIn("fr");
+    expect(statement.tariffLabel).toBe("Résidentiel");
+    expect(statement.unitsNote[0]).toBe("Jusqu'au passage à zéro : 99\u202f950 -> 100\u202f000 (50 kWh)");
+    expect(statement.account.map((line) => line.label)).toEqual(["Solde reporté", "Paiements reçus", "Ajustements"]);
+  });
+
+  it("drops accents and the cedi sign from the PDF, which is written as ASCII", () => {
+    const pdf = new TextDecoder().decode(statementPdf(statementIn("fr"), createI18n("fr")));
+    expect(pdf).toContain("(Releve de facture d'electricite)");
+    expect(pdf).toContain("(GHS 479,24)");
+    expect(pdf).toContain("passage a zero : 99 950 -> 100 000 \\(50 kWh\\))");
+    expect(pdf).toMatch(/^[\x00-\x7f]*$/);
+  });
+
+  it("folds the Ghanaian letters to their ASCII base in the PDF", () => {
+    const pdf = new TextDecoder().decode(statementPdf(statementIn("ee"), createI18n("ee")));
+    expect(pdf).toContain("(Dzo Fe Agbale)");
+    expect(pdf).toContain("(Subosubo fe)");
+    expect(pdf).toMatch(/^[\x00-\x7f]*$/);
+    expect(pdf).not.toContain("?");
+  });
+});
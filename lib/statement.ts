@@ -0,0 +1,150 @@
+import type { CycleInput } from "@/lib/billHistory";
+import type { I18n } from "@/lib/i18n";
+import { PAGE_HEIGHT, PAGE_WIDTH, renderPdf, type PdfOp } from "@/lib/pdf";
+import type { CalculationResults } from "@/lib/tariffEngine";
+
+export type StatementLine = { label: string; amount: number };
+
+export type Statement = {
+  issuedOn: string;
+  tariffLabel: string;
+  startDate: string;
+  endDate: string;
+  billingDays: number;
+  prevReading: number;
+  currReading: number;
+  units: number;
+  unitsNote: string[];
+  bands: { units: number; rate: number; cost: number }[];
+  charges: StatementLine[];
+  totalBill: number;
+  account: StatementLine[];
+  payable: number;
+};
+
+/**
+ * Lays the current calculation out in the order of an ECG postpaid bill, with
+ * labels in the language of `i18n` and the figures inside them in its number format.
+ */
+export const buildStatement = (
+  input: CycleInput,
+  results: CalculationResults,
+  { t, number }: I18n,
+  issuedOn = new Date().toISOString().slice(0, 10),
+): Statement => ({
+  issuedOn,
+  tariffLabel: t(`tariff.${results.tariffType}`),
+  startDate: input.startDate,
+  endDate: input.endDate,
+  billingDays: results.billingDays,
+  prevReading: input.prevReading,
+  currReading: input.currReading,
+  units: results.units,
+  unitsNote: [
+    ...(results.unitsDerivation.method === "direct"
+      ? []
+      : results.unitsDerivation.steps.map((step) =>
+          t("statement.step", { step: t(`calc.step.${step.kind}`), from: number(step.from), to: number(step.to), units: number(step.units) }),
+        )),
+    ...(results.netMetering
+      ? [
+          t("statement.netMetering", {
+            imported: number(results.netMetering.grossImport),
+            exported: number(results.netMetering.exported),
+            billed: number(results.netMetering.billableUnits),
+          }),
+        ]
+      : []),
+  ],
+  bands: results.bandBreakdown.map((band) => ({ units: band.used, rate: band.rate, cost: band.cost })),
+  charges: [
+    { label: t("statement.energy"), amount: results.energyCost },
+    ...(results.demandCharge > 0 ? [{ label: t("statement.demand"), amount: results.demandCharge }] : []),
+    { label: t("statement.service"), amount: results.serviceCharge },
+    ...results.levyLines.map((line) => ({
+      label: t("statement.levy", { levy: t(`levy.${line.key}`), rate: number(line.rate * 100) }),
+      amount: line.amount,
+    })),
+    ...(results.netMetering && results.netMetering.exportCredit > 0
+      ? [{ label: t("statement.exportCredit", { units: number(results.netMetering.creditedUnits) }), amount: -results.netMetering.exportCredit }]
+      : []),
+  ],
+  totalBill: results.totalBill,
+  account: [
+    { label: t("statement.balance"), amount: input.prevBalance },
+    { label: t("statement.payments"), amount: -input.payments },
+    { label: t("statement.adjustments"), amount: results.adjustment },
+  ],
+  payable: results.payable,
+});
+
+const MARGIN = 48;
+const RIGHT = PAGE_WIDTH - MARGIN;
+
+/** The PDF's fonts have no cedi sign, so amounts are written as GHS with the locale's digits. */
+export const statementPdf = (statement: Statement, { t, number, fixed }: I18n) => {
+  const amount = (value: number) => `GHS ${fixed(value, 2)}`;
+  const ops: PdfOp[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+  const text = (x: number, value: string, options: { size?: number; bold?: boolean; align?: "left" | "right" } = {}) =>
+    ops.push({ kind: "text", x, y, text: value, ...options });
+  const rule = (width = 0.5) => ops.push({ kind: "line", x1: MARGIN, y1: y, x2: RIGHT, y2: y, width });
+  const row = (label: string, value: string, bold = false) => {
+    text(MARGIN, label, { bold });
+    text(RIGHT, value, { bold, align: "right" });
+    y -= 16;
+  };
+  const heading = (value: string) => {
+    y -= 8;
+    text(MARGIN, value, { size: 11, bold: true });
+    y -= 6;
+    rule();
+    y -= 14;
+  };
+
+  ops.push({ kind: "rect", x: 0, y: PAGE_HEIGHT - 90, w: PAGE_WIDTH, h: 90, gray: 0.92 });
+  y -= 4;
+  text(MARGIN, t("statement.title"), { size: 18, bold: true });
+  text(RIGHT, t("statement.issued", { date: statement.issuedOn }), { size: 9, align: "right" });
+  y -= 18;
+  text(MARGIN, t("statement.subtitle"), { size: 9 });
+  y = PAGE_HEIGHT - 120;
+
+  heading(t("statement.account"));
+  row(t("statement.tariff"), statement.tariffLabel);
+  row(t("statement.period"), t("statement.periodDates", { from: statement.startDate, to: statement.endDate, days: statement.billingDays }));
+  row(t("statement.prevReading"), number(statement.prevReading));
+  row(t("statement.currReading"), number(statement.currReading));
+  statement.unitsNote.forEach((note) => row(note, ""));
+  row(t("statement.units"), t("common.kwh", { value: number(statement.units) }), true);
+
+  heading(t("statement.bands"));
+  text(MARGIN, t("calc.colUnits"), { bold: true, size: 9 });
+  text(MARGIN + 200, t("calc.colRate"), { bold: true, size: 9 });
+  text(RIGHT, t("calc.colCost"), { bold: true, size: 9, align: "right" });
+  y -= 16;
+  statement.bands.forEach((band) => {
+    text(MARGIN, number(band.units));
+    text(MARGIN + 200, fixed(band.rate, 4));
+    text(RIGHT, fixed(band.cost, 2), { align: "right" });
+    y -= 16;
+  });
+
+  heading(t("statement.charges"));
+  statement.charges.forEach((line) => row(line.label, amount(line.amount)));
+  rule();
+  y -= 14;
+  row(t("statement.total"), amount(statement.totalBill), true);
+
+  heading(t("statement.summary"));
+  statement.account.forEach((line) => row(line.label, amount(line.amount)));
+  rule(1);
+  y -= 18;
+  text(MARGIN, t("statement.payable"), { size: 13, bold: true });
+  text(RIGHT, amount(statement.payable), { size: 13, bold: true, align: "right" });
+
+  y = MARGIN;
+  text(MARGIN, t("statement.disclaimer"), { size: 8 });
+
+  return renderPdf(ops, t("statement.pdfTitle", { from: statement.startDate, to: statement.endDate }));
+};
@@ -0,0 +1,263 @@
+import { describe, expect, it } from "vitest";
+import { checkBill } from "@/lib/billCheck";
+import { validateBillRequest } from "@/lib/billValidation";
+import {
+  calculateBill,
+  convertBandMode,
+  defaultSchedule,
+  deriveUnits,
+  initialRates,
+  splitPeriod,
+  tariffCatalogue,
+  tariffCategories,
+  validateBands,
+  withBands,
+  withDatedSchedule,
+  withLatestSchedule,
+  type BillInput,
+  type TariffSchedule,
+} from "@/lib/tariffEngine";
+
+// A 31-day cycle inside the published schedule's validity.
+const cycle = { startDate: "2025-09-01", endDate: "2025-10-02" };
+
+const bill = (tariffType: BillInput["tariffType"], units: number, extra: Partial<BillInput> = {}) =>
+  calculateBill({ prevReading: 1000, currReading: 1000 + units, ...cycle, tariffType, prevBalance: 0, payments: 0, adjustment: 0, ...extra });
+
+const levies = (results: ReturnType<typeof calculateBill>) =>
+  Object.fromEntries(results.levyLines.map((line) => [line.key, Number(line.amount.toFixed(2))]));
+
+describe("calculateBill: residential", () => {
+  it("bills the first band only up to 50 kWh", () => {
+    const results = bill("residential", 50);
+    expect(results.units).toBe(50);
+    expect(results.energyCost).toBeCloseTo(74.39, 2);
+    expect(results.serviceCharge).toBeCloseTo(2.13, 2);
+    expect(levies(results)).toEqual({ nel: 1.49, streetLight: 2.23 });
+    expect(results.totalBill).toBeCloseTo(80.24, 2);
+  });
+
+  it("bills 250 kWh across the first two bands", () => {
+    const results = bill("residential", 250);
+    expect(results.bandBreakdown.map((band) => band.used)).toEqual([50, 200]);
+    expect(results.energyCost).toBeCloseTo(454.39, 2);
+    expect(levies(results)).toEqual({ nel: 9.09, streetLight: 13.63 });
+    expect(results.totalBill).toBeCloseTo(479.24, 2);
+  });
+
+  it("bills 400 kWh into the open-ended band", () => {
+    const results = bill("residential", 400);
+    expect(results.bandBreakdown.map((band) => band.used)).toEqual([50, 200, 50, 100]);
+    expect(results.energyCost).toBeCloseTo(819.39, 2);
+    expect(results.totalBill).toBeCloseTo(862.49, 2);
+  });
+
+  it("adds the balance and adjustment and takes off payments", () => {
+    const results = bill("residential", 250, { prevBalance: 120.5, payments: 100, adjustment: -25.5 });
+    expect(results.totalBill).toBeCloseTo(479.24, 2);
+    expect(results.payable).toBeCloseTo(474.24, 2);
+  });
+
+  it("prorates the service charge by billing days", () => {
+    const results = bill("residential", 250, { startDate: "2025-09-01", endDate: "2025-10-01" });
+    expect(results.billingDays).toBe(30);
+    expect(results.serviceCharge).toBeCloseTo((2.13 * 30) / 31, 6);
+    expect(results.totalBill).toBeCloseTo(479.17, 2);
+  });
+});
+
+describe("calculateBill: non-residential", () => {
+  it("charges every levy, with VAT on the other levies", () => {
+    const results = bill("nonResidential", 100);
+    expect(results.energyCost).toBeCloseTo(159, 2);
+    expect(results.serviceCharge).toBeCloseTo(12.43, 2);
+    expect(levies(results)).toEqual({ nel: 3.18, streetLight: 4.77, nhilGetFund: 7.95, vat: 26.23 });
+    expect(results.totalBill).toBeCloseTo(213.56, 2);
+  });
+
+  it("bills 400 kWh at the flat rate", () => {
+    const results = bill("nonResidential", 400);
+    expect(results.energyCost).toBeCloseTo(636, 2);
+    expect(levies(results)).toEqual({ nel: 12.72, streetLight: 19.08, nhilGetFund: 31.8, vat: 104.94 });
+    expect(results.totalBill).toBeCloseTo(816.97, 2);
+  });
+});
+
+describe("calculateBill: lifeline and SLT categories", () => {
+  it("bills up to 30 kWh at the lifeline rate with no service charge", () => {
+    const results = bill("lifeline", 30);
+    expect(results.tariffType).toBe("lifeline");
+    expect(results.energyCost).toBeCloseTo(21, 6);
+    expect(results.serviceCharge).toBe(0);
+    expect(results.totalBill).toBeCloseTo(22.05, 2);
+  });
+
+  it("bills a lifeline account over 30 kWh as residential", () => {
+    const results = bill("lifeline", 31);
+    expect(results.tariffType).toBe("residential");
+    expect(results.energyCost).toBeCloseTo(46.1218, 4);
+    expect(results.totalBill).toBeCloseTo(50.56, 2);
+  });
+
+  it("adds the SLT demand charge to the levy base", () => {
+    const results = bill("sltLowVoltage", 10000, { maxDemandKva: 50 });
+    expect(results.energyCost).toBeCloseTo(20500, 6);
+    expect(results.demandCharge).toBeCloseTo(6000, 6);
+    expect(results.serviceCharge).toBeCloseTo(500, 6);
+    expect(levies(results)).toEqual({ nel: 530, streetLight: 795, nhilGetFund: 1325, vat: 4372.5 });
+    expect(results.totalBill).toBeCloseTo(34022.5, 2);
+  });
+});
+
+describe("band modes", () => {
+  const residentialBands = tariffCategories.residential.bands;
+
+  it("reads published limits as cumulative upper bounds", () => {
+    expect(tariffCategories.residential.bandMode).toBe("cumulative");
+    expect(bill("residential", 400).bandBreakdown.map((band) => band.used)).toEqual([50, 200, 50, 100]);
+  });
+
+  it("bills the same limits read as widths differently", () => {
+    const asWidths = withBands(defaultSchedule, { ...initialRates, residential: { mode: "width", bands: residentialBands } });
+    const results = bill("residential", 400, { catalogue: withLatestSchedule(tariffCatalogue, asWidths) });
+    expect(results.bandBreakdown.map((band) => band.used)).toEqual([50, 250, 100]);
+    expect(results.energyCost).toBeCloseTo(779.39, 2);
+  });
+
+  it("converts between modes without moving any band", () => {
+    const widths = convertBandMode(residentialBands, "cumulative", "width");
+    expect(widths.map((band) => band.limit)).toEqual([50, 200, 50, Infinity]);
+    expect(convertBandMode(widths, "width", "cumulative")).toEqual(residentialBands);
+  });
+
+  it("rejects cumulative limits that do not rise", () => {
+    const bands = [
+      { limit: 300, rate: 1 },
+      { limit: 250, rate: 2 },
+      { limit: Infinity, rate: 3 },
+    ];
+    expect(validateBands(bands, "cumulative")).toEqual([
+      { index: 1, code: "limitNotRising", previous: 300, message: "Limit must be higher than the previous band's 300 kWh" },
+    ]);
+    expect(validateBands(bands, "width")).toEqual([]);
+  });
+});
+
+// A second schedule from 16 September that doubles residential rates and raises non-residential to GHS 2.00.
+const raised = {
+  ...defaultSchedule,
+  categories: {
+    ...tariffCategories,
+    residential: { ...tariffCategories.residential, bands: tariffCategories.residential.bands.map((band) => ({ ...band, rate: band.rate * 2 })) },
+    nonResidential: { ...tariffCategories.nonResidential, bands: [{ limit: Infinity, rate: 2 }] },
+  },
+};
+const twoSchedules: TariffSchedule[] = [
+  { id: "q3", label: "Q3", effectiveFrom: "2025-07-01", ...defaultSchedule },
+  { id: "q4", label: "Q4", effectiveFrom: "2025-09-16", ...raised },
+];
+
+const billUnder = (tariffType: BillInput["tariffType"], units: number, startDate: string, endDate: string) =>
+  calculateBill({ prevReading: 0, currReading: units, startDate, endDate, tariffType, prevBalance: 0, payments: 0, adjustment: 0, catalogue: twoSchedules });
+
+describe("calculateBill: tariff change inside the period", () => {
+  it("splits consumption and the service charge by days under each schedule", () => {
+    const results = billUnder("nonResidential", 310, "2025-09-01", "2025-10-02");
+    expect(results.periods.map((period) => [period.scheduleId, period.startDate, period.endDate, period.days])).toEqual([
+      ["q3", "2025-09-01", "2025-09-16", 15],
+      ["q4", "2025-09-16", "2025-10-02", 16],
+    ]);
+    expect(results.periods.map((period) => period.units)).toEqual([150, 160]);
+    expect(results.periods[0].energyCost).toBeCloseTo(238.5, 6);
+    expect(results.periods[1].energyCost).toBeCloseTo(320, 6);
+    expect(results.serviceCharge).toBeCloseTo(12.43, 6);
+    expect(results.totalBill).toBeCloseTo(718.93, 2);
+  });
+
+  it("scales band widths by each period's share of the days", () => {
+    const results = billUnder("residential", 310, "2025-09-01", "2025-10-02");
+    const used = results.periods.map((period) => period.bandBreakdown.map((band) => Number(band.used.toFixed(4))));
+    expect(used).toEqual([
+      [24.1935, 96.7742, 24.1935, 4.8387],
+      [25.8065, 103.2258, 25.8065, 5.1613],
+    ]);
+    expect(results.periods[0].energyCost).toBeCloseTo(287.6081, 4);
+    expect(results.periods[1].energyCost).toBeCloseTo(613.5639, 4);
+    expect(results.totalBill).toBeCloseTo(948.36, 2);
+  });
+});
+
+describe("withDatedSchedule", () => {
+  it("places an imported schedule at its own date, so earlier days keep the published rates", () => {
+    const catalogue = withDatedSchedule(tariffCatalogue, { id: "imported", label: "Imported", effectiveFrom: "2025-09-16", ...raised });
+    expect(catalogue.map((schedule) => schedule.effectiveFrom)).toEqual(["2025-07-01", "2025-09-16"]);
+    const results = calculateBill({ prevReading: 0, currReading: 310, startDate: "2025-09-01", endDate: "2025-10-02", tariffType: "nonResidential", prevBalance: 0, payments: 0, adjustment: 0, catalogue });
+    expect(results.totalBill).toBeCloseTo(billUnder("nonResidential", 310, "2025-09-01", "2025-10-02").totalBill, 6);
+  });
+
+  it("replaces a schedule that starts the same day and keeps the catalogue sorted", () => {
+    const earlier = withDatedSchedule(twoSchedules, { id: "q2", label: "Q2", effectiveFrom: "2025-04-01", ...defaultSchedule });
+    const replaced = withDatedSchedule(earlier, { id: "q4b", label: "Q4b", effectiveFrom: "2025-09-16", ...defaultSchedule });
+    expect(replaced.map((schedule) => schedule.id)).toEqual(["q2", "q3", "q4b"]);
+  });
+});
+
+describe("calculateBill: tariff change on the period boundary", () => {
+  it("bills wholly under the new schedule when it starts on the first day", () => {
+    const results = billUnder("nonResidential", 310, "2025-09-16", "2025-10-17");
+    expect(results.periods.map((period) => period.scheduleId)).toEqual(["q4"]);
+    expect(results.energyCost).toBeCloseTo(620, 6);
+  });
+
+  it("bills wholly under the old schedule when it starts on the reading date", () => {
+    const results = billUnder("nonResidential", 310, "2025-08-16", "2025-09-16");
+    expect(splitPeriod(twoSchedules, "2025-08-16", "2025-09-16")).toHaveLength(1);
+    expect(results.periods.map((period) => period.scheduleId)).toEqual(["q3"]);
+    expect(results.energyCost).toBeCloseTo(492.9, 6);
+  });
+
+  it("lets a bill check blame a superseded schedule", () => {
+    const input: BillInput = {
+      prevReading: 0,
+      currReading: 310,
+      startDate: "2025-10-01",
+      endDate: "2025-11-01",
+      tariffType: "nonResidential",
+      prevBalance: 0,
+      payments: 0,
+      adjustment: 0,
+      catalogue: twoSchedules,
+    };
+    expect(checkBill(input, { energyCost: 492.9 }).causes).toContainEqual({ kind: "outdatedRate", scheduleLabel: "Q3" });
+  });
+});
+
+describe("deriveUnits: meter events", () => {
+  it("counts through a register rollover", () => {
+    const derivation = deriveUnits(99950, 120, { kind: "rollover", digits: 5 });
+    expect(derivation.method).toBe("rollover");
+    expect(derivation.steps.map((step) => [step.kind, step.units])).toEqual([
+      ["beforeRollover", 50],
+      ["afterRollover", 120],
+    ]);
+  });
+
+  it("bills a register that rolled over to exactly zero", () => {
+    const results = bill("residential", 0, { prevReading: 999900, currReading: 0, meterEvent: { kind: "rollover", digits: 6 } });
+    expect(results.units).toBe(100);
+  });
+
+  it("never bills negative units for readings the register cannot show", () => {
+    const derivation = deriveUnits(123456, 100, { kind: "rollover", digits: 5 });
+    expect(derivation.steps.every((step) => step.units >= 0)).toBe(true);
+    expect(validateBillRequest({ prevReading: 123456, currReading: 100, meterEvent: { kind: "rollover", digits: 5 } })).toMatchObject({
+      ok: false,
+      issues: [{ field: "meterEvent.digits", code: "reading_exceeds_register" }],
+    });
+  });
+
+  it("adds the old and new meters after a replacement", () => {
+    const derivation = deriveUnits(48000, 90, { kind: "replacement", oldFinalReading: 48210, newStartReading: 0 });
+    expect(derivation.steps.map((step) => step.units)).toEqual([210, 90]);
+  });
+});
@@ -0,0 +1,539 @@
+export type Band = { limit: number; rate: number };
+
+/**
+ * How band limits read: "cumulative" limits are upper bounds ("up to 300 kWh"),
+ * "width" limits are the number of kWh in each band.
+ */
+export type BandMode = "cumulative" | "width";
+
+export type BandSet = { mode: BandMode; bands: Band[] };
+export type TariffKey =
+  | "lifeline"
+  | "residential"
+  | "nonResidential"
+  | "sltLowVoltage"
+  | "sltMediumVoltage"
+  | "sltHighVoltage";
+
+export type BandUsage = { used: number; rate: number; cost: number };
+
+/** Explains a reading that went backwards: the register wrapped, or the meter was swapped mid-cycle. */
+export type MeterEvent =
+  | { kind: "rollover"; digits: number }
+  | { kind: "replacement"; oldFinalReading: number; newStartReading: number };
+
+/** `kind` names the step for the interface's message catalogues; `label` is the English text the API returns. */
+export type UnitsStep = { kind: "advance" | "beforeRollover" | "afterRollover" | "oldMeter" | "newMeter"; label: string; from: number; to: number; units: number };
+
+export type UnitsDerivation = {
+  method: "direct" | MeterEvent["kind"];
+  steps: UnitsStep[];
+};
+
+export type LevyLine = { key: LevyKey; label: string; rate: number; amount: number };
+
+/**
+ * How a bidirectional meter's exports reduce the bill. "netUnits" takes
+ * exported kWh off imported kWh before the bands, crediting any surplus at
+ * the export rate; "exportCredit" bills every imported kWh and credits every
+ * exported one.
+ */
+export type NettingRule = "netUnits" | "exportCredit";
+
+/** The export register and netting terms; the import register is prevReading/currReading. */
+export type NetMetering = {
+  exportPrev: number;
+  exportCurr: number;
+  rule: NettingRule;
+  /** GHS credited per exported kWh. */
+  exportRate: number;
+  /** Deduct the credit from the energy charge before levies, so levies are charged on the net amount. */
+  creditBeforeLevies: boolean;
+};
+
+export type NetMeteringResult = {
+  rule: NettingRule;
+  grossImport: number;
+  exported: number;
+  /** kWh run through the bands. */
+  billableUnits: number;
+  /** Exported kWh paid for at the export rate. */
+  creditedUnits: number;
+  exportCredit: number;
+};
+
+export type CalculationResults = {
+  tariffType: TariffKey;
+  units: number;
+  unitsDerivation: UnitsDerivation;
+  billingDays: number;
+  periods: SubPeriod[];
+  bandBreakdown: BandUsage[];
+  energyCost: number;
+  demandCharge: number;
+  serviceCharge: number;
+  levyLines: LevyLine[];
+  natElectLevy: number;
+  streetLight: number;
+  nhilGetFund: number;
+  vat: number;
+  totalBill: number;
+  adjustment: number;
+  payable: number;
+  netMetering?: NetMeteringResult;
+};
+
+export type LevyRates = {
+  streetLight: number;
+  nel: number;
+  nhilGetFund: number;
+  vat: number;
+};
+
+export type LevyKey = keyof LevyRates;
+
+export type TariffCategory = {
+  label: string;
+  bandMode: BandMode;
+  bands: Band[];
+  /** Flat charge per 31 days, prorated by billing days. */
+  serviceCharge: number;
+  /** Levies charged on this category's energy and demand charges. */
+  levies: LevyKey[];
+  /** GHS per kVA of maximum demand per 31 days, for SLT customers. */
+  demandRate?: number;
+  /** Consumption above `maxUnits` loses lifeline status and is billed as `fallback`. */
+  lifeline?: { maxUnits: number; fallback: TariffKey };
+};
+
+export type RateSchedule = {
+  categories: Record<TariffKey, TariffCategory>;
+  levies: LevyRates;
+};
+
+/** A rate schedule as published by PURC, in force from `effectiveFrom` (YYYY-MM-DD) until the next one. */
+export type TariffSchedule = RateSchedule & {
+  id: string;
+  label: string;
+  effectiveFrom: string;
+};
+
+export type SubPeriod = {
+  scheduleId: string;
+  label: string;
+  startDate: string;
+  endDate: string;
+  days: number;
+  units: number;
+  bandBreakdown: BandUsage[];
+  energyCost: number;
+  serviceCharge: number;
+};
+
+export type BillInput = {
+  prevReading: number;
+  currReading: number;
+  startDate: string;
+  endDate: string;
+  tariffType: TariffKey;
+  prevBalance: number;
+  payments: number;
+  adjustment: number;
+  maxDemandKva?: number;
+  meterEvent?: MeterEvent;
+  netMetering?: NetMetering;
+  catalogue?: TariffSchedule[];
+};
+
+export const levyRates: LevyRates = {
+  streetLight: 0.03,
+  nel: 0.02,
+  nhilGetFund: 0.05,
+  vat: 0.15,
+};
+
+// Display order of levy lines on the bill.
+export const levyKeys: LevyKey[] = ["nel", "streetLight", "nhilGetFund", "vat"];
+
+export const levyLabels: Record<LevyKey, string> = {
+  nel: "Nat'l Elect Levy",
+  streetLight: "Street Light",
+  nhilGetFund: "NHIL & GETFund",
+  vat: "VAT",
+};
+
+export const tariffCategories: Record<TariffKey, TariffCategory> = {
+  lifeline: {
+    label: "Residential Lifeline (0–30 kWh)",
+    bandMode: "cumulative",
+    bands: [{ limit: Infinity, rate: 0.7 }],
+    serviceCharge: 0,
+    levies: ["streetLight", "nel"],
+    lifeline: { maxUnits: 30, fallback: "residential" },
+  },
+  residential: {
+    label: "Residential",
+    bandMode: "cumulative",
+    bands: [
+      { limit: 50, rate: 1.4878 },
+      { limit: 250, rate: 1.9 },
+      { limit: 300, rate: 2.3 },
+      { limit: Infinity, rate: 2.5 },
+    ],
+    serviceCharge: 2.13,
+    levies: ["streetLight", "nel"],
+  },
+  nonResidential: {
+    label: "Non-Residential",
+    bandMode: "cumulative",
+    bands: [{ limit: Infinity, rate: 1.59 }],
+    serviceCharge: 12.43,
+    levies: ["streetLight", "nel", "nhilGetFund", "vat"],
+  },
+  sltLowVoltage: {
+    label: "SLT Low Voltage",
+    bandMode: "cumulative",
+    bands: [{ limit: Infinity, rate: 2.05 }],
+    serviceCharge: 500,
+    levies: ["streetLight", "nel", "nhilGetFund", "vat"],
+    demandRate: 120,
+  },
+  sltMediumVoltage: {
+    label: "SLT Medium Voltage",
+    bandMode: "cumulative",
+    bands: [{ limit: Infinity, rate: 1.78 }],
+    serviceCharge: 500,
+    levies: ["streetLight", "nel", "nhilGetFund", "vat"],
+    demandRate: 110,
+  },
+  sltHighVoltage: {
+    label: "SLT High Voltage",
+    bandMode: "cumulative",
+    bands: [{ limit: Infinity, rate: 1.69 }],
+    serviceCharge: 500,
+    levies: ["streetLight", "nel", "nhilGetFund", "vat"],
+    demandRate: 100,
+  },
+};
+
+export const tariffKeys = Object.keys(tariffCategories) as TariffKey[];
+
+export const isTariffKey = (value: unknown): value is TariffKey =>
+  typeof value === "string" && (tariffKeys as string[]).includes(value);
+
+export const defaultSchedule: RateSchedule = {
+  categories: tariffCategories,
+  levies: levyRates,
+};
+
+export const bandsOf = (schedule: RateSchedule) =>
+  Object.fromEntries(
+    tariffKeys.map((key) => [key, { mode: schedule.categories[key].bandMode, bands: schedule.categories[key].bands }]),
+  ) as Record<TariffKey, BandSet>;
+
+export const initialRates = bandsOf(defaultSchedule);
+
+// Append new PURC reviews here; entries must stay sorted by effectiveFrom.
+export const tariffCatalogue: TariffSchedule[] = [
+  { id: "2025-q3", label: "PURC Q3 2025", effectiveFrom: "2025-07-01", ...defaultSchedule },
+];
+
+// Service charges are quoted per 31-day month and prorated by billing days.
+export const STANDARD_BILLING_DAYS = 31;
+
+export const sanitizeAdjustmentInput = (raw: string) => {
+  let value = raw.replace(/[^0-9+.-]/g, "");
+  if (value.length === 0) return "";
+  const signMatch = value.match(/^[+-]/);
+  const sign = signMatch ? signMatch[0] : "";
+  value = sign + value.slice(sign.length).replace(/[+-]/g, "");
+  const unsigned = value.slice(sign.length);
+  const parts = unsigned.split(".");
+  const integerPart = parts[0];
+  const decimalPart = parts.slice(1).join("");
+  const normalizedInteger = integerPart.replace(/^0+(?=\d)/, "");
+  const trimmedInteger = normalizedInteger === "" && integerPart.includes("0") ? "0" : normalizedInteger;
+  const result = sign + trimmedInteger + (decimalPart ? "." + decimalPart : "");
+  return result;
+};
+
+/** Parses a sanitized amount string; blank or unparseable input counts as zero. */
+export const parseAmount = (raw: string) => {
+  const normalized = sanitizeAdjustmentInput(raw);
+  const parsed = normalized.trim() === "" ? 0 : Number(normalized);
+  return Number.isNaN(parsed) ? 0 : parsed;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDayNumber = (date: string) => Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+
+const fromDayNumber = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+export const isIsoDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+
+export const todayIso = () => new Date().toISOString().slice(0, 10);
+
+export const addDays = (date: string, days: number) => fromDayNumber(toDayNumber(date) + days);
+
+/** Days between two readings; a reading on 1 Jan and the next on 1 Feb is a 31-day period. */
+export const daysBetween = (startDate: string, endDate: string) => toDayNumber(endDate) - toDayNumber(startDate);
+
+/** The period of `days` billing days that ends on `endDate` (today by default). */
+export const periodEndingOn = (days: number, endDate = todayIso()) => ({
+  startDate: addDays(endDate, -days),
+  endDate,
+});
+
+export const scheduleAt = (catalogue: TariffSchedule[], date: string) => {
+  let active = catalogue[0];
+  for (const schedule of catalogue) {
+    if (schedule.effectiveFrom <= date) active = schedule;
+  }
+  return active;
+};
+
+/** Splits [startDate, endDate) at every tariff change that falls inside it. */
+export const splitPeriod = (catalogue: TariffSchedule[], startDate: string, endDate: string) => {
+  const segments: { schedule: TariffSchedule; startDate: string; endDate: string }[] = [];
+  let cursor = startDate;
+  for (const schedule of catalogue) {
+    if (schedule.effectiveFrom > cursor && schedule.effectiveFrom < endDate) {
+      segments.push({ schedule: scheduleAt(catalogue, cursor), startDate: cursor, endDate: schedule.effectiveFrom });
+      cursor = schedule.effectiveFrom;
+    }
+  }
+  segments.push({ schedule: scheduleAt(catalogue, cursor), startDate: cursor, endDate });
+  return segments;
+};
+
+export const DEFAULT_REGISTER_DIGITS = 6;
+/** Register sizes the calculator offers for a rollover. */
+export const registerDigitOptions = [5, 6];
+
+/**
+ * Turns the readings into billed kWh. Readings too large for a rolled-over
+ * register are rejected by validateBillRequest and the form; here they are
+ * clamped so no step bills negative units.
+ */
+export const deriveUnits = (prevReading: number, currReading: number, meterEvent?: MeterEvent): UnitsDerivation => {
+  if (meterEvent?.kind === "rollover") {
+    const wrap = 10 ** meterEvent.digits;
+    if (currReading >= prevReading) {
+      return { method: "direct", steps: [{ kind: "advance", label: "Register advance", from: prevReading, to: currReading, units: currReading - prevReading }] };
+    }
+    return {
+      method: "rollover",
+      steps: [
+        { kind: "beforeRollover", label: `Up to rollover (${meterEvent.digits} digits)`, from: prevReading, to: wrap, units: Math.max(wrap - prevReading, 0) },
+        { kind: "afterRollover", label: "After rollover", from: 0, to: currReading, units: Math.min(currReading, wrap) },
+      ],
+    };
+  }
+  if (meterEvent?.kind === "replacement") {
+    return {
+      method: "replacement",
+      steps: [
+        { kind: "oldMeter", label: "Old meter", from: prevReading, to: meterEvent.oldFinalReading, units: Math.max(meterEvent.oldFinalReading - prevReading, 0) },
+        { kind: "newMeter", label: "New meter", from: meterEvent.newStartReading, to: currReading, units: Math.max(currReading - meterEvent.newStartReading, 0) },
+      ],
+    };
+  }
+  return { method: "direct", steps: [{ kind: "advance", label: "Register advance", from: prevReading, to: currReading, units: Math.max(currReading - prevReading, 0) }] };
+};
+
+export const withBands = (schedule: RateSchedule, bands: Record<TariffKey, BandSet>): RateSchedule => ({
+  ...schedule,
+  categories: Object.fromEntries(
+    tariffKeys.map((key) => [key, { ...schedule.categories[key], bandMode: bands[key].mode, bands: bands[key].bands }]),
+  ) as Record<TariffKey, TariffCategory>,
+});
+
+/** Applies an edited schedule to the latest catalogue entry, leaving earlier schedules as published. */
+export const withLatestSchedule = (catalogue: TariffSchedule[], edited: RateSchedule) =>
+  catalogue.map((schedule, index) =>
+    index === catalogue.length - 1 ? { ...schedule, categories: edited.categories, levies: edited.levies } : schedule,
+  );
+
+/** Adds a schedule at its effectiveFrom, replacing one that starts the same day; the catalogue stays sorted. */
+export const withDatedSchedule = (catalogue: TariffSchedule[], schedule: TariffSchedule) =>
+  [...catalogue.filter((entry) => entry.effectiveFrom !== schedule.effectiveFrom), schedule].sort((a, b) =>
+    a.effectiveFrom.localeCompare(b.effectiveFrom),
+  );
+
+/** The category actually billed: lifeline customers above the threshold fall back to their regular tariff. */
+export const resolveTariff = (schedule: RateSchedule, tariffType: TariffKey, units: number): TariffKey => {
+  const { lifeline } = schedule.categories[tariffType];
+  return lifeline && units > lifeline.maxUnits ? lifeline.fallback : tariffType;
+};
+
+/** The number of kWh each band covers. */
+export const bandWidths = (bands: Band[], mode: BandMode) => {
+  let floor = 0;
+  return bands.map((band) => {
+    if (mode === "width") return band.limit;
+    const width = band.limit - floor;
+    floor = band.limit;
+    return width;
+  });
+};
+
+/** The kWh range each band covers, e.g. 51–250 for the second residential band. */
+export const bandRanges = (bands: Band[], mode: BandMode) => {
+  let from = 0;
+  return bandWidths(bands, mode).map((width) => {
+    const range = { from, to: from + width };
+    from += width;
+    return range;
+  });
+};
+
+/** Rewrites limits in the other mode while keeping every band's kWh range. */
+export const convertBandMode = (bands: Band[], from: BandMode, to: BandMode): Band[] => {
+  if (from === to) return bands;
+  const limits = to === "width" ? bandWidths(bands, from) : bandRanges(bands, from).map((range) => range.to);
+  return bands.map((band, index) => ({ ...band, limit: limits[index] }));
+};
+
+/** `code` and `params` are for the interface's message catalogues; `message` is the English text tariff files and the API report. */
+export type BandIssue =
+  | { index: number; code: "negativeRate" | "lastBandBounded" | "limitNotPositive"; message: string }
+  | { index: number; code: "limitNotRising"; previous: number; message: string };
+
+export const validateBands = (bands: Band[], mode: BandMode): BandIssue[] => {
+  const issues: BandIssue[] = [];
+  let previous = 0;
+  bands.forEach((band, index) => {
+    const isLast = index === bands.length - 1;
+    if (!Number.isFinite(band.rate) || band.rate < 0) {
+      issues.push({ index, code: "negativeRate", message: "Rate must be zero or more" });
+    }
+    if (isLast) {
+      if (band.limit !== Infinity) issues.push({ index, code: "lastBandBounded", message: "The last band must be open-ended" });
+      return;
+    }
+    if (!Number.isFinite(band.limit) || band.limit <= 0) {
+      issues.push({ index, code: "limitNotPositive", message: "Limit must be greater than zero" });
+    } else if (mode === "cumulative" && band.limit <= previous) {
+      issues.push({ index, code: "limitNotRising", previous, message: `Limit must be higher than the previous band's ${previous} kWh` });
+    }
+    if (Number.isFinite(band.limit)) previous = band.limit;
+  });
+  return issues;
+};
+
+export const walkBands = (units: number, bands: Band[], mode: BandMode, scale = 1) => {
+  const widths = bandWidths(bands, mode);
+  let remaining = units;
+  let energyCost = 0;
+  const bandBreakdown: BandUsage[] = [];
+
+  for (const [index, band] of bands.entries()) {
+    if (remaining <= 0) break;
+    const used = Math.min(remaining, widths[index] * scale);
+    const cost = used * band.rate;
+    energyCost += cost;
+    bandBreakdown.push({ used, rate: band.rate, cost });
+    remaining -= used;
+  }
+
+  return { energyCost, bandBreakdown };
+};
+
+export const applyNetting = (grossImport: number, terms: NetMetering): NetMeteringResult => {
+  const exported = Math.max(terms.exportCurr - terms.exportPrev, 0);
+  const billableUnits = terms.rule === "netUnits" ? Math.max(grossImport - exported, 0) : grossImport;
+  const creditedUnits = terms.rule === "netUnits" ? Math.max(exported - grossImport, 0) : exported;
+  return { rule: terms.rule, grossImport, exported, billableUnits, creditedUnits, exportCredit: creditedUnits * terms.exportRate };
+};
+
+export const calculateBill = (input: BillInput): CalculationResults => {
+  const catalogue = input.catalogue ?? tariffCatalogue;
+  const unitsDerivation = deriveUnits(input.prevReading, input.currReading, input.meterEvent);
+  const grossImport = unitsDerivation.steps.reduce((sum, step) => sum + step.units, 0);
+  const netMetering = input.netMetering ? applyNetting(grossImport, input.netMetering) : undefined;
+  const units = netMetering?.billableUnits ?? grossImport;
+  const billingDays = Math.max(daysBetween(input.startDate, input.endDate), 0);
+  const segments = splitPeriod(catalogue, input.startDate, input.endDate);
+
+  const periods: SubPeriod[] = [];
+  const levyTotals = new Map<LevyKey, { rate: number; amount: number }>();
+  let tariffType = input.tariffType;
+  let energyCost = 0;
+  let demandCharge = 0;
+  let serviceCharge = 0;
+
+  for (const segment of segments) {
+    const { schedule } = segment;
+    tariffType = resolveTariff(schedule, input.tariffType, units);
+    const category = schedule.categories[tariffType];
+    const days = Math.max(daysBetween(segment.startDate, segment.endDate), 0);
+    // Consumption and band widths are shared out by the segment's share of the billing days.
+    const share = billingDays > 0 ? days / billingDays : 1;
+    const segmentUnits = units * share;
+    const walk = walkBands(segmentUnits, category.bands, category.bandMode, share);
+    const segmentDemand = (category.demandRate ?? 0) * (input.maxDemandKva ?? 0) * (days / STANDARD_BILLING_DAYS);
+    const segmentService = category.serviceCharge * (days / STANDARD_BILLING_DAYS);
+    const segmentCredit = (netMetering?.exportCredit ?? 0) * share;
+
+    // VAT is charged on the energy and demand charges plus every other levy.
+    const levyBase = Math.max(walk.energyCost + segmentDemand - (input.netMetering?.creditBeforeLevies ? segmentCredit : 0), 0);
+    let vatBase = levyBase;
+    for (const key of levyKeys) {
+      if (!category.levies.includes(key)) continue;
+      const rate = schedule.levies[key];
+      const amount = key === "vat" ? vatBase * rate : levyBase * rate;
+      if (key !== "vat") vatBase += amount;
+      const total = levyTotals.get(key);
+      levyTotals.set(key, { rate, amount: (total?.amount ?? 0) + amount });
+    }
+
+    energyCost += walk.energyCost;
+    demandCharge += segmentDemand;
+    serviceCharge += segmentService;
+
+    periods.push({
+      scheduleId: schedule.id,
+      label: schedule.label,
+      startDate: segment.startDate,
+      endDate: segment.endDate,
+      days,
+      units: segmentUnits,
+      bandBreakdown: walk.bandBreakdown,
+      energyCost: walk.energyCost,
+      serviceCharge: segmentService,
+    });
+  }
+
+  const levyLines: LevyLine[] = levyKeys
+    .filter((key) => levyTotals.has(key))
+    .map((key) => ({ key, label: levyLabels[key], ...levyTotals.get(key)! }));
+  const levyAmount = (key: LevyKey) => levyTotals.get(key)?.amount ?? 0;
+  const totalLevies = levyLines.reduce((sum, line) => sum + line.amount, 0);
+  const totalBill = energyCost + demandCharge + totalLevies + serviceCharge - (netMetering?.exportCredit ?? 0);
+  const payable = totalBill + input.prevBalance - input.payments + input.adjustment;
+
+  return {
+    tariffType,
+    units,
+    unitsDerivation,
+    billingDays,
+    periods,
+    bandBreakdown: periods.flatMap((period) => period.bandBreakdown),
+    energyCost,
+    demandCharge,
+    serviceCharge,
+    levyLines,
+    natElectLevy: levyAmount("nel"),
+    streetLight: levyAmount("streetLight"),
+    nhilGetFund: levyAmount("nhilGetFund"),
+    vat: levyAmount("vat"),
+    totalBill,
+    adjustment: input.adjustment,
+    payable,
+    ...(netMetering ? { netMetering } : {}),
+  };
+};
+
+/** Highest band reached in any tariff period, counting from 1. */
+export const topBandOf = (results: CalculationResults) => Math.max(0, ...results.periods.map((period) => period.bandBreakdown.length));
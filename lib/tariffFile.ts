@@ -0,0 +1,242 @@
+import { isRecord } from "@/lib/json";
+import {
+  defaultSchedule,
+  isIsoDate,
+  isTariffKey,
+  levyKeys,
+  tariffCatalogue,
+  tariffKeys,
+  validateBands,
+  withDatedSchedule,
+  withLatestSchedule,
+  type Band,
+  type LevyKey,
+  type LevyRates,
+  type RateSchedule,
+  type TariffCategory,
+  type TariffKey,
+  type TariffSchedule,
+} from "@/lib/tariffEngine";
+
+export const TARIFF_FILE_FORMAT = "ecg-tariff";
+export const TARIFF_FILE_VERSION = 1;
+export const CUSTOM_TARIFF_KEY = "ecg_custom_tariff";
+export const IMPORTED_TARIFFS_KEY = "ecg_imported_tariffs";
+
+/** Open-ended bands are written with `limit: null`, since JSON has no Infinity. */
+type FileBand = { limit: number | null; rate: number };
+
+type FileCategory = Omit<TariffCategory, "bands"> & { bands: FileBand[] };
+
+export type TariffFile = {
+  format: typeof TARIFF_FILE_FORMAT;
+  version: typeof TARIFF_FILE_VERSION;
+  name: string;
+  effectiveFrom: string;
+  levies: LevyRates;
+  categories: Partial<Record<TariffKey, FileCategory>>;
+};
+
+export type TariffFileMeta = { name: string; effectiveFrom: string };
+
+export type ParsedTariffFile =
+  | { ok: true; schedule: RateSchedule; meta: TariffFileMeta }
+  | { ok: false; errors: string[] };
+
+export const toTariffFile = (schedule: RateSchedule, meta: TariffFileMeta): TariffFile => ({
+  format: TARIFF_FILE_FORMAT,
+  version: TARIFF_FILE_VERSION,
+  ...meta,
+  levies: schedule.levies,
+  categories: Object.fromEntries(
+    tariffKeys.map((key) => {
+      const category = schedule.categories[key];
+      const bands = category.bands.map((band) => ({ limit: Number.isFinite(band.limit) ? band.limit : null, rate: band.rate }));
+      return [key, { ...category, bands }];
+    }),
+  ),
+});
+
+export const serializeTariffFile = (schedule: RateSchedule, meta: TariffFileMeta) =>
+  JSON.stringify(toTariffFile(schedule, meta), null, 2);
+
+const isNonNegative = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+const parseBands = (raw: unknown, path: string, errors: string[]): Band[] | null => {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    errors.push(`${path} must be a non-empty list of bands`);
+    return null;
+  }
+  const bands: Band[] = [];
+  raw.forEach((band, index) => {
+    const at = `${path}[${index}]`;
+    if (!isRecord(band)) {
+      errors.push(`${at} must be an object with limit and rate`);
+      return;
+    }
+    const isLast = index === raw.length - 1;
+    // Saved history decodes open-ended bands back to Infinity before they get here.
+    const open = band.limit === null || band.limit === Infinity;
+    if (open && !isLast) errors.push(`${at}.limit can only be null on the last band`);
+    else if (!open && (typeof band.limit !== "number" || !Number.isFinite(band.limit))) errors.push(`${at}.limit must be a number or null`);
+    if (!isNonNegative(band.rate)) errors.push(`${at}.rate must be a number of 0 or more`);
+    bands.push({ limit: open ? Infinity : Number(band.limit), rate: Number(band.rate) });
+  });
+  return bands;
+};
+
+const parseCategory = (key: TariffKey, raw: unknown, errors: string[]): TariffCategory | null => {
+  const path = `categories.${key}`;
+  if (!isRecord(raw)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  const before = errors.length;
+  const fallback = defaultSchedule.categories[key];
+  const bandMode = raw.bandMode ?? fallback.bandMode;
+  if (bandMode !== "cumulative" && bandMode !== "width") errors.push(`${path}.bandMode must be "cumulative" or "width"`);
+  const bands = parseBands(raw.bands, `${path}.bands`, errors);
+  if (bands && errors.length === before && (bandMode === "cumulative" || bandMode === "width")) {
+    validateBands(bands, bandMode).forEach((issue) => errors.push(`${path}.bands[${issue.index}]: ${issue.message}`));
+  }
+  if (!isNonNegative(raw.serviceCharge)) errors.push(`${path}.serviceCharge must be a number of 0 or more`);
+  const levies = raw.levies ?? fallback.levies;
+  if (!Array.isArray(levies) || levies.some((levy) => !(levyKeys as unknown[]).includes(levy))) {
+    errors.push(`${path}.levies must list levies from: ${levyKeys.join(", ")}`);
+  }
+  if (raw.demandRate !== undefined && !isNonNegative(raw.demandRate)) errors.push(`${path}.demandRate must be a number of 0 or more`);
+  const lifeline = raw.lifeline;
+  if (lifeline !== undefined) {
+    if (!isRecord(lifeline) || !isNonNegative(lifeline.maxUnits) || !isTariffKey(lifeline.fallback) || lifeline.fallback === key) {
+      errors.push(`${path}.lifeline needs maxUnits and a fallback category other than ${key}`);
+    }
+  }
+  if (errors.length > before) return null;
+
+  return {
+    label: typeof raw.label === "string" && raw.label.trim() !== "" ? raw.label : fallback.label,
+    bandMode: bandMode as TariffCategory["bandMode"],
+    bands: bands!,
+    serviceCharge: raw.serviceCharge as number,
+    levies: levies as LevyKey[],
+    ...(raw.demandRate !== undefined ? { demandRate: raw.demandRate as number } : {}),
+    ...(lifeline !== undefined ? { lifeline: lifeline as TariffCategory["lifeline"] } : {}),
+  };
+};
+
+/**
+ * Validates a tariff file. Categories the file leaves out keep the published
+ * schedule, so a file can carry just the categories that changed.
+ */
+export const parseTariffFile = (text: string): ParsedTariffFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, errors: [`Not valid JSON: ${(error as Error).message}`] };
+  }
+  return parseTariffData(raw);
+};
+
+/** Validates a tariff file that has already been decoded from JSON. */
+export const parseTariffData = (raw: unknown): ParsedTariffFile => {
+  if (!isRecord(raw)) return { ok: false, errors: ["The file must contain a JSON object"] };
+  if (raw.format !== TARIFF_FILE_FORMAT) return { ok: false, errors: [`format must be "${TARIFF_FILE_FORMAT}"`] };
+  if (typeof raw.version !== "number" || raw.version > TARIFF_FILE_VERSION) {
+    return { ok: false, errors: [`version ${String(raw.version)} is not supported; this calculator reads version ${TARIFF_FILE_VERSION}`] };
+  }
+
+  const errors: string[] = [];
+  const name = typeof raw.name === "string" ? raw.name : "Custom tariff";
+  const effectiveFrom = typeof raw.effectiveFrom === "string" ? raw.effectiveFrom : "";
+  if (effectiveFrom !== "" && !isIsoDate(effectiveFrom)) errors.push("effectiveFrom must be a YYYY-MM-DD date");
+
+  const levies = { ...defaultSchedule.levies };
+  if (!isRecord(raw.levies)) errors.push("levies must be an object of rates such as { \"vat\": 0.15 }");
+  else {
+    for (const key of levyKeys) {
+      const rate = raw.levies[key];
+      if (rate === undefined) continue;
+      if (!isNonNegative(rate) || rate > 1) errors.push(`levies.${key} must be a fraction between 0 and 1 (0.15 = 15%)`);
+      else levies[key] = rate;
+    }
+  }
+
+  const categories = { ...defaultSchedule.categories };
+  if (!isRecord(raw.categories)) errors.push("categories must be an object keyed by tariff category");
+  else {
+    for (const [key, value] of Object.entries(raw.categories)) {
+      if (!isTariffKey(key)) {
+        errors.push(`categories.${key} is not a known category (${tariffKeys.join(", ")})`);
+        continue;
+      }
+      const category = parseCategory(key, value, errors);
+      if (category) categories[key] = category;
+    }
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, schedule: { categories, levies }, meta: { name, effectiveFrom } };
+};
+
+export const loadCustomSchedule = (): RateSchedule | null => {
+  try {
+    const raw = localStorage.getItem(CUSTOM_TARIFF_KEY);
+    if (raw === null) return null;
+    const parsed = parseTariffFile(raw);
+    return parsed.ok ? parsed.schedule : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveCustomSchedule = (schedule: RateSchedule) => {
+  try {
+    localStorage.setItem(CUSTOM_TARIFF_KEY, serializeTariffFile(schedule, { name: "Custom tariff", effectiveFrom: "" }));
+  } catch {}
+};
+
+/** An imported file with a start date takes its place in the tariff history instead of replacing the latest schedule. */
+export const toImportedSchedule = (schedule: RateSchedule, meta: TariffFileMeta): TariffSchedule => ({
+  ...schedule,
+  id: `imported-${meta.effectiveFrom}`,
+  label: meta.name,
+  effectiveFrom: meta.effectiveFrom,
+});
+
+export const loadImportedSchedules = (): TariffSchedule[] => {
+  try {
+    const files: unknown = JSON.parse(localStorage.getItem(IMPORTED_TARIFFS_KEY) ?? "[]");
+    if (!Array.isArray(files)) return [];
+    return files.flatMap((file) => {
+      const parsed = parseTariffData(file);
+      return parsed.ok && isIsoDate(parsed.meta.effectiveFrom) ? [toImportedSchedule(parsed.schedule, parsed.meta)] : [];
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveImportedSchedules = (schedules: TariffSchedule[]) => {
+  try {
+    if (schedules.length === 0) localStorage.removeItem(IMPORTED_TARIFFS_KEY);
+    else {
+      const files = schedules.map((schedule) => toTariffFile(schedule, { name: schedule.label, effectiveFrom: schedule.effectiveFrom }));
+      localStorage.setItem(IMPORTED_TARIFFS_KEY, JSON.stringify(files));
+    }
+  } catch {}
+};
+
+/** The published catalogue with the imported schedules in place and the rate editor's changes on the latest one. */
+export const customCatalogue = (imported: TariffSchedule[], edited: RateSchedule | null) => {
+  const catalogue = imported.reduce(withDatedSchedule, tariffCatalogue);
+  return edited ? withLatestSchedule(catalogue, edited) : catalogue;
+};
+
+/** Forgets edited and imported rates alike. */
+export const clearCustomSchedule = () => {
+  try {
+    localStorage.removeItem(CUSTOM_TARIFF_KEY);
+    localStorage.removeItem(IMPORTED_TARIFFS_KEY);
+  } catch {}
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { defaultSplitRules, splitBill, type SplitRules, type TenantReading } from "@/lib/tenantSplit";
+import type { BillInput } from "@/lib/tariffEngine";
+
+const main = (units: number, extra: Partial<BillInput> = {}): BillInput => ({
+  prevReading: 5000,
+  currReading: 5000 + units,
+  startDate: "2025-09-01",
+  endDate: "2025-10-02",
+  tariffType: "residential",
+  prevBalance: 0,
+  payments: 0,
+  adjustment: 0,
+  ...extra,
+});
+
+const tenants = (...units: number[]): TenantReading[] =>
+  units.map((used, index) => ({ name: `Tenant ${index + 1}`, prevReading: 100 * index, currReading: 100 * index + used }));
+
+const pesewas = (amount: number) => Math.round(amount * 100);
+
+const everyRule: SplitRules[] = (["consumption", "standalone", "even"] as const).flatMap((energy) =>
+  (["even", "consumption"] as const).flatMap((charges) => (["even", "consumption"] as const).map((remainder) => ({ energy, charges, remainder }))),
+);
+
+describe("splitBill", () => {
+  it.each([
+    ["three tenants with unmetered common areas", main(433), tenants(101, 157.3, 96)],
+    ["sub-meters that add up to more than the main meter", main(200), tenants(120, 95)],
+    ["a tenant who used nothing", main(77.7), tenants(0, 51, 13)],
+    ["an SLT bill with a demand charge", main(1234, { tariffType: "sltLowVoltage", maxDemandKva: 23 }), tenants(400, 333, 299)],
+  ])("shares %s sum exactly to the main bill under every rule", (_, input, readings) => {
+    for (const rules of everyRule) {
+      const split = splitBill(input, readings, rules);
+      const sum = split.shares.reduce((acc, share) => acc + pesewas(share.total), 0);
+      expect(sum, JSON.stringify(rules)).toBe(pesewas(split.main.totalBill));
+    }
+  });
+
+  it("charges each tenant whole pesewas", () => {
+    for (const share of splitBill(main(433), tenants(101, 157.3, 96), defaultSplitRules).shares) {
+      for (const amount of [share.energy, share.remainder, share.charges, share.total]) expect(pesewas(amount) / 100).toBe(amount);
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import { calculateBill, type BillInput, type CalculationResults } from "@/lib/tariffEngine";
+
+export type TenantReading = { name: string; prevReading: number; currReading: number };
+
+export type SplitRules = {
+  /**
+   * "consumption" shares the banded energy charge by kWh; "standalone" weights it by
+   * what each tenant's usage would cost billed alone, so light users keep the cheaper bands.
+   */
+  energy: "consumption" | "standalone" | "even";
+  /** Service charge, demand charge and levies. */
+  charges: "even" | "consumption";
+  /** Unmetered units: common areas and losses between the main meter and the sub-meters. */
+  remainder: "even" | "consumption";
+};
+
+export type TenantShare = {
+  name: string;
+  units: number;
+  energy: number;
+  remainder: number;
+  charges: number;
+  total: number;
+};
+
+export type SplitResult = {
+  main: CalculationResults;
+  meteredUnits: number;
+  remainderUnits: number;
+  /** The sub-meters add up to more than the main meter recorded. */
+  overMetered: boolean;
+  shares: TenantShare[];
+};
+
+export const defaultSplitRules: SplitRules = { energy: "consumption", charges: "even", remainder: "consumption" };
+
+const weighted = (total: number, weights: number[]) => {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0);
+  return weights.map((weight) => (sum > 0 ? (total * weight) / sum : total / weights.length));
+};
+
+/** Rounds to pesewas so the parts add up exactly to `total` (largest remainder method). */
+export const allocatePesewas = (parts: number[], total: number) => {
+  const target = Math.round(total * 100);
+  const raw = parts.map((part) => part * 100);
+  const floors = raw.map(Math.floor);
+  let leftover = target - floors.reduce((acc, value) => acc + value, 0);
+  const order = raw.map((value, index) => ({ index, fraction: value - floors[index] })).sort((a, b) => b.fraction - a.fraction);
+  for (let i = 0; leftover !== 0 && order.length > 0; i = (i + 1) % order.length) {
+    floors[order[i].index] += leftover > 0 ? 1 : -1;
+    leftover += leftover > 0 ? -1 : 1;
+  }
+  return floors.map((value) => value / 100);
+};
+
+export const splitBill = (mainInput: BillInput, tenants: TenantReading[], rules: SplitRules): SplitResult => {
+  const main = calculateBill(mainInput);
+  const units = tenants.map((tenant) => Math.max(tenant.currReading - tenant.prevReading, 0));
+  const meteredUnits = units.reduce((sum, value) => sum + value, 0);
+  const overMetered = meteredUnits > main.units;
+  const remainderUnits = Math.max(main.units - meteredUnits, 0);
+
+  const energyPool = main.units > 0 ? main.energyCost * (1 - remainderUnits / main.units) : main.energyCost;
+  const remainderPool = main.energyCost - energyPool;
+  const chargesPool = main.totalBill - main.energyCost;
+
+  const standaloneCost = (tenantUnits: number) =>
+    calculateBill({ ...mainInput, prevReading: 0, currReading: tenantUnits, meterEvent: undefined }).energyCost;
+  const energyWeights =
+    rules.energy === "even" ? units.map(() => 1) : rules.energy === "standalone" ? units.map(standaloneCost) : units;
+
+  const energy = weighted(energyPool, energyWeights);
+  const remainder = weighted(remainderPool, rules.remainder === "even" ? units.map(() => 1) : units);
+  const charges = weighted(chargesPool, rules.charges === "even" ? units.map(() => 1) : units);
+
+  // Round each column to its own pesewa total, then let charges absorb the difference so the tenants sum to the bill.
+  const energyTotal = Math.round(energyPool * 100) / 100;
+  const remainderTotal = Math.round(remainderPool * 100) / 100;
+  const chargesTotal = Math.round(main.totalBill * 100) / 100 - energyTotal - remainderTotal;
+  const energyRounded = allocatePesewas(energy, energyTotal);
+  const remainderRounded = allocatePesewas(remainder, remainderTotal);
+  const chargesRounded = allocatePesewas(charges, chargesTotal);
+
+  return {
+    main,
+    meteredUnits,
+    remainderUnits,
+    overMetered,
+    shares: tenants.map((tenant, index) => ({
+      name: tenant.name,
+      units: units[index],
+      energy: energyRounded[index],
+      remainder: remainderRounded[index],
+      charges: chargesRounded[index],
+      total: Math.round((energyRounded[index] + remainderRounded[index] + chargesRounded[index]) * 100) / 100,
+    })),
+  };
+};
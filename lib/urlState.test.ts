@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { calculateBill, defaultSchedule, tariffCatalogue, withDatedSchedule } from "@/lib/tariffEngine";
+import { decodeShareState, encodeShareState, type ShareableState } from "@/lib/urlState";
+
+const shared: ShareableState = {
+  prevReading: 999500,
+  currReading: 400,
+  startDate: "2025-09-01",
+  endDate: "2025-10-02",
+  tariffType: "sltLowVoltage",
+  prevBalance: "120.50",
+  payments: 100,
+  adjustment: "-10",
+  quickMode: false,
+  maxDemandKva: 40,
+  meterEvent: { kind: "rollover", digits: 6 },
+  netMetering: { exportPrev: 100, exportCurr: 160, rule: "exportCredit", exportRate: 0.5, creditBeforeLevies: true },
+  schedule: {
+    categories: {
+      ...defaultSchedule.categories,
+      sltLowVoltage: { ...defaultSchedule.categories.sltLowVoltage, serviceCharge: 600, demandRate: 120 },
+    },
+    levies: { ...defaultSchedule.levies, vat: 0.125 },
+  },
+  ratesFrom: "2025-10-01",
+};
+
+const billFor = (state: ShareableState) =>
+  calculateBill({
+    prevReading: state.prevReading,
+    currReading: state.currReading ?? 0,
+    startDate: state.startDate,
+    endDate: state.endDate,
+    tariffType: state.tariffType,
+    prevBalance: Number(state.prevBalance),
+    payments: state.payments,
+    adjustment: Number(state.adjustment),
+    maxDemandKva: state.maxDemandKva,
+    ...(state.meterEvent ? { meterEvent: state.meterEvent } : {}),
+    ...(state.netMetering ? { netMetering: state.netMetering } : {}),
+    catalogue: withDatedSchedule(tariffCatalogue, { ...state.schedule, id: "shared", label: "Shared rates", effectiveFrom: state.ratesFrom }),
+  });
+
+describe("share links", () => {
+  it("reopen a rollover SLT bill with edited charges from a later date at the same total", () => {
+    const { state, invalid } = decodeShareState(encodeShareState(shared));
+
+    expect(invalid).toEqual([]);
+    expect(state).toEqual(shared);
+    expect(billFor(state as ShareableState).payable).toBe(billFor(shared).payable);
+  });
+
+  it("carry a meter replacement", () => {
+    const replacement = { ...shared, meterEvent: { kind: "replacement" as const, oldFinalReading: 999900, newStartReading: 0 } };
+    expect(decodeShareState(encodeShareState(replacement)).state.meterEvent).toEqual(replacement.meterEvent);
+  });
+
+  it("fall back to the defaults for tampered parameters and name each one", () => {
+    const params = new URLSearchParams(encodeShareState(shared));
+    params.set("prev", "-5");
+    params.set("curr", "12abc");
+    params.set("tariff", "industrial");
+    params.set("bal", "1e3");
+    params.set("digits", "7");
+    params.delete("expCurr");
+    params.set("from", "2025-10-05");
+    params.set("rates", btoa(JSON.stringify({ residential: { mode: "cumulative", bands: [{ limit: "Infinity", rate: -1 }] } })));
+    params.set("ratesFrom", "next week");
+
+    const { state, invalid, present } = decodeShareState(params.toString());
+
+    expect(present).toBe(true);
+    expect(invalid.sort()).toEqual(["bal", "curr", "event", "from", "prev", "rates", "ratesFrom", "solar", "tariff", "to"]);
+    for (const field of ["prevReading", "currReading", "tariffType", "prevBalance", "meterEvent", "netMetering", "startDate", "endDate", "schedule", "ratesFrom"]) {
+      expect(state).not.toHaveProperty(field);
+    }
+    expect(state).toMatchObject({ payments: 100, adjustment: "-10", maxDemandKva: 40 });
+  });
+
+  it("ignore rates that are not base64 JSON", () => {
+    expect(decodeShareState("prev=10&rates=%%%not-json").invalid).toEqual(["rates"]);
+  });
+});
@@ -0,0 +1,260 @@
+import { decodeInfinity, encodeInfinity, isRecord } from "@/lib/json";
+import {
+  bandsOf,
+  defaultSchedule,
+  isIsoDate,
+  isTariffKey,
+  levyKeys,
+  registerDigitOptions,
+  sanitizeAdjustmentInput,
+  tariffCatalogue,
+  tariffKeys,
+  validateBands,
+  type BandSet,
+  type LevyRates,
+  type MeterEvent,
+  type NetMetering,
+  type RateSchedule,
+  type TariffCategory,
+  type TariffKey,
+} from "@/lib/tariffEngine";
+
+export type ShareableState = {
+  prevReading: number;
+  /** Null when no current reading has been entered; 0 is a real reading after a rollover. */
+  currReading: number | null;
+  startDate: string;
+  endDate: string;
+  tariffType: TariffKey;
+  prevBalance: string;
+  payments: number;
+  adjustment: string;
+  quickMode: boolean;
+  maxDemandKva: number;
+  meterEvent: MeterEvent | null;
+  netMetering: NetMetering | null;
+  schedule: RateSchedule;
+  /** When the rates start; a link only carries it for rates imported with a date after the published schedule's. */
+  ratesFrom: string;
+};
+
+// Short parameter names keep shared links readable in chat apps.
+const PARAMS: Record<keyof ShareableState, string> = {
+  prevReading: "prev",
+  currReading: "curr",
+  startDate: "from",
+  endDate: "to",
+  tariffType: "tariff",
+  prevBalance: "bal",
+  payments: "paid",
+  adjustment: "adj",
+  quickMode: "quick",
+  maxDemandKva: "kva",
+  meterEvent: "event",
+  netMetering: "solar",
+  schedule: "rates",
+  ratesFrom: "ratesFrom",
+};
+
+// The meter event and export register each need several values; they travel next to their kind and rule.
+const EVENT_PARAMS = { digits: "digits", oldFinalReading: "oldEnd", newStartReading: "newStart" };
+const SOLAR_PARAMS = { exportPrev: "expPrev", exportCurr: "expCurr", exportRate: "expRate", creditBeforeLevies: "expFirst" };
+
+const toBase64Url = (text: string) => btoa(text).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+const fromBase64Url = (text: string) => atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a, encodeInfinity) === JSON.stringify(b, encodeInfinity);
+
+type SharedCategory = BandSet & { serviceCharge?: number; demandRate?: number };
+type SharedRates = Partial<Record<TariffKey, SharedCategory>> & { levies?: LevyRates };
+
+// Only what differs from the published schedule travels in the link; the rest falls back to it.
+const editedRates = (schedule: RateSchedule): SharedRates => {
+  const rates: SharedRates = {};
+  const bands = bandsOf(schedule);
+  const published = bandsOf(defaultSchedule);
+  for (const key of tariffKeys) {
+    const category = schedule.categories[key];
+    const base = defaultSchedule.categories[key];
+    const chargeEdited = category.serviceCharge !== base.serviceCharge;
+    const demandEdited = category.demandRate !== base.demandRate;
+    if (!sameJson(bands[key], published[key]) || chargeEdited || demandEdited) {
+      rates[key] = {
+        ...bands[key],
+        ...(chargeEdited ? { serviceCharge: category.serviceCharge } : {}),
+        ...(demandEdited && category.demandRate !== undefined ? { demandRate: category.demandRate } : {}),
+      };
+    }
+  }
+  if (!sameJson(schedule.levies, defaultSchedule.levies)) rates.levies = schedule.levies;
+  return rates;
+};
+
+export const encodeShareState = (state: ShareableState) => {
+  const params = new URLSearchParams();
+  params.set(PARAMS.prevReading, String(state.prevReading));
+  if (state.currReading !== null) params.set(PARAMS.currReading, String(state.currReading));
+  params.set(PARAMS.quickMode, state.quickMode ? "1" : "0");
+  params.set(PARAMS.tariffType, state.tariffType);
+  if (!state.quickMode) {
+    params.set(PARAMS.startDate, state.startDate);
+    params.set(PARAMS.endDate, state.endDate);
+    if (state.prevBalance) params.set(PARAMS.prevBalance, state.prevBalance);
+    if (state.payments) params.set(PARAMS.payments, String(state.payments));
+    if (state.adjustment) params.set(PARAMS.adjustment, state.adjustment);
+  }
+  if (state.maxDemandKva) params.set(PARAMS.maxDemandKva, String(state.maxDemandKva));
+  if (state.meterEvent?.kind === "rollover") {
+    params.set(PARAMS.meterEvent, "rollover");
+    params.set(EVENT_PARAMS.digits, String(state.meterEvent.digits));
+  } else if (state.meterEvent?.kind === "replacement") {
+    params.set(PARAMS.meterEvent, "replacement");
+    params.set(EVENT_PARAMS.oldFinalReading, String(state.meterEvent.oldFinalReading));
+    params.set(EVENT_PARAMS.newStartReading, String(state.meterEvent.newStartReading));
+  }
+  if (state.netMetering) {
+    params.set(PARAMS.netMetering, state.netMetering.rule);
+    params.set(SOLAR_PARAMS.exportPrev, String(state.netMetering.exportPrev));
+    params.set(SOLAR_PARAMS.exportCurr, String(state.netMetering.exportCurr));
+    if (state.netMetering.exportRate) params.set(SOLAR_PARAMS.exportRate, String(state.netMetering.exportRate));
+    if (state.netMetering.creditBeforeLevies) params.set(SOLAR_PARAMS.creditBeforeLevies, "1");
+  }
+  const rates = editedRates(state.schedule);
+  if (Object.keys(rates).length > 0) {
+    params.set(PARAMS.schedule, toBase64Url(JSON.stringify(rates, encodeInfinity)));
+    if (state.ratesFrom !== tariffCatalogue[tariffCatalogue.length - 1].effectiveFrom) params.set(PARAMS.ratesFrom, state.ratesFrom);
+  }
+  return params.toString();
+};
+
+const isReading = (value: number) => Number.isFinite(value) && value >= 0;
+
+const isAmountText = (value: string) => value === sanitizeAdjustmentInput(value) && !Number.isNaN(Number(value));
+
+const isCharge = (value: unknown): value is number => typeof value === "number" && isReading(value);
+
+const parseCategory = (set: unknown, base: TariffCategory): TariffCategory | null => {
+  if (
+    !isRecord(set) ||
+    (set.mode !== "cumulative" && set.mode !== "width") ||
+    !Array.isArray(set.bands) ||
+    set.bands.some((band) => typeof band?.limit !== "number" || typeof band?.rate !== "number") ||
+    validateBands(set.bands, set.mode).length > 0 ||
+    (set.serviceCharge !== undefined && !isCharge(set.serviceCharge)) ||
+    (set.demandRate !== undefined && !isCharge(set.demandRate))
+  ) {
+    return null;
+  }
+  return {
+    ...base,
+    bandMode: set.mode,
+    bands: set.bands.map((band: { limit: number; rate: number }) => ({ limit: band.limit, rate: band.rate })),
+    serviceCharge: set.serviceCharge ?? base.serviceCharge,
+    ...(set.demandRate !== undefined ? { demandRate: set.demandRate } : {}),
+  };
+};
+
+// Levies are fractions; the rate editor allows 0–100%.
+const parseLevies = (raw: unknown): LevyRates | null => {
+  if (!isRecord(raw)) return null;
+  const levies = { ...defaultSchedule.levies };
+  for (const key of levyKeys) {
+    const rate = raw[key];
+    if (rate === undefined) continue;
+    if (!isCharge(rate) || rate > 1) return null;
+    levies[key] = rate;
+  }
+  return levies;
+};
+
+const parseSchedule = (raw: string): RateSchedule | null => {
+  try {
+    const parsed: unknown = JSON.parse(fromBase64Url(raw), decodeInfinity);
+    if (!isRecord(parsed)) return null;
+    const categories = { ...defaultSchedule.categories };
+    for (const key of tariffKeys) {
+      if (parsed[key] === undefined) continue;
+      const category = parseCategory(parsed[key], defaultSchedule.categories[key]);
+      if (!category) return null;
+      categories[key] = category;
+    }
+    const levies = parsed.levies === undefined ? defaultSchedule.levies : parseLevies(parsed.levies);
+    return levies ? { categories, levies } : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads whatever the link carries. Fields that fail validation are left out
+ * and named in `invalid`, so the page keeps its defaults for them.
+ */
+export const decodeShareState = (search: string) => {
+  const params = new URLSearchParams(search);
+  const state: Partial<ShareableState> = {};
+  const invalid: string[] = [];
+  const read = (key: keyof ShareableState, accept: (raw: string) => boolean, apply: (raw: string) => void) => {
+    const raw = params.get(PARAMS[key]);
+    if (raw === null) return;
+    if (accept(raw)) apply(raw);
+    else invalid.push(PARAMS[key]);
+  };
+  const reading = (name: string) => {
+    const raw = params.get(name);
+    return raw !== null && raw !== "" && isReading(Number(raw)) ? Number(raw) : null;
+  };
+
+  read("prevReading", (raw) => isReading(Number(raw)), (raw) => (state.prevReading = Number(raw)));
+  read("currReading", (raw) => isReading(Number(raw)), (raw) => (state.currReading = Number(raw)));
+  read("startDate", isIsoDate, (raw) => (state.startDate = raw));
+  read("endDate", isIsoDate, (raw) => (state.endDate = raw));
+  read("tariffType", isTariffKey, (raw) => (state.tariffType = raw as TariffKey));
+  read("prevBalance", isAmountText, (raw) => (state.prevBalance = raw.replace(/^\+/, "")));
+  read("payments", (raw) => isReading(Number(raw)), (raw) => (state.payments = Number(raw)));
+  read("adjustment", isAmountText, (raw) => (state.adjustment = raw));
+  read("quickMode", (raw) => raw === "0" || raw === "1", (raw) => (state.quickMode = raw === "1"));
+  read("maxDemandKva", (raw) => isReading(Number(raw)), (raw) => (state.maxDemandKva = Number(raw)));
+
+  const digits = Number(params.get(EVENT_PARAMS.digits));
+  const oldFinalReading = reading(EVENT_PARAMS.oldFinalReading);
+  const newStartReading = reading(EVENT_PARAMS.newStartReading);
+  read(
+    "meterEvent",
+    (raw) => (raw === "rollover" && registerDigitOptions.includes(digits)) || (raw === "replacement" && oldFinalReading !== null && newStartReading !== null),
+    (raw) => (state.meterEvent = raw === "rollover" ? { kind: "rollover", digits } : { kind: "replacement", oldFinalReading: oldFinalReading!, newStartReading: newStartReading! }),
+  );
+
+  const exportPrev = reading(SOLAR_PARAMS.exportPrev);
+  const exportCurr = reading(SOLAR_PARAMS.exportCurr);
+  const exportRate = params.has(SOLAR_PARAMS.exportRate) ? reading(SOLAR_PARAMS.exportRate) : 0;
+  const creditBeforeLevies = params.get(SOLAR_PARAMS.creditBeforeLevies) ?? "0";
+  read(
+    "netMetering",
+    (raw) => (raw === "netUnits" || raw === "exportCredit") && exportPrev !== null && exportCurr !== null && exportRate !== null && (creditBeforeLevies === "0" || creditBeforeLevies === "1"),
+    (raw) =>
+      (state.netMetering = {
+        rule: raw as NetMetering["rule"],
+        exportPrev: exportPrev!,
+        exportCurr: exportCurr!,
+        exportRate: exportRate!,
+        creditBeforeLevies: creditBeforeLevies === "1",
+      }),
+  );
+
+  read("ratesFrom", isIsoDate, (raw) => (state.ratesFrom = raw));
+
+  const rates = params.get(PARAMS.schedule);
+  if (rates !== null) {
+    const parsed = parseSchedule(rates);
+    if (parsed) state.schedule = parsed;
+    else invalid.push(PARAMS.schedule);
+  }
+  if (state.startDate && state.endDate && state.startDate > state.endDate) {
+    delete state.startDate;
+    delete state.endDate;
+    invalid.push(PARAMS.startDate, PARAMS.endDate);
+  }
+
+  return { state, invalid, present: [...params.keys()].some((key) => (Object.values(PARAMS) as string[]).includes(key)) };
+};
+
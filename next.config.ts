@@ -1,8 +1,16 @@
 import type { NextConfig } from "next";
 
+// One id per build, shared by Next and the service worker URL so a new
+// deployment is picked up as a service worker update.
+const buildId = process.env.BUILD_ID || Date.now().toString(36);
+
 const nextConfig: NextConfig = {
   /* config options here */
   reactStrictMode: true,
+  generateBuildId: async () => buildId,
+  env: {
+    NEXT_PUBLIC_BUILD_ID: buildId,
+  },
 };
 
 export default nextConfig;
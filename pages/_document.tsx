@@ -13,7 +13,8 @@ export default function Document() {
             <>
               <link rel="icon" href="/official_ecg_logo.jpg?v=2" sizes="32x32" type="image/jpeg" />
               <link rel="shortcut icon" href="/official_ecg_logo.jpg?v=2" type="image/jpeg" />
-              <link rel="apple-touch-icon" href="/official_ecg_logo.jpg?v=2" />
+              <link rel="apple-touch-icon" href="/icon-192.png" />
+              <link rel="manifest" href="/manifest.webmanifest" />
               <link rel="image_src" href="/official_ecg_logo.jpg?v=2" />
               {siteUrl && <link rel="canonical" href={siteUrl} />}
               <meta name="theme-color" content="#0033a1" />
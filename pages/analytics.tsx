@@ -0,0 +1,5 @@
+import ConsumptionDashboard from "../components/ConsumptionDashboard";
+
+export default function Analytics() {
+  return <ConsumptionDashboard />;
+}
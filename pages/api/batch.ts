@@ -0,0 +1,36 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { batchResultsCsv, runBatch, type BatchRow } from "@/lib/batchBilling";
+
+type Data = { rows: BatchRow[] } | { error: string; errors?: string[] };
+
+/**
+ * POST a CSV as the raw body (Content-Type: text/csv) or as `{ "csv": "…" }`.
+ * Responds with every row's result as JSON, or as a CSV with `?format=csv`.
+ */
+export default function handler(req: NextApiRequest, res: NextApiResponse<Data | string>) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    res.status(405).json({ error: "method_not_allowed" });
+    return;
+  }
+
+  const text = typeof req.body === "string" ? req.body : req.body?.csv;
+  if (typeof text !== "string") {
+    res.status(400).json({ error: "invalid_input", errors: ["Send the CSV as a text/csv body or as { \"csv\": \"...\" }"] });
+    return;
+  }
+
+  const batch = runBatch(text);
+  if (!batch.ok) {
+    res.status(400).json({ error: "invalid_csv", errors: batch.errors });
+    return;
+  }
+
+  if (req.query.format === "csv") {
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", 'attachment; filename="ecg-batch-results.csv"');
+    res.status(200).send(batchResultsCsv(batch.rows));
+    return;
+  }
+  res.status(200).json({ rows: batch.rows });
+}
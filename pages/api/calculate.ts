@@ -0,0 +1,23 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { validateBillRequest, type ValidationIssue } from "@/lib/billValidation";
+import { calculateBill, type BillInput, type CalculationResults } from "@/lib/tariffEngine";
+
+type Data =
+  | { input: BillInput; results: CalculationResults }
+  | { error: string; issues?: ValidationIssue[] };
+
+export default function handler(req: NextApiRequest, res: NextApiResponse<Data>) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    res.status(405).json({ error: "method_not_allowed" });
+    return;
+  }
+
+  const validation = validateBillRequest(req.body);
+  if (!validation.ok) {
+    res.status(400).json({ error: "invalid_input", issues: validation.issues });
+    return;
+  }
+
+  res.status(200).json({ input: validation.input, results: calculateBill(validation.input) });
+}
@@ -0,0 +1,36 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { decodedBody, queryParam, rejectMethod, sendJson, validateCycle } from "@/lib/householdApi";
+import { deleteCycle, getCycle, getHousehold, replaceCycle } from "@/lib/householdStore";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (rejectMethod(req, res, ["GET", "PUT", "DELETE"])) return;
+  const householdId = queryParam(req, "id");
+  const cycleId = queryParam(req, "cycleId");
+
+  if (req.method === "GET") {
+    const cycle = await getCycle(householdId, cycleId);
+    if (cycle) sendJson(res, 200, { cycle });
+    else sendJson(res, 404, { error: "not_found" });
+    return;
+  }
+
+  if (req.method === "DELETE") {
+    if (await deleteCycle(householdId, cycleId)) res.status(204).end();
+    else sendJson(res, 404, { error: "not_found" });
+    return;
+  }
+
+  const household = await getHousehold(householdId);
+  if (!household) {
+    sendJson(res, 404, { error: "not_found" });
+    return;
+  }
+  const validation = validateCycle(decodedBody(req), household.tariffType);
+  if (!validation.ok) {
+    sendJson(res, 400, { error: "invalid_input", issues: validation.issues });
+    return;
+  }
+  const cycle = await replaceCycle(householdId, cycleId, { ...validation.cycle, updatedAt: new Date().toISOString() });
+  if (cycle) sendJson(res, 200, { cycle });
+  else sendJson(res, 404, { error: "not_found" });
+}
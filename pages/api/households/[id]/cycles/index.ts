@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { decodedBody, queryParam, rejectMethod, sendJson, validateCycle } from "@/lib/householdApi";
+import { addCycle, getHousehold, listCycles } from "@/lib/householdStore";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (rejectMethod(req, res, ["GET", "POST"])) return;
+  const householdId = queryParam(req, "id");
+
+  if (req.method === "GET") {
+    const cycles = await listCycles(householdId);
+    if (cycles) sendJson(res, 200, { cycles });
+    else sendJson(res, 404, { error: "not_found" });
+    return;
+  }
+
+  const household = await getHousehold(householdId);
+  if (!household) {
+    sendJson(res, 404, { error: "not_found" });
+    return;
+  }
+  const validation = validateCycle(decodedBody(req), household.tariffType);
+  if (!validation.ok) {
+    sendJson(res, 400, { error: "invalid_input", issues: validation.issues });
+    return;
+  }
+  const cycle = await addCycle(householdId, validation.cycle);
+  if (cycle) sendJson(res, 201, { cycle });
+  else sendJson(res, 404, { error: "not_found" });
+}
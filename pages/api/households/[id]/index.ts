@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { decodedBody, queryParam, rejectMethod, sendJson, validateHousehold } from "@/lib/householdApi";
+import { deleteHousehold, getHousehold, updateHousehold } from "@/lib/householdStore";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (rejectMethod(req, res, ["GET", "PUT", "PATCH", "DELETE"])) return;
+  const id = queryParam(req, "id");
+
+  if (req.method === "GET") {
+    const household = await getHousehold(id);
+    if (household) sendJson(res, 200, { household });
+    else sendJson(res, 404, { error: "not_found" });
+    return;
+  }
+
+  if (req.method === "DELETE") {
+    if (await deleteHousehold(id)) res.status(204).end();
+    else sendJson(res, 404, { error: "not_found" });
+    return;
+  }
+
+  // PUT replaces every field; PATCH changes only the fields sent.
+  const validation = validateHousehold(decodedBody(req), { partial: req.method === "PATCH" });
+  if (!validation.ok) {
+    sendJson(res, 400, { error: "invalid_input", issues: validation.issues });
+    return;
+  }
+  const household = await updateHousehold(id, validation.fields);
+  if (household) sendJson(res, 200, { household });
+  else sendJson(res, 404, { error: "not_found" });
+}
@@ -0,0 +1,35 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { decodedBody, queryParam, rejectMethod, sendJson, validateCycles } from "@/lib/householdApi";
+import { getHousehold, syncCycles } from "@/lib/householdStore";
+
+/**
+ * POST `{ cycles, deleted }` from a device's history; responds with the
+ * household's merged history and the cycles that failed validation and were left out.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (rejectMethod(req, res, ["POST"])) return;
+  const householdId = queryParam(req, "id");
+
+  const household = await getHousehold(householdId);
+  if (!household) {
+    sendJson(res, 404, { error: "not_found" });
+    return;
+  }
+
+  const body = decodedBody(req) as { cycles?: unknown; deleted?: unknown } | null;
+  if (!Array.isArray(body?.cycles)) {
+    sendJson(res, 400, { error: "invalid_input", issues: [{ field: "cycles", code: "invalid_type", message: "cycles must be a list of billing cycles" }] });
+    return;
+  }
+
+  const deleted = body.deleted ?? [];
+  if (!Array.isArray(deleted) || deleted.some((id) => typeof id !== "string")) {
+    sendJson(res, 400, { error: "invalid_input", issues: [{ field: "deleted", code: "invalid_type", message: "deleted must be a list of cycle ids" }] });
+    return;
+  }
+
+  const { cycles, rejected } = validateCycles(body.cycles, household.tariffType);
+  const merged = await syncCycles(householdId, cycles, deleted as string[]);
+  if (merged) sendJson(res, 200, { cycles: merged, rejected });
+  else sendJson(res, 404, { error: "not_found" });
+}
@@ -0,0 +1,19 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { decodedBody, rejectMethod, sendJson, validateHousehold } from "@/lib/householdApi";
+import { createHousehold, listHouseholds, type HouseholdFields } from "@/lib/householdStore";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (rejectMethod(req, res, ["GET", "POST"])) return;
+
+  if (req.method === "GET") {
+    sendJson(res, 200, { households: await listHouseholds() });
+    return;
+  }
+
+  const validation = validateHousehold(decodedBody(req));
+  if (!validation.ok) {
+    sendJson(res, 400, { error: "invalid_input", issues: validation.issues });
+    return;
+  }
+  sendJson(res, 201, { household: await createHousehold(validation.fields as HouseholdFields) });
+}
@@ -0,0 +1,5 @@
+import BatchCalculator from "../components/BatchCalculator";
+
+export default function Batch() {
+  return <BatchCalculator />;
+}
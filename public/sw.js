@@ -0,0 +1,78 @@
+// Service worker for offline use. The page registers it as /sw.js?build=<id>,
+// so every deployment installs a fresh worker with its own cache.
+const BUILD = new URL(self.location.href).searchParams.get("build") || "dev";
+const CACHE = `ecg-shell-${BUILD}`;
+const SHELL_PAGES = ["/", "/analytics", "/batch"];
+const SHELL_FILES = ["/manifest.webmanifest", "/official_ecg_logo.jpg", "/official_ecg_logo.jpg?v=2", "/icon-192.png", "/icon-512.png", "/icon-maskable-512.png"];
+
+// Pulls the hashed script and style URLs out of a prerendered page so the
+// chunks it needs are cached alongside it.
+const assetsIn = (html) =>
+  Array.from(html.matchAll(/(?:src|href)="(\/_next\/static\/[^"]+)"/g), (match) => match[1].replace(/&amp;/g, "&"));
+
+const precache = async () => {
+  const cache = await caches.open(CACHE);
+  await cache.addAll(SHELL_FILES);
+  for (const page of SHELL_PAGES) {
+    const response = await fetch(page, { cache: "no-cache" });
+    if (!response.ok) throw new Error(`Could not precache ${page}: ${response.status}`);
+    const html = await response.clone().text();
+    await cache.put(page, response);
+    await cache.addAll([...new Set(assetsIn(html))]);
+  }
+};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precache());
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key.startsWith("ecg-shell-") && key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+// The page asks the waiting worker to take over once the user accepts the update prompt.
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    // Shared links carry inputs in the query string, so match the page without it.
+    const cached = (await cache.match(request, { ignoreSearch: true })) || (await cache.match("/"));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request));
+  } else if (url.pathname.startsWith("/_next/static/") || SHELL_FILES.includes(url.pathname + url.search)) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(networkFirst(request));
+  }
+});
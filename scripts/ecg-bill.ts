@@ -0,0 +1,7 @@
+/**
+ * Entry point for `npm run bill`. `npm run build` bundles it with esbuild into
+ * build/ecg-bill.cjs, which runs on Node alone; the command itself is lib/billCli.ts.
+ */
+import { main } from "@/lib/billCli";
+
+process.exitCode = main(process.argv.slice(2));
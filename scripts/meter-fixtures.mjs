@@ -0,0 +1,254 @@
+/**
+ * Draws the meter images in lib/fixtures/meters that lib/meterOcr.test.ts
+ * reads. They are synthetic: an LCD register with faint unlit segments, and
+ * printed drum counters, with shading and sensor noise. Real photos can be
+ * added next to them; list each in readings.json with what it shows.
+ *
+ * Run with `node scripts/meter-fixtures.mjs` after changing a drawing.
+ */
+import { mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { deflateSync } from "zlib";
+
+const OUT = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "lib", "fixtures", "meters");
+
+// Seeded, so regenerating gives byte-identical files.
+const random = (seed) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 2 ** 32;
+};
+
+const canvas = (width, height, [r, g, b]) => {
+  const data = new Uint8ClampedArray(width * height * 3);
+  for (let i = 0; i < data.length; i += 3) data.set([r, g, b], i);
+  return { width, height, data };
+};
+
+const blend = (image, x, y, [r, g, b], alpha = 1) => {
+  if (x < 0 || y < 0 || x >= image.width || y >= image.height) return;
+  const i = (y * image.width + x) * 3;
+  image.data[i] += (r - image.data[i]) * alpha;
+  image.data[i + 1] += (g - image.data[i + 1]) * alpha;
+  image.data[i + 2] += (b - image.data[i + 2]) * alpha;
+};
+
+const fillRect = (image, x0, y0, width, height, color, alpha = 1) => {
+  for (let y = Math.round(y0); y < Math.round(y0 + height); y++) {
+    for (let x = Math.round(x0); x < Math.round(x0 + width); x++) blend(image, x, y, color, alpha);
+  }
+};
+
+const fillPolygon = (image, points, color, alpha = 1) => {
+  const ys = points.map(([, y]) => y);
+  for (let y = Math.floor(Math.min(...ys)); y <= Math.ceil(Math.max(...ys)); y++) {
+    const crossings = [];
+    points.forEach(([x1, y1], i) => {
+      const [x2, y2] = points[(i + 1) % points.length];
+      if ((y1 <= y + 0.5) !== (y2 <= y + 0.5)) crossings.push(x1 + ((y + 0.5 - y1) / (y2 - y1)) * (x2 - x1));
+    });
+    crossings.sort((a, b) => a - b);
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      for (let x = Math.round(crossings[i]); x < Math.round(crossings[i + 1]); x++) blend(image, x, y, color, alpha);
+    }
+  }
+};
+
+/** A thick stroke along a polyline, with round ends. */
+const stroke = (image, points, width, color, clip) => {
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const pad = width;
+  for (let y = Math.floor(Math.min(...ys) - pad); y <= Math.ceil(Math.max(...ys) + pad); y++) {
+    if (clip && (y < clip.top || y >= clip.bottom)) continue;
+    for (let x = Math.floor(Math.min(...xs) - pad); x <= Math.ceil(Math.max(...xs) + pad); x++) {
+      let nearest = Infinity;
+      for (let i = 0; i + 1 < points.length; i++) {
+        const [x1, y1] = points[i];
+        const [x2, y2] = points[i + 1];
+        const length = (x2 - x1) ** 2 + (y2 - y1) ** 2 || 1;
+        const t = Math.max(0, Math.min(1, ((x - x1) * (x2 - x1) + (y - y1) * (y2 - y1)) / length));
+        nearest = Math.min(nearest, Math.hypot(x - x1 - t * (x2 - x1), y - y1 - t * (y2 - y1)));
+      }
+      // One pixel of antialiasing at the edge.
+      const alpha = Math.max(0, Math.min(1, width / 2 + 0.5 - nearest));
+      if (alpha > 0) blend(image, x, y, color, alpha);
+    }
+  }
+};
+
+const arc = (cx, cy, rx, ry, from, to, steps = 24) =>
+  Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = ((from + ((to - from) * i) / steps) * Math.PI) / 180;
+    return [cx + rx * Math.cos(angle), cy + ry * Math.sin(angle)];
+  });
+
+// Printed numerals as strokes in a unit box (x 0–1, y 0–1, y downwards); angles are clockwise from 3 o'clock.
+const glyphs = {
+  0: [arc(0.5, 0.5, 0.42, 0.5, 0, 360, 40)],
+  1: [[[0.25, 0.2], [0.55, 0]], [[0.55, 0], [0.55, 1]]],
+  2: [[...arc(0.5, 0.28, 0.4, 0.28, 190, 380), [0.08, 1], [0.92, 1]]],
+  3: [arc(0.5, 0.25, 0.38, 0.25, 200, 450), arc(0.5, 0.74, 0.42, 0.26, 270, 520)],
+  4: [[[0.72, 1], [0.72, 0], [0.05, 0.7], [0.95, 0.7]]],
+  5: [[[0.88, 0], [0.18, 0], [0.12, 0.45]], arc(0.5, 0.68, 0.42, 0.32, 215, 520)],
+  6: [[[0.8, 0.05], ...arc(0.62, 0.6, 0.55, 0.62, 250, 180, 12)], arc(0.5, 0.7, 0.42, 0.3, 0, 360, 32)],
+  7: [[[0.05, 0], [0.95, 0], [0.35, 1]]],
+  8: [arc(0.5, 0.24, 0.34, 0.24, 0, 360, 32), arc(0.5, 0.73, 0.42, 0.27, 0, 360, 32)],
+  9: [arc(0.5, 0.3, 0.42, 0.3, 0, 360, 32), [...arc(0.38, 0.4, 0.55, 0.62, 0, 70, 12), [0.2, 0.95]]],
+};
+
+const drawGlyph = (image, digit, x, y, width, height, strokeWidth, color, clip) => {
+  for (const line of glyphs[digit]) stroke(image, line.map(([u, v]) => [x + u * width, y + v * height]), strokeWidth, color, clip);
+};
+
+// Which segments each numeral lights, as on ECG's electronic meters.
+const lit = { 0: "abcdef", 1: "bc", 2: "abdeg", 3: "abcdg", 4: "bcfg", 5: "acdfg", 6: "acdefg", 7: "abc", 8: "abcdefg", 9: "abcdfg" };
+
+/** A seven-segment digit: each segment a bevelled bar, `slant` pixels of italic lean from bottom to top. */
+const drawSegments = (image, digit, x, y, width, height, thickness, color, ghost) => {
+  const half = thickness / 2;
+  const mid = y + height / 2;
+  const lean = (px, py, slant) => [px + ((y + height - py) / height) * slant, py];
+  const horizontal = (cy) => [
+    [x + half, cy],
+    [x + thickness, cy - half],
+    [x + width - thickness, cy - half],
+    [x + width - half, cy],
+    [x + width - thickness, cy + half],
+    [x + thickness, cy + half],
+  ];
+  const vertical = (cx, top, bottom) => [
+    [cx, top + half],
+    [cx + half, top + thickness],
+    [cx + half, bottom - thickness],
+    [cx, bottom - half],
+    [cx - half, bottom - thickness],
+    [cx - half, top + thickness],
+  ];
+  const shapes = {
+    a: horizontal(y + half),
+    b: vertical(x + width - half, y + half, mid),
+    c: vertical(x + width - half, mid, y + height - half),
+    d: horizontal(y + height - half),
+    e: vertical(x + half, mid, y + height - half),
+    f: vertical(x + half, y + half, mid),
+    g: horizontal(mid),
+  };
+  for (const [segment, shape] of Object.entries(shapes)) {
+    const on = lit[digit].includes(segment);
+    if (!on && !ghost) continue;
+    fillPolygon(image, shape.map(([px, py]) => lean(px, py, 3)), color, on ? 1 : ghost);
+  }
+};
+
+/** Light falling off towards one corner, then sensor noise. */
+const finish = (image, seed, { shade = 0.25, noise = 10 } = {}) => {
+  const next = random(seed);
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const light = 1 - shade * ((x / image.width + y / image.height) / 2);
+      const grain = (next() - 0.5) * 2 * noise;
+      const i = (y * image.width + x) * 3;
+      for (let c = 0; c < 3; c++) image.data[i + c] = image.data[i + c] * light + grain;
+    }
+  }
+  return image;
+};
+
+const lcd = (text, seed, { ghost = 0.12, decimals = 0 } = {}) => {
+  const digitWidth = 34;
+  const digitHeight = 60;
+  const gap = 12;
+  const image = canvas(60 + text.length * (digitWidth + gap), 130, [196, 204, 178]);
+  // Bezel and the window's darker rim.
+  fillRect(image, 0, 0, image.width, 10, [60, 62, 60]);
+  fillRect(image, 0, image.height - 10, image.width, 10, [60, 62, 60]);
+  [...text].forEach((digit, i) => {
+    const x = 30 + i * (digitWidth + gap);
+    drawSegments(image, Number(digit), x, 35, digitWidth, digitHeight, 8, [34, 40, 36], ghost);
+    if (decimals > 0 && i === text.length - decimals - 1) fillRect(image, x + digitWidth + 3, 35 + digitHeight - 7, 6, 7, [34, 40, 36]);
+  });
+  return finish(image, seed);
+};
+
+/** Wheels are either dark with white numerals or light with black ones; the last wheel's numerals are red on both. */
+const drum = (text, seed, { light = false, turning = 0 } = {}) => {
+  const cellWidth = 40;
+  const cellHeight = 72;
+  const gap = 8;
+  const image = canvas(40 + text.length * (cellWidth + gap), 140, [36, 36, 38]);
+  const wheel = light ? [238, 236, 228] : [28, 28, 30];
+  const ink = light ? [20, 20, 22] : [236, 236, 232];
+  [...text].forEach((digit, i) => {
+    const x = 24 + i * (cellWidth + gap);
+    const top = 34;
+    // A wheel is a cylinder: brightest across its middle.
+    for (let y = 0; y < cellHeight; y++) {
+      const curve = 1 - 0.35 * ((y / cellHeight - 0.5) * 2) ** 2;
+      fillRect(image, x, top + y, cellWidth, 1, wheel.map((c) => c * curve));
+    }
+    const clip = { top, bottom: top + cellHeight };
+    const glyphHeight = 46;
+    const last = i === text.length - 1;
+    // The last wheel can be caught between numerals, showing the bottom of one and the top of the next.
+    const offset = last ? turning * cellHeight : 0;
+    const y = top + (cellHeight - glyphHeight) / 2 - offset;
+    const color = last ? [200, 36, 36] : ink;
+    drawGlyph(image, Number(digit), x + 9, y, cellWidth - 18, glyphHeight, 5, color, clip);
+    if (last && turning > 0) drawGlyph(image, (Number(digit) + 1) % 10, x + 9, y + cellHeight, cellWidth - 18, glyphHeight, 5, color, clip);
+  });
+  return finish(image, seed, { shade: 0.35, noise: 12 });
+};
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes) => {
+  let c = 0xffffffff;
+  for (const byte of bytes) c = crcTable[(c ^ byte) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type, body) => {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(body.length, 0);
+  head.write(type, 4, "ascii");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([head.subarray(4), body])), 0);
+  return Buffer.concat([head, body, crc]);
+};
+
+/** An 8-bit RGB PNG with no row filtering, which is all the test's reader handles. */
+const png = ({ width, height, data }) => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.set([8, 2, 0, 0, 0], 8);
+  const rows = Buffer.alloc(height * (width * 3 + 1));
+  for (let y = 0; y < height; y++) rows.set(data.subarray(y * width * 3, (y + 1) * width * 3), y * (width * 3 + 1) + 1);
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(rows)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+};
+
+const fixtures = [
+  ["lcd-048213.png", lcd("048213", 1)],
+  ["lcd-117705.png", lcd("117705", 2, { ghost: 0.2 })],
+  ["lcd-369.png", lcd("369", 3)],
+  ["lcd-0591.4.png", lcd("05914", 4, { decimals: 1 })],
+  ["drum-dark-04821.png", drum("04821", 5)],
+  ["drum-dark-36790.png", drum("36790", 6)],
+  ["drum-dark-15562-turning.png", drum("15562", 7, { turning: 0.3 })],
+  ["drum-light-04821.png", drum("04821", 8, { light: true })],
+  ["drum-light-36790.png", drum("36790", 9, { light: true })],
+];
+
+mkdirSync(OUT, { recursive: true });
+for (const [name, image] of fixtures) writeFileSync(path.join(OUT, name), png(image));
+console.log(`Wrote ${fixtures.length} images to ${path.relative(process.cwd(), OUT)}`);
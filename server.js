@@ -18,6 +18,9 @@ app
 
     // Express 5: avoid '*' route; use a fallback middleware instead
     server.use((req, res) => {
+      // Express 5 makes req.query a getter, but Next assigns it when routing
+      // API requests; an own property lets that assignment through.
+      Object.defineProperty(req, "query", { value: req.query, writable: true, configurable: true, enumerable: true });
       return handle(req, res);
     });
 